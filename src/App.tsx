@@ -11,8 +11,10 @@ import { Card, CardContent } from "@/components/ui/card";
 // Lazy load components for better performance
 const Dashboard = lazy(() => import("./pages/Dashboard"));
 const Trades = lazy(() => import("./pages/Trades"));
+const TradeDetail = lazy(() => import("./pages/TradeDetail"));
 const Cashflow = lazy(() => import("./pages/Cashflow"));
 const Analytics = lazy(() => import("./pages/Analytics"));
+const TaxReport = lazy(() => import("./pages/TaxReport"));
 const Investors = lazy(() => import("./pages/Investors"));
 const Settings = lazy(() => import("./pages/Settings"));
 const NotFound = lazy(() => import("./pages/NotFound"));
@@ -62,8 +64,10 @@ const App = () => (
                 <Route path="/" element={<Dashboard />} />
                 <Route path="/trades" element={<Trades />} />
                 <Route path="/trades/new" element={<Trades />} />
+                <Route path="/trades/:id" element={<TradeDetail />} />
                 <Route path="/cashflow" element={<Cashflow />} />
                 <Route path="/analytics" element={<Analytics />} />
+                <Route path="/tax" element={<TaxReport />} />
                 <Route path="/investors" element={<Investors />} />
                 <Route path="/settings" element={<Settings />} />
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
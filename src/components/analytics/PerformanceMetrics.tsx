@@ -2,13 +2,17 @@ import { useMemo } from 'react';
 import { Trade } from '@/types/database';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { TrendingUp, TrendingDown, Target, Activity } from 'lucide-react';
+import { TrendingUp, TrendingDown, Target, Activity, Layers } from 'lucide-react';
+import { useCostBasisMethod } from '@/hooks/useCostBasisMethod';
+import { matchLots, realizedPnLBySellTrade, COST_BASIS_METHODS } from '@/lib/lotMatching';
 
 interface PerformanceMetricsProps {
   trades: Trade[];
 }
 
 export function PerformanceMetrics({ trades }: PerformanceMetricsProps) {
+  const { method } = useCostBasisMethod();
+
   const metrics = useMemo(() => {
     if (trades.length === 0) {
       return {
@@ -21,37 +25,50 @@ export function PerformanceMetrics({ trades }: PerformanceMetricsProps) {
         profitFactor: 0,
         bestTrade: 0,
         worstTrade: 0,
+        spotRealizedPnL: 0,
+        closedLotCount: 0,
       };
     }
 
-    const tradesWithPnL = trades.filter(trade => trade.profit_loss !== null);
-    const profitableTrades = tradesWithPnL.filter(trade => (trade.profit_loss || 0) > 0);
-    const losingTrades = tradesWithPnL.filter(trade => (trade.profit_loss || 0) < 0);
+    // Spot sells carry no manual P&L, so their results come from lot matching
+    const lotResult = matchLots(trades.filter(trade => trade.category === 'spot'), method);
+    const spotResults = Object.values(realizedPnLBySellTrade(lotResult));
+    const manualResults = trades
+      .filter(trade => trade.category !== 'spot' && trade.profit_loss !== null && trade.profit_loss !== undefined)
+      .map(trade => trade.profit_loss || 0);
+    const results = [...manualResults, ...spotResults];
+
+    const profits = results.filter(pnl => pnl > 0);
+    const losses = results.filter(pnl => pnl < 0);
 
-    const totalPnL = tradesWithPnL.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0);
-    const totalProfit = profitableTrades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0);
-    const totalLoss = Math.abs(losingTrades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0));
+    const totalPnL = results.reduce((sum, pnl) => sum + pnl, 0);
+    const totalProfit = profits.reduce((sum, pnl) => sum + pnl, 0);
+    const totalLoss = Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0));
 
-    const winRate = tradesWithPnL.length > 0 ? (profitableTrades.length / tradesWithPnL.length) * 100 : 0;
-    const avgProfit = profitableTrades.length > 0 ? totalProfit / profitableTrades.length : 0;
-    const avgLoss = losingTrades.length > 0 ? totalLoss / losingTrades.length : 0;
+    const winRate = results.length > 0 ? (profits.length / results.length) * 100 : 0;
+    const avgProfit = profits.length > 0 ? totalProfit / profits.length : 0;
+    const avgLoss = losses.length > 0 ? totalLoss / losses.length : 0;
     const profitFactor = totalLoss > 0 ? totalProfit / totalLoss : totalProfit > 0 ? Infinity : 0;
 
-    const bestTrade = Math.max(...tradesWithPnL.map(trade => trade.profit_loss || 0));
-    const worstTrade = Math.min(...tradesWithPnL.map(trade => trade.profit_loss || 0));
+    const bestTrade = results.length > 0 ? Math.max(...results) : 0;
+    const worstTrade = results.length > 0 ? Math.min(...results) : 0;
 
     return {
       totalPnL,
       winRate,
-      profitableTrades: profitableTrades.length,
-      totalTrades: tradesWithPnL.length,
+      profitableTrades: profits.length,
+      totalTrades: results.length,
       avgProfit,
       avgLoss,
       profitFactor,
       bestTrade,
       worstTrade,
+      spotRealizedPnL: lotResult.totalRealizedPnL,
+      closedLotCount: lotResult.closedLots.length,
     };
-  }, [trades]);
+  }, [trades, method]);
+
+  const methodLabel = COST_BASIS_METHODS.find(m => m.value === method)?.label || method.toUpperCase();
 
   const MetricCard = ({ 
     title, 
@@ -105,6 +122,14 @@ export function PerformanceMetrics({ trades }: PerformanceMetricsProps) {
             color={metrics.profitFactor >= 1 ? "text-success" : "text-destructive"}
           />
 
+          <MetricCard
+            title="Realized Spot P&L"
+            value={`${metrics.spotRealizedPnL < 0 ? '-' : ''}$${Math.abs(metrics.spotRealizedPnL).toLocaleString()}`}
+            subtitle={`${metrics.closedLotCount} closed lots (${methodLabel})`}
+            icon={Layers}
+            color={metrics.spotRealizedPnL >= 0 ? "text-success" : "text-destructive"}
+          />
+
           <MetricCard
             title="Average Profit"
             value={`$${metrics.avgProfit.toLocaleString()}`}
@@ -1,15 +1,36 @@
 import { useMemo } from 'react';
 import { Trade } from '@/types/database';
+import { usePriceHistory } from '@/hooks/usePriceHistory';
+import { buildEquityCurve } from '@/lib/priceHistory';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { format } from 'date-fns';
+import { CurrencyCode, currencySymbol } from '@/lib/currencies';
 
 interface PortfolioChartProps {
   trades: Trade[];
+  currency?: CurrencyCode;
 }
 
-export function PortfolioChart({ trades }: PortfolioChartProps) {
-  const chartData = useMemo(() => {
+export function PortfolioChart({ trades, currency = 'USD' }: PortfolioChartProps) {
+  const currencyTrades = useMemo(
+    () => trades.filter(trade => !trade.currency || trade.currency === currency),
+    [trades, currency]
+  );
+  const { series, loading, error } = usePriceHistory(currencyTrades, currency);
+  const hasHistory = Object.values(series).some(closes => closes.size > 0);
+
+  const equityData = useMemo(() => {
+    if (!hasHistory) return [];
+    return buildEquityCurve(currencyTrades, series).map(point => ({
+      date: format(new Date(`${point.date}T00:00:00`), 'MMM dd'),
+      value: point.marketValue,
+      costBasis: point.costBasis,
+    }));
+  }, [currencyTrades, series, hasHistory]);
+
+  // Fallback without stored closes: cumulative traded value
+  const costData = useMemo(() => {
     if (trades.length === 0) return [];
 
     // Sort trades by date
@@ -30,14 +51,23 @@ export function PortfolioChart({ trades }: PortfolioChartProps) {
     return data;
   }, [trades]);
 
+  const markToMarket = equityData.length > 0;
+  const chartData = markToMarket ? equityData : costData;
+  const symbol = currencySymbol(currency);
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
         <div className="bg-background border border-border rounded-lg p-3 shadow-lg">
           <p className="font-medium">{label}</p>
           <p className="text-primary">
-            Portfolio Value: ${payload[0].value.toLocaleString()}
+            {markToMarket ? 'Market Value' : 'Portfolio Value'}: {symbol}{payload[0].value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
           </p>
+          {markToMarket && payload[1] && (
+            <p className="text-muted-foreground">
+              Cost Basis: {symbol}{payload[1].value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+            </p>
+          )}
         </div>
       );
     }
@@ -49,7 +79,12 @@ export function PortfolioChart({ trades }: PortfolioChartProps) {
       <CardHeader>
         <CardTitle>Portfolio Value Over Time</CardTitle>
         <CardDescription>
-          Cumulative portfolio value based on trade history
+          {markToMarket
+            ? 'Spot holdings marked to daily closing prices'
+            : loading
+              ? 'Loading historical prices...'
+              : 'Cumulative portfolio value based on trade history'}
+          {error && !markToMarket && ' (historical prices unavailable)'}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -62,26 +97,40 @@ export function PortfolioChart({ trades }: PortfolioChartProps) {
                 axisLine={false}
                 tickLine={false}
                 className="text-xs"
+                minTickGap={24}
               />
               <YAxis 
                 axisLine={false}
                 tickLine={false}
                 className="text-xs"
-                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                tickFormatter={(value) => `${symbol}${(value / 1000).toFixed(0)}k`}
               />
               <Tooltip content={<CustomTooltip />} />
+              {markToMarket && <Legend />}
               <Line 
                 type="monotone" 
                 dataKey="value" 
+                name="Market Value"
                 stroke="hsl(var(--primary))" 
-                strokeWidth={3}
-                dot={{ fill: 'hsl(var(--primary))', strokeWidth: 2, r: 4 }}
+                strokeWidth={markToMarket ? 2 : 3}
+                dot={markToMarket ? false : { fill: 'hsl(var(--primary))', strokeWidth: 2, r: 4 }}
                 activeDot={{ r: 6, stroke: 'hsl(var(--primary))', strokeWidth: 2 }}
               />
+              {markToMarket && (
+                <Line
+                  type="stepAfter"
+                  dataKey="costBasis"
+                  name="Cost Basis"
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                />
+              )}
             </LineChart>
           </ResponsiveContainer>
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
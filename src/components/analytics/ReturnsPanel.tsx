@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Cashflow, Trade } from '@/types/database';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useReturns } from '@/hooks/useReturns';
+import { CurrencyCode, formatCurrency } from '@/lib/currencies';
+import { PeriodReturn, ReturnPeriodUnit } from '@/lib/returns';
+import { cn } from '@/lib/utils';
+
+interface ReturnsPanelProps {
+  trades: Trade[];
+  cashflows: Cashflow[];
+  currency?: CurrencyCode;
+  className?: string;
+}
+
+const formatReturn = (value: number | null) =>
+  value === null ? '—' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+const returnColor = (value: number | null) =>
+  value === null ? 'text-muted-foreground' : value >= 0 ? 'text-success' : 'text-destructive';
+
+export function ReturnsPanel({ trades, cashflows, currency = 'USD', className }: ReturnsPanelProps) {
+  const [unit, setUnit] = useState<ReturnPeriodUnit>('month');
+  const { sinceInception, monthly, yearly, hasCashflows, unconverted, loading, error } = useReturns(
+    trades,
+    cashflows,
+    currency
+  );
+
+  const periods = [...(unit === 'month' ? monthly : yearly)].reverse();
+
+  const headline = (title: string, value: number | null, subtitle: string) => (
+    <div className="space-y-1">
+      <div className="text-sm font-medium text-muted-foreground">{title}</div>
+      <div className={cn('text-2xl font-bold', returnColor(value))}>{formatReturn(value)}</div>
+      <div className="text-xs text-muted-foreground">{subtitle}</div>
+    </div>
+  );
+
+  const row = (period: PeriodReturn) => (
+    <TableRow key={period.label}>
+      <TableCell className="font-medium">{period.label}</TableCell>
+      <TableCell className="text-right">{formatCurrency(period.netFlows, currency)}</TableCell>
+      <TableCell className={cn('text-right', returnColor(period.gain))}>{formatCurrency(period.gain, currency)}</TableCell>
+      <TableCell className={cn('text-right', returnColor(period.twr))}>{formatReturn(period.twr)}</TableCell>
+      <TableCell className={cn('text-right', returnColor(period.modifiedDietz))}>{formatReturn(period.modifiedDietz)}</TableCell>
+      <TableCell className={cn('text-right', returnColor(period.mwr))}>{formatReturn(period.mwr)}</TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card className={cn('crypto-card', className)}>
+      <CardHeader>
+        <CardTitle>Returns</CardTitle>
+        <CardDescription>
+          Performance net of deposits and withdrawals, in {currency}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && !sinceInception ? (
+          <div className="text-sm text-muted-foreground text-center py-8">Calculating returns...</div>
+        ) : !sinceInception ? (
+          <div className="text-sm text-muted-foreground text-center py-8">No trades or cashflows yet</div>
+        ) : (
+          <>
+            {!hasCashflows && (
+              <div className="text-xs text-amber-600">
+                No deposits recorded: returns are measured against trading capital only
+              </div>
+            )}
+            {error && (
+              <div className="text-xs text-amber-600">
+                Price history unavailable ({error}); spot holdings are valued at cost
+              </div>
+            )}
+            {unconverted > 0 && (
+              <div className="text-xs text-amber-600">
+                {unconverted} record{unconverted !== 1 ? 's' : ''} excluded: no {currency} exchange rate available
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {headline('Time-Weighted Return', sinceInception.twr, 'Unaffected by deposit timing')}
+              {headline('Modified Dietz', sinceInception.modifiedDietz, 'Gain over average capital')}
+              {headline(
+                'Money-Weighted Return',
+                sinceInception.mwr,
+                sinceInception.irrAnnualized === null
+                  ? 'IRR of deposits and withdrawals'
+                  : `${formatReturn(sinceInception.irrAnnualized)} annualized IRR`
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <Tabs value={unit} onValueChange={(value) => setUnit(value as ReturnPeriodUnit)}>
+                <TabsList>
+                  <TabsTrigger value="month">Monthly</TabsTrigger>
+                  <TabsTrigger value="year">Yearly</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Net Flows</TableHead>
+                    <TableHead className="text-right">Gain</TableHead>
+                    <TableHead className="text-right">TWR</TableHead>
+                    <TableHead className="text-right">Dietz</TableHead>
+                    <TableHead className="text-right">MWR</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>{periods.map(row)}</TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,281 @@
+import { useMemo } from 'react';
+import { Cashflow, Trade } from '@/types/database';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { AreaChart, Area, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import { useReturns } from '@/hooks/useReturns';
+import { CurrencyCode, formatCurrency } from '@/lib/currencies';
+import {
+  computeExposure,
+  computeRiskMetrics,
+  dailyReturns,
+  DEFAULT_VOLATILITY_WINDOW,
+  drawdownSeries,
+  ExposureSlice,
+  rollingVolatility,
+} from '@/lib/riskMetrics';
+import { cn } from '@/lib/utils';
+
+interface RiskAnalyticsProps {
+  trades: Trade[];
+  cashflows: Cashflow[];
+  currency?: CurrencyCode;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  spot: 'Spot',
+  futures: 'Futures',
+  defi: 'DeFi',
+  dual_investment: 'Dual Investment',
+  liquidity_pool: 'Liquidity Pool',
+  liquidity_mining: 'Liquidity Mining',
+};
+
+const formatPercent = (value: number | null, digits = 2) =>
+  value === null ? '—' : `${(value * 100).toFixed(digits)}%`;
+
+const formatRatio = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00Z`), 'MMM dd, yyyy');
+
+export function RiskAnalytics({ trades, cashflows, currency = 'USD' }: RiskAnalyticsProps) {
+  const { points, trades: reportingTrades, series, loading, error } = useReturns(trades, cashflows, currency);
+
+  const risk = useMemo(() => {
+    const returns = dailyReturns(points);
+    return {
+      metrics: computeRiskMetrics(points),
+      underwater: drawdownSeries(returns).map(point => ({
+        date: point.date,
+        drawdown: point.drawdown * 100,
+      })),
+      volatility: rollingVolatility(returns).map(point => ({
+        date: point.date,
+        volatility: point.volatility * 100,
+      })),
+    };
+  }, [points]);
+
+  const exposure = useMemo(() => computeExposure(reportingTrades, series), [reportingTrades, series]);
+
+  if (loading && points.length === 0) {
+    return (
+      <Card className="crypto-card">
+        <CardContent className="py-12 text-center text-sm text-muted-foreground">
+          Calculating risk metrics...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (risk.metrics.days < 2) {
+    return (
+      <Card className="crypto-card">
+        <CardContent className="py-12 text-center text-sm text-muted-foreground">
+          Not enough history yet: risk metrics need at least two days of account value
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { metrics } = risk;
+
+  const metric = (title: string, value: string, subtitle: string, color = 'text-foreground') => (
+    <div className="space-y-1">
+      <div className="text-sm font-medium text-muted-foreground">{title}</div>
+      <div className={cn('text-2xl font-bold', color)}>{value}</div>
+      <div className="text-xs text-muted-foreground">{subtitle}</div>
+    </div>
+  );
+
+  const exposureRows = (slices: ExposureSlice[], label: (key: string) => string) => (
+    <div className="space-y-3">
+      {slices.length === 0 && (
+        <div className="text-sm text-muted-foreground text-center py-4">No open positions</div>
+      )}
+      {slices.map(slice => (
+        <div key={slice.key} className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{label(slice.key)}</span>
+            <span className={slice.value < 0 ? 'text-destructive' : ''}>
+              {formatCurrency(slice.value, currency)} · {formatPercent(slice.weight, 1)}
+            </span>
+          </div>
+          <Progress value={slice.weight * 100} className="h-2" />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="crypto-card">
+        <CardHeader>
+          <CardTitle>Risk Metrics</CardTitle>
+          <CardDescription>
+            From {metrics.days} days of account value, net of deposits and withdrawals
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && (
+            <div className="text-xs text-amber-600">
+              Price history unavailable ({error}); spot holdings are valued at cost
+            </div>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+            {metric(
+              'Max Drawdown',
+              formatPercent(metrics.maxDrawdown),
+              metrics.peakDate && metrics.troughDate
+                ? `${formatDay(metrics.peakDate)} → ${formatDay(metrics.troughDate)}`
+                : 'No drawdown',
+              metrics.maxDrawdown < 0 ? 'text-destructive' : 'text-success'
+            )}
+            {metric(
+              'Drawdown Duration',
+              `${metrics.maxDrawdownDays}d`,
+              metrics.recoveryDate
+                ? `Recovered ${formatDay(metrics.recoveryDate)}`
+                : metrics.peakDate ? 'Not yet recovered' : 'No drawdown'
+            )}
+            {metric('Volatility', formatPercent(metrics.annualizedVolatility), 'Annualized, daily returns')}
+            {metric(
+              'Annualized Return',
+              formatPercent(metrics.annualizedReturn),
+              `${formatPercent(metrics.totalReturn)} total`,
+              (metrics.annualizedReturn || 0) >= 0 ? 'text-success' : 'text-destructive'
+            )}
+            {metric('Sharpe Ratio', formatRatio(metrics.sharpeRatio), 'Return per unit of volatility')}
+            {metric('Sortino Ratio', formatRatio(metrics.sortinoRatio), 'Return per unit of downside risk')}
+            {metric('Calmar Ratio', formatRatio(metrics.calmarRatio), 'Annualized return / max drawdown')}
+            {metric(
+              'Current Drawdown',
+              formatPercent(metrics.currentDrawdown),
+              `Longest underwater: ${metrics.longestDrawdownDays}d`,
+              metrics.currentDrawdown < 0 ? 'text-destructive' : 'text-success'
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="crypto-card">
+          <CardHeader>
+            <CardTitle>Underwater Chart</CardTitle>
+            <CardDescription>Distance below the running peak</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={risk.underwater}>
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                  <XAxis
+                    dataKey="date"
+                    axisLine={false}
+                    tickLine={false}
+                    className="text-xs"
+                    tickFormatter={(date) => format(new Date(`${date}T00:00:00Z`), 'MMM dd')}
+                  />
+                  <YAxis
+                    axisLine={false}
+                    tickLine={false}
+                    className="text-xs"
+                    tickFormatter={(value) => `${value.toFixed(0)}%`}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => [`${value.toFixed(2)}%`, 'Drawdown']}
+                    labelFormatter={(date: string) => formatDay(date)}
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="drawdown"
+                    stroke="hsl(var(--destructive))"
+                    fill="hsl(var(--destructive))"
+                    fillOpacity={0.2}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="crypto-card">
+          <CardHeader>
+            <CardTitle>Rolling Volatility</CardTitle>
+            <CardDescription>Annualized, trailing {DEFAULT_VOLATILITY_WINDOW} days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-64">
+              {risk.volatility.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+                  Needs {DEFAULT_VOLATILITY_WINDOW} days of history
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={risk.volatility}>
+                    <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                    <XAxis
+                      dataKey="date"
+                      axisLine={false}
+                      tickLine={false}
+                      className="text-xs"
+                      tickFormatter={(date) => format(new Date(`${date}T00:00:00Z`), 'MMM dd')}
+                    />
+                    <YAxis
+                      axisLine={false}
+                      tickLine={false}
+                      className="text-xs"
+                      tickFormatter={(value) => `${value.toFixed(0)}%`}
+                    />
+                    <Tooltip
+                      formatter={(value: number) => [`${value.toFixed(2)}%`, 'Volatility']}
+                      labelFormatter={(date: string) => formatDay(date)}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="volatility"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="crypto-card">
+          <CardHeader>
+            <CardTitle>Exposure by Asset</CardTitle>
+            <CardDescription>
+              Gross {formatCurrency(exposure.grossExposure, currency)} · net {formatCurrency(exposure.netExposure, currency)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between text-sm p-3 bg-muted/50 rounded-lg">
+              <span className="text-muted-foreground">Concentration (HHI)</span>
+              <span className="font-medium">
+                {exposure.concentration.toFixed(2)} · behaves like {exposure.effectiveAssets.toFixed(1)} assets
+              </span>
+            </div>
+            {exposureRows(exposure.byAsset, key => key)}
+          </CardContent>
+        </Card>
+
+        <Card className="crypto-card">
+          <CardHeader>
+            <CardTitle>Exposure by Category</CardTitle>
+            <CardDescription>Share of gross exposure</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {exposureRows(exposure.byCategory, key => CATEGORY_LABELS[key] || key)}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useMemo } from 'react';
+import { Trade } from '@/types/database';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import { usePriceHistory } from '@/hooks/usePriceHistory';
+import { CurrencyCode, formatCurrency } from '@/lib/currencies';
+import {
+  buildRoundTrips,
+  formatHoldingPeriod,
+  holdingTimeHistogram,
+  summarizeRoundTrips,
+  withExcursions,
+} from '@/lib/roundTrips';
+import { cn } from '@/lib/utils';
+
+interface RoundTripAnalysisProps {
+  trades: Trade[];
+  currency?: CurrencyCode;
+}
+
+// Most recent trips shown in the table
+const TABLE_LIMIT = 50;
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+export function RoundTripAnalysis({ trades, currency = 'USD' }: RoundTripAnalysisProps) {
+  const { series } = usePriceHistory(trades, currency);
+
+  const trips = useMemo(() => withExcursions(buildRoundTrips(trades), series), [trades, series]);
+  const summary = useMemo(() => summarizeRoundTrips(trips), [trips]);
+  const histogram = useMemo(() => holdingTimeHistogram(trips), [trips]);
+  const recentTrips = useMemo(() => [...trips].reverse().slice(0, TABLE_LIMIT), [trips]);
+
+  if (trips.length === 0) {
+    return (
+      <Card className="crypto-card">
+        <CardContent className="py-12 text-center text-sm text-muted-foreground">
+          No spot or futures round trips yet
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const metric = (title: string, value: string, subtitle: string) => (
+    <div className="space-y-1">
+      <div className="text-sm font-medium text-muted-foreground">{title}</div>
+      <div className="text-2xl font-bold">{value}</div>
+      <div className="text-xs text-muted-foreground">{subtitle}</div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="crypto-card">
+          <CardHeader>
+            <CardTitle>Round Trips</CardTitle>
+            <CardDescription>Entries paired with exits per asset and category</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-6">
+              {metric('Closed', `${summary.closedCount}`, `${summary.openCount} still open`)}
+              {metric('Win Rate', `${summary.winRate.toFixed(1)}%`, 'Of closed round trips')}
+              {metric(
+                'Avg Holding Time',
+                formatHoldingPeriod(summary.avgHoldingDays),
+                `Median ${formatHoldingPeriod(summary.medianHoldingDays)}`
+              )}
+              {metric(
+                'Avg R-Multiple',
+                summary.avgRMultiple === null ? '—' : `${summary.avgRMultiple.toFixed(2)}R`,
+                `Avg P&L ${formatCurrency(summary.avgPnL, currency)}`
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="crypto-card">
+          <CardHeader>
+            <CardTitle>Holding Time</CardTitle>
+            <CardDescription>Closed round trips by time in the market</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={histogram}>
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                  <XAxis dataKey="label" axisLine={false} tickLine={false} className="text-xs" />
+                  <YAxis axisLine={false} tickLine={false} className="text-xs" allowDecimals={false} />
+                  <Tooltip
+                    formatter={(value: number, name: string) => [value, name === 'count' ? 'Round trips' : name]}
+                  />
+                  <Bar dataKey="count" fill="hsl(var(--primary))" radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="crypto-card">
+        <CardHeader>
+          <CardTitle>Round Trip Log</CardTitle>
+          <CardDescription>
+            R-multiples use the stop loss on the first entry; MAE/MFE come from daily closes
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Asset</TableHead>
+                <TableHead>Opened</TableHead>
+                <TableHead>Held</TableHead>
+                <TableHead className="text-right">Entry</TableHead>
+                <TableHead className="text-right">Exit</TableHead>
+                <TableHead className="text-right">P&L</TableHead>
+                <TableHead className="text-right">R</TableHead>
+                <TableHead className="text-right">MAE</TableHead>
+                <TableHead className="text-right">MFE</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recentTrips.map(trip => (
+                <TableRow key={`${trip.category}-${trip.id}`}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{trip.asset}</span>
+                      <Badge variant="outline" className="text-xs capitalize">
+                        {trip.category} {trip.side}
+                      </Badge>
+                      {trip.status === 'open' && <Badge variant="secondary" className="text-xs">Open</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>{format(new Date(trip.openedAt), 'MMM dd, yyyy')}</TableCell>
+                  <TableCell>{formatHoldingPeriod(trip.holdingDays)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(trip.entryPrice, currency)}</TableCell>
+                  <TableCell className="text-right">
+                    {trip.exitPrice === null ? '—' : formatCurrency(trip.exitPrice, currency)}
+                  </TableCell>
+                  <TableCell className={cn('text-right', trip.pnl >= 0 ? 'text-success' : 'text-destructive')}>
+                    {formatCurrency(trip.pnl, currency)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {trip.rMultiple === null ? '—' : `${trip.rMultiple.toFixed(2)}R`}
+                  </TableCell>
+                  <TableCell className="text-right text-destructive">{formatPercent(trip.mae)}</TableCell>
+                  <TableCell className="text-right text-success">{formatPercent(trip.mfe)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
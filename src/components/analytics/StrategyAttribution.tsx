@@ -0,0 +1,118 @@
+import { useMemo } from 'react';
+import { Strategy, Tag, Trade } from '@/types/database';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { CurrencyCode, formatCurrency } from '@/lib/currencies';
+import { AttributionRow, attributionByStrategy, attributionByTag } from '@/lib/tradeTags';
+import { cn } from '@/lib/utils';
+
+interface StrategyAttributionProps {
+  trades: Trade[];
+  strategies: Strategy[];
+  tags: Tag[];
+  currency?: CurrencyCode;
+}
+
+export function StrategyAttribution({ trades, strategies, tags, currency = 'USD' }: StrategyAttributionProps) {
+  const byStrategy = useMemo(() => attributionByStrategy(trades, strategies), [trades, strategies]);
+  const byTag = useMemo(() => attributionByTag(trades, tags), [trades, tags]);
+
+  const pnlClass = (value: number) => (value >= 0 ? 'text-success' : 'text-destructive');
+
+  const renderRows = (rows: AttributionRow[], emptyMessage: string) => {
+    if (rows.length === 0) {
+      return <div className="py-12 text-center text-sm text-muted-foreground">{emptyMessage}</div>;
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} className="text-xs" />
+              <YAxis
+                axisLine={false}
+                tickLine={false}
+                className="text-xs"
+                tickFormatter={(value) => formatCurrency(value, currency)}
+              />
+              <Tooltip formatter={(value: number) => [formatCurrency(value, currency), 'P&L']} />
+              <Bar dataKey="pnl" radius={[2, 2, 0, 0]}>
+                {rows.map(row => (
+                  <Cell
+                    key={row.key}
+                    fill={row.pnl >= 0 ? 'hsl(var(--success))' : 'hsl(var(--destructive))'}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Results</TableHead>
+              <TableHead className="text-right">Win Rate</TableHead>
+              <TableHead className="text-right">Avg Win</TableHead>
+              <TableHead className="text-right">Avg Loss</TableHead>
+              <TableHead className="text-right">Expectancy</TableHead>
+              <TableHead className="text-right">P&L</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell>
+                  <div className="flex items-center gap-2 font-medium">
+                    {row.color && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: row.color }} />}
+                    {row.name}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{row.results}</TableCell>
+                <TableCell className="text-right">{row.winRate.toFixed(1)}%</TableCell>
+                <TableCell className="text-right text-success">{formatCurrency(row.avgWin, currency)}</TableCell>
+                <TableCell className="text-right text-destructive">{formatCurrency(row.avgLoss, currency)}</TableCell>
+                <TableCell className={cn('text-right', pnlClass(row.expectancy))}>
+                  {formatCurrency(row.expectancy, currency)}
+                </TableCell>
+                <TableCell className={cn('text-right font-medium', pnlClass(row.pnl))}>
+                  {formatCurrency(row.pnl, currency)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="crypto-card">
+      <CardHeader>
+        <CardTitle>Strategy Attribution</CardTitle>
+        <CardDescription>
+          Closed round trips and investments by strategy and tag; a result counts toward every tag on its trades
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="strategy">
+          <TabsList>
+            <TabsTrigger value="strategy">By Strategy</TabsTrigger>
+            <TabsTrigger value="tag">By Tag</TabsTrigger>
+          </TabsList>
+          <TabsContent value="strategy" className="mt-4">
+            {renderRows(byStrategy, 'No closed results yet')}
+          </TabsContent>
+          <TabsContent value="tag" className="mt-4">
+            {renderRows(byTag, 'No closed results yet')}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+import { useMemo } from 'react';
+import { Cashflow, Trade } from '@/types/database';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { CurrencyCode, formatCurrency } from '@/lib/currencies';
+import { attributionByOwner } from '@/lib/tradeTags';
+import { BoundTrader } from '@/lib/boundTraders';
+import { cn } from '@/lib/utils';
+
+interface TraderAttributionProps {
+  // Already converted to `currency`
+  trades: Trade[];
+  cashflows: Cashflow[];
+  traders: BoundTrader[];
+  currency?: CurrencyCode;
+}
+
+export function TraderAttribution({ trades, cashflows, traders, currency = 'USD' }: TraderAttributionProps) {
+  const rows = useMemo(() => {
+    const results = attributionByOwner(trades, traders.map(trader => ({ id: trader.id, name: trader.username })));
+    const totalPnL = results.reduce((sum, row) => sum + row.pnl, 0);
+    const totalMagnitude = results.reduce((sum, row) => sum + Math.abs(row.pnl), 0);
+
+    return results.map(row => {
+      const ownFlows = cashflows.filter(cashflow => cashflow.user_id === row.key);
+      const netDeposits = ownFlows.reduce(
+        (sum, cashflow) => sum + (cashflow.type === 'deposit' ? cashflow.amount : -cashflow.amount),
+        0
+      );
+
+      return {
+        ...row,
+        trader: traders.find(trader => trader.id === row.key),
+        tradeCount: trades.filter(trade => trade.user_id === row.key).length,
+        netDeposits,
+        // Share of the combined result; by magnitude when gains and losses cancel out
+        share: totalPnL !== 0
+          ? (row.pnl / totalPnL) * 100
+          : totalMagnitude > 0 ? (Math.abs(row.pnl) / totalMagnitude) * 100 : 0,
+      };
+    });
+  }, [trades, cashflows, traders]);
+
+  const pnlClass = (value: number) => (value >= 0 ? 'text-success' : 'text-destructive');
+
+  return (
+    <Card className="crypto-card">
+      <CardHeader>
+        <CardTitle>Trader Attribution</CardTitle>
+        <CardDescription>
+          Closed round trips and investments of each trader you follow; round trips are matched within each trader's own journal
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="py-12 text-center text-sm text-muted-foreground">No approved traders yet</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Trader</TableHead>
+                <TableHead className="text-right">Trades</TableHead>
+                <TableHead className="text-right">Results</TableHead>
+                <TableHead className="text-right">Win Rate</TableHead>
+                <TableHead className="text-right">Net Deposits</TableHead>
+                <TableHead className="text-right">P&L</TableHead>
+                <TableHead className="text-right">Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell>
+                    <div className="flex items-center gap-2 font-medium">
+                      <Avatar className="w-6 h-6">
+                        <AvatarImage src={row.trader?.avatar_url} />
+                        <AvatarFallback className="text-xs">{row.name.charAt(0).toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      {row.name}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{row.tradeCount}</TableCell>
+                  <TableCell className="text-right">{row.results}</TableCell>
+                  <TableCell className="text-right">{row.winRate.toFixed(1)}%</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.netDeposits, currency)}</TableCell>
+                  <TableCell className={cn('text-right font-medium', pnlClass(row.pnl))}>
+                    {formatCurrency(row.pnl, currency)}
+                  </TableCell>
+                  <TableCell className="text-right">{row.share.toFixed(1)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PieChart, Scale } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFundNav } from '@/hooks/useCapitalAccounts';
+import { capitalAccountsKey, openCapitalAccounts, priceCashflows, valueAccount } from '@/lib/capitalAccounts';
+import { CurrencyCode, formatCurrency } from '@/lib/currencies';
+import { Cashflow, Trade } from '@/types/database';
+import { cn } from '@/lib/utils';
+
+interface CapitalAccountsCardProps {
+  traderId: string;
+  trades: Trade[];
+  cashflows: Cashflow[];
+  currency: CurrencyCode;
+  className?: string;
+}
+
+const formatUnits = (units: number) => units.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatReturn = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+export function CapitalAccountsCard({ traderId, trades, cashflows, currency, className }: CapitalAccountsCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [working, setWorking] = useState(false);
+  const { capital, fundValue, settledValue, nav, unpriced, ready, loading, error } = useFundNav(
+    traderId,
+    trades,
+    cashflows,
+    currency
+  );
+
+  const run = async (action: () => Promise<void>) => {
+    setWorking(true);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: capitalAccountsKey(traderId) });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleOpen = () => run(async () => {
+    await openCapitalAccounts(fundValue);
+    toast({
+      title: "Capital accounts opened",
+      description: `Your ${formatCurrency(fundValue, currency)} fund is now ${formatUnits(Math.max(fundValue, 0))} units at ${formatCurrency(1, currency)}.`,
+    });
+  });
+
+  const handlePrice = () => run(async () => {
+    const priced = await priceCashflows(unpriced, fundValue);
+    toast({
+      title: "Units issued",
+      description: `${priced} transaction${priced === 1 ? '' : 's'} priced at ${formatCurrency(nav, currency)} per unit.`,
+    });
+  });
+
+  const opened = !!capital?.openedAt;
+  const totalUnits = capital?.totalUnits ?? 0;
+
+  return (
+    <Card className={cn('crypto-card', className)}>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <PieChart className="h-5 w-5" />
+            Capital Accounts
+          </CardTitle>
+          <CardDescription>
+            Deposits buy units and withdrawals redeem them at the fund's value per unit
+          </CardDescription>
+        </div>
+        {opened && (
+          <div className="text-right">
+            <div className="text-xs text-muted-foreground">NAV per unit</div>
+            <div className="text-lg font-semibold">{ready ? formatCurrency(nav, currency) : '—'}</div>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+
+        {loading ? (
+          <div className="text-sm text-muted-foreground">Loading capital accounts...</div>
+        ) : !opened ? (
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 bg-muted/50 rounded-lg">
+            <div className="text-sm">
+              <div className="font-medium">Track each investor's share of the fund</div>
+              <div className="text-muted-foreground">
+                The fund's current value of {ready ? formatCurrency(fundValue, currency) : '…'} becomes your
+                opening balance at {formatCurrency(1, currency)} per unit. Transactions recorded after that are
+                priced into each holder's account.
+              </div>
+            </div>
+            <Button onClick={handleOpen} disabled={!ready || working}>
+              <Scale className="w-4 h-4 mr-2" />
+              Open Accounts
+            </Button>
+          </div>
+        ) : (
+          <>
+            {unpriced.length > 0 && (
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                <div className="text-sm">
+                  <div className="font-medium">
+                    {unpriced.length} transaction{unpriced.length === 1 ? '' : 's'} awaiting units
+                  </div>
+                  <div className="text-muted-foreground">
+                    Priced at today's value, oldest first
+                  </div>
+                </div>
+                <Button onClick={handlePrice} disabled={!ready || working}>
+                  Issue Units
+                </Button>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Holder</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="text-right">Contributed</TableHead>
+                  <TableHead className="text-right">Withdrawn</TableHead>
+                  <TableHead className="text-right">Fees Paid</TableHead>
+                  <TableHead className="text-right">Return</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {capital.accounts.map(account => {
+                  const value = valueAccount(account, nav, totalUnits);
+                  return (
+                    <TableRow key={account.holderId}>
+                      <TableCell className="font-medium">
+                        {account.username}
+                        {account.holderId === traderId && (
+                          <Badge variant="outline" className="ml-2">You</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatUnits(account.units)}</TableCell>
+                      <TableCell className="text-right">{(value.share * 100).toFixed(2)}%</TableCell>
+                      <TableCell className="text-right">{formatCurrency(value.balance, currency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(account.contributed, currency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(account.withdrawn, currency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(account.feesPaid, currency)}</TableCell>
+                      <TableCell className={cn('text-right', value.gain >= 0 ? 'text-success' : 'text-destructive')}>
+                        {formatReturn(value.returnPct)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{formatUnits(totalUnits)} units outstanding</span>
+              <span>Priced fund value {formatCurrency(settledValue, currency)}</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,31 +2,42 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useFundInvestors } from '@/hooks/useCapitalAccounts';
 import { Tables } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { CalendarIcon, ArrowDownCircle, ArrowUpCircle } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { CURRENCIES, formatCurrency, isCurrencyCode } from '@/lib/currencies';
+import { Cashflow as CashflowRow } from '@/types/database';
+import { isNetworkError, newRecordId } from '@/lib/offlineQueue';
+import { saveOffline } from '@/lib/offlineSync';
 
 type CashflowType = 'deposit' | 'withdrawal';
 type Cashflow = Tables<'cashflows'>;
 
+// Select value for the trader's own capital
+const OWN_CAPITAL = 'own';
+
 const cashflowSchema = z.object({
   type: z.enum(['deposit', 'withdrawal']),
   amount: z.number().positive('Amount must be positive'),
+  currency: z.string().refine(isCurrencyCode, 'Unsupported currency'),
   source: z.string().optional(),
   destination: z.string().optional(),
   transaction_date: z.date(),
   notes: z.string().optional(),
+  investor_id: z.string(),
 });
 
 interface CashflowFormProps {
@@ -38,21 +49,26 @@ interface CashflowFormProps {
 export function CashflowForm({ type, onSuccess, cashflow }: CashflowFormProps) {
   const { profile } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
+  const { investors } = useFundInvestors(profile?.role === 'trader' ? profile.id : undefined);
 
   const form = useForm({
     resolver: zodResolver(cashflowSchema),
     defaultValues: {
       type: cashflow?.type || type,
       amount: cashflow?.amount || 0,
+      currency: cashflow?.currency || profile?.currency || 'USD',
       source: cashflow?.source || '',
       destination: cashflow?.destination || '',
       transaction_date: cashflow?.transaction_date ? new Date(cashflow.transaction_date) : new Date(),
       notes: cashflow?.notes || '',
+      investor_id: cashflow?.investor_id || OWN_CAPITAL,
     },
   });
 
   const watchedType = form.watch('type');
+  const watchedCurrency = form.watch('currency');
 
   const onSubmit = async (data: any) => {
     if (!profile) return;
@@ -63,36 +79,66 @@ export function CashflowForm({ type, onSuccess, cashflow }: CashflowFormProps) {
         user_id: profile.id,
         type: data.type,
         amount: data.amount,
-        currency: profile.currency,
+        currency: data.currency,
         source: data.type === 'deposit' ? data.source : null,
         destination: data.type === 'withdrawal' ? data.destination : null,
         transaction_date: data.transaction_date.toISOString(),
         notes: data.notes || null,
+        investor_id: data.investor_id === OWN_CAPITAL ? null : data.investor_id,
+      };
+
+      // Generated here so a retried insert cannot record the transaction twice
+      const cashflowId = cashflow?.id || newRecordId();
+
+      const saveOnline = async () => {
+        const result = cashflow?.id
+          ? await supabase
+            .from('cashflows')
+            .update(cashflowData)
+            .eq('id', cashflow.id)
+            .select()
+            .single()
+          : await supabase
+            .from('cashflows')
+            .insert({ ...cashflowData, id: cashflowId })
+            .select()
+            .single();
+
+        const { error } = result;
+        if (error) throw error;
       };
 
-      let result;
-      if (cashflow?.id) {
-        result = await supabase
-          .from('cashflows')
-          .update(cashflowData)
-          .eq('id', cashflow.id)
-          .select()
-          .single();
-      } else {
-        result = await supabase
-          .from('cashflows')
-          .insert(cashflowData)
-          .select()
-          .single();
+      let offline = !navigator.onLine;
+      if (!offline) {
+        try {
+          await saveOnline();
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          offline = true;
+        }
       }
 
-      const { error } = result;
-      if (error) throw error;
+      if (offline) {
+        await saveOffline(queryClient, {
+          table: 'cashflows',
+          op: cashflow?.id ? 'update' : 'insert',
+          recordId: cashflowId,
+          ownerId: profile.id,
+          payload: cashflowData,
+          baseUpdatedAt: cashflow?.updated_at ?? null,
+        }, (cashflow as CashflowRow | undefined) ?? null);
+      }
 
-      toast({
-        title: cashflow?.id ? "Transaction Updated" : "Transaction Recorded",
-        description: `${data.type === 'deposit' ? 'Deposit' : 'Withdrawal'} of ${profile.currency === 'USD' ? '$' : '₱'}${data.amount.toLocaleString()} has been ${cashflow?.id ? 'updated' : 'recorded'}.`,
-      });
+      const label = `${data.type === 'deposit' ? 'Deposit' : 'Withdrawal'} of ${formatCurrency(data.amount, data.currency)}`;
+      toast(offline
+        ? {
+          title: "Saved offline",
+          description: `${label} is stored on this device and will sync when you're back online.`,
+        }
+        : {
+          title: cashflow?.id ? "Transaction Updated" : "Transaction Recorded",
+          description: `${label} has been ${cashflow?.id ? 'updated' : 'recorded'}.`,
+        });
 
       onSuccess();
     } catch (error: any) {
@@ -144,25 +190,52 @@ export function CashflowForm({ type, onSuccess, cashflow }: CashflowFormProps) {
           )}
         />
 
-        <FormField
-          control={form.control}
-          name="amount"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Amount ({profile?.currency || 'USD'})</FormLabel>
-              <FormControl>
-                <Input
-                  type="number"
-                  step="0.01"
-                  placeholder="0.00"
-                  {...field}
-                  onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount ({watchedCurrency})</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="0.00"
+                    {...field}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CURRENCIES.map(currency => (
+                      <SelectItem key={currency.code} value={currency.code}>
+                        {currency.code} · {currency.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
 
         {watchedType === 'deposit' ? (
           <FormField
@@ -216,6 +289,37 @@ export function CashflowForm({ type, onSuccess, cashflow }: CashflowFormProps) {
           />
         )}
 
+        {investors.length > 0 && (
+          <FormField
+            control={form.control}
+            name="investor_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Capital Account</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={OWN_CAPITAL}>My own capital</SelectItem>
+                    {investors.map(investor => (
+                      <SelectItem key={investor.id} value={investor.id}>
+                        {investor.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  {watchedType === 'deposit' ? 'Buys' : 'Redeems'} units in this account at the fund's current value
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <FormField
           control={form.control}
           name="transaction_date"
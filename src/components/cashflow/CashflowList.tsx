@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Tables } from '@/integrations/supabase/types';
 import { Card, CardContent } from '@/components/ui/card';
@@ -31,6 +32,11 @@ import {
 import { MoreHorizontal, Edit, Trash2, ArrowDownCircle, ArrowUpCircle, DollarSign } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
+import { sortCashflows } from '@/lib/sorting';
+import { CurrencyCode, formatCurrency as formatMoney } from '@/lib/currencies';
+import { Cashflow as CashflowRow } from '@/types/database';
+import { isNetworkError } from '@/lib/offlineQueue';
+import { saveOffline } from '@/lib/offlineSync';
 
 type Cashflow = Tables<'cashflows'>;
 
@@ -39,10 +45,12 @@ interface CashflowListProps {
   type?: 'deposit' | 'withdrawal';
   sortBy?: string;
   loading?: boolean;
-  currency: 'USD' | 'PHP';
+  currency: CurrencyCode;
   isTrader: boolean;
   onUpdate: () => void;
   onEdit?: (cashflow: Cashflow) => void;
+  // Trader names by user id; adds a Trader column when flows of several traders are listed
+  ownerNames?: Record<string, string>;
 }
 
 export function CashflowList({ 
@@ -53,9 +61,11 @@ export function CashflowList({
   currency,
   isTrader,
   onUpdate,
-  onEdit
+  onEdit,
+  ownerNames
 }: CashflowListProps) {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [deletingCashflow, setDeletingCashflow] = useState<Cashflow | null>(null);
 
   // Filter cashflows by type if specified
@@ -64,38 +74,38 @@ export function CashflowList({
     : cashflows;
 
   // Sort cashflows
-  const sortedCashflows = [...filteredCashflows].sort((a, b) => {
-    switch (sortBy) {
-      case 'date_asc':
-        return new Date(a.transaction_date).getTime() - new Date(b.transaction_date).getTime();
-      case 'date_desc':
-        return new Date(b.transaction_date).getTime() - new Date(a.transaction_date).getTime();
-      case 'amount_asc':
-        return a.amount - b.amount;
-      case 'amount_desc':
-        return b.amount - a.amount;
-      case 'type':
-        if (a.type !== b.type) return a.type.localeCompare(b.type);
-        return new Date(b.transaction_date).getTime() - new Date(a.transaction_date).getTime();
-      default:
-        return new Date(b.transaction_date).getTime() - new Date(a.transaction_date).getTime();
-    }
-  });
+  const sortedCashflows = sortCashflows(filteredCashflows, sortBy);
 
   const handleDelete = async (cashflow: Cashflow) => {
     try {
-      const { error } = await supabase
-        .from('cashflows')
-        .delete()
-        .eq('id', cashflow.id);
+      let offline = !navigator.onLine;
+      if (!offline) {
+        const { error } = await supabase
+          .from('cashflows')
+          .delete()
+          .eq('id', cashflow.id);
 
-      if (error) throw error;
+        if (error && !isNetworkError(error)) throw error;
+        offline = !!error;
+      }
 
       setDeletingCashflow(null);
+      if (offline) {
+        await saveOffline(queryClient, {
+          table: 'cashflows',
+          op: 'delete',
+          recordId: cashflow.id,
+          ownerId: cashflow.user_id,
+          payload: {},
+          baseUpdatedAt: cashflow.updated_at,
+        }, cashflow as CashflowRow);
+      }
       
       toast({
         title: "Transaction deleted",
-        description: "The transaction has been successfully deleted.",
+        description: offline
+          ? "The transaction will be deleted when you're back online."
+          : "The transaction has been successfully deleted.",
       });
 
       onUpdate();
@@ -108,13 +118,7 @@ export function CashflowList({
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 2,
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
 
   const getTypeBadge = (type: string) => {
     return type === 'deposit' ? (
@@ -170,6 +174,7 @@ export function CashflowList({
           <Table>
             <TableHeader>
               <TableRow>
+                {ownerNames && <TableHead>Trader</TableHead>}
                 <TableHead>Type</TableHead>
                 <TableHead>Amount</TableHead>
                 <TableHead>Source/Destination</TableHead>
@@ -181,6 +186,9 @@ export function CashflowList({
             <TableBody>
               {sortedCashflows.map((cashflow) => (
                 <TableRow key={cashflow.id}>
+                  {ownerNames && (
+                    <TableCell className="text-muted-foreground">{ownerNames[cashflow.user_id] || 'Unknown'}</TableCell>
+                  )}
                   <TableCell>{getTypeBadge(cashflow.type)}</TableCell>
                   <TableCell className="font-medium">
                     <span className={`${
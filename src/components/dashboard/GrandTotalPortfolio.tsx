@@ -1,21 +1,32 @@
-import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { RefreshCw, TrendingUp, TrendingDown, Wallet, DollarSign, Activity } from 'lucide-react';
-import { usePortfolioPnL, usePriceCache } from '@/hooks/usePriceData';
+import { usePriceCache } from '@/hooks/usePriceData';
+import { usePortfolioValuation } from '@/hooks/usePortfolioValuation';
 import { Trade, Cashflow } from '@/types/database';
 import { cn } from '@/lib/utils';
+import { CurrencyCode, formatCurrency as formatMoney } from '@/lib/currencies';
 
 interface GrandTotalPortfolioProps {
   trades: Trade[];
   cashflows: Cashflow[];
-  currency: 'USD' | 'PHP';
+  currency: CurrencyCode;
   className?: string;
 }
 
 export function GrandTotalPortfolio({ trades, cashflows, currency, className }: GrandTotalPortfolioProps) {
-  const { portfolioData, loading, error, lastUpdated, refetch } = usePortfolioPnL(trades, currency);
+  // Every total is stated in the reporting currency at each record's trade-date FX rate
+  const {
+    unconverted,
+    pending,
+    priced,
+    loading,
+    error,
+    lastUpdated,
+    refetch,
+    ...grandTotalData
+  } = usePortfolioValuation(trades, cashflows, currency);
   const { clearCache, isClearing } = usePriceCache();
 
   const handleRefresh = async () => {
@@ -23,80 +34,13 @@ export function GrandTotalPortfolio({ trades, cashflows, currency, className }:
     await refetch();
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
 
   const formatPercentage = (percentage: number) => {
     return `${percentage >= 0 ? '+' : ''}${percentage.toFixed(2)}%`;
   };
 
-  // Calculate cashflow totals
-  const cashflowData = React.useMemo(() => {
-    const totalDeposits = cashflows
-      .filter(cf => cf.type === 'deposit')
-      .reduce((sum, cf) => sum + cf.amount, 0);
-    
-    const totalWithdrawals = cashflows
-      .filter(cf => cf.type === 'withdrawal')
-      .reduce((sum, cf) => sum + cf.amount, 0);
-    
-    const netCashflow = totalDeposits - totalWithdrawals;
-    
-    return {
-      totalDeposits,
-      totalWithdrawals,
-      netCashflow
-    };
-  }, [cashflows]);
-
-  // Calculate manual P&L from non-spot trades (investments)
-  const manualPnL = React.useMemo(() => {
-    return trades
-      .filter(trade => !['spot', 'futures'].includes(trade.category))
-      .reduce((sum, trade) => sum + (trade.profit_loss || 0), 0);
-  }, [trades]);
-
-  // Calculate grand total portfolio value
-  const grandTotalData = React.useMemo(() => {
-    const spotCurrentValue = portfolioData?.totalCurrentValue || 0;
-    const spotInvested = portfolioData?.totalInvested || 0;
-    const spotUnrealizedPnL = portfolioData?.totalUnrealizedPnL || 0;
-    
-    // Calculate non-spot investments value (initial investment + P&L)
-    const nonSpotTrades = trades.filter(trade => !['spot', 'futures'].includes(trade.category));
-    const nonSpotInvested = nonSpotTrades.reduce((sum, trade) => sum + (trade.price * trade.quantity) + (trade.fees || 0), 0);
-    const nonSpotCurrentValue = nonSpotInvested + manualPnL;
-    
-    // Grand totals
-    const totalInvested = spotInvested + nonSpotInvested;
-    const totalCurrentValue = spotCurrentValue + nonSpotCurrentValue;
-    const totalUnrealizedPnL = spotUnrealizedPnL + manualPnL;
-    const totalCash = cashflowData.netCashflow;
-    
-    // Grand total including cash
-    const grandTotalValue = totalCurrentValue + totalCash;
-    const totalPnLPercentage = totalInvested > 0 ? (totalUnrealizedPnL / totalInvested) * 100 : 0;
-    
-    return {
-      grandTotalValue,
-      totalInvested,
-      totalCurrentValue,
-      totalUnrealizedPnL,
-      totalPnLPercentage,
-      totalCash,
-      spotValue: spotCurrentValue,
-      nonSpotValue: nonSpotCurrentValue,
-      cashflowData
-    };
-  }, [portfolioData, manualPnL, cashflowData, trades]);
-
-  if (loading && !portfolioData) {
+  if (loading && !priced) {
     return (
       <Card className={cn("animate-pulse", className)}>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -154,6 +98,11 @@ export function GrandTotalPortfolio({ trades, cashflows, currency, className }:
               Updated {lastUpdated.toLocaleTimeString()} (prices refresh every 30min)
             </div>
           )}
+          {unconverted > 0 && !pending && (
+            <div className="text-xs text-amber-600 mt-1">
+              {unconverted} record{unconverted !== 1 ? 's' : ''} excluded: no {currency} exchange rate available
+            </div>
+          )}
         </div>
         <Button
           variant="ghost"
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,18 +8,33 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-import { Trade, User as AppUser } from '@/types/database';
+import { useFxConversion } from '@/hooks/useFxConversion';
+import { useRecentTrades, useTradeHistories, useTradeOwner } from '@/hooks/useTrades';
+import { useCashflowHistories } from '@/hooks/useCashflows';
+import { useBoundTraders } from '@/hooks/useBoundTraders';
+import { useRealtimeChanges } from '@/hooks/useRealtimeSync';
+import { useBindingCapacity } from '@/hooks/useBindingCapacity';
+import { useFundNav } from '@/hooks/useCapitalAccounts';
+import { bindingCapacityKey, fetchBindingCapacity, isWaitlisted } from '@/lib/bindingTiers';
+import { valueAccount } from '@/lib/capitalAccounts';
+import { formatCurrency } from '@/lib/currencies';
+import { ReturnsPanel } from '@/components/analytics/ReturnsPanel';
+import { TraderAttribution } from '@/components/analytics/TraderAttribution';
+import { VerifiedHistoryBadge } from '@/components/dashboard/VerifiedHistoryBadge';
+import { InvestorStatementDialog } from '@/components/export/InvestorStatementDialog';
+import { Binding, User as AppUser } from '@/types/database';
 import { 
   TrendingUp, 
   TrendingDown, 
   Users, 
   Eye,
   DollarSign,
-  BarChart3,
   Wallet,
   UserPlus,
   Clock,
-  Copy
+  Copy,
+  ListOrdered,
+  PieChart
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { 
@@ -35,16 +51,35 @@ import {
 export function InvestorDashboard() {
   const { profile } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [traderUid, setTraderUid] = useState('');
-  const [boundTrader, setBoundTrader] = useState<AppUser | null>(null);
-  const [bindingStatus, setBindingStatus] = useState<'none' | 'pending' | 'approved'>('none');
-  const [traderStats, setTraderStats] = useState({
-    totalTrades: 0,
-    totalValue: 0,
-    totalPnL: 0,
-  });
-  const [recentTrades, setRecentTrades] = useState<Trade[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Requests still waiting on a trader, newest first
+  const [pendingRequests, setPendingRequests] = useState<{ binding: Pick<Binding, 'id' | 'created_at'>; trader: AppUser }[]>([]);
+  // Connecting another trader while already following one
+  const [connecting, setConnecting] = useState(false);
+  const { traders, selectedTrader, consolidated, loading: tradersLoading } = useBoundTraders();
+  const { ownerIds } = useTradeOwner();
+  const bindingStatus: 'none' | 'pending' | 'approved' = connecting
+    ? 'none'
+    : traders.length > 0 ? 'approved' : pendingRequests.length > 0 ? 'pending' : 'none';
+  const pendingTrader = pendingRequests[0]?.trader ?? null;
+  const boundTrader = bindingStatus === 'approved' ? selectedTrader : null;
+  const approvedTraderId = boundTrader?.id;
+  const { capacity: traderCapacity } = useBindingCapacity(bindingStatus === 'pending' ? pendingTrader?.id : undefined);
+  const waitlisted = !!traderCapacity && isWaitlisted(traderCapacity);
+  // Returns need the full trade and cashflow history, of every trader when consolidated
+  const { trades: traderTrades } = useTradeHistories(bindingStatus === 'approved' ? ownerIds : []);
+  const { trades: ownerRecentTrades } = useRecentTrades(approvedTraderId, 5);
+  const { cashflows: traderCashflows } = useCashflowHistories(bindingStatus === 'approved' ? ownerIds : []);
+  const recentTrades = useMemo(
+    () => (consolidated
+      ? [...traderTrades].sort((a, b) => b.created_at.localeCompare(a.created_at)).slice(0, 5)
+      : ownerRecentTrades),
+    [consolidated, traderTrades, ownerRecentTrades]
+  );
+  const traderStats = { totalTrades: traderTrades.length };
+  const [loadingBindings, setLoadingBindings] = useState(true);
+  const loading = loadingBindings || tradersLoading;
   const [submitting, setSubmitting] = useState(false);
   
   // New state for binding process UI
@@ -59,17 +94,37 @@ export function InvestorDashboard() {
   const [showTraderConfirmation, setShowTraderConfirmation] = useState(false);
   const [confirmedTrader, setConfirmedTrader] = useState<AppUser | null>(null);
 
+  // The trader's figures are restated in the investor's own reporting currency
+  const reportingCurrency = profile?.currency || 'USD';
+  const { trades: reportingTrades, cashflows: reportingCashflows } = useFxConversion(traderTrades, traderCashflows, reportingCurrency);
+  const traderTotals = useMemo(() => ({
+    totalPnL: reportingTrades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0),
+  }), [reportingTrades]);
+
+  // The investor's own units, valued in the trader's currency like the fund itself
+  const fundCurrency = boundTrader?.currency || 'USD';
+  const { capital, nav, ready: navReady } = useFundNav(approvedTraderId, traderTrades, traderCashflows, fundCurrency);
+  const ownAccount = capital?.accounts.find(account => account.holderId === profile?.id);
+  const ownValue = ownAccount && navReady ? valueAccount(ownAccount, nav, capital.totalUnits) : null;
+  const shareSubtitle = !capital?.openedAt
+    ? "Your trader hasn't opened capital accounts yet"
+    : !ownAccount || ownAccount.units === 0
+      ? 'You hold no units in this fund yet'
+      : !ownValue
+        ? 'Valuing the fund...'
+        : null;
+
   const checkExistingBinding = useCallback(async () => {
     if (!profile?.id) {
-      setLoading(false);
+      setLoadingBindings(false);
       return;
     }
 
     try {
-      console.log('🔍 Checking existing binding for investor:', profile.id);
+      console.log('🔍 Checking pending bindings for investor:', profile.id);
       
-      // Optimized query - select only needed fields
-      const { data: binding, error: bindingError } = await supabase
+      // Approved traders come from useBoundTraders; only pending requests are read here
+      const { data: bindings, error: bindingError } = await supabase
         .from('bindings')
         .select(`
           id,
@@ -81,12 +136,14 @@ export function InvestorDashboard() {
             id,
             username,
             bio,
+            avatar_url,
             currency,
             role
           )
         `)
         .eq('investor_id', profile.id)
-        .maybeSingle();
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
 
       if (bindingError) {
         console.error('❌ Error fetching binding:', bindingError);
@@ -98,20 +155,11 @@ export function InvestorDashboard() {
         return;
       }
 
-      console.log('✅ Binding result:', binding);
+      console.log(`✅ Found ${bindings?.length || 0} pending bindings`);
 
-      if (binding) {
-        setBindingStatus(binding.status as 'pending' | 'approved');
-        setBoundTrader(binding.users as AppUser);
-        
-        // Only fetch trader data if approved and not already loaded
-        if (binding.status === 'approved' && !traderStats.totalTrades) {
-          fetchTraderData(binding.trader_id);
-        }
-      } else {
-        console.log('🔍 No existing binding found');
-        setBindingStatus('none');
-      }
+      setPendingRequests((bindings || [])
+        .filter(binding => binding.users)
+        .map(binding => ({ binding, trader: binding.users as AppUser })));
     } catch (error) {
       console.error('❌ Error checking binding:', error);
       toast({
@@ -120,9 +168,9 @@ export function InvestorDashboard() {
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      setLoadingBindings(false);
     }
-  }, [profile?.id, traderStats.totalTrades, toast]);
+  }, [profile?.id, toast]);
 
   useEffect(() => {
     if (profile) {
@@ -130,35 +178,16 @@ export function InvestorDashboard() {
     }
   }, [profile, checkExistingBinding]);
 
-  const fetchTraderData = useCallback(async (traderId: string) => {
-    try {
-      console.log('📊 Fetching trader data for:', traderId);
-      
-      // Optimized query - only fetch recent trades and calculate stats
-      const { data: trades } = await supabase
-        .from('trades')
-        .select('id, price, quantity, profit_loss, asset, category, created_at')
-        .eq('user_id', traderId)
-        .order('created_at', { ascending: false })
-        .limit(20); // Limit initial load
-
-      if (trades) {
-        const totalValue = trades.reduce((sum, trade) => sum + (trade.price * trade.quantity), 0);
-        const totalPnL = trades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0);
-
-        setTraderStats({
-          totalTrades: trades.length,
-          totalValue,
-          totalPnL,
-        });
-
-        setRecentTrades(trades.slice(0, 5) as Trade[]);
-        console.log('✅ Trader data loaded successfully');
-      }
-    } catch (error) {
-      console.error('❌ Error fetching trader data:', error);
+  // Switch from pending to approved (or back) as soon as the trader acts
+  useRealtimeChanges('bindings', change => {
+    checkExistingBinding();
+    if (change.new?.status === 'approved' && change.old?.status !== 'approved') {
+      toast({
+        title: "Connection approved",
+        description: "A trader approved your request. Their portfolio is now visible.",
+      });
     }
-  }, []);
+  });
 
   const resetBindingProcess = () => {
     setBindingProcess({
@@ -242,21 +271,35 @@ export function InvestorDashboard() {
         return;
       }
 
+      // A trader with no free slots puts the request on their waitlist
+      const capacity = await queryClient.fetchQuery({
+        queryKey: bindingCapacityKey(trader.id),
+        queryFn: () => fetchBindingCapacity(trader.id),
+      }).catch(error => {
+        console.warn('⚠️ Could not check trader capacity:', error);
+        return null;
+      });
+      const onWaitlist = !!capacity && isWaitlisted(capacity);
+
       // SUCCESS
       setBindingProcess({
         step: 'success',
-        message: `Request sent to ${trader.username}! Waiting for approval.`,
+        message: onWaitlist
+          ? `${trader.username} has no free investor slots. You're on the waitlist.`
+          : `Request sent to ${trader.username}! Waiting for approval.`,
         foundTrader: trader,
         error: null
       });
       
-      setBoundTrader(trader);
-      setBindingStatus('pending');
+      await checkExistingBinding();
+      setConnecting(false);
       setTraderUid('');
       
       toast({
-        title: "Request Sent!",
-        description: `Connection request sent to ${trader.username}.`,
+        title: onWaitlist ? "Added to Waitlist" : "Request Sent!",
+        description: onWaitlist
+          ? `${trader.username} is at capacity. You'll be considered as soon as a slot opens.`
+          : `Connection request sent to ${trader.username}.`,
       });
       
     } catch (error: any) {
@@ -435,11 +478,30 @@ export function InvestorDashboard() {
     return (
       <>
         <div className="space-y-6">
-          <div>
-            <h1 className="text-3xl font-bold text-gradient-primary">Welcome, Investor</h1>
-            <p className="text-muted-foreground">
-              Connect with a trader to start tracking their performance
-            </p>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gradient-primary">
+                {connecting ? 'Connect Another Trader' : 'Welcome, Investor'}
+              </h1>
+              <p className="text-muted-foreground">
+                {connecting
+                  ? 'Follow several traders and switch between them, or view them all at once'
+                  : 'Connect with a trader to start tracking their performance'}
+              </p>
+            </div>
+            {connecting && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setConnecting(false);
+                  setTraderUid('');
+                  resetBindingProcess();
+                }}
+                disabled={submitting}
+              >
+                Back to Dashboard
+              </Button>
+            )}
           </div>
 
           <Card className="crypto-card-blue max-w-md mx-auto">
@@ -691,34 +753,42 @@ export function InvestorDashboard() {
     return (
       <div className="space-y-6">
         <div>
-          <h1 className="text-3xl font-bold text-gradient-primary">Connection Pending</h1>
+          <h1 className="text-3xl font-bold text-gradient-primary">
+            {waitlisted ? 'On the Waitlist' : 'Connection Pending'}
+          </h1>
           <p className="text-muted-foreground">
-            Waiting for trader approval to access their portfolio
+            {waitlisted
+              ? 'Waiting for a free investor slot with your trader'
+              : 'Waiting for trader approval to access their portfolio'}
           </p>
         </div>
 
         <Card className="crypto-card-coral max-w-md mx-auto">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <Clock className="w-5 h-5" />
-              Awaiting Approval
+              {waitlisted ? <ListOrdered className="w-5 h-5" /> : <Clock className="w-5 h-5" />}
+              {waitlisted ? 'Waitlisted' : 'Awaiting Approval'}
             </CardTitle>
             <CardDescription>
-              Your connection request has been sent
+              {waitlisted && traderCapacity?.waitlistPosition
+                ? `You're #${traderCapacity.waitlistPosition - traderCapacity.remaining} in line`
+                : 'Your connection request has been sent'}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {boundTrader && (
+            {pendingTrader && (
               <div className="flex items-center gap-4 p-4 bg-yellow-50 rounded-lg border border-yellow-200">
                 <div className="w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center">
                   <span className="text-lg font-bold text-primary">
-                    {boundTrader.username.slice(0, 2).toUpperCase()}
+                    {pendingTrader.username.slice(0, 2).toUpperCase()}
                   </span>
                 </div>
                 <div className="flex-1">
-                  <div className="font-medium">{boundTrader.username}</div>
+                  <div className="font-medium">{pendingTrader.username}</div>
                   <div className="text-sm text-muted-foreground">Trader</div>
-                  <Badge className="bg-yellow-100 text-yellow-800 text-xs mt-1">Pending Approval</Badge>
+                  <Badge className="bg-yellow-100 text-yellow-800 text-xs mt-1">
+                    {waitlisted ? 'Waitlisted' : 'Pending Approval'}
+                  </Badge>
                 </div>
               </div>
             )}
@@ -728,17 +798,22 @@ export function InvestorDashboard() {
                 <Clock className="w-8 h-8 mx-auto text-yellow-500" />
               </div>
               <p className="text-sm text-muted-foreground">
-                The trader will receive your connection request and can approve it from their dashboard.
-                You'll be able to view their trading data once approved.
+                {waitlisted
+                  ? `All ${traderCapacity?.limit} of this trader's investor slots are taken. Your request stays in line and can be approved as soon as a slot opens.`
+                  : "The trader will receive your connection request and can approve it from their dashboard. You'll be able to view their trading data once approved."}
               </p>
+              {pendingRequests.length > 1 && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Also waiting on {pendingRequests.slice(1).map(request => request.trader.username).join(', ')}
+                </p>
+              )}
             </div>
             
             <Button 
               variant="outline" 
               className="w-full"
               onClick={() => {
-                setBindingStatus('none');
-                setBoundTrader(null);
+                setConnecting(true);
                 setTraderUid('');
                 resetBindingProcess();
               }}
@@ -759,47 +834,118 @@ export function InvestorDashboard() {
         <div>
           <h1 className="text-3xl font-bold text-gradient-primary">Dashboard</h1>
           <p className="text-muted-foreground">
-            Tracking {boundTrader?.username}'s performance
+            {consolidated
+              ? `Tracking ${traders.length} traders: ${traders.map(trader => trader.username).join(', ')}`
+              : `Tracking ${boundTrader?.username}'s performance`}
           </p>
         </div>
-        <Badge className="bg-success/20 text-success">
-          Connected
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setConnecting(true)}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Connect Trader
+          </Button>
+          {boundTrader && (
+            <VerifiedHistoryBadge traderId={boundTrader.id} traderName={boundTrader.username} />
+          )}
+          {boundTrader && (
+            <InvestorStatementDialog
+              trader={boundTrader}
+              investorName={profile?.username}
+              trades={traderTrades}
+              cashflows={traderCashflows}
+              currency={reportingCurrency}
+            />
+          )}
+          <Badge className="bg-success/20 text-success">
+            Connected
+          </Badge>
+        </div>
       </div>
 
-      {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <StatCard
-          title="Portfolio Value"
-          value={`${boundTrader?.currency === 'USD' ? '$' : '₱'}${traderStats.totalValue.toLocaleString()}`}
-          subtitle="Total investment value"
-          icon={Wallet}
-          className="crypto-card-blue"
-        />
-        
-        <StatCard
-          title="Total P&L"
-          value={`${boundTrader?.currency === 'USD' ? '$' : '₱'}${traderStats.totalPnL.toLocaleString()}`}
-          subtitle={traderStats.totalPnL >= 0 ? 'Profit' : 'Loss'}
-          icon={traderStats.totalPnL >= 0 ? TrendingUp : TrendingDown}
-          className={traderStats.totalPnL >= 0 ? "crypto-card-success" : "crypto-card"}
-        />
-        
-        <StatCard
-          title="Total Trades"
-          value={traderStats.totalTrades}
-          subtitle="All transactions"
-          icon={BarChart3}
-          className="crypto-card-coral"
+      {pendingRequests.length > 0 && (
+        <div className="flex items-center gap-2 p-3 rounded-lg border border-yellow-200 bg-yellow-50 text-sm text-yellow-800">
+          <Clock className="w-4 h-4" />
+          Waiting for approval from {pendingRequests.map(request => request.trader.username).join(', ')}
+        </div>
+      )}
+
+      {/* Combined figures; fund units are held per trader, so balances show on each trader's own view */}
+      {consolidated ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <StatCard
+            title="Traders"
+            value={traders.length}
+            subtitle="Switch traders in the top bar to see your balance with each"
+            icon={Users}
+            className="crypto-card-blue"
+          />
+          <StatCard
+            title="Total Trades"
+            value={traderStats.totalTrades}
+            subtitle="Across all your traders"
+            icon={ListOrdered}
+            className="crypto-card-coral"
+          />
+          <StatCard
+            title="Combined P&L"
+            value={formatCurrency(traderTotals.totalPnL, reportingCurrency)}
+            subtitle={`Recorded P&L in ${reportingCurrency}`}
+            icon={traderTotals.totalPnL >= 0 ? TrendingUp : TrendingDown}
+            className={traderTotals.totalPnL >= 0 ? "crypto-card-success" : "crypto-card"}
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <StatCard
+            title="Your Balance"
+            value={ownValue ? formatCurrency(ownValue.balance, fundCurrency) : '—'}
+            subtitle={shareSubtitle || `${ownAccount.units.toLocaleString(undefined, { maximumFractionDigits: 4 })} units at ${formatCurrency(nav, fundCurrency)}`}
+            icon={Wallet}
+            className="crypto-card-blue"
+          />
+          
+          <StatCard
+            title="Your Return"
+            value={ownValue ? formatCurrency(ownValue.gain, fundCurrency) : '—'}
+            subtitle={shareSubtitle || `${ownValue.returnPct >= 0 ? '+' : ''}${ownValue.returnPct.toFixed(2)}% on ${formatCurrency(ownAccount.contributed, fundCurrency)} contributed`}
+            icon={!ownValue || ownValue.gain >= 0 ? TrendingUp : TrendingDown}
+            className={!ownValue || ownValue.gain >= 0 ? "crypto-card-success" : "crypto-card"}
+          />
+          
+          <StatCard
+            title="Your Share"
+            value={ownValue ? `${(ownValue.share * 100).toFixed(2)}%` : '—'}
+            subtitle={shareSubtitle || `Of ${boundTrader?.username}'s fund`}
+            icon={PieChart}
+            className="crypto-card-coral"
+          />
+        </div>
+      )}
+
+      {/* Cashflow-adjusted performance */}
+      <ReturnsPanel
+        trades={traderTrades}
+        cashflows={traderCashflows}
+        currency={reportingCurrency}
+      />
+
+      {consolidated && (
+        <TraderAttribution
+          trades={reportingTrades}
+          cashflows={reportingCashflows}
+          traders={traders}
+          currency={reportingCurrency}
         />
-      </div>
+      )}
 
       {/* Recent Activity */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <Card className="crypto-card">
+        <Card className={consolidated ? "crypto-card lg:col-span-2" : "crypto-card"}>
           <CardHeader>
             <CardTitle>Recent Activity</CardTitle>
-            <CardDescription>Latest trades from {boundTrader?.username}</CardDescription>
+            <CardDescription>
+              {consolidated ? 'Latest trades from all your traders' : `Latest trades from ${boundTrader?.username}`}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             {recentTrades.length > 0 ? (
@@ -814,12 +960,15 @@ export function InvestorDashboard() {
                       </div>
                       <div>
                         <div className="font-medium text-sm">{trade.asset}</div>
-                        <div className="text-xs text-muted-foreground capitalize">{trade.category}</div>
+                        <div className="text-xs text-muted-foreground">
+                          <span className="capitalize">{trade.category}</span>
+                          {consolidated && ` · ${traders.find(trader => trader.id === trade.user_id)?.username || 'Unknown'}`}
+                        </div>
                       </div>
                     </div>
                     <div className="text-right">
                       <div className="text-sm font-medium">
-                        {boundTrader?.currency === 'USD' ? '$' : '₱'}{trade.price.toLocaleString()}
+                        {formatCurrency(trade.price, trade.currency)}
                       </div>
                       {trade.profit_loss && (
                         <div className={`text-xs ${
@@ -840,7 +989,7 @@ export function InvestorDashboard() {
                 <Eye className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
                 <h3 className="font-medium mb-2">No trades yet</h3>
                 <p className="text-sm text-muted-foreground">
-                  Your trader hasn't made any trades yet
+                  {consolidated ? "None of your traders have made any trades yet" : "Your trader hasn't made any trades yet"}
                 </p>
               </div>
             )}
@@ -848,58 +997,60 @@ export function InvestorDashboard() {
         </Card>
 
         {/* Trader Info */}
-        <Card className="crypto-card-blue">
-          <CardHeader>
-            <CardTitle>Connected Trader</CardTitle>
-            <CardDescription>Trader information and stats</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex items-center gap-4">
-              <div className="w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center">
-                <span className="text-lg font-bold text-primary">
-                  {boundTrader?.username.slice(0, 2).toUpperCase()}
-                </span>
-              </div>
-              <div>
-                <div className="font-medium">{boundTrader?.username}</div>
-                <div className="text-sm text-muted-foreground">
-                  {boundTrader?.bio || 'No bio available'}
+        {!consolidated && (
+          <Card className="crypto-card-blue">
+            <CardHeader>
+              <CardTitle>Connected Trader</CardTitle>
+              <CardDescription>Trader information and stats</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 bg-primary/20 rounded-full flex items-center justify-center">
+                  <span className="text-lg font-bold text-primary">
+                    {boundTrader?.username.slice(0, 2).toUpperCase()}
+                  </span>
                 </div>
+                <div>
+                  <div className="font-medium">{boundTrader?.username}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {boundTrader?.bio || 'No bio available'}
+                  </div>
+                </div>
+                <Button 
+                  variant="outline" 
+                  size="icon" 
+                  className="h-8 w-8 ml-auto"
+                  onClick={() => {
+                    if (boundTrader?.id) {
+                      navigator.clipboard.writeText(boundTrader.id);
+                      toast({
+                        title: "Copied!",
+                        description: "Trader UUID has been copied to clipboard.",
+                      });
+                    }
+                  }}
+                >
+                  <Copy className="w-3 h-3" />
+                </Button>
               </div>
-              <Button 
-                variant="outline" 
-                size="icon" 
-                className="h-8 w-8 ml-auto"
-                onClick={() => {
-                  if (boundTrader?.id) {
-                    navigator.clipboard.writeText(boundTrader.id);
-                    toast({
-                      title: "Copied!",
-                      description: "Trader UUID has been copied to clipboard.",
-                    });
-                  }
-                }}
-              >
-                <Copy className="w-3 h-3" />
-              </Button>
-            </div>
-            
-            <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border">
-              <div className="text-center">
-                <div className="text-lg font-bold">{traderStats.totalTrades}</div>
-                <div className="text-xs text-muted-foreground">Total Trades</div>
-              </div>
-              <div className="text-center">
-                <div className="text-lg font-bold">
-                  {boundTrader?.currency === 'USD' ? '$' : '₱'}{Math.abs(traderStats.totalPnL).toLocaleString()}
+              
+              <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border">
+                <div className="text-center">
+                  <div className="text-lg font-bold">{traderStats.totalTrades}</div>
+                  <div className="text-xs text-muted-foreground">Total Trades</div>
                 </div>
-                <div className={`text-xs ${traderStats.totalPnL >= 0 ? 'text-success' : 'text-destructive'}`}>
-                  {traderStats.totalPnL >= 0 ? 'Profit' : 'Loss'}
+                <div className="text-center">
+                  <div className="text-lg font-bold">
+                    {formatCurrency(Math.abs(traderTotals.totalPnL), reportingCurrency)}
+                  </div>
+                  <div className={`text-xs ${traderTotals.totalPnL >= 0 ? 'text-success' : 'text-destructive'}`}>
+                    {traderTotals.totalPnL >= 0 ? 'Profit' : 'Loss'}
+                  </div>
                 </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -1,10 +1,14 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import { Trade, Binding } from '@/types/database';
+import { useFxConversion } from '@/hooks/useFxConversion';
+import { useRecentTrades, useTradeHistory } from '@/hooks/useTrades';
+import { useCashflowHistory } from '@/hooks/useCashflows';
+import { useRealtimeChanges } from '@/hooks/useRealtimeSync';
+import { formatCurrency } from '@/lib/currencies';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -20,18 +24,33 @@ import { GrandTotalPortfolio } from './GrandTotalPortfolio';
 
 export function TraderDashboard() {
   const { profile } = useAuth();
-  const [stats, setStats] = useState({
-    totalTrades: 0,
-    totalInvestments: 0,
-    totalValue: 0,
-    totalPnL: 0,
+  const [bindingStats, setBindingStats] = useState({
     activeInvestors: 0,
     pendingRequests: 0
   });
-  const [recentTrades, setRecentTrades] = useState<Trade[]>([]);
-  const [allTrades, setAllTrades] = useState<Trade[]>([]);
-  const [cashflows, setCashflows] = useState<any[]>([]);
+  const { trades: allTrades, loading: tradesLoading } = useTradeHistory(profile?.id);
+  const { trades: recentTrades } = useRecentTrades(profile?.id, 5);
+  const { cashflows } = useCashflowHistory(profile?.id);
   const [loading, setLoading] = useState(true);
+  const reportingCurrency = profile?.currency || 'USD';
+
+  // Value and P&L are summed in the reporting currency at each trade date's FX rate
+  const { trades: reportingTrades } = useFxConversion(allTrades, undefined, reportingCurrency);
+  const totals = useMemo(() => ({
+    totalValue: reportingTrades.reduce((sum, trade) => sum + (trade.price * trade.quantity), 0),
+    totalPnL: reportingTrades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0)
+  }), [reportingTrades]);
+
+  const stats = useMemo(() => {
+    const tradeCategories = ['spot', 'futures'];
+    const investmentCategories = ['defi', 'dual_investment', 'liquidity_pool', 'liquidity_mining'];
+
+    return {
+      totalTrades: allTrades.filter(t => tradeCategories.includes(t.category)).length,
+      totalInvestments: allTrades.filter(t => investmentCategories.includes(t.category)).length,
+      ...bindingStats
+    };
+  }, [allTrades, bindingStats]);
 
   const fetchDashboardData = useCallback(async () => {
     if (!profile?.id) return;
@@ -39,66 +58,21 @@ export function TraderDashboard() {
     try {
       console.log('📊 Fetching dashboard data for trader:', profile.id);
       
-      // Parallel requests for better performance
-      const [tradesResult, bindingsResult, cashflowsResult] = await Promise.all([
-        // Optimized trades query - only essential fields
-        supabase
-          .from('trades')
-          .select('id, category, price, quantity, profit_loss, asset, created_at')
-          .eq('user_id', profile.id)
-          .order('created_at', { ascending: false }),
-        
-        // Optimized bindings query
-        supabase
-          .from('bindings')
-          .select('id, status')
-          .eq('trader_id', profile.id),
-          
-        // Fetch cashflows for grand total calculation
-        supabase
-          .from('cashflows')
-          .select('*')
-          .eq('user_id', profile.id)
-      ]);
+      // Trades and cashflows come from the shared query caches
+      const { data: bindings, error: bindingsError } = await supabase
+        .from('bindings')
+        .select('id, status')
+        .eq('trader_id', profile.id);
 
-      const { data: trades, error: tradesError } = tradesResult;
-      const { data: bindings, error: bindingsError } = bindingsResult;
-      const { data: cashflows, error: cashflowsError } = cashflowsResult;
-
-      if (tradesError) {
-        console.error('❌ Trades fetch error:', tradesError);
-      }
       if (bindingsError) {
         console.error('❌ Bindings fetch error:', bindingsError);
       }
-      if (cashflowsError) {
-        console.error('❌ Cashflows fetch error:', cashflowsError);
-      }
 
-      if (trades) {
-        const tradeCategories = ['spot', 'futures'];
-        const investmentCategories = ['defi', 'dual_investment', 'liquidity_pool', 'liquidity_mining'];
-        
-        const totalTrades = trades.filter(t => tradeCategories.includes(t.category)).length;
-        const totalInvestments = trades.filter(t => investmentCategories.includes(t.category)).length;
-        
-        const totalValue = trades.reduce((sum, trade) => sum + (trade.price * trade.quantity), 0);
-        const totalPnL = trades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0);
-
-        setStats({
-          totalTrades,
-          totalInvestments,
-          totalValue,
-          totalPnL,
-          activeInvestors: bindings?.filter(b => b.status === 'approved').length || 0,
-          pendingRequests: bindings?.filter(b => b.status === 'pending').length || 0
-        });
-
-        setRecentTrades(trades.slice(0, 5) as Trade[]);
-        setAllTrades(trades as Trade[]);
-        setCashflows(cashflows || []);
-        console.log('✅ Dashboard data loaded successfully');
-      }
+      setBindingStats({
+        activeInvestors: bindings?.filter(b => b.status === 'approved').length || 0,
+        pendingRequests: bindings?.filter(b => b.status === 'pending').length || 0
+      });
+      console.log('✅ Dashboard data loaded successfully');
     } catch (error) {
       console.error('❌ Error fetching dashboard data:', error);
     } finally {
@@ -112,6 +86,8 @@ export function TraderDashboard() {
     }
   }, [fetchDashboardData]);
 
+  useRealtimeChanges('bindings', fetchDashboardData);
+
   const StatCard = ({ 
     title, 
     value, 
@@ -148,7 +124,7 @@ export function TraderDashboard() {
     </Card>
   );
 
-  if (loading) {
+  if (loading || tradesLoading) {
     return (
       <div className="space-y-6">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -170,7 +146,7 @@ export function TraderDashboard() {
       <GrandTotalPortfolio 
         trades={allTrades} 
         cashflows={cashflows} 
-        currency={profile?.currency || 'USD'} 
+        currency={reportingCurrency} 
       />
 
       {/* Welcome Header */}
@@ -195,7 +171,7 @@ export function TraderDashboard() {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard
           title="Portfolio Value"
-          value={`${profile?.currency === 'USD' ? '$' : '₱'}${stats.totalValue.toLocaleString()}`}
+          value={formatCurrency(totals.totalValue, reportingCurrency)}
           subtitle="Total investment value"
           icon={Wallet}
           className="crypto-card-blue"
@@ -203,10 +179,10 @@ export function TraderDashboard() {
         
         <StatCard
           title="Total P&L"
-          value={`${profile?.currency === 'USD' ? '$' : '₱'}${stats.totalPnL.toLocaleString()}`}
-          subtitle={stats.totalPnL >= 0 ? 'Profit' : 'Loss'}
-          icon={stats.totalPnL >= 0 ? TrendingUp : TrendingDown}
-          className={stats.totalPnL >= 0 ? "crypto-card-success" : "crypto-card"}
+          value={formatCurrency(totals.totalPnL, reportingCurrency)}
+          subtitle={totals.totalPnL >= 0 ? 'Profit' : 'Loss'}
+          icon={totals.totalPnL >= 0 ? TrendingUp : TrendingDown}
+          className={totals.totalPnL >= 0 ? "crypto-card-success" : "crypto-card"}
         />
         
         <StatCard
@@ -280,7 +256,7 @@ export function TraderDashboard() {
                     </div>
                     <div className="text-right">
                       <div className="text-sm font-medium">
-                        {profile?.currency === 'USD' ? '$' : '₱'}{trade.price.toLocaleString()}
+                        {formatCurrency(trade.price, trade.currency)}
                       </div>
                       {trade.profit_loss && (
                         <div className={`text-xs ${
@@ -0,0 +1,122 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useLedgerVerification } from '@/hooks/useLedgerVerification';
+import { AMENDMENT_WINDOW_DAYS, shortHash } from '@/lib/ledger';
+import { AlertTriangle, FilePen, Loader2, RefreshCw, ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+interface VerifiedHistoryBadgeProps {
+  traderId: string;
+  traderName?: string;
+}
+
+/**
+ * Result of verifying the trader's hash-chained trade history, with the
+ * amendments made to trades after the amendment window
+ */
+export function VerifiedHistoryBadge({ traderId, traderName = 'the trader' }: VerifiedHistoryBadgeProps) {
+  const { verification, amendments, loading, error, refetch } = useLedgerVerification(traderId);
+  const broken = verification?.status === 'broken';
+
+  const label = loading && !verification
+    ? 'Verifying history'
+    : error
+      ? 'History unverified'
+      : broken
+        ? 'History altered'
+        : 'Verified history';
+
+  const Icon = loading && !verification ? Loader2 : error || broken ? AlertTriangle : ShieldCheck;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button">
+          <Badge
+            className={cn(
+              'gap-1 cursor-pointer',
+              broken ? 'bg-destructive/20 text-destructive' : error ? 'bg-yellow-100 text-yellow-800' : 'bg-success/20 text-success'
+            )}
+          >
+            <Icon className={cn('w-3 h-3', loading && !verification && 'animate-spin')} />
+            {label}
+            {verification && verification.amendments > 0 && ` · ${verification.amendments} amended`}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 space-y-4">
+        <div className="space-y-1">
+          <h4 className="font-medium">Trade history</h4>
+          <p className="text-sm text-muted-foreground">
+            Every change to {traderName}'s trades is sealed into a hash chain. Rewriting
+            any past entry breaks every hash after it.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {verification && (
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <span className="text-muted-foreground">Status</span>
+            <span className={cn('font-medium', broken ? 'text-destructive' : 'text-success')}>
+              {broken
+                ? verification.rewritten
+                  ? 'Rewritten since last check'
+                  : `Broken at entry #${verification.firstInvalidSeq}`
+                : verification.status === 'empty' ? 'No history yet' : 'Intact'}
+            </span>
+            <span className="text-muted-foreground">Entries</span>
+            <span className="font-medium">{verification.entries.toLocaleString()}</span>
+            <span className="text-muted-foreground">Latest hash</span>
+            <span className="font-mono text-xs">{shortHash(verification.headHash)}</span>
+            <span className="text-muted-foreground">Checked</span>
+            <span className="font-medium">{format(new Date(verification.checkedAt), 'MMM dd, HH:mm:ss')}</span>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <FilePen className="w-4 h-4" />
+            Amendments
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            Edits and deletions of trades recorded more than {AMENDMENT_WINDOW_DAYS} days earlier.
+          </p>
+          {amendments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">None</p>
+          ) : (
+            <ul className="space-y-2 max-h-48 overflow-y-auto">
+              {amendments.map(entry => {
+                const row = entry.changes?.new || entry.changes?.old || {};
+                return (
+                  <li key={entry.id} className="text-sm border rounded-lg p-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Link to={`/trades/${entry.record_id}`} className="font-medium hover:underline">
+                        {row.asset || 'Trade'} {entry.action === 'delete' ? 'deleted' : 'edited'}
+                      </Link>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(entry.created_at), 'MMM dd, yyyy')}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Made by {entry.actor_id === traderId ? traderName : 'system'} ·{' '}
+                      <span className="font-mono">{shortHash(entry.hash)}</span>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <Button variant="outline" size="sm" className="w-full" onClick={refetch} disabled={loading}>
+          <RefreshCw className={cn('w-4 h-4 mr-2', loading && 'animate-spin')} />
+          Verify again
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
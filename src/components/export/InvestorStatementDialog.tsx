@@ -0,0 +1,192 @@
+import { useMemo, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useReturns } from '@/hooks/useReturns';
+import { useCostBasisMethod } from '@/hooks/useCostBasisMethod';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
+import { FileText } from 'lucide-react';
+import { CurrencyCode, formatCurrency } from '@/lib/currencies';
+import { downloadExportFile } from '@/lib/journalExport';
+import {
+  buildInvestorStatement,
+  loadAvatarJpeg,
+  renderStatementPdf,
+  STATEMENT_FREQUENCIES,
+  StatementFrequency,
+  statementPeriods,
+} from '@/lib/investorStatements';
+import { cn } from '@/lib/utils';
+import { Cashflow, Trade, User as AppUser } from '@/types/database';
+
+interface InvestorStatementDialogProps {
+  trader: Pick<AppUser, 'username' | 'bio' | 'avatar_url'>;
+  investorName?: string;
+  trades: Trade[];
+  cashflows: Cashflow[];
+  currency?: CurrencyCode;
+}
+
+type StatementFormProps = InvestorStatementDialogProps & { onDone: () => void };
+
+/**
+ * Period picker and preview. Mounted only while the dialog is open, so price
+ * history for the valuation is loaded on demand.
+ */
+function StatementForm({ trader, investorName, trades: recordedTrades, cashflows: recordedCashflows, currency = 'USD', onDone }: StatementFormProps) {
+  const { toast } = useToast();
+  const { method } = useCostBasisMethod();
+  const { points, trades, cashflows, series, unconverted, loading, error } = useReturns(recordedTrades, recordedCashflows, currency);
+  const [frequency, setFrequency] = useState<StatementFrequency>('monthly');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const periods = useMemo(
+    () => (points.length > 0 ? statementPeriods(points[0].date, frequency) : []),
+    [points, frequency]
+  );
+
+  // Default to the latest finished period
+  const period = periods.find(p => p.start === selected)
+    ?? periods.find(p => p.complete)
+    ?? periods[0];
+
+  const statement = useMemo(
+    () => (period && !loading
+      ? buildInvestorStatement(period, points, trades, cashflows, series, method, currency)
+      : null),
+    [period, loading, points, trades, cashflows, series, method, currency]
+  );
+
+  const handleDownload = async () => {
+    if (!statement) return;
+
+    setGenerating(true);
+    try {
+      const avatar = trader.avatar_url ? await loadAvatarJpeg(trader.avatar_url) : null;
+      downloadExportFile(renderStatementPdf(statement, {
+        username: trader.username,
+        bio: trader.bio,
+        avatar,
+        investorName,
+      }));
+      console.log(`✅ Generated ${statement.period.label} statement`);
+      onDone();
+    } catch (error) {
+      console.error('❌ Statement generation failed:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const row = (label: string, amount: number, colored = false) => (
+    <div className="flex justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className={cn(colored && (amount >= 0 ? 'text-success' : 'text-destructive'))}>
+        {formatCurrency(amount, currency)}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Frequency</Label>
+          <Select
+            value={frequency}
+            onValueChange={(value) => {
+              setFrequency(value as StatementFrequency);
+              setSelected(null);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATEMENT_FREQUENCIES.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Period</Label>
+          <Select value={period?.start} onValueChange={setSelected} disabled={periods.length === 0}>
+            <SelectTrigger>
+              <SelectValue placeholder="No activity yet" />
+            </SelectTrigger>
+            <SelectContent>
+              {periods.map(option => (
+                <SelectItem key={option.start} value={option.start}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {unconverted > 0 && (
+        <p className="text-xs text-amber-600">
+          {unconverted} record{unconverted === 1 ? '' : 's'} without an exchange rate to {currency} are left out.
+        </p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Valuing the portfolio...</p>
+      ) : statement ? (
+        <div className="space-y-2 rounded-lg border border-border p-4">
+          {row('Opening balance', statement.openingBalance)}
+          {row('Deposits', statement.deposits)}
+          {row('Withdrawals', -statement.withdrawals)}
+          {row('Realized P&L', statement.realizedPnL, true)}
+          {row('Unrealized P&L', statement.unrealizedPnL, true)}
+          <div className="flex justify-between text-sm font-medium pt-2 border-t border-border">
+            <span>Closing balance</span>
+            <span>{formatCurrency(statement.closingBalance, currency)}</span>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {statement.trades.length} trade{statement.trades.length === 1 ? '' : 's'} · {statement.allocation.length} allocation line{statement.allocation.length === 1 ? '' : 's'}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">There are no trades or cash flows to report yet.</p>
+      )}
+
+      <Button className="w-full" onClick={handleDownload} disabled={!statement || generating}>
+        <FileText className="w-4 h-4 mr-2" />
+        {generating ? "Generating..." : "Download PDF"}
+      </Button>
+    </div>
+  );
+}
+
+export function InvestorStatementDialog(props: InvestorStatementDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileText className="w-4 h-4 mr-2" />
+          Statements
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Investor Statement</DialogTitle>
+          <DialogDescription>
+            {props.trader.username}'s fund for any month or quarter, in {props.currency || 'USD'}. Past periods can be regenerated at any time.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <StatementForm {...props} onDone={() => setOpen(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
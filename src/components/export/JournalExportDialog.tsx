@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useTradeOwner } from '@/hooks/useTrades';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
+import { CalendarIcon, Download } from 'lucide-react';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+  EXPORT_DATASETS,
+  ExportDataset,
+  ExportFormat,
+  buildJournalExport,
+  downloadExportFile,
+  fetchJournalExportData,
+} from '@/lib/journalExport';
+
+interface JournalExportDialogProps {
+  defaultDatasets: ExportDataset[];
+  category?: string;
+  cashflowType?: string;
+  tradeSortBy?: string;
+  cashflowSortBy?: string;
+}
+
+export function JournalExportDialog({
+  defaultDatasets,
+  category,
+  cashflowType,
+  tradeSortBy,
+  cashflowSortBy,
+}: JournalExportDialogProps) {
+  const { profile } = useAuth();
+  const { ownerId } = useTradeOwner();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [datasets, setDatasets] = useState<ExportDataset[]>(defaultDatasets);
+  const [fromDate, setFromDate] = useState<Date | undefined>();
+  const [toDate, setToDate] = useState<Date | undefined>();
+
+  // Investors export the selected trader's journal (read-only access enforced by RLS)
+  const toggleDataset = (dataset: ExportDataset, checked: boolean) => {
+    setDatasets(prev => checked
+      ? EXPORT_DATASETS.map(d => d.value).filter(value => value === dataset || prev.includes(value))
+      : prev.filter(value => value !== dataset)
+    );
+  };
+
+  const handleExport = async () => {
+    if (!profile || !ownerId || datasets.length === 0) return;
+
+    setExporting(true);
+    try {
+      const data = await fetchJournalExportData(ownerId, datasets, {
+        category,
+        cashflowType,
+        tradeSortBy,
+        cashflowSortBy,
+        from: fromDate ? startOfDay(fromDate) : undefined,
+        to: toDate ? endOfDay(toDate) : undefined,
+      }, profile.currency);
+
+      const files = buildJournalExport(data, datasets, exportFormat);
+      files.forEach(downloadExportFile);
+
+      console.log(`✅ Exported ${files.length} file(s) as ${exportFormat.toUpperCase()}`);
+      toast({
+        title: "Export ready",
+        description: `${files.length} file${files.length !== 1 ? 's' : ''} downloaded.`,
+      });
+      setOpen(false);
+    } catch (error) {
+      console.error('❌ Export failed:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to export journal',
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderDatePicker = (label: string, value: Date | undefined, onChange: (date: Date | undefined) => void) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn(
+              "w-full pl-3 text-left font-normal",
+              !value && "text-muted-foreground"
+            )}
+          >
+            {value ? format(value, "PPP") : <span>Any</span>}
+            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={onChange}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!ownerId}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Journal</DialogTitle>
+          <DialogDescription>
+            Current filters and sort order are applied. Amounts are exported in their recorded currency and in your display currency, {profile?.currency || 'USD'}, at each record's date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Include</Label>
+            {EXPORT_DATASETS.map(dataset => (
+              <div key={dataset.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`export-${dataset.value}`}
+                  checked={datasets.includes(dataset.value)}
+                  onCheckedChange={(checked) => toggleDataset(dataset.value, checked === true)}
+                />
+                <Label htmlFor={`export-${dataset.value}`} className="font-normal">
+                  {dataset.label}
+                  {dataset.value === 'trades' && category && category !== 'all' && (
+                    <span className="text-muted-foreground ml-1">({category})</span>
+                  )}
+                  {dataset.value === 'cashflows' && cashflowType && cashflowType !== 'all' && (
+                    <span className="text-muted-foreground ml-1">({cashflowType}s)</span>
+                  )}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {renderDatePicker('From', fromDate, setFromDate)}
+            {renderDatePicker('To', toDate, setToDate)}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV (one file per dataset)</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={handleExport}
+            disabled={exporting || datasets.length === 0 || !ownerId}
+          >
+            {exporting ? "Exporting..." : "Export"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  CRYSTALLIZATION_LABELS,
+  DEFAULT_FEE_TERMS,
+  FeeTerms,
+  MAX_HURDLE_RATE,
+  MAX_MANAGEMENT_RATE,
+  MAX_PERFORMANCE_RATE,
+} from '@/lib/fees';
+import { FeeCrystallization } from '@/types/database';
+
+interface FeeScheduleDialogProps {
+  open: boolean;
+  investorName: string;
+  // Current terms, or none for a new schedule
+  terms: FeeTerms | null;
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (terms: FeeTerms) => void;
+}
+
+// Rates are edited as percentages and stored as fractions
+const toPercent = (rate: number) => String(Math.round(rate * 10000) / 100);
+
+export function FeeScheduleDialog({ open, investorName, terms, saving, onOpenChange, onSave }: FeeScheduleDialogProps) {
+  const [management, setManagement] = useState('');
+  const [performance, setPerformance] = useState('');
+  const [hurdle, setHurdle] = useState('');
+  const [crystallization, setCrystallization] = useState<FeeCrystallization>('yearly');
+
+  useEffect(() => {
+    if (!open) return;
+    const current = terms ?? DEFAULT_FEE_TERMS;
+    setManagement(toPercent(Number(current.management_rate)));
+    setPerformance(toPercent(Number(current.performance_rate)));
+    setHurdle(toPercent(Number(current.hurdle_rate)));
+    setCrystallization(current.crystallization);
+  }, [open, terms]);
+
+  const rate = (value: string, max: number) => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) && parsed >= 0 && parsed / 100 <= max ? parsed / 100 : null;
+  };
+
+  const managementRate = rate(management, MAX_MANAGEMENT_RATE);
+  const performanceRate = rate(performance, MAX_PERFORMANCE_RATE);
+  const hurdleRate = rate(hurdle, MAX_HURDLE_RATE);
+  const valid = managementRate !== null && performanceRate !== null && hurdleRate !== null;
+
+  const field = (id: string, label: string, value: string, onChange: (value: string) => void, max: number, invalid: boolean) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          id={id}
+          type="number"
+          step="0.1"
+          min="0"
+          max={max * 100}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        <span className="text-sm text-muted-foreground">%</span>
+      </div>
+      {invalid && (
+        <p className="text-xs text-destructive">Between 0% and {max * 100}%</p>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Fees for {investorName}</DialogTitle>
+          <DialogDescription>
+            {terms
+              ? 'New rates apply to the whole current period.'
+              : "Fees accrue from today, with the investor's current balance as the first high-water mark."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          {field('management-rate', 'Management', management, setManagement, MAX_MANAGEMENT_RATE, managementRate === null)}
+          {field('performance-rate', 'Performance', performance, setPerformance, MAX_PERFORMANCE_RATE, performanceRate === null)}
+          {field('hurdle-rate', 'Hurdle', hurdle, setHurdle, MAX_HURDLE_RATE, hurdleRate === null)}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Crystallization</Label>
+          <Select value={crystallization} onValueChange={(value) => setCrystallization(value as FeeCrystallization)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CRYSTALLIZATION_LABELS) as FeeCrystallization[]).map(period => (
+                <SelectItem key={period} value={period}>{CRYSTALLIZATION_LABELS[period]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Management fees accrue on the balance held over time; performance fees are charged on gains above the
+            high-water mark grown at the hurdle rate.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            disabled={!valid || saving}
+            onClick={() => valid && onSave({
+              management_rate: managementRate,
+              performance_rate: performanceRate,
+              hurdle_rate: hurdleRate,
+              crystallization,
+            })}
+          >
+            {saving ? 'Saving...' : 'Save Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,325 @@
+import { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Download, Percent, Settings2 } from 'lucide-react';
+import { FeeScheduleDialog } from '@/components/fees/FeeScheduleDialog';
+import { useToast } from '@/hooks/use-toast';
+import { useFundInvestors, useFundNav } from '@/hooks/useCapitalAccounts';
+import { useFeeAccruals } from '@/hooks/useFees';
+import { capitalAccountsKey } from '@/lib/capitalAccounts';
+import {
+  buildFeeStatementsCsv,
+  CRYSTALLIZATION_LABELS,
+  crystallizeFees,
+  FeeAccrual,
+  FeeTerms,
+  saveFeeSchedule,
+} from '@/lib/fees';
+import { downloadExportFile } from '@/lib/journalExport';
+import { CurrencyCode, formatCurrency } from '@/lib/currencies';
+import { Cashflow, FeeSchedule, Trade } from '@/types/database';
+import { cn } from '@/lib/utils';
+
+interface FeesCardProps {
+  traderId: string;
+  trades: Trade[];
+  cashflows: Cashflow[];
+  currency: CurrencyCode;
+  className?: string;
+}
+
+const formatRate = (rate: number) => `${Math.round(Number(rate) * 10000) / 100}%`;
+
+const describeTerms = (schedule: FeeSchedule) => {
+  const hurdle = Number(schedule.hurdle_rate) > 0 ? `, ${formatRate(schedule.hurdle_rate)} hurdle` : '';
+  return `${formatRate(schedule.management_rate)} / ${formatRate(schedule.performance_rate)}${hurdle}`;
+};
+
+/**
+ * Fee schedules, accrued fees and crystallized statements for the trader's investors
+ */
+export function FeesCard({ traderId, trades, cashflows, currency, className }: FeesCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { capital, nav, ready, unpriced } = useFundNav(traderId, trades, cashflows, currency);
+  const { investors } = useFundInvestors(traderId);
+  const { schedules, statements, accruals, loading, error } = useFeeAccruals(traderId, nav, ready);
+  const [editing, setEditing] = useState<{ investorId: string; name: string } | null>(null);
+  const [crystallizing, setCrystallizing] = useState<{ accrual: FeeAccrual; name: string } | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const names = useMemo(() => {
+    const byId: Record<string, string> = {};
+    capital?.accounts.forEach(account => { byId[account.holderId] = account.username; });
+    investors.forEach(investor => { byId[investor.id] = investor.username; });
+    return byId;
+  }, [capital, investors]);
+
+  // Approved investors, plus revoked ones whose schedule still runs
+  const rows = useMemo(() => {
+    const ids = new Set([...investors.map(investor => investor.id), ...schedules.map(schedule => schedule.investor_id)]);
+    return Array.from(ids)
+      .map(id => ({ id, name: names[id] || 'Investor', schedule: schedules.find(schedule => schedule.investor_id === id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [investors, schedules, names]);
+
+  const totals = useMemo(() => Object.values(accruals).reduce(
+    (sum, accrual) => ({
+      management: sum.management + accrual.managementFee,
+      performance: sum.performance + accrual.performanceFee,
+    }),
+    { management: 0, performance: 0 }
+  ), [accruals]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: capitalAccountsKey(traderId) });
+
+  const handleSave = async (terms: FeeTerms) => {
+    if (!editing) return;
+    setWorking(true);
+    try {
+      await saveFeeSchedule(traderId, editing.investorId, terms, nav);
+      await refresh();
+      toast({
+        title: "Fee schedule saved",
+        description: `${editing.name}: ${formatRate(terms.management_rate)} management, ${formatRate(terms.performance_rate)} performance.`,
+      });
+      setEditing(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCrystallize = async () => {
+    if (!crystallizing) return;
+    setWorking(true);
+    try {
+      const statement = await crystallizeFees(crystallizing.accrual);
+      await refresh();
+      toast({
+        title: "Fees crystallized",
+        description: `${formatCurrency(Number(statement.management_fee) + Number(statement.performance_fee), currency)} charged to ${crystallizing.name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+      setCrystallizing(null);
+    }
+  };
+
+  const editingSchedule = editing ? schedules.find(schedule => schedule.investor_id === editing.investorId) ?? null : null;
+
+  return (
+    <Card className={cn('crypto-card', className)}>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            Fees
+          </CardTitle>
+          <CardDescription>
+            Management and performance fees on each investor's capital account, in {currency}
+          </CardDescription>
+        </div>
+        <div className="text-right">
+          <div className="text-xs text-muted-foreground">Accrued this period</div>
+          <div className="text-lg font-semibold">
+            {ready ? formatCurrency(totals.management + totals.performance, currency) : '—'}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+        {!capital?.openedAt ? (
+          <p className="text-sm text-muted-foreground">
+            Open capital accounts on the Cash Flow page to charge fees on investor balances.
+          </p>
+        ) : loading ? (
+          <p className="text-sm text-muted-foreground">Loading fees...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Approve an investor to set their fees.</p>
+        ) : (
+          <>
+            {unpriced.length > 0 && (
+              <p className="text-sm text-amber-600">
+                {unpriced.length} transaction{unpriced.length === 1 ? ' is' : 's are'} awaiting units; issue them before crystallizing.
+              </p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Investor</TableHead>
+                  <TableHead>Terms</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="text-right">High-Water Mark</TableHead>
+                  <TableHead className="text-right">Management</TableHead>
+                  <TableHead className="text-right">Performance</TableHead>
+                  <TableHead>Period Ends</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ id, name, schedule }) => {
+                  const accrual = accruals[id];
+                  return (
+                    <TableRow key={id}>
+                      <TableCell className="font-medium">{name}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {schedule ? (
+                          <>
+                            {describeTerms(schedule)}
+                            <div className="text-xs">{CRYSTALLIZATION_LABELS[schedule.crystallization]}</div>
+                          </>
+                        ) : 'No fees'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {accrual ? formatCurrency(accrual.grossBalance, currency) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {accrual ? formatCurrency(accrual.hurdleThreshold, currency) : '—'}
+                        {accrual && accrual.hurdleThreshold !== accrual.highWaterMark && (
+                          <div className="text-xs text-muted-foreground">
+                            {formatCurrency(accrual.highWaterMark, currency)} before hurdle
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {accrual ? formatCurrency(accrual.managementFee, currency) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {accrual ? formatCurrency(accrual.performanceFee, currency) : '—'}
+                      </TableCell>
+                      <TableCell>
+                        {accrual ? (
+                          accrual.due
+                            ? <Badge className="bg-warning/20 text-warning">Due</Badge>
+                            : format(accrual.periodEnd, 'MMM dd, yyyy')
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button size="sm" variant="ghost" onClick={() => setEditing({ investorId: id, name })}>
+                          <Settings2 className="w-4 h-4 mr-1" />
+                          {schedule ? 'Edit' : 'Set Fees'}
+                        </Button>
+                        {accrual?.due && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={working || unpriced.length > 0}
+                            onClick={() => setCrystallizing({ accrual, name })}
+                          >
+                            Crystallize
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+
+        {statements.length > 0 && (
+          <div className="space-y-3 pt-4 border-t border-border">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-medium">Fee Statements</div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadExportFile(buildFeeStatementsCsv(statements, names, currency))}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download CSV
+              </Button>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Investor</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Management</TableHead>
+                  <TableHead className="text-right">Performance</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">New High-Water Mark</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statements.map(statement => (
+                  <TableRow key={statement.id}>
+                    <TableCell className="font-medium">{names[statement.investor_id] || 'Investor'}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(statement.period_start), 'MMM dd, yyyy')} – {format(new Date(statement.period_end), 'MMM dd, yyyy')}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(statement.management_fee), currency)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(statement.performance_fee), currency)}</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(Number(statement.management_fee) + Number(statement.performance_fee), currency)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(statement.closing_high_water_mark), currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <FeeScheduleDialog
+        open={!!editing}
+        investorName={editing?.name || ''}
+        terms={editingSchedule}
+        saving={working}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={!!crystallizing} onOpenChange={(open) => !open && setCrystallizing(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Crystallize Fees</AlertDialogTitle>
+            <AlertDialogDescription>
+              {crystallizing && (
+                `Charge ${crystallizing.name} ${formatCurrency(crystallizing.accrual.managementFee, currency)} management and ` +
+                `${formatCurrency(crystallizing.accrual.performanceFee, currency)} performance fees at ` +
+                `${formatCurrency(crystallizing.accrual.navPerUnit, currency)} per unit? Their units move to your account and a statement is recorded.`
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCrystallize} disabled={working}>
+              Crystallize
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
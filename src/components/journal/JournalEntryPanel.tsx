@@ -0,0 +1,353 @@
+import { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, Check, Edit, ImagePlus, Save, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useJournalEntry } from '@/hooks/useJournalEntry';
+import {
+  EMPTY_JOURNAL_ENTRY,
+  JournalEntryInput,
+  RATING_SCALE,
+  ruleAdherence,
+  TRADE_EMOTIONS,
+  TRADING_RULES,
+} from '@/lib/journal';
+import { ACCEPTED_SCREENSHOT_TYPES } from '@/lib/screenshotStorage';
+import { cn } from '@/lib/utils';
+import { ScreenshotGallery } from './ScreenshotGallery';
+import { TradeEmotion } from '@/types/database';
+
+interface JournalEntryPanelProps {
+  tradeId: string;
+  userId: string;
+  canEdit: boolean;
+}
+
+// Select value for an unset emotion (Radix selects reject '')
+const NO_EMOTION = 'none';
+
+function RatingInput({
+  value,
+  onChange,
+  label,
+}: {
+  value: number | null | undefined;
+  onChange: (value: number | null) => void;
+  label: string;
+}) {
+  return (
+    <div className="flex gap-1" role="radiogroup" aria-label={label}>
+      {RATING_SCALE.map(rating => (
+        <Button
+          key={rating}
+          type="button"
+          size="sm"
+          variant={value === rating ? 'default' : 'outline'}
+          className="w-9 px-0"
+          role="radio"
+          aria-checked={value === rating}
+          onClick={() => onChange(value === rating ? null : rating)}
+        >
+          {rating}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Journal entry for a trade: thesis, emotions, rule checklist, screenshots and
+ * post-trade review. Read-only unless `canEdit`.
+ */
+export function JournalEntryPanel({ tradeId, userId, canEdit }: JournalEntryPanelProps) {
+  const { toast } = useToast();
+  const { entry, screenshotUrls, uploadScreenshots, save, loading, error } = useJournalEntry(tradeId);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<JournalEntryInput>(EMPTY_JOURNAL_ENTRY);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!editing) {
+      setDraft(entry ? { ...EMPTY_JOURNAL_ENTRY, ...entry } : EMPTY_JOURNAL_ENTRY);
+    }
+  }, [entry, editing]);
+
+  const update = (changes: Partial<JournalEntryInput>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const paths = await uploadScreenshots(userId, Array.from(files));
+      setDraft(prev => ({ ...prev, screenshots: [...prev.screenshots, ...paths] }));
+    } catch (err) {
+      toast({
+        title: "Upload failed",
+        description: err instanceof Error ? err.message : 'Unable to upload screenshot',
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await save(userId, draft);
+      setEditing(false);
+      toast({ title: "Journal saved" });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Unable to save journal entry',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const emotionLabel = (emotion?: TradeEmotion | null) =>
+    TRADE_EMOTIONS.find(option => option.value === emotion)?.label;
+
+  const section = (title: string, body?: string | null) => (
+    <div className="space-y-1">
+      <h4 className="text-sm font-medium text-muted-foreground">{title}</h4>
+      {body ? (
+        <p className="text-sm whitespace-pre-wrap">{body}</p>
+      ) : (
+        <p className="text-sm text-muted-foreground">Not recorded.</p>
+      )}
+    </div>
+  );
+
+  const adherence = entry ? ruleAdherence(entry.rules) : null;
+
+  return (
+    <Card className="crypto-card">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="w-5 h-5" />
+              Journal
+            </CardTitle>
+            <CardDescription>
+              {entry
+                ? `Last updated ${format(new Date(entry.updated_at), 'MMM dd, yyyy HH:mm')}`
+                : 'Plan, mindset and review for this trade'}
+            </CardDescription>
+          </div>
+          {canEdit && !editing && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(true)} disabled={loading}>
+              <Edit className="w-4 h-4 mr-2" />
+              {entry ? 'Edit' : 'Write Entry'}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {!editing && (
+          loading && !entry ? (
+            <div className="h-24 bg-muted/50 rounded animate-pulse" />
+          ) : !entry ? (
+            <p className="text-sm text-muted-foreground">No journal entry for this trade yet.</p>
+          ) : (
+            <>
+              {section('Pre-Trade Thesis', entry.thesis)}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium text-muted-foreground">Emotion</h4>
+                  <p className="text-sm">
+                    {emotionLabel(entry.emotion) || '—'}
+                    {entry.emotion && entry.emotion_intensity ? ` · ${entry.emotion_intensity}/5` : ''}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium text-muted-foreground">Confidence</h4>
+                  <p className="text-sm">{entry.confidence ? `${entry.confidence}/5` : '—'}</p>
+                </div>
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium text-muted-foreground">Rule Adherence</h4>
+                  <p className="text-sm">{adherence === null ? '—' : `${Math.round(adherence * 100)}%`}</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {TRADING_RULES.map(rule => (
+                  <div key={rule.key} className="flex items-center gap-2 text-sm">
+                    {entry.rules[rule.key] ? (
+                      <Check className="w-4 h-4 text-success" />
+                    ) : (
+                      <X className="w-4 h-4 text-destructive" />
+                    )}
+                    <span className={cn(!entry.rules[rule.key] && 'text-muted-foreground')}>{rule.label}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-muted-foreground">Screenshots</h4>
+                <ScreenshotGallery paths={entry.screenshots} urls={screenshotUrls} />
+              </div>
+
+              <Separator />
+
+              {section('Post-Trade Review', entry.review)}
+              {section('Lessons Learned', entry.lessons)}
+            </>
+          )
+        )}
+
+        {editing && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="journal-thesis">Pre-Trade Thesis</Label>
+              <Textarea
+                id="journal-thesis"
+                placeholder="Why are you taking this trade? What invalidates it?"
+                className="resize-none"
+                rows={4}
+                value={draft.thesis || ''}
+                onChange={(e) => update({ thesis: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Emotion</Label>
+                <Select
+                  value={draft.emotion || NO_EMOTION}
+                  onValueChange={(value) => update({ emotion: value === NO_EMOTION ? null : value as TradeEmotion })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_EMOTION}>Not recorded</SelectItem>
+                    {TRADE_EMOTIONS.map(emotion => (
+                      <SelectItem key={emotion.value} value={emotion.value}>
+                        {emotion.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Emotion Intensity</Label>
+                <RatingInput
+                  label="Emotion intensity"
+                  value={draft.emotion_intensity}
+                  onChange={(value) => update({ emotion_intensity: value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Confidence</Label>
+                <RatingInput
+                  label="Confidence"
+                  value={draft.confidence}
+                  onChange={(value) => update({ confidence: value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Rules</Label>
+              {TRADING_RULES.map(rule => (
+                <div key={rule.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`rule-${rule.key}`}
+                    checked={!!draft.rules[rule.key]}
+                    onCheckedChange={(checked) => update({ rules: { ...draft.rules, [rule.key]: checked === true } })}
+                  />
+                  <Label htmlFor={`rule-${rule.key}`} className="font-normal">
+                    {rule.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Screenshots</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploading}
+                >
+                  <ImagePlus className="w-4 h-4 mr-2" />
+                  {uploading ? 'Uploading...' : 'Add Screenshot'}
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ACCEPTED_SCREENSHOT_TYPES.join(',')}
+                  multiple
+                  className="hidden"
+                  onChange={(e) => handleFiles(e.target.files)}
+                />
+              </div>
+              <ScreenshotGallery
+                paths={draft.screenshots}
+                urls={screenshotUrls}
+                onRemove={(path) => update({ screenshots: draft.screenshots.filter(p => p !== path) })}
+              />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="journal-review">Post-Trade Review</Label>
+              <Textarea
+                id="journal-review"
+                placeholder="How did the trade play out against the plan?"
+                className="resize-none"
+                rows={4}
+                value={draft.review || ''}
+                onChange={(e) => update({ review: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="journal-lessons">Lessons Learned</Label>
+              <Textarea
+                id="journal-lessons"
+                placeholder="What will you repeat or change next time?"
+                className="resize-none"
+                rows={3}
+                value={draft.lessons || ''}
+                onChange={(e) => update({ lessons: e.target.value })}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={saving || uploading}>
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Journal'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ImageOff, X } from 'lucide-react';
+
+interface ScreenshotGalleryProps {
+  paths: string[];
+  urls: Record<string, string>;
+  onRemove?: (path: string) => void;
+}
+
+/**
+ * Thumbnail grid for chart screenshots with a full-size preview
+ */
+export function ScreenshotGallery({ paths, urls, onRemove }: ScreenshotGalleryProps) {
+  const [previewPath, setPreviewPath] = useState<string | null>(null);
+
+  if (paths.length === 0) {
+    return <p className="text-sm text-muted-foreground">No screenshots attached.</p>;
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {paths.map((path, index) => (
+          <div key={path} className="relative group aspect-video rounded-lg overflow-hidden border bg-muted/50">
+            {urls[path] ? (
+              <button type="button" className="w-full h-full" onClick={() => setPreviewPath(path)}>
+                <img src={urls[path]} alt={`Screenshot ${index + 1}`} className="w-full h-full object-cover" />
+              </button>
+            ) : (
+              <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                <ImageOff className="w-6 h-6" />
+              </div>
+            )}
+            {onRemove && (
+              <button
+                type="button"
+                aria-label={`Remove screenshot ${index + 1}`}
+                className="absolute top-1 right-1 rounded-full bg-background/80 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={() => onRemove(path)}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!previewPath} onOpenChange={() => setPreviewPath(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Screenshot</DialogTitle>
+          </DialogHeader>
+          {previewPath && urls[previewPath] && (
+            <img src={urls[previewPath]} alt="Screenshot preview" className="w-full rounded-lg" />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
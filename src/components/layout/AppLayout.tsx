@@ -1,5 +1,7 @@
 import { ReactNode } from 'react';
 import { SidebarProvider } from '@/components/ui/sidebar';
+import { useRealtimeSync } from '@/hooks/useRealtimeSync';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
 import { AppSidebar } from './AppSidebar';
 import { TopBar } from './TopBar';
 
@@ -8,12 +10,19 @@ interface AppLayoutProps {
 }
 
 export function AppLayout({ children }: AppLayoutProps) {
+  useRealtimeSync();
+  useOfflineSync();
+
   return (
     <SidebarProvider>
       <div className="min-h-screen flex w-full bg-background">
-        <AppSidebar />
+        <div className="contents print:hidden">
+          <AppSidebar />
+        </div>
         <main className="flex-1 flex flex-col">
-          <TopBar />
+          <div className="print:hidden">
+            <TopBar />
+          </div>
           <div className="flex-1 p-6">
             {children}
           </div>
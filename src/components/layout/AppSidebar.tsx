@@ -8,7 +8,8 @@ import {
   Wallet,
   Plus,
   Eye,
-  DollarSign
+  DollarSign,
+  FileText
 } from 'lucide-react';
 import { NavLink, useLocation } from 'react-router-dom';
 import {
@@ -29,6 +30,7 @@ const traderNavItems = [
   { title: 'Trade Journal', url: '/trades', icon: TrendingUp },
   { title: 'Cashflow', url: '/cashflow', icon: DollarSign },
   { title: 'Analytics', url: '/analytics', icon: BarChart3 },
+  { title: 'Tax Report', url: '/tax', icon: FileText },
   { title: 'Investors', url: '/investors', icon: Users },
   { title: 'Settings', url: '/settings', icon: Settings },
 ];
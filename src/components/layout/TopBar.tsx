@@ -1,8 +1,118 @@
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { SidebarTrigger } from '@/components/ui/sidebar';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { useAuth } from '@/hooks/useAuth';
-import { LogOut, Bell } from 'lucide-react';
+import { useRealtimeStatus } from '@/hooks/useRealtimeSync';
+import { useOfflineQueue } from '@/hooks/useOfflineSync';
+import { useBoundTraders } from '@/hooks/useBoundTraders';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { OfflineConflictDialog } from '@/components/offline/OfflineConflictDialog';
+import { LogOut, Bell, CloudOff, GitMerge, Loader2, Users } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { RealtimeStatus } from '@/lib/realtimeSync';
+import { ALL_TRADERS } from '@/lib/boundTraders';
+
+const LIVE_STATUS: Record<RealtimeStatus, { label: string; dot: string; description: string }> = {
+  live: { label: 'Live', dot: 'bg-success animate-pulse', description: 'Changes appear as they happen' },
+  connecting: { label: 'Connecting', dot: 'bg-yellow-500', description: 'Reconnecting to live updates' },
+  offline: { label: 'Offline', dot: 'bg-muted-foreground', description: 'Live updates are paused; data refreshes on reload' },
+};
+
+function LiveIndicator() {
+  const { status, lastChangeAt } = useRealtimeStatus();
+  const config = LIVE_STATUS[status];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-center gap-2 px-3 py-1 rounded-full border text-xs font-medium text-muted-foreground">
+          <span className={cn('w-2 h-2 rounded-full', config.dot)} />
+          {config.label}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>{config.description}</p>
+        {lastChangeAt && (
+          <p className="text-muted-foreground">Last update {format(new Date(lastChangeAt), 'HH:mm:ss')}</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+/**
+ * Writes waiting to sync, and a way into the conflicts that block them
+ */
+function OfflineQueueIndicator() {
+  const { online, pending, failed, conflicts, syncing } = useOfflineQueue();
+  const [resolving, setResolving] = useState(false);
+
+  if (online && pending === 0 && conflicts.length === 0) return null;
+
+  return (
+    <>
+      {(!online || pending > 0) && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="flex items-center gap-2 px-3 py-1 rounded-full border text-xs font-medium text-muted-foreground">
+              {syncing ? <Loader2 className="w-3 h-3 animate-spin" /> : <CloudOff className="w-3 h-3" />}
+              {syncing ? 'Syncing' : online ? `${pending} queued` : pending > 0 ? `Offline · ${pending} queued` : 'Offline'}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>
+              {online
+                ? `${pending} change${pending === 1 ? '' : 's'} waiting to sync`
+                : 'You are offline. Changes are saved on this device and sync when you reconnect.'}
+            </p>
+            {failed.length > 0 && (
+              <p className="text-destructive">
+                {failed.length} rejected by the server: {failed[0].lastError}
+              </p>
+            )}
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      {conflicts.length > 0 && (
+        <Button variant="outline" size="sm" className="gap-2 text-destructive" onClick={() => setResolving(true)}>
+          <GitMerge className="w-4 h-4" />
+          {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+        </Button>
+      )}
+
+      <OfflineConflictDialog conflicts={conflicts} open={resolving} onOpenChange={setResolving} />
+    </>
+  );
+}
+
+/**
+ * Which bound trader an investor is looking at, or all of them consolidated.
+ * Only shown once there is more than one trader to choose from.
+ */
+function TraderSwitcher() {
+  const { traders, selection, setSelection } = useBoundTraders();
+
+  if (traders.length < 2 || !selection) return null;
+
+  return (
+    <Select value={selection} onValueChange={setSelection}>
+      <SelectTrigger className="w-44 h-8">
+        <Users className="w-4 h-4 mr-2" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_TRADERS}>All traders</SelectItem>
+        {traders.map(trader => (
+          <SelectItem key={trader.id} value={trader.id}>{trader.username}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
 
 export function TopBar() {
   const { signOut, profile } = useAuth();
@@ -43,6 +153,10 @@ export function TopBar() {
 
         {/* Right side - Actions */}
         <div className="flex items-center gap-2">
+          {profile?.role === 'investor' && <TraderSwitcher />}
+          <OfflineQueueIndicator />
+          <LiveIndicator />
+
           <Button variant="ghost" size="icon">
             <Bell className="w-4 h-4" />
           </Button>
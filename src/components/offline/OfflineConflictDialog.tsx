@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useTradeTags } from '@/hooks/useTradeTags';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { diffRecords, formatAuditValue } from '@/lib/auditTrail';
+import { CurrencyCode, formatCurrency, isCurrencyCode } from '@/lib/currencies';
+import { QueuedWrite } from '@/lib/offlineQueue';
+import { resolveConflict } from '@/lib/offlineSync';
+
+interface OfflineConflictDialogProps {
+  conflicts: QueuedWrite[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Side = 'mine' | 'theirs';
+
+/**
+ * Copy of `payload` with `field` (a column or `details.<key>`) set to `value`
+ */
+function withField(payload: Record<string, unknown>, field: string, value: unknown): Record<string, unknown> {
+  if (!field.startsWith('details.')) return { ...payload, [field]: value ?? null };
+
+  const key = field.slice('details.'.length);
+  const details = { ...((payload.details as Record<string, unknown> | undefined) || {}) };
+  if (value === null || value === undefined) delete details[key];
+  else details[key] = value;
+  return { ...payload, details };
+}
+
+function describeConflict(write: QueuedWrite): string {
+  const noun = write.table === 'trades' ? 'trade' : 'transaction';
+  if (write.op === 'delete') return `You deleted this ${noun} offline, but it was changed on another device since.`;
+  if (!write.remote) return `You edited this ${noun} offline, but it was deleted on another device.`;
+  return `This ${noun} was changed on another device after you edited it offline. Pick which value to keep for each field.`;
+}
+
+/**
+ * Walks the user through their sync conflicts one at a time: keep the other
+ * device's version, keep their own, or merge the two field by field
+ */
+export function OfflineConflictDialog({ conflicts, open, onOpenChange }: OfflineConflictDialogProps) {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { strategies } = useTradeTags(profile?.id);
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [saving, setSaving] = useState(false);
+
+  const write = conflicts[0];
+
+  const changes = useMemo(() => {
+    if (!write || write.op !== 'update' || !write.remote) return [];
+    // Only the columns this edit wrote can conflict
+    const theirs = Object.fromEntries(Object.keys(write.payload).map(key => [key, write.remote?.[key] ?? null]));
+    return diffRecords(theirs, write.payload);
+  }, [write]);
+
+  useEffect(() => {
+    setChoices({});
+  }, [write?.id]);
+
+  useEffect(() => {
+    if (open && !write) onOpenChange(false);
+  }, [open, write, onOpenChange]);
+
+  if (!write) return null;
+
+  const strategyNames = Object.fromEntries(strategies.map(strategy => [strategy.id, strategy.name]));
+  const currency: CurrencyCode = isCurrencyCode(write.payload.currency) ? write.payload.currency : 'USD';
+
+  const formatValue = (field: string, value: unknown) => formatAuditValue(
+    // Cashflow dates display like trade dates
+    field === 'transaction_date' ? 'trade_date' : field,
+    value,
+    amount => formatCurrency(amount, currency),
+    field === 'strategy_id' ? strategyNames : {}
+  );
+
+  const resolve = async (side: Side) => {
+    setSaving(true);
+    try {
+      const merged = changes.reduce(
+        (payload, change) => (choices[change.field] === 'theirs' ? withField(payload, change.field, change.before) : payload),
+        write.payload
+      );
+      const result = await resolveConflict(queryClient, write, side, merged);
+
+      toast({
+        title: "Conflict resolved",
+        description: side === 'theirs'
+          ? "Kept the version from the other device."
+          : result && result.synced > 0 ? "Your version has been saved." : "Your version will be saved once you are back online.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const mergeable = changes.length > 0;
+  const keepsTheirs = mergeable && changes.every(change => choices[change.field] === 'theirs');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            Sync conflict{conflicts.length > 1 ? ` (1 of ${conflicts.length})` : ''}
+          </DialogTitle>
+          <DialogDescription>{describeConflict(write)}</DialogDescription>
+        </DialogHeader>
+
+        {mergeable && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_1fr] gap-4 text-xs font-medium text-muted-foreground">
+              <span>Field</span>
+              <span>Other device</span>
+              <span>Yours</span>
+            </div>
+            {changes.map(change => (
+              <RadioGroup
+                key={change.field}
+                value={choices[change.field] || 'mine'}
+                onValueChange={value => setChoices(current => ({ ...current, [change.field]: value as Side }))}
+                className="grid grid-cols-[1fr_1fr_1fr] gap-4 items-center text-sm"
+              >
+                <span className="font-medium">{change.label}</span>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <RadioGroupItem value="theirs" />
+                  <span className="break-all">{formatValue(change.field, change.before)}</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <RadioGroupItem value="mine" />
+                  <span className="break-all">{formatValue(change.field, change.after)}</span>
+                </label>
+              </RadioGroup>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" disabled={saving} onClick={() => resolve('theirs')}>
+            Keep other device's version
+          </Button>
+          <Button disabled={saving || keepsTheirs} onClick={() => resolve('mine')}>
+            {saving
+              ? "Saving..."
+              : write.op === 'delete'
+                ? "Delete anyway"
+                : !write.remote
+                  ? "Restore my version"
+                  : "Save merged version"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
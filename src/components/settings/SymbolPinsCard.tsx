@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Coins, Pin, RefreshCw, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useSymbolRegistry } from '@/hooks/useSymbolRegistry';
+import { clearPriceCache } from '@/lib/priceApi';
+import { coinsForSymbol, getCoinById } from '@/lib/symbolRegistry';
+
+/**
+ * Settings card for pinning asset tickers to specific CoinGecko coin ids
+ */
+export function SymbolPinsCard() {
+  const { toast } = useToast();
+  const { registrySize, lastUpdated, pins, pinSymbol, unpinSymbol, loading, error, refetch } = useSymbolRegistry();
+  const [asset, setAsset] = useState('');
+  const [coinId, setCoinId] = useState('');
+
+  const candidates = asset.trim() ? coinsForSymbol(asset) : [];
+
+  const handlePin = () => {
+    const symbol = asset.trim().toUpperCase();
+    const id = coinId.trim().toLowerCase();
+    if (!symbol || !id) return;
+
+    if (registrySize > 0 && !getCoinById(id)) {
+      toast({
+        title: "Unknown coin id",
+        description: `"${id}" is not in the CoinGecko coin list.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    pinSymbol(symbol, id);
+    // Cached prices were resolved with the previous mapping
+    clearPriceCache();
+    toast({
+      title: "Mapping pinned",
+      description: `${symbol} will be priced as ${id}.`,
+    });
+    setAsset('');
+    setCoinId('');
+  };
+
+  const handleUnpin = (symbol: string) => {
+    unpinSymbol(symbol);
+    clearPriceCache();
+  };
+
+  const pinnedEntries = Object.entries(pins).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <Card className="crypto-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="w-5 h-5" />
+          Price Symbols
+        </CardTitle>
+        <CardDescription>
+          Tickers shared by several coins are priced as the one with the largest market cap. Pin a coin id to override it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {registrySize > 0
+              ? `${registrySize.toLocaleString()} coins cached${lastUpdated ? ` • updated ${formatDistanceToNow(lastUpdated, { addSuffix: true })}` : ''}`
+              : error || 'Coin list not loaded'}
+          </span>
+          <Button variant="outline" size="sm" onClick={refetch} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="pin-asset">Asset</Label>
+            <Input
+              id="pin-asset"
+              placeholder="e.g., PEPE"
+              value={asset}
+              onChange={(e) => {
+                setAsset(e.target.value.toUpperCase());
+                setCoinId('');
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pin-coin">Coin</Label>
+            {candidates.length > 1 ? (
+              <Select value={coinId} onValueChange={setCoinId}>
+                <SelectTrigger id="pin-coin">
+                  <SelectValue placeholder={`${candidates.length} coins use ${asset.trim()}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(coin => (
+                    <SelectItem key={coin.id} value={coin.id}>
+                      {coin.name} ({coin.id}){coin.marketCapRank ? ` • #${coin.marketCapRank}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id="pin-coin"
+                placeholder={candidates[0]?.id || 'CoinGecko coin id'}
+                value={coinId}
+                onChange={(e) => setCoinId(e.target.value)}
+              />
+            )}
+          </div>
+          <Button onClick={handlePin} disabled={!asset.trim() || !coinId.trim()}>
+            <Pin className="w-4 h-4 mr-2" />
+            Pin
+          </Button>
+        </div>
+
+        {pinnedEntries.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {pinnedEntries.map(([symbol, id]) => (
+              <Badge key={symbol} variant="secondary" className="gap-1 pr-1">
+                {symbol} → {getCoinById(id)?.name || id}
+                <button
+                  type="button"
+                  aria-label={`Unpin ${symbol}`}
+                  className="ml-1 rounded-sm hover:bg-muted p-0.5"
+                  onClick={() => handleUnpin(symbol)}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No pinned mappings.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
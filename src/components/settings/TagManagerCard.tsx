@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Plus, Tags, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTradeTags } from '@/hooks/useTradeTags';
+import { TAG_COLORS } from '@/lib/tradeTags';
+import { cn } from '@/lib/utils';
+
+interface TagManagerCardProps {
+  userId: string;
+}
+
+/**
+ * Settings card for managing the trader's strategies and trade tags
+ */
+export function TagManagerCard({ userId }: TagManagerCardProps) {
+  const { toast } = useToast();
+  const { tags, strategies, createTag, deleteTag, createStrategy, deleteStrategy, loading } = useTradeTags(userId);
+  const [tagName, setTagName] = useState('');
+  const [tagColor, setTagColor] = useState(TAG_COLORS[0]);
+  const [strategyName, setStrategyName] = useState('');
+  const [strategyDescription, setStrategyDescription] = useState('');
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      toast({ title: success });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Something went wrong',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddTag = async () => {
+    if (!tagName.trim()) return;
+    await run(() => createTag(tagName, tagColor), 'Tag added');
+    setTagName('');
+  };
+
+  const handleAddStrategy = async () => {
+    if (!strategyName.trim()) return;
+    await run(() => createStrategy(strategyName, strategyDescription), 'Strategy added');
+    setStrategyName('');
+    setStrategyDescription('');
+  };
+
+  return (
+    <Card className="crypto-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="w-5 h-5" />
+          Strategies & Tags
+        </CardTitle>
+        <CardDescription>
+          Label trades with the setup behind them. Analytics breaks results down by strategy and tag.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <h4 className="font-medium">Strategies</h4>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="strategy-name">Name</Label>
+              <Input
+                id="strategy-name"
+                placeholder="e.g., Breakout"
+                value={strategyName}
+                onChange={(e) => setStrategyName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="strategy-description">Description</Label>
+              <Input
+                id="strategy-description"
+                placeholder="Optional"
+                value={strategyDescription}
+                onChange={(e) => setStrategyDescription(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleAddStrategy} disabled={!strategyName.trim() || loading}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+          {strategies.length > 0 ? (
+            <div className="space-y-2">
+              {strategies.map(strategy => (
+                <div key={strategy.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <div>
+                    <div className="font-medium text-sm">{strategy.name}</div>
+                    {strategy.description && (
+                      <div className="text-xs text-muted-foreground">{strategy.description}</div>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Delete ${strategy.name}`}
+                    onClick={() => run(() => deleteStrategy(strategy.id), 'Strategy deleted')}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No strategies yet.</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <h4 className="font-medium">Tags</h4>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="tag-name">Name</Label>
+              <Input
+                id="tag-name"
+                placeholder="e.g., FOMO"
+                value={tagName}
+                onChange={(e) => setTagName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Color</Label>
+              <div className="flex flex-wrap gap-2 h-10 items-center">
+                {TAG_COLORS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    aria-label={`Color ${color}`}
+                    className={cn(
+                      'w-6 h-6 rounded-full border-2',
+                      tagColor === color ? 'border-foreground' : 'border-transparent'
+                    )}
+                    style={{ backgroundColor: color }}
+                    onClick={() => setTagColor(color)}
+                  />
+                ))}
+              </div>
+            </div>
+            <Button onClick={handleAddTag} disabled={!tagName.trim() || loading}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+          {tags.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {tags.map(tag => (
+                <Badge key={tag.id} variant="outline" className="gap-1 pr-1">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                  {tag.name}
+                  <button
+                    type="button"
+                    aria-label={`Delete ${tag.name}`}
+                    className="ml-1 rounded-sm hover:bg-muted p-0.5"
+                    onClick={() => run(() => deleteTag(tag.id), 'Tag deleted')}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No tags yet.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
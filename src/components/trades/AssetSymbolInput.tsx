@@ -0,0 +1,120 @@
+import { forwardRef, useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { useSymbolRegistry } from '@/hooks/useSymbolRegistry';
+import { resolveSymbol, searchCoins } from '@/lib/symbolRegistry';
+import { cn } from '@/lib/utils';
+
+interface AssetSymbolInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  name?: string;
+  placeholder?: string;
+}
+
+/**
+ * Asset ticker input that suggests coins from the symbol registry and flags
+ * tickers no price source will recognise
+ */
+export const AssetSymbolInput = forwardRef<HTMLInputElement, AssetSymbolInputProps>(
+  ({ value, onChange, onBlur, name, placeholder }, ref) => {
+    const { registrySize, pins } = useSymbolRegistry();
+    const [open, setOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+
+    const suggestions = useMemo(
+      () => (registrySize > 0 ? searchCoins(value) : []),
+      [value, registrySize]
+    );
+
+    // Re-evaluated every render so pin changes apply immediately
+    const resolution = value.trim() && registrySize > 0 && !pins[value.trim().toUpperCase()]
+      ? resolveSymbol(value)
+      : null;
+
+    const select = (symbol: string) => {
+      onChange(symbol.toUpperCase());
+      setOpen(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (!open || suggestions.length === 0) return;
+
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted(i => Math.min(i + 1, suggestions.length - 1));
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted(i => Math.max(i - 1, 0));
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        select(suggestions[highlighted].symbol);
+      } else if (e.key === 'Escape') {
+        setOpen(false);
+      }
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={ref}
+          name={name}
+          value={value}
+          placeholder={placeholder}
+          autoComplete="off"
+          onChange={(e) => {
+            onChange(e.target.value.toUpperCase());
+            setHighlighted(0);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => {
+            setOpen(false);
+            onBlur?.();
+          }}
+          onKeyDown={handleKeyDown}
+        />
+
+        {open && suggestions.length > 0 && (
+          <ul className="absolute z-50 mt-1 w-full max-h-60 overflow-auto rounded-md border bg-popover text-popover-foreground shadow-md">
+            {suggestions.map((coin, i) => (
+              <li
+                key={coin.id}
+                // Select before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  select(coin.symbol);
+                }}
+                className={cn(
+                  'flex items-center justify-between px-3 py-2 text-sm cursor-pointer',
+                  i === highlighted && 'bg-accent text-accent-foreground'
+                )}
+              >
+                <span>
+                  <span className="font-medium">{coin.symbol.toUpperCase()}</span>
+                  <span className="text-muted-foreground ml-2">{coin.name}</span>
+                </span>
+                {coin.marketCapRank && (
+                  <span className="text-xs text-muted-foreground">#{coin.marketCapRank}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {resolution?.source === 'unresolved' && (
+          <p className="text-xs text-amber-600 mt-1">
+            Not a known ticker; live prices won't be available unless you pin it in Settings.
+          </p>
+        )}
+        {resolution && resolution.source === 'registry' && resolution.candidates.length > 1 && (
+          <p className="text-xs text-muted-foreground mt-1">
+            Priced as {resolution.candidates[0].name}; {resolution.candidates.length - 1} other coin{resolution.candidates.length > 2 ? 's' : ''} share this ticker.
+          </p>
+        )}
+      </div>
+    );
+  }
+);
+
+AssetSymbolInput.displayName = 'AssetSymbolInput';
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { PositionSide } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+const fundingSchema = z.object({
+  asset: z.string().min(1, 'Asset is required'),
+  position_side: z.enum(['long', 'short']),
+  amount: z.number().refine(value => value !== 0, 'Amount cannot be zero'),
+  paid_at: z.date(),
+  notes: z.string().optional(),
+});
+
+interface FundingPaymentFormProps {
+  asset?: string;
+  positionSide?: PositionSide;
+  onSuccess: () => void;
+}
+
+export function FundingPaymentForm({ asset, positionSide, onSuccess }: FundingPaymentFormProps) {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+
+  const form = useForm<z.infer<typeof fundingSchema>>({
+    resolver: zodResolver(fundingSchema),
+    defaultValues: {
+      asset: asset || '',
+      position_side: positionSide || 'long',
+      amount: 0,
+      paid_at: new Date(),
+      notes: '',
+    },
+  });
+
+  const onSubmit = async (data: z.infer<typeof fundingSchema>) => {
+    if (!profile) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('futures_funding')
+        .insert({
+          user_id: profile.id,
+          asset: data.asset.toUpperCase(),
+          position_side: data.position_side,
+          amount: data.amount,
+          currency: profile.currency,
+          paid_at: data.paid_at.toISOString(),
+          notes: data.notes || null,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Funding recorded",
+        description: `${data.amount > 0 ? 'Received' : 'Paid'} ${Math.abs(data.amount).toLocaleString()} ${profile.currency} funding on ${data.asset.toUpperCase()} ${data.position_side}.`,
+      });
+
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to record funding payment',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="asset"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Asset</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., BTC" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="position_side"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Position</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select side" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="long">Long</SelectItem>
+                    <SelectItem value="short">Short</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Amount ({profile?.currency || 'USD'})</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="Positive if received, negative if paid"
+                  {...field}
+                  onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="paid_at"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Funding Date</FormLabel>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <FormControl>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        "w-full pl-3 text-left font-normal",
+                        !field.value && "text-muted-foreground"
+                      )}
+                    >
+                      {field.value ? (
+                        format(field.value, "PPP")
+                      ) : (
+                        <span>Pick a date</span>
+                      )}
+                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                    </Button>
+                  </FormControl>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={field.value}
+                    onSelect={field.onChange}
+                    disabled={(date) =>
+                      date > new Date() || date < new Date("1900-01-01")
+                    }
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes (Optional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Funding interval, exchange, etc."
+                  className="resize-none"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={loading} className="w-full">
+          {loading ? "Saving..." : "Record Funding"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { RefreshCw, TrendingUp, TrendingDown, Activity, Plus, AlertTriangle } from 'lucide-react';
+import { useFuturesPositions } from '@/hooks/useFuturesPositions';
+import { usePriceCache } from '@/hooks/usePriceData';
+import { FundingPaymentForm } from './FundingPaymentForm';
+import { Trade } from '@/types/database';
+import { cn } from '@/lib/utils';
+import { CurrencyCode, formatCurrency as formatMoney } from '@/lib/currencies';
+
+interface FuturesPositionsPanelProps {
+  trades: Trade[];
+  ownerId?: string;
+  currency: CurrencyCode;
+  canEdit?: boolean;
+}
+
+export function FuturesPositionsPanel({ trades, ownerId, currency, canEdit = false }: FuturesPositionsPanelProps) {
+  const {
+    openPositions,
+    closedPositions,
+    orphanCloses,
+    metrics,
+    loading,
+    error,
+    lastUpdated,
+    refetch
+  } = useFuturesPositions(trades, ownerId, currency);
+  const { clearCache, isClearing } = usePriceCache();
+  const [fundingOpen, setFundingOpen] = useState(false);
+
+  const handleRefresh = async () => {
+    await clearCache();
+    await refetch();
+  };
+
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
+
+  const formatSigned = (amount: number) => `${amount >= 0 ? '+' : '-'}${formatCurrency(Math.abs(amount))}`;
+
+  const totalUnrealizedPnL = openPositions.reduce(
+    (sum, position) => sum + (metrics[position.id]?.unrealizedPnL || 0),
+    0
+  );
+  const totalRealizedPnL = [...openPositions, ...closedPositions].reduce(
+    (sum, position) => sum + position.realizedPnL,
+    0
+  );
+  const totalFunding = [...openPositions, ...closedPositions].reduce(
+    (sum, position) => sum + position.fundingPnL,
+    0
+  );
+
+  const orphanWarning = orphanCloses.length > 0 && (
+    <div className="flex items-start gap-2 text-xs text-warning">
+      <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+      <div>
+        {orphanCloses.length} closing {orphanCloses.length === 1 ? 'fill has' : 'fills have'} no open position to close and
+        {orphanCloses.length === 1 ? ' is' : ' are'} left out of positions:{' '}
+        {orphanCloses
+          .map(orphan => `${orphan.asset} ${orphan.side} ${orphan.quantity} on ${format(new Date(orphan.date), 'MMM dd, yyyy')}`)
+          .join(', ')}
+      </div>
+    </div>
+  );
+
+  const header = (
+    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+      <CardTitle className="text-sm font-medium">Futures Positions</CardTitle>
+      <div className="flex items-center gap-2">
+        {lastUpdated && (
+          <div className="text-xs text-muted-foreground">
+            Marked {lastUpdated.toLocaleTimeString()}
+          </div>
+        )}
+        {canEdit && (
+          <Dialog open={fundingOpen} onOpenChange={setFundingOpen}>
+            <DialogTrigger asChild>
+              <Button variant="ghost" size="sm">
+                <Plus className="h-4 w-4 mr-1" />
+                Funding
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Record Funding Payment</DialogTitle>
+              </DialogHeader>
+              <FundingPaymentForm
+                asset={openPositions[0]?.asset}
+                positionSide={openPositions[0]?.side}
+                onSuccess={() => {
+                  setFundingOpen(false);
+                  refetch();
+                }}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleRefresh}
+          disabled={loading || isClearing}
+        >
+          <RefreshCw className={cn("h-4 w-4", (loading || isClearing) && "animate-spin")} />
+        </Button>
+      </div>
+    </CardHeader>
+  );
+
+  if (loading && openPositions.length > 0 && Object.keys(metrics).length === 0) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <div className="flex items-center justify-center py-8">
+            <Activity className="h-4 w-4 mr-2 text-muted-foreground animate-pulse" />
+            <div className="text-sm text-muted-foreground">Loading futures positions...</div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (openPositions.length === 0 && closedPositions.length === 0) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          {orphanWarning}
+          <div className="text-center py-8">
+            <div className="text-sm text-muted-foreground">No futures positions found</div>
+            <div className="text-xs text-muted-foreground mt-1">
+              Add futures trades with a long/short side to track positions
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      {header}
+      <CardContent className="space-y-4">
+        {error && (
+          <p className="text-xs text-destructive">{error}</p>
+        )}
+        {orphanWarning}
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <div className="text-xs text-muted-foreground">Unrealized PnL</div>
+            <div className={cn(
+              "text-lg font-semibold",
+              totalUnrealizedPnL >= 0 ? "text-green-600" : "text-red-600"
+            )}>
+              {formatSigned(totalUnrealizedPnL)}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">Realized PnL</div>
+            <div className={cn(
+              "text-lg font-semibold",
+              totalRealizedPnL >= 0 ? "text-green-600" : "text-red-600"
+            )}>
+              {formatSigned(totalRealizedPnL)}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">Net Funding</div>
+            <div className={cn(
+              "text-lg font-semibold",
+              totalFunding >= 0 ? "text-green-600" : "text-red-600"
+            )}>
+              {formatSigned(totalFunding)}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {openPositions.length === 0 && (
+            <div className="text-sm text-muted-foreground text-center py-4">
+              No open futures positions ({closedPositions.length} closed)
+            </div>
+          )}
+          {openPositions.map((position) => {
+            const positionMetrics = metrics[position.id];
+            const unrealizedPnL = positionMetrics?.unrealizedPnL ?? null;
+            const isPositive = (unrealizedPnL || 0) >= 0;
+            const markPrice = positionMetrics?.markPrice ?? null;
+            const nearLiquidation = position.liquidationPrice !== null && markPrice !== null &&
+              Math.abs(markPrice - position.liquidationPrice) / markPrice < 0.1;
+
+            return (
+              <div key={position.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{position.asset}</span>
+                    <Badge
+                      className={cn(
+                        "text-xs",
+                        position.side === 'long'
+                          ? "bg-green-100 text-green-800 hover:bg-green-100"
+                          : "bg-red-100 text-red-800 hover:bg-red-100"
+                      )}
+                    >
+                      {position.side.toUpperCase()}
+                      {position.leverage ? ` ${position.leverage}x` : ''}
+                    </Badge>
+                    <Badge variant="outline" className="text-xs">
+                      {position.size.toFixed(4)}
+                    </Badge>
+                  </div>
+                  <div className={cn(
+                    "text-sm font-medium flex items-center gap-1",
+                    isPositive ? "text-green-600" : "text-red-600"
+                  )}>
+                    {unrealizedPnL === null ? (
+                      <span className="text-xs text-muted-foreground">Price unavailable</span>
+                    ) : (
+                      <>
+                        {isPositive ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                        {formatCurrency(Math.abs(unrealizedPnL))}
+                        {positionMetrics?.roe !== null && positionMetrics?.roe !== undefined && (
+                          <span className="text-xs">({positionMetrics.roe >= 0 ? '+' : ''}{positionMetrics.roe.toFixed(2)}% ROE)</span>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                  <span>Entry: {formatCurrency(position.entryPrice)}</span>
+                  <span>Mark: {markPrice !== null ? formatCurrency(markPrice) : 'N/A'}</span>
+                  <span className={cn(nearLiquidation && "text-red-600 font-medium")}>
+                    {nearLiquidation && <AlertTriangle className="inline h-3 w-3 mr-1" />}
+                    Liq: {position.liquidationPrice !== null ? formatCurrency(position.liquidationPrice) : 'N/A'}
+                  </span>
+                  {position.margin !== null && <span>Margin: {formatCurrency(position.margin)}</span>}
+                  {position.closedQuantity > 0 && (
+                    <span>Realized: {formatSigned(position.realizedPnL)}</span>
+                  )}
+                  {position.funding.length > 0 && (
+                    <span>Funding: {formatSigned(position.fundingPnL)} ({position.funding.length})</span>
+                  )}
+                  <span>{position.events.length} fill{position.events.length !== 1 ? 's' : ''}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,13 +4,15 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, TestTube } from 'lucide-react';
-import { fetchCryptoPrice, calculateSpotPnL } from '@/lib/priceApi';
+import { fetchCryptoPriceQuote, calculateSpotPnL } from '@/lib/priceApi';
+import { getPriceProviderOrder, getProviderHealth, providerHitRate, ProviderHealth } from '@/lib/priceProviders';
 
 export function PriceTestPanel() {
   const [symbol, setSymbol] = useState('BTC');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [health, setHealth] = useState<ProviderHealth[]>(getProviderHealth);
 
   const testPrice = async () => {
     if (!symbol) return;
@@ -20,11 +22,12 @@ export function PriceTestPanel() {
     setResult(null);
     
     try {
-      const price = await fetchCryptoPrice(symbol, 'USD');
-      setResult({ type: 'price', price, symbol });
+      const quote = await fetchCryptoPriceQuote(symbol, 'USD');
+      setResult({ type: 'price', price: quote?.price, source: quote?.source, symbol });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch price');
     } finally {
+      setHealth(getProviderHealth());
       setLoading(false);
     }
   };
@@ -42,6 +45,7 @@ export function PriceTestPanel() {
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to calculate PnL');
     } finally {
+      setHealth(getProviderHealth());
       setLoading(false);
     }
   };
@@ -51,10 +55,10 @@ export function PriceTestPanel() {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <TestTube className="h-5 w-5" />
-          CoinGecko API Test
+          Price Provider Test
         </CardTitle>
         <div className="text-xs text-muted-foreground">
-          Prices cached for 30 minutes • API calls limited to conserve quota
+          Fallback order: {getPriceProviderOrder().join(' → ')} • Prices cached for 30 minutes
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -98,6 +102,9 @@ export function PriceTestPanel() {
                 <p className="text-sm">
                   <strong>{result.symbol}:</strong> ${result.price?.toLocaleString() || 'N/A'}
                 </p>
+                {result.source && (
+                  <p className="text-xs text-muted-foreground">Served by {result.source}</p>
+                )}
               </div>
             )}
             
@@ -117,6 +124,44 @@ export function PriceTestPanel() {
             )}
           </div>
         )}
+
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Provider health (this session)</p>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th className="font-normal">Provider</th>
+                <th className="font-normal text-right">Requests</th>
+                <th className="font-normal text-right">Latency</th>
+                <th className="font-normal text-right">Hit rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {health.map(provider => {
+                const hitRate = providerHitRate(provider);
+                const coolingDown = provider.cooldownUntil !== null && provider.cooldownUntil > Date.now();
+                return (
+                  <tr key={provider.id} title={provider.lastError || undefined}>
+                    <td>
+                      {provider.label}
+                      {coolingDown && <Badge variant="destructive" className="ml-1 px-1 py-0 text-[10px]">down</Badge>}
+                    </td>
+                    <td className="text-right">
+                      {provider.requests}
+                      {provider.failures > 0 && <span className="text-red-600"> ({provider.failures} failed)</span>}
+                    </td>
+                    <td className="text-right">
+                      {provider.averageLatency !== null ? `${Math.round(provider.averageLatency)} ms` : '—'}
+                    </td>
+                    <td className="text-right">
+                      {hitRate !== null ? `${(hitRate * 100).toFixed(0)}%` : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
       </CardContent>
     </Card>
   );
@@ -3,10 +3,11 @@ import { Badge } from '@/components/ui/badge';
 import { TrendingUp, TrendingDown, Loader2 } from 'lucide-react';
 import { useCryptoPrice } from '@/hooks/usePriceData';
 import { cn } from '@/lib/utils';
+import { CurrencyCode, formatCurrency as formatMoney } from '@/lib/currencies';
 
 interface RealTimePriceCellProps {
   asset: string;
-  currency: 'USD' | 'PHP';
+  currency: CurrencyCode;
   purchasePrice?: number;
   quantity?: number;
   category?: string;
@@ -23,14 +24,7 @@ export function RealTimePriceCell({
 }: RealTimePriceCellProps) {
   const { price, loading, error } = useCryptoPrice(asset, currency);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 6
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, currency, { maximumFractionDigits: 6 });
 
   // Only show PnL calculation for spot trades
   const showPnL = category === 'spot' && purchasePrice && quantity && price;
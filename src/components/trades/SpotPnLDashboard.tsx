@@ -2,18 +2,27 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RefreshCw, TrendingUp, TrendingDown, Activity } from 'lucide-react';
 import { usePortfolioPnL, usePriceCache } from '@/hooks/usePriceData';
+import { useCostBasisMethod } from '@/hooks/useCostBasisMethod';
+import { useFxConversion } from '@/hooks/useFxConversion';
+import { COST_BASIS_METHODS, CostBasisMethod } from '@/lib/lotMatching';
 import { Trade } from '@/types/database';
 import { cn } from '@/lib/utils';
+import { CurrencyCode, formatCurrency as formatMoney } from '@/lib/currencies';
 
 interface SpotPnLDashboardProps {
   trades: Trade[];
-  currency: 'USD' | 'PHP';
+  currency: CurrencyCode;
 }
 
-export function SpotPnLDashboard({ trades, currency }: SpotPnLDashboardProps) {
-  const { portfolioData, loading, error, lastUpdated, refetch } = usePortfolioPnL(trades, currency);
+export function SpotPnLDashboard({ trades: recordedTrades, currency }: SpotPnLDashboardProps) {
+  const { method, setMethod } = useCostBasisMethod();
+  // Cost basis is restated in the reporting currency at each trade date's FX rate
+  const { trades, pending } = useFxConversion(recordedTrades, undefined, currency);
+  const { portfolioData, loading: pnlLoading, error, lastUpdated, refetch } = usePortfolioPnL(trades, currency, method);
+  const loading = pnlLoading || pending;
   const { clearCache, isClearing } = usePriceCache();
 
   const handleRefresh = async () => {
@@ -21,14 +30,7 @@ export function SpotPnLDashboard({ trades, currency }: SpotPnLDashboardProps) {
     await refetch();
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
 
   const formatPercentage = (percentage: number) => {
     return `${percentage >= 0 ? '+' : ''}${percentage.toFixed(2)}%`;
@@ -77,7 +79,22 @@ export function SpotPnLDashboard({ trades, currency }: SpotPnLDashboardProps) {
     );
   }
 
-  if (!portfolioData || portfolioData.assetBreakdown.length === 0) {
+  const methodSelect = (
+    <Select value={method} onValueChange={(value) => setMethod(value as CostBasisMethod)}>
+      <SelectTrigger className="h-8 w-36 text-xs">
+        <SelectValue placeholder="Cost basis" />
+      </SelectTrigger>
+      <SelectContent>
+        {COST_BASIS_METHODS.map(option => (
+          <SelectItem key={option.value} value={option.value} className="text-xs">
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (!portfolioData || (portfolioData.assetBreakdown.length === 0 && portfolioData.closedLots.length === 0)) {
     return (
       <Card>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -103,8 +120,18 @@ export function SpotPnLDashboard({ trades, currency }: SpotPnLDashboardProps) {
     );
   }
 
-  const { totalInvested, totalCurrentValue, totalUnrealizedPnL, totalPnLPercentage, assetBreakdown } = portfolioData;
+  const {
+    totalInvested,
+    totalCurrentValue,
+    totalUnrealizedPnL,
+    totalPnLPercentage,
+    totalRealizedPnL,
+    closedLots,
+    assetBreakdown
+  } = portfolioData;
   const isPositive = totalUnrealizedPnL >= 0;
+  const isRealizedPositive = totalRealizedPnL >= 0;
+  const recentClosedLots = [...closedLots].reverse().slice(0, 10);
 
   return (
     <div className="space-y-6">
@@ -118,6 +145,7 @@ export function SpotPnLDashboard({ trades, currency }: SpotPnLDashboardProps) {
                 Updated {lastUpdated.toLocaleTimeString()} (refreshes every 30min)
               </div>
             )}
+            {methodSelect}
             <Button
               variant="ghost"
               size="sm"
@@ -129,7 +157,7 @@ export function SpotPnLDashboard({ trades, currency }: SpotPnLDashboardProps) {
           </div>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
             <div>
               <div className="text-xs text-muted-foreground">Total Invested</div>
               <div className="text-lg font-semibold">{formatCurrency(totalInvested)}</div>
@@ -160,6 +188,16 @@ export function SpotPnLDashboard({ trades, currency }: SpotPnLDashboardProps) {
                 {formatPercentage(totalPnLPercentage)}
               </Badge>
             </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Realized PnL</div>
+              <div className={cn(
+                "text-lg font-semibold flex items-center gap-1",
+                isRealizedPositive ? "text-green-600" : "text-red-600"
+              )}>
+                {isRealizedPositive ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
+                {formatCurrency(Math.abs(totalRealizedPnL))}
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -171,6 +209,11 @@ export function SpotPnLDashboard({ trades, currency }: SpotPnLDashboardProps) {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
+            {assetBreakdown.length === 0 && (
+              <div className="text-sm text-muted-foreground text-center py-4">
+                All spot positions are closed
+              </div>
+            )}
             {assetBreakdown.map((asset) => {
               const assetIsPositive = asset.unrealizedPnL >= 0;
               
@@ -184,9 +227,15 @@ export function SpotPnLDashboard({ trades, currency }: SpotPnLDashboardProps) {
                       </Badge>
                     </div>
                     <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                      <span>Avg Buy: {formatCurrency(asset.purchasePrice)}</span>
+                      <span>Cost Basis: {formatCurrency(asset.purchasePrice)}</span>
                       <span>Current: {asset.currentPrice ? formatCurrency(asset.currentPrice) : 'N/A'}</span>
                       <span>Invested: {formatCurrency(asset.invested)}</span>
+                      <span>{asset.openLots.length} open lot{asset.openLots.length !== 1 ? 's' : ''}</span>
+                      {asset.realizedPnL !== 0 && (
+                        <span className={asset.realizedPnL >= 0 ? "text-green-600" : "text-red-600"}>
+                          Realized: {asset.realizedPnL >= 0 ? '+' : '-'}{formatCurrency(Math.abs(asset.realizedPnL))}
+                        </span>
+                      )}
                     </div>
                   </div>
                   
@@ -209,6 +258,53 @@ export function SpotPnLDashboard({ trades, currency }: SpotPnLDashboardProps) {
           </div>
         </CardContent>
       </Card>
+
+      {/* Closed Lots */}
+      {recentClosedLots.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">
+              Realized Lots ({COST_BASIS_METHODS.find(m => m.value === method)?.label})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {recentClosedLots.map((lot, index) => {
+                const lotIsPositive = lot.realizedPnL >= 0;
+
+                return (
+                  <div
+                    key={`${lot.sellTradeId}-${lot.buyTradeId}-${index}`}
+                    className="flex items-center justify-between p-3 border rounded-lg"
+                  >
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium">{lot.asset}</span>
+                        <Badge variant="outline" className="text-xs">
+                          {lot.quantity.toFixed(8)}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                        <span>Cost: {formatCurrency(lot.unitCost)}</span>
+                        <span>Sold: {formatCurrency(lot.unitProceeds)}</span>
+                        {lot.closeDate && <span>{new Date(lot.closeDate).toLocaleDateString()}</span>}
+                        {lot.holdingPeriodDays !== null && <span>{Math.round(lot.holdingPeriodDays)}d held</span>}
+                      </div>
+                    </div>
+                    <div className={cn(
+                      "text-sm font-medium flex items-center gap-1",
+                      lotIsPositive ? "text-green-600" : "text-red-600"
+                    )}>
+                      {lotIsPositive ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                      {formatCurrency(Math.abs(lot.realizedPnL))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
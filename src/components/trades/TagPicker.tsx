@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Tag } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TagPickerProps {
+  tags: Tag[];
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * Searchable multi-select for trade tags
+ */
+export function TagPicker({ tags, value, onChange, placeholder = 'Select tags' }: TagPickerProps) {
+  const [open, setOpen] = useState(false);
+  const selected = tags.filter(tag => value.includes(tag.id));
+
+  const toggle = (tagId: string) => {
+    onChange(value.includes(tagId) ? value.filter(id => id !== tagId) : [...value, tagId]);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between h-auto min-h-10"
+        >
+          {selected.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {selected.map(tag => (
+                <Badge key={tag.id} variant="outline" className="gap-1">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                  {tag.name}
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <span className="text-muted-foreground font-normal">{placeholder}</span>
+          )}
+          <ChevronsUpDown className="w-4 h-4 ml-2 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search tags..." />
+          <CommandList>
+            <CommandEmpty>No tags found. Add tags in Settings.</CommandEmpty>
+            <CommandGroup>
+              {tags.map(tag => (
+                <CommandItem key={tag.id} value={tag.name} onSelect={() => toggle(tag.id)}>
+                  <Check className={cn('w-4 h-4 mr-2', value.includes(tag.id) ? 'opacity-100' : 'opacity-0')} />
+                  <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: tag.color }} />
+                  {tag.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
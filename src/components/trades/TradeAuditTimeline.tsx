@@ -0,0 +1,151 @@
+import { useMemo } from 'react';
+import { AuditLog, Strategy } from '@/types/database';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Edit, FilePen, History, PlusCircle, Trash2, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import { AuditEvent, formatAuditValue, toAuditEvents } from '@/lib/auditTrail';
+import { CurrencyCode, formatCurrency } from '@/lib/currencies';
+import { AMENDMENT_WINDOW_DAYS, shortHash } from '@/lib/ledger';
+import { cn } from '@/lib/utils';
+
+interface TradeAuditTimelineProps {
+  entries: AuditLog[];
+  strategies?: Strategy[];
+  currency?: CurrencyCode;
+  // Owner of the trade, to tell their amendments from system writes
+  ownerId?: string;
+}
+
+const ACTION_CONFIG: Record<AuditEvent['action'], { label: string; icon: typeof Edit; className: string }> = {
+  create: { label: 'Created', icon: PlusCircle, className: 'text-success bg-success/10' },
+  update: { label: 'Edited', icon: Edit, className: 'text-primary bg-primary/10' },
+  delete: { label: 'Deleted', icon: Trash2, className: 'text-destructive bg-destructive/10' },
+  import: { label: 'Imported', icon: Upload, className: 'text-primary bg-primary/10' },
+};
+
+/**
+ * Read-only history of a trade from the audit log, newest first
+ */
+export function TradeAuditTimeline({ entries, strategies = [], currency = 'USD', ownerId }: TradeAuditTimelineProps) {
+  const events = useMemo(() => toAuditEvents(entries), [entries]);
+  const strategyNames = useMemo(
+    () => Object.fromEntries(strategies.map(strategy => [strategy.id, strategy.name])),
+    [strategies]
+  );
+  const edits = events.filter(event => event.action === 'update').length;
+  const amendments = events.filter(event => event.isAmendment).length;
+
+  const formatValue = (field: string, value: unknown, event: AuditEvent) => {
+    const eventCurrency = (event.snapshot?.currency as CurrencyCode) || currency;
+    return formatAuditValue(
+      field,
+      value,
+      amount => formatCurrency(amount, eventCurrency),
+      field === 'strategy_id' ? strategyNames : {}
+    );
+  };
+
+  return (
+    <Card className="crypto-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          History
+        </CardTitle>
+        <CardDescription>
+          {edits > 0
+            ? `Edited ${edits} time${edits !== 1 ? 's' : ''} after it was recorded`
+            : 'Every change to this trade is logged and cannot be edited'}
+          {amendments > 0 && `, ${amendments} amendment${amendments !== 1 ? 's' : ''} made more than ${AMENDMENT_WINDOW_DAYS} days later`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No history recorded for this trade.</p>
+        ) : (
+          <ol className="relative border-l border-border ml-3 space-y-6">
+            {events.map(event => {
+              const config = ACTION_CONFIG[event.action] || ACTION_CONFIG.update;
+              const Icon = config.icon;
+
+              return (
+                <li key={event.id} className="ml-6">
+                  <span
+                    className={cn(
+                      'absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-background',
+                      config.className
+                    )}
+                  >
+                    <Icon className="w-3 h-3" />
+                  </span>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{config.label}</span>
+                    {event.source && <Badge variant="outline">{event.source}</Badge>}
+                    {event.isAmendment && (
+                      <Badge className="gap-1 bg-yellow-100 text-yellow-800">
+                        <FilePen className="w-3 h-3" />
+                        Amendment
+                      </Badge>
+                    )}
+                    <time className="text-xs text-muted-foreground">
+                      {format(new Date(event.createdAt), 'MMM dd, yyyy HH:mm:ss')}
+                    </time>
+                  </div>
+
+                  {event.isAmendment && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Made by {!event.actorId ? 'the system' : event.actorId === ownerId ? 'the trader' : 'another account'} · ledger hash{' '}
+                      <span className="font-mono">{shortHash(event.hash)}</span>
+                    </p>
+                  )}
+
+                  {event.action === 'import' && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Part of a batch of {event.importCount} imported trade{event.importCount !== 1 ? 's' : ''}
+                    </p>
+                  )}
+
+                  {event.changes.length > 0 && (
+                    <div className="mt-2 rounded-lg border overflow-hidden">
+                      <table className="w-full text-sm">
+                        <thead className="bg-muted/50 text-muted-foreground">
+                          <tr>
+                            <th className="text-left font-medium px-3 py-1.5">Field</th>
+                            {event.action !== 'create' && <th className="text-left font-medium px-3 py-1.5">Before</th>}
+                            {event.action !== 'delete' && <th className="text-left font-medium px-3 py-1.5">After</th>}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {event.changes.map(change => (
+                            <tr key={change.field} className="border-t">
+                              <td className="px-3 py-1.5 text-muted-foreground">{change.label}</td>
+                              {event.action !== 'create' && (
+                                <td className={cn('px-3 py-1.5', event.action === 'update' && 'text-destructive line-through')}>
+                                  {formatValue(change.field, change.before, event)}
+                                </td>
+                              )}
+                              {event.action !== 'delete' && (
+                                <td className={cn('px-3 py-1.5', event.action === 'update' && 'text-success')}>
+                                  {formatValue(change.field, change.after, event)}
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {event.action === 'update' && event.changes.length === 0 && (
+                    <p className="text-sm text-muted-foreground mt-1">Saved without changes</p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Trade, TradeCategory } from '@/types/database';
@@ -18,50 +18,18 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { CalendarIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-
-const baseSchema = z.object({
-  category: z.enum(['spot', 'futures', 'defi', 'dual_investment', 'liquidity_pool', 'liquidity_mining']),
-  asset: z.string().min(1, 'Asset is required'),
-  price: z.number().positive('Price must be positive'),
-  quantity: z.number().positive('Quantity must be positive'),
-  trade_date: z.date(),
-  fees: z.number().min(0, 'Fees cannot be negative').optional(),
-  notes: z.string().optional(),
-});
-
-const investmentSchema = baseSchema.extend({
-  profit_loss: z.number().optional(),
-});
-
-const spotSchema = baseSchema.extend({
-  buy_sell: z.enum(['buy', 'sell']),
-});
-
-const futuresSchema = baseSchema.extend({
-  buy_sell: z.enum(['buy', 'sell']),
-  leverage: z.number().positive().optional(),
-  margin: z.number().positive().optional(),
-});
-
-const defiSchema = investmentSchema.extend({
-  platform: z.string().min(1, 'Platform is required'),
-  apy: z.number().min(0).optional(),
-});
-
-const dualInvestmentSchema = investmentSchema.extend({
-  platform: z.string().min(1, 'Platform is required'),
-  strike_price: z.number().positive().optional(),
-});
-
-const liquidityPoolSchema = investmentSchema.extend({
-  platform: z.string().min(1, 'Platform is required'),
-  pool_share: z.number().min(0).max(1).optional(),
-});
-
-const liquidityMiningSchema = investmentSchema.extend({
-  platform: z.string().min(1, 'Platform is required'),
-  rewards_token: z.string().optional(),
-});
+import { getTradeEntrySchema } from '@/lib/tradeSchemas';
+import { AssetSymbolInput } from './AssetSymbolInput';
+import { TagPicker } from './TagPicker';
+import { CURRENCIES } from '@/lib/currencies';
+import { useTradeTags } from '@/hooks/useTradeTags';
+import { saveTradeTags, tradeTagIds } from '@/lib/tradeTags';
+import { invalidateTradeQueries } from '@/lib/tradeQueries';
+import { isNetworkError, newRecordId } from '@/lib/offlineQueue';
+import { saveOffline } from '@/lib/offlineSync';
+
+// Select value for trades without a strategy (Radix selects reject '')
+const NO_STRATEGY = 'none';
 
 interface TradeFormProps {
   trade?: Trade;
@@ -71,45 +39,34 @@ interface TradeFormProps {
 export function TradeForm({ trade, onSuccess }: TradeFormProps) {
   const { profile } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { tags, strategies } = useTradeTags(profile?.id);
   const [loading, setLoading] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<TradeCategory>(
     trade?.category || 'spot'
   );
 
-  const getSchema = (category: TradeCategory) => {
-    switch (category) {
-      case 'spot':
-        return spotSchema;
-      case 'futures':
-        return futuresSchema;
-      case 'defi':
-        return defiSchema;
-      case 'dual_investment':
-        return dualInvestmentSchema;
-      case 'liquidity_pool':
-        return liquidityPoolSchema;
-      case 'liquidity_mining':
-        return liquidityMiningSchema;
-      default:
-        return baseSchema;
-    }
-  };
-
   const form = useForm({
-    resolver: zodResolver(getSchema(selectedCategory)),
+    resolver: zodResolver(getTradeEntrySchema(selectedCategory)),
     defaultValues: {
       category: trade?.category || 'spot',
       asset: trade?.asset || '',
       price: trade?.price || 0,
+      currency: trade?.currency || profile?.currency || 'USD',
       quantity: trade?.quantity || 0,
       trade_date: trade?.trade_date ? new Date(trade.trade_date) : new Date(),
       fees: trade?.fees || 0,
       profit_loss: trade?.profit_loss || undefined,
       notes: trade?.notes || '',
+      strategy_id: trade?.strategy_id || NO_STRATEGY,
+      tag_ids: trade ? tradeTagIds(trade) : [],
       // Details fields
       buy_sell: trade?.details?.buy_sell || 'buy',
+      // No default: the side decides whether a sell closes a long or opens a short
+      position_side: trade?.details?.position_side || undefined,
       leverage: trade?.details?.leverage || undefined,
       margin: trade?.details?.margin || undefined,
+      stop_loss: trade?.details?.stop_loss || undefined,
       platform: trade?.details?.platform || '',
       apy: trade?.details?.apy || undefined,
       strike_price: trade?.details?.strike_price || undefined,
@@ -130,8 +87,10 @@ export function TradeForm({ trade, onSuccess }: TradeFormProps) {
         case 'spot':
         case 'futures':
           details.buy_sell = data.buy_sell;
+          if (data.category === 'futures') details.position_side = data.position_side;
           if (data.leverage) details.leverage = data.leverage;
           if (data.margin) details.margin = data.margin;
+          if (data.stop_loss) details.stop_loss = data.stop_loss;
           break;
         case 'defi':
           details.platform = data.platform;
@@ -156,33 +115,77 @@ export function TradeForm({ trade, onSuccess }: TradeFormProps) {
         category: data.category,
         asset: data.asset,
         price: data.price,
-        currency: profile.currency,
+        currency: data.currency || profile.currency,
         quantity: data.quantity,
         trade_date: data.trade_date.toISOString(),
         fees: data.fees || null,
         profit_loss: data.profit_loss || null,
         details,
         notes: data.notes || null,
+        strategy_id: data.strategy_id && data.strategy_id !== NO_STRATEGY ? data.strategy_id : null,
+      };
+
+      const tagIds: string[] = data.tag_ids || [];
+      // Generated here so a retried insert cannot create the trade twice
+      const tradeId = trade?.id || newRecordId();
+
+      const saveOnline = async () => {
+        const result = trade?.id
+          ? await supabase
+            .from('trades')
+            .update(tradeData)
+            .eq('id', trade.id)
+            .select('id')
+            .single()
+          : await supabase
+            .from('trades')
+            .insert([{ ...tradeData, id: tradeId }])
+            .select('id')
+            .single();
+
+        if (result.error) throw result.error;
+
+        await saveTradeTags(tradeId, tagIds);
+
+        // Refresh only the cached lists this trade was or now is part of
+        await invalidateTradeQueries(queryClient, profile.id, trade?.id ? trade : null, {
+          ...tradeData,
+          id: tradeId,
+          trade_tags: tagIds.map(tag_id => ({ tag_id })),
+        });
       };
 
-      let result;
-      if (trade?.id) {
-        result = await supabase
-          .from('trades')
-          .update(tradeData)
-          .eq('id', trade.id);
-      } else {
-        result = await supabase
-          .from('trades')
-          .insert([tradeData]);
+      let offline = !navigator.onLine;
+      if (!offline) {
+        try {
+          await saveOnline();
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          offline = true;
+        }
       }
 
-      if (result.error) throw result.error;
+      if (offline) {
+        await saveOffline(queryClient, {
+          table: 'trades',
+          op: trade?.id ? 'update' : 'insert',
+          recordId: tradeId,
+          ownerId: profile.id,
+          payload: tradeData,
+          tagIds,
+          baseUpdatedAt: trade?.updated_at ?? null,
+        }, trade ?? null);
+      }
 
-      toast({
-        title: trade?.id ? "Trade updated" : "Trade added",
-        description: `${data.asset} ${data.category} has been ${trade?.id ? 'updated' : 'added'} successfully.`,
-      });
+      toast(offline
+        ? {
+          title: "Saved offline",
+          description: `${data.asset} ${data.category} is stored on this device and will sync when you're back online.`,
+        }
+        : {
+          title: trade?.id ? "Trade updated" : "Trade added",
+          description: `${data.asset} ${data.category} has been ${trade?.id ? 'updated' : 'added'} successfully.`,
+        });
 
       onSuccess();
     } catch (error: any) {
@@ -244,7 +247,7 @@ export function TradeForm({ trade, onSuccess }: TradeFormProps) {
               <FormItem>
                 <FormLabel>Asset</FormLabel>
                 <FormControl>
-                  <Input placeholder="e.g., BTC, ETH" {...field} />
+                  <AssetSymbolInput placeholder="e.g., BTC, ETH" {...field} />
                 </FormControl>
                 <FormMessage />
               </FormItem>
@@ -363,6 +366,30 @@ export function TradeForm({ trade, onSuccess }: TradeFormProps) {
           />
         )}
 
+        {selectedCategory === 'futures' && (
+          <FormField
+            control={form.control}
+            name="position_side"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Position Side</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select side" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="long">Long</SelectItem>
+                    <SelectItem value="short">Short</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         {selectedCategory === 'futures' && (
           <div className="grid grid-cols-2 gap-4">
             <FormField
@@ -407,6 +434,28 @@ export function TradeForm({ trade, onSuccess }: TradeFormProps) {
           </div>
         )}
 
+        {(selectedCategory === 'spot' || selectedCategory === 'futures') && (
+          <FormField
+            control={form.control}
+            name="stop_loss"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Stop Loss (optional)</FormLabel>
+                <FormControl>
+                  <Input 
+                    type="number" 
+                    step="0.01"
+                    placeholder="Planned exit price if wrong"
+                    {...field}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || undefined)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         {isInvestmentCategory && (
           <>
             <FormField
@@ -547,6 +596,73 @@ export function TradeForm({ trade, onSuccess }: TradeFormProps) {
               </FormItem>
             )}
           />
+
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Quote Currency</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CURRENCIES.map(currency => (
+                      <SelectItem key={currency.code} value={currency.code}>
+                        {currency.code} · {currency.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="strategy_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Strategy (optional)</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_STRATEGY}>None</SelectItem>
+                    {strategies.map(strategy => (
+                      <SelectItem key={strategy.id} value={strategy.id}>
+                        {strategy.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="tag_ids"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tags (optional)</FormLabel>
+                <FormControl>
+                  <TagPicker tags={tags} value={field.value || []} onChange={field.onChange} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
 
         <FormField
@@ -0,0 +1,346 @@
+import { useState, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Trade } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, ArrowLeft, ArrowRight, FileSpreadsheet, AlertCircle, CheckCircle2 } from 'lucide-react';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  IMPORT_PRESETS,
+  ImportCategory,
+  ImportField,
+  ImportPreset,
+  ParsedCsv,
+  buildColumnMapping,
+  detectPreset,
+  parseCsv,
+  prepareImportRows,
+  summarizeImportRows,
+} from '@/lib/tradeImport';
+import { cn } from '@/lib/utils';
+
+const UNMAPPED = '__none__';
+const PREVIEW_LIMIT = 200;
+
+type WizardStep = 'upload' | 'map' | 'preview';
+
+interface TradeImportWizardProps {
+  existingTrades: Trade[];
+  onSuccess: () => void;
+}
+
+export function TradeImportWizard({ existingTrades, onSuccess }: TradeImportWizardProps) {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState<string>('');
+  const [parsed, setParsed] = useState<ParsedCsv | null>(null);
+  const [preset, setPreset] = useState<ImportPreset>(IMPORT_PRESETS[IMPORT_PRESETS.length - 1]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [category, setCategory] = useState<ImportCategory>('spot');
+  const [importing, setImporting] = useState(false);
+
+  const rows = useMemo(() => {
+    if (!parsed || step !== 'preview') return [];
+    return prepareImportRows(parsed, mapping, {
+      source: preset.source,
+      category,
+      currency: profile?.currency || 'USD',
+      existingTrades,
+    });
+  }, [parsed, mapping, preset, category, profile?.currency, existingTrades, step]);
+
+  const summary = useMemo(() => summarizeImportRows(rows), [rows]);
+
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && !mapping[field.value]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const result = parseCsv(text);
+
+      if (result.headers.length === 0 || result.rows.length === 0) {
+        toast({
+          title: "Empty file",
+          description: "The selected CSV has no data rows.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const detected = detectPreset(result.headers);
+      setFileName(file.name);
+      setParsed(result);
+      setPreset(detected);
+      setMapping(buildColumnMapping(detected, result.headers));
+      setStep('map');
+      console.log(`📊 Parsed ${result.rows.length} rows from ${file.name} (detected ${detected.label})`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to read CSV file',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePresetChange = (source: string) => {
+    const next = IMPORT_PRESETS.find(p => p.source === source);
+    if (!next || !parsed) return;
+    setPreset(next);
+    setMapping(buildColumnMapping(next, parsed.headers));
+  };
+
+  const handleMappingChange = (field: ImportField, header: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (header === UNMAPPED) {
+        delete next[field];
+      } else {
+        next[field] = header;
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!profile) return;
+
+    const toInsert = rows.filter(row => row.trade && !row.duplicate).map(row => row.trade!);
+    if (toInsert.length === 0) return;
+
+    setImporting(true);
+    try {
+      const { data, error } = await supabase.rpc('import_trades', {
+        p_trades: JSON.parse(JSON.stringify(toInsert)),
+        p_source: preset.source,
+      });
+
+      if (error) throw error;
+
+      console.log(`✅ Imported ${data} trades from ${fileName}`);
+      toast({
+        title: "Import complete",
+        description: `${data} trade${data !== 1 ? 's' : ''} imported from ${preset.label}.`,
+      });
+
+      onSuccess();
+    } catch (error) {
+      console.error('❌ Trade import failed:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to import trades',
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (step === 'upload') {
+    return (
+      <div className="space-y-4">
+        <div className="border-2 border-dashed rounded-lg p-8 text-center">
+          <FileSpreadsheet className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+          <p className="text-sm font-medium">Upload an exchange trade history export</p>
+          <p className="text-xs text-muted-foreground mt-1 mb-4">
+            Binance, Bybit, OKX and Coinbase layouts are detected automatically; any other CSV can be mapped by hand.
+          </p>
+          <Label htmlFor="trade-import-file" className="cursor-pointer">
+            <div className="inline-flex items-center rounded-md border px-4 py-2 text-sm hover:bg-accent">
+              <Upload className="h-4 w-4 mr-2" />
+              Choose CSV file
+            </div>
+          </Label>
+          <Input
+            id="trade-import-file"
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'map' && parsed) {
+    return (
+      <div className="space-y-4">
+        <div className="text-sm text-muted-foreground">
+          {fileName} · {parsed.rows.length} row{parsed.rows.length !== 1 ? 's' : ''}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Layout</Label>
+            <Select value={preset.source} onValueChange={handlePresetChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMPORT_PRESETS.map(p => (
+                  <SelectItem key={p.source} value={p.source}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Import as</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as ImportCategory)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="spot">Spot Trading</SelectItem>
+                <SelectItem value="futures">Futures Trading</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Column Mapping</Label>
+          {IMPORT_FIELDS.map(field => (
+            <div key={field.value} className="grid grid-cols-2 gap-4 items-center">
+              <div className="text-sm">
+                {field.label}
+                {field.required && <span className="text-red-600 ml-1">*</span>}
+              </div>
+              <Select
+                value={mapping[field.value] || UNMAPPED}
+                onValueChange={(value) => handleMappingChange(field.value, value)}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                  {parsed.headers.filter(Boolean).map(header => (
+                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setStep('upload')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <Button onClick={() => setStep('preview')} disabled={missingRequired.length > 0}>
+            Preview
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Button>
+        </div>
+        {missingRequired.length > 0 && (
+          <p className="text-xs text-muted-foreground text-right">
+            Map {missingRequired.map(field => field.label).join(', ')} to continue
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{summary.valid} ready</Badge>
+        <Badge variant="destructive">{summary.invalid} invalid</Badge>
+        <Badge variant="secondary">{summary.duplicates} duplicate{summary.duplicates !== 1 ? 's' : ''}</Badge>
+        {summary.skipped > 0 && <Badge variant="outline">{summary.skipped} skipped</Badge>}
+      </div>
+
+      <div className="max-h-[50vh] overflow-auto border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">Row</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Asset</TableHead>
+              <TableHead>Side</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Fees</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.slice(0, PREVIEW_LIMIT).map(row => (
+              <TableRow
+                key={row.rowNumber}
+                className={cn(
+                  !row.trade && !row.skipped && "bg-red-50",
+                  (row.duplicate || row.skipped) && "opacity-60"
+                )}
+              >
+                <TableCell className="text-xs text-muted-foreground">{row.rowNumber}</TableCell>
+                <TableCell className="text-xs">
+                  {row.trade ? new Date(row.trade.trade_date).toLocaleString() : row.raw[mapping.trade_date!]}
+                </TableCell>
+                <TableCell className="text-xs font-medium">
+                  {row.trade ? row.trade.asset : row.raw[mapping.asset!]}
+                </TableCell>
+                <TableCell className="text-xs">
+                  {row.trade ? String(row.trade.details.buy_sell).toUpperCase() : row.raw[mapping.side!]}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {row.trade ? row.trade.price.toLocaleString() : row.raw[mapping.price!]}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {row.trade ? row.trade.quantity.toLocaleString() : row.raw[mapping.quantity!]}
+                </TableCell>
+                <TableCell className="text-xs text-right">
+                  {row.trade ? row.trade.fees.toLocaleString(undefined, { maximumFractionDigits: 8 }) : ''}
+                  {row.trade?.details.fee_asset && (
+                    <span className="text-muted-foreground ml-1">{String(row.trade.details.fee_asset)}</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs">
+                  {row.skipped ? (
+                    <span className="text-muted-foreground">{row.errors[0]}</span>
+                  ) : row.duplicate ? (
+                    <span className="text-muted-foreground">Duplicate</span>
+                  ) : row.trade ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <span className="text-red-600 flex items-start gap-1">
+                      <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                      {row.errors.join('; ')}
+                    </span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {rows.length > PREVIEW_LIMIT && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {PREVIEW_LIMIT} of {rows.length} rows
+        </p>
+      )}
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={() => setStep('map')} disabled={importing}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <Button onClick={handleImport} disabled={importing || summary.valid === 0}>
+          {importing ? "Importing..." : `Import ${summary.valid} trade${summary.valid !== 1 ? 's' : ''}`}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import { Trade } from '@/types/database';
+import { useMergedTradesPages, useTradeOwner, useTradesPages } from '@/hooks/useTrades';
+import { useBoundTraders } from '@/hooks/useBoundTraders';
+import { Tag, Trade } from '@/types/database';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -31,148 +35,92 @@ import {
 } from '@/components/ui/alert-dialog';
 import { TradeForm } from './TradeForm';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { MoreHorizontal, Edit, Trash2, TrendingUp, TrendingDown } from 'lucide-react';
+import { MoreHorizontal, Edit, Trash2, TrendingUp, TrendingDown, BookOpen, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import { RealTimePriceCell } from './RealTimePriceCell';
+import { CurrencyCode, formatCurrency as formatMoney } from '@/lib/currencies';
+import { tradeTagIds } from '@/lib/tradeTags';
+import { invalidateTradeQueries, TradeQueryFilter } from '@/lib/tradeQueries';
+import { isNetworkError } from '@/lib/offlineQueue';
+import { saveOffline } from '@/lib/offlineSync';
 
 interface TradesListProps {
-  category?: string;
   sortBy?: string;
+  // Applied on the server; category, asset, side, dates, strategy and tags
+  filter?: TradeQueryFilter;
+  tags?: Tag[];
   onTradeCountChange?: (count: number) => void;
 }
 
-export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange }: TradesListProps) {
-  const { profile, isTrader } = useAuth();
+const NO_FILTER: TradeQueryFilter = {};
+
+export function TradesList({ sortBy = 'date_desc', filter = NO_FILTER, tags = [], onTradeCountChange }: TradesListProps) {
+  const { isTrader } = useAuth();
   const { toast } = useToast();
-  const [trades, setTrades] = useState<Trade[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const { ownerId, ownerIds, consolidated, loading: ownerLoading } = useTradeOwner();
+  const { namesById } = useBoundTraders();
+  const ownerPages = useTradesPages(ownerId, filter, sortBy);
+  // The consolidated view pages through every bound trader's history at once
+  const mergedPages = useMergedTradesPages(consolidated ? ownerIds : [], filter, sortBy);
+  const { trades, total, hasMore, loadMore, loadingMore, loading: tradesLoading, error } = consolidated ? mergedPages : ownerPages;
   const [editingTrade, setEditingTrade] = useState<Trade | null>(null);
   const [deletingTrade, setDeletingTrade] = useState<Trade | null>(null);
+  const loading = ownerLoading || tradesLoading;
 
-  useEffect(() => {
-    fetchTrades();
-  }, [profile, category, sortBy]);
-
-  const fetchTrades = async () => {
-    if (!profile) return;
-
-    try {
-      setLoading(true);
-      let query = supabase
-        .from('trades')
-        .select('*')
-        .order('trade_date', { ascending: false }); // Most recent first
-
-      // For traders, get their own trades
-      if (isTrader) {
-        query = query.eq('user_id', profile.id);
-      } else {
-        // For investors, get their bound trader's trades
-        // Check if investor has an approved binding
-        if (profile.bound_trader_id) {
-          // Verify the binding is still approved
-          const { data: binding } = await supabase
-            .from('bindings')
-            .select('status')
-            .eq('investor_id', profile.id)
-            .eq('trader_id', profile.bound_trader_id)
-            .eq('status', 'approved')
-            .maybeSingle();
-            
-          if (binding) {
-            query = query.eq('user_id', profile.bound_trader_id);
-          } else {
-            setTrades([]);
-            setLoading(false);
-            return;
-          }
-        } else {
-          setTrades([]);
-          setLoading(false);
-          return;
-        }
-      }
+  const hasFilters = Object.entries(filter).some(([key, value]) =>
+    Array.isArray(value) ? value.length > 0 : !!value && !(key === 'category' && value === 'all')
+  );
 
-      // Apply category filter if specified
-      if (category && category !== 'all') {
-        query = query.eq('category', category);
-      }
+  useEffect(() => {
+    onTradeCountChange?.(total);
+  }, [total, onTradeCountChange]);
 
-      const { data, error } = await query;
+  useEffect(() => {
+    if (!error) return;
+    console.error('❌ Error fetching trades:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch trades",
+      variant: "destructive",
+    });
+  }, [error, toast]);
 
-      if (error) throw error;
-      
-      // Additional client-side sorting based on sortBy parameter
-      const sortedTrades = (data as Trade[]).sort((a, b) => {
-        switch (sortBy) {
-          case 'date_asc':
-            return new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime();
-          case 'date_desc':
-            return new Date(b.trade_date).getTime() - new Date(a.trade_date).getTime();
-          case 'asset_asc':
-            return a.asset.localeCompare(b.asset);
-          case 'asset_desc':
-            return b.asset.localeCompare(a.asset);
-          case 'pnl_desc':
-            const aPnL = a.profit_loss || 0;
-            const bPnL = b.profit_loss || 0;
-            return bPnL - aPnL;
-          case 'pnl_asc':
-            const aPnLAsc = a.profit_loss || 0;
-            const bPnLAsc = b.profit_loss || 0;
-            return aPnLAsc - bPnLAsc;
-          case 'category':
-            const categoryOrder = ['spot', 'futures', 'defi', 'dual_investment', 'liquidity_pool', 'liquidity_mining'];
-            const aIndex = categoryOrder.indexOf(a.category);
-            const bIndex = categoryOrder.indexOf(b.category);
-            if (aIndex !== bIndex) return aIndex - bIndex;
-            // Secondary sort by date (newest first) for same category
-            return new Date(b.trade_date).getTime() - new Date(a.trade_date).getTime();
-          default:
-            // Default sort: date desc, then category, then asset
-            const dateComparison = new Date(b.trade_date).getTime() - new Date(a.trade_date).getTime();
-            if (dateComparison !== 0) return dateComparison;
-            
-            const categoryOrderDefault = ['spot', 'futures', 'defi', 'dual_investment', 'liquidity_pool', 'liquidity_mining'];
-            const aIndexDefault = categoryOrderDefault.indexOf(a.category);
-            const bIndexDefault = categoryOrderDefault.indexOf(b.category);
-            if (aIndexDefault !== bIndexDefault) return aIndexDefault - bIndexDefault;
-            
-            return a.asset.localeCompare(b.asset);
-        }
-      });
-      
-      setTrades(sortedTrades);
-      onTradeCountChange?.(sortedTrades.length);
-      console.log(`✅ Loaded ${sortedTrades.length} trades${category && category !== 'all' ? ` for category: ${category}` : ''}`);
-    } catch (error) {
-      console.error('❌ Error fetching trades:', error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch trades",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const tagsById = useMemo(() => new Map(tags.map(tag => [tag.id, tag])), [tags]);
 
   const handleDelete = async (trade: Trade) => {
     try {
-      const { error } = await supabase
-        .from('trades')
-        .delete()
-        .eq('id', trade.id);
+      let offline = !navigator.onLine;
+      if (!offline) {
+        const { error } = await supabase
+          .from('trades')
+          .delete()
+          .eq('id', trade.id);
 
-      if (error) throw error;
+        if (error && !isNetworkError(error)) throw error;
+        offline = !!error;
+      }
 
-      setTrades(prev => prev.filter(t => t.id !== trade.id));
       setDeletingTrade(null);
+      if (offline) {
+        await saveOffline(queryClient, {
+          table: 'trades',
+          op: 'delete',
+          recordId: trade.id,
+          ownerId: trade.user_id,
+          payload: {},
+          baseUpdatedAt: trade.updated_at,
+        }, trade);
+      } else {
+        await invalidateTradeQueries(queryClient, trade.user_id, trade, null);
+      }
       
       toast({
         title: "Trade deleted",
-        description: "The trade has been successfully deleted.",
+        description: offline
+          ? "The trade will be deleted from your journal when you're back online."
+          : "The trade has been successfully deleted.",
       });
     } catch (error: any) {
       toast({
@@ -202,13 +150,7 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
     );
   };
 
-  const formatCurrency = (amount: number, currency: string) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 2,
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number, currency: string) => formatMoney(amount, currency);
 
   if (loading) {
     return (
@@ -224,7 +166,7 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
     );
   }
 
-  if (trades.length === 0) {
+  if (trades.length === 0 && !hasFilters) {
     return (
       <Card className="crypto-card">
         <CardContent className="p-12 text-center">
@@ -233,7 +175,7 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
           <p className="text-sm text-muted-foreground mb-4">
             {isTrader 
               ? "Start by adding your first trade or investment"
-              : "Your trader hasn't made any trades yet"
+              : consolidated ? "None of your traders have made any trades yet" : "Your trader hasn't made any trades yet"
             }
           </p>
           {isTrader && (
@@ -246,6 +188,19 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
     );
   }
 
+  if (trades.length === 0) {
+    return (
+      <Card className="crypto-card">
+        <CardContent className="p-12 text-center">
+          <h3 className="font-medium mb-2">No matching trades</h3>
+          <p className="text-sm text-muted-foreground">
+            No trades match the selected filters
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <>
       <Card className="crypto-card">
@@ -253,6 +208,7 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
           <Table>
             <TableHeader>
               <TableRow>
+                {consolidated && <TableHead>Trader</TableHead>}
                 <TableHead>Asset</TableHead>
                 <TableHead>Category</TableHead>
                 <TableHead>Purchase Price</TableHead>
@@ -260,13 +216,21 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
                 <TableHead>Quantity</TableHead>
                 <TableHead>Date</TableHead>
                 <TableHead>P&L</TableHead>
+                <TableHead>Tags</TableHead>
                 {isTrader && <TableHead className="w-12"></TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
               {trades.map((trade) => (
                 <TableRow key={trade.id}>
-                  <TableCell className="font-medium">{trade.asset}</TableCell>
+                  {consolidated && (
+                    <TableCell className="text-muted-foreground">{namesById[trade.user_id] || 'Unknown'}</TableCell>
+                  )}
+                  <TableCell className="font-medium">
+                    <Link to={`/trades/${trade.id}`} className="hover:text-primary hover:underline">
+                      {trade.asset}
+                    </Link>
+                  </TableCell>
                   <TableCell>{getCategoryBadge(trade.category)}</TableCell>
                   <TableCell>
                     {formatCurrency(trade.price, trade.currency)}
@@ -274,7 +238,7 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
                   <TableCell>
                     <RealTimePriceCell 
                       asset={trade.asset}
-                      currency={trade.currency as 'USD' | 'PHP'}
+                      currency={trade.currency as CurrencyCode}
                       purchasePrice={trade.price}
                       quantity={trade.quantity}
                       category={trade.category}
@@ -300,6 +264,16 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
                       <span className="text-muted-foreground">-</span>
                     )}
                   </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {tradeTagIds(trade).map(tagId => tagsById.get(tagId)).filter((tag): tag is Tag => !!tag).map(tag => (
+                        <Badge key={tag.id} variant="outline" className="gap-1 whitespace-nowrap">
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                          {tag.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
                   {isTrader && (
                     <TableCell>
                       <DropdownMenu>
@@ -309,6 +283,12 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                          <DropdownMenuItem asChild>
+                            <Link to={`/trades/${trade.id}`}>
+                              <BookOpen className="w-4 h-4 mr-2" />
+                              Journal
+                            </Link>
+                          </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => setEditingTrade(trade)}>
                             <Edit className="w-4 h-4 mr-2" />
                             Edit
@@ -328,6 +308,17 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
               ))}
             </TableBody>
           </Table>
+          {hasMore && (
+            <div className="flex items-center justify-center gap-3 p-4 border-t">
+              <span className="text-sm text-muted-foreground">
+                Showing {trades.length} of {total}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => loadMore()} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -342,10 +333,7 @@ export function TradesList({ category, sortBy = 'date_desc', onTradeCountChange
           {editingTrade && (
             <TradeForm 
               trade={editingTrade.id ? editingTrade : undefined}
-              onSuccess={() => {
-                setEditingTrade(null);
-                fetchTrades();
-              }}
+              onSuccess={() => setEditingTrade(null)}
             />
           )}
         </DialogContent>
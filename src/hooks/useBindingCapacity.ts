@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { bindingCapacityKey, fetchBindingCapacity } from '@/lib/bindingTiers';
+
+/**
+ * Investor slots of a trader: limit, in use, free, and the waitlist
+ */
+export function useBindingCapacity(traderId: string | undefined) {
+  const query = useQuery({
+    queryKey: bindingCapacityKey(traderId || ''),
+    enabled: !!traderId,
+    // Slots change whenever any investor of the trader is approved or revoked
+    staleTime: 0,
+    queryFn: () => fetchBindingCapacity(traderId!),
+  });
+
+  return {
+    capacity: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  ALL_TRADERS,
+  BoundTrader,
+  boundTradersKey,
+  fetchBoundTraders,
+  readTraderSelection,
+  resolveTraderSelection,
+  TRADER_SELECTION_EVENT,
+  writeTraderSelection,
+} from '@/lib/boundTraders';
+
+const NO_TRADERS: BoundTrader[] = [];
+
+/**
+ * Hook for the signed-in investor's approved traders and the one they are
+ * viewing (`ALL_TRADERS` for the consolidated view). The selection is
+ * persisted locally and shared between every component that uses it.
+ */
+export function useBoundTraders() {
+  const { profile, isTrader } = useAuth();
+  const investorId = profile && !isTrader ? profile.id : undefined;
+  const [stored, setStored] = useState<string | null>(readTraderSelection);
+
+  const query = useQuery({
+    queryKey: boundTradersKey(investorId || ''),
+    enabled: !!investorId,
+    queryFn: () => fetchBoundTraders(investorId!),
+  });
+
+  useEffect(() => {
+    const sync = () => setStored(readTraderSelection());
+
+    window.addEventListener(TRADER_SELECTION_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(TRADER_SELECTION_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  const traders = query.data || NO_TRADERS;
+  const selection = resolveTraderSelection(stored, traders, profile?.bound_trader_id);
+
+  const setSelection = useCallback((next: string) => {
+    writeTraderSelection(next);
+    setStored(next);
+  }, []);
+
+  const namesById = useMemo(
+    () => Object.fromEntries(traders.map(trader => [trader.id, trader.username])) as Record<string, string>,
+    [traders]
+  );
+
+  return {
+    traders,
+    namesById,
+    selection,
+    selectedTrader: traders.find(trader => trader.id === selection) ?? null,
+    consolidated: selection === ALL_TRADERS,
+    setSelection,
+    loading: !!investorId && query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,84 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { usePortfolioValuation } from '@/hooks/usePortfolioValuation';
+import { CurrencyCode } from '@/lib/currencies';
+import {
+  capitalAccountsKey,
+  fetchCapitalAccounts,
+  fetchFundInvestors,
+  fundInvestorsKey,
+  navPerUnit,
+  signedAmount,
+  unpricedCashflows,
+} from '@/lib/capitalAccounts';
+import { Cashflow, Trade } from '@/types/database';
+
+/**
+ * Unit holdings in a trader's fund: every holder for the trader, the
+ * signed-in investor's own otherwise
+ */
+export function useCapitalAccounts(traderId: string | undefined) {
+  const query = useQuery({
+    queryKey: capitalAccountsKey(traderId || ''),
+    enabled: !!traderId,
+    queryFn: () => fetchCapitalAccounts(traderId!),
+  });
+
+  return {
+    capital: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refetch: query.refetch,
+  };
+}
+
+/**
+ * Hook for the net asset value per unit of a trader's fund, from the same
+ * valuation as the grand total portfolio. `currency` must be the trader's.
+ */
+export function useFundNav(
+  traderId: string | undefined,
+  trades: Trade[],
+  cashflows: Cashflow[],
+  currency: CurrencyCode
+) {
+  const { capital, loading: accountsLoading, error: accountsError, refetch } = useCapitalAccounts(traderId);
+  const valuation = usePortfolioValuation(trades, cashflows, currency);
+
+  const unpriced = useMemo(
+    () => capital ? unpricedCashflows(valuation.cashflows, capital.pricedCashflowIds, capital.openedAt) : [],
+    [capital, valuation.cashflows]
+  );
+
+  // Cash from unpriced flows has no units yet, so it stays out of the NAV
+  const settledValue = valuation.grandTotalValue - unpriced.reduce((sum, cashflow) => sum + signedAmount(cashflow), 0);
+
+  return {
+    capital,
+    fundValue: valuation.grandTotalValue,
+    settledValue,
+    nav: navPerUnit(settledValue, capital?.totalUnits ?? 0),
+    unpriced,
+    // Prices have loaded, so the value can be used to issue units
+    ready: valuation.priced && !valuation.loading && !valuation.error,
+    loading: accountsLoading || (valuation.loading && !valuation.priced),
+    error: accountsError || valuation.error,
+    refetch,
+  };
+}
+
+/**
+ * Investors a trader can record capital for
+ */
+export function useFundInvestors(traderId: string | undefined) {
+  const query = useQuery({
+    queryKey: fundInvestorsKey(traderId || ''),
+    enabled: !!traderId,
+    queryFn: () => fetchFundInvestors(traderId!),
+  });
+
+  return {
+    investors: query.data ?? [],
+    loading: query.isLoading,
+  };
+}
@@ -0,0 +1,56 @@
+import { useQueries, useQuery, UseQueryResult } from '@tanstack/react-query';
+import { cashflowKeys, fetchCashflowHistory } from '@/lib/cashflowQueries';
+import { Cashflow } from '@/types/database';
+
+// Stable while the query is disabled or loading, so memoized totals do not recompute
+const NO_CASHFLOWS: Cashflow[] = [];
+
+/**
+ * An owner's full cashflow history, oldest first
+ */
+export function useCashflowHistory(ownerId: string | undefined) {
+  const query = useQuery({
+    queryKey: cashflowKeys.history(ownerId || ''),
+    enabled: !!ownerId,
+    // Run offline too: the fetcher falls back to the offline mirror
+    networkMode: 'offlineFirst',
+    queryFn: () => fetchCashflowHistory(ownerId!),
+  });
+
+  return {
+    cashflows: query.data || NO_CASHFLOWS,
+    loading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refetch: query.refetch,
+  };
+}
+
+const byTransactionDate = (a: Cashflow, b: Cashflow) =>
+  new Date(a.transaction_date).getTime() - new Date(b.transaction_date).getTime() || a.id.localeCompare(b.id);
+
+// Module-level, so React Query only recombines when a history changes
+const mergeCashflowHistories = (results: UseQueryResult<Cashflow[]>[]) => {
+  const failed = results.find(result => result.error);
+  return {
+    cashflows: results.some(result => result.data)
+      ? results.flatMap(result => result.data || NO_CASHFLOWS).sort(byTransactionDate)
+      : NO_CASHFLOWS,
+    loading: results.some(result => result.isLoading),
+    error: failed ? (failed.error as Error).message : null,
+    refetch: () => Promise.all(results.map(result => result.refetch())),
+  };
+};
+
+/**
+ * Several owners' cashflow histories merged, oldest first
+ */
+export function useCashflowHistories(ownerIds: string[]) {
+  return useQueries({
+    queries: ownerIds.map(ownerId => ({
+      queryKey: cashflowKeys.history(ownerId),
+      networkMode: 'offlineFirst' as const,
+      queryFn: () => fetchCashflowHistory(ownerId),
+    })),
+    combine: mergeCashflowHistories,
+  });
+}
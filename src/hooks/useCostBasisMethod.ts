@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CostBasisMethod, COST_BASIS_METHODS } from '@/lib/lotMatching';
+
+const STORAGE_KEY = 'cryptoflow:cost-basis-method';
+const CHANGE_EVENT = 'cryptoflow:cost-basis-method-change';
+
+function readStoredMethod(): CostBasisMethod {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && COST_BASIS_METHODS.some(m => m.value === stored)) {
+      return stored as CostBasisMethod;
+    }
+  } catch (error) {
+    console.warn('⚠️ Unable to read cost basis method preference:', error);
+  }
+  return 'fifo';
+}
+
+/**
+ * Hook for the user's preferred cost-basis method, persisted locally and
+ * shared between every component that uses it
+ */
+export function useCostBasisMethod() {
+  const [method, setMethodState] = useState<CostBasisMethod>(readStoredMethod);
+
+  useEffect(() => {
+    const sync = () => setMethodState(readStoredMethod());
+
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  const setMethod = useCallback((next: CostBasisMethod) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch (error) {
+      console.warn('⚠️ Unable to persist cost basis method preference:', error);
+    }
+    setMethodState(next);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return { method, setMethod };
+}
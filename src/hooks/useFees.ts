@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  accrueFees,
+  currentFeePeriod,
+  FeeAccrual,
+  feesKey,
+  fetchFeeSchedules,
+  fetchFeeStatements,
+  fetchNavAt,
+  fetchUnitEntries,
+} from '@/lib/fees';
+
+/**
+ * Hook for a trader's fee schedules, crystallized statements and the fees
+ * accrued so far this period per investor, valued at `navPerUnit`, or at the
+ * NAV at the period's end once it is due. Accruals wait until the NAV is `ready`.
+ */
+export function useFeeAccruals(traderId: string | undefined, navPerUnit: number, ready: boolean) {
+  const query = useQuery({
+    queryKey: feesKey(traderId || ''),
+    enabled: !!traderId,
+    queryFn: async () => {
+      const [schedules, statements, entries] = await Promise.all([
+        fetchFeeSchedules(traderId!),
+        fetchFeeStatements(traderId!),
+        fetchUnitEntries(traderId!),
+      ]);
+
+      // Due periods are valued as crystallization will value them
+      const periodNavs: Record<string, number> = {};
+      await Promise.all(schedules.map(async schedule => {
+        const lastStatement = statements.find(statement => statement.investor_id === schedule.investor_id) ?? null;
+        const { periodEnd } = currentFeePeriod(schedule, lastStatement);
+        if (periodEnd.getTime() <= Date.now()) {
+          periodNavs[schedule.investor_id] = await fetchNavAt(traderId!, periodEnd);
+        }
+      }));
+
+      return { schedules, statements, entries, periodNavs };
+    },
+  });
+
+  const accruals = useMemo(() => {
+    const byInvestor: Record<string, FeeAccrual> = {};
+    if (!query.data || !ready) return byInvestor;
+
+    const { schedules, statements, entries, periodNavs } = query.data;
+    schedules.forEach(schedule => {
+      const own = entries.filter(entry => entry.holder_id === schedule.investor_id);
+      // Statements are newest first
+      const lastStatement = statements.find(statement => statement.investor_id === schedule.investor_id) ?? null;
+      byInvestor[schedule.investor_id] = accrueFees(
+        schedule,
+        own,
+        lastStatement,
+        periodNavs[schedule.investor_id] ?? navPerUnit
+      );
+    });
+    return byInvestor;
+  }, [query.data, navPerUnit, ready]);
+
+  return {
+    schedules: query.data?.schedules ?? [],
+    statements: query.data?.statements ?? [],
+    accruals,
+    loading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchMultipleCryptoPrices } from '@/lib/priceApi';
+import { buildFuturesLedger, markPosition, FuturesPositionMetrics } from '@/lib/futuresPositions';
+import { FundingPayment, Trade } from '@/types/database';
+import { CurrencyCode } from '@/lib/currencies';
+
+/**
+ * Hook for futures positions built from a trader's futures fills and funding ledger,
+ * with open positions marked to market
+ */
+export function useFuturesPositions(
+  trades: Trade[],
+  ownerId: string | undefined,
+  currency: CurrencyCode = 'USD'
+) {
+  const [fundingPayments, setFundingPayments] = useState<FundingPayment[]>([]);
+  const [markPrices, setMarkPrices] = useState<Record<string, number | null>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const fetchFunding = useCallback(async () => {
+    if (!ownerId) {
+      setFundingPayments([]);
+      return;
+    }
+
+    try {
+      const { data, error: fundingError } = await supabase
+        .from('futures_funding')
+        .select('*')
+        .eq('user_id', ownerId)
+        .order('paid_at', { ascending: true });
+
+      if (fundingError) throw fundingError;
+      setFundingPayments((data || []) as FundingPayment[]);
+    } catch (err) {
+      console.error('❌ Error fetching funding payments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch funding payments');
+    }
+  }, [ownerId]);
+
+  useEffect(() => {
+    fetchFunding();
+  }, [fetchFunding]);
+
+  const { positions, orphanCloses } = useMemo(() => {
+    const futuresTrades = trades.filter(trade => trade.category === 'futures');
+    return buildFuturesLedger(futuresTrades, fundingPayments);
+  }, [trades, fundingPayments]);
+
+  const openPositions = useMemo(
+    () => positions.filter(position => position.status === 'open'),
+    [positions]
+  );
+
+  const closedPositions = useMemo(
+    () => positions.filter(position => position.status === 'closed'),
+    [positions]
+  );
+
+  const openAssets = useMemo(
+    () => Array.from(new Set(openPositions.map(position => position.asset))).sort(),
+    [openPositions]
+  );
+
+  const fetchMarkPrices = useCallback(async () => {
+    if (!openAssets.length) {
+      setMarkPrices({});
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const prices = await fetchMultipleCryptoPrices(openAssets, currency);
+      setMarkPrices(prices);
+      setLastUpdated(new Date());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch mark prices');
+    } finally {
+      setLoading(false);
+    }
+  }, [openAssets, currency]);
+
+  useEffect(() => {
+    fetchMarkPrices();
+  }, [fetchMarkPrices]);
+
+  const metrics = useMemo(() => {
+    return openPositions.reduce((acc, position) => {
+      acc[position.id] = markPosition(position, markPrices[position.asset] ?? null);
+      return acc;
+    }, {} as Record<string, FuturesPositionMetrics>);
+  }, [openPositions, markPrices]);
+
+  const refetch = useCallback(async () => {
+    await fetchFunding();
+    await fetchMarkPrices();
+  }, [fetchFunding, fetchMarkPrices]);
+
+  return {
+    positions,
+    openPositions,
+    closedPositions,
+    fundingPayments,
+    orphanCloses,
+    metrics,
+    loading,
+    error,
+    lastUpdated,
+    refetch
+  };
+}
@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { CurrencyCode, DEFAULT_CURRENCY } from '@/lib/currencies';
+import {
+  backfillFxRates,
+  convertCashflows,
+  convertTrades,
+  currenciesNeedingRates,
+  FxRateTable,
+  loadFxRates,
+} from '@/lib/fxRates';
+import { Cashflow, Trade } from '@/types/database';
+
+const EMPTY_CASHFLOWS: Cashflow[] = [];
+
+/**
+ * Hook that restates trades and cashflows in the viewer's reporting currency
+ * at each record's trade-date rate. Rates are backfilled on demand; records in
+ * the reporting currency pass through untouched.
+ */
+export function useFxConversion(
+  trades: Trade[],
+  cashflows: Cashflow[] = EMPTY_CASHFLOWS,
+  reporting: CurrencyCode = DEFAULT_CURRENCY
+) {
+  const [rates, setRates] = useState<FxRateTable>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  // Stable dependency: only refetch when the currency mix or start date changes
+  const rateKey = useMemo(() => {
+    const currencies = new Set<CurrencyCode>();
+    let earliest: string | null = null;
+
+    const track = (currency: CurrencyCode, date: string) => {
+      if (!currency || currency === reporting) return;
+      currencies.add(currency);
+      if (!earliest || date < earliest) earliest = date;
+    };
+    trades.forEach(trade => track(trade.currency, trade.trade_date));
+    cashflows.forEach(cashflow => track(cashflow.currency, cashflow.transaction_date));
+
+    if (currencies.size === 0) return '';
+    const codes = currenciesNeedingRates([...currencies, reporting]);
+    return codes.length > 0 ? JSON.stringify({ codes: codes.sort(), from: earliest }) : '';
+  }, [trades, cashflows, reporting]);
+
+  const fetchRates = useCallback(async () => {
+    if (!rateKey) {
+      setRates({});
+      return;
+    }
+
+    const { codes, from } = JSON.parse(rateKey) as { codes: CurrencyCode[]; from: string };
+    setLoading(true);
+    setError(null);
+
+    try {
+      try {
+        await backfillFxRates(codes, new Date(from));
+      } catch (err) {
+        // Stored rates may still cover the records
+        console.error('❌ Error backfilling FX rates:', err);
+      }
+      setRates(await loadFxRates(codes));
+      setLastUpdated(new Date());
+    } catch (err) {
+      console.error('❌ Error loading FX rates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load FX rates');
+    } finally {
+      setLoading(false);
+    }
+  }, [rateKey]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  const converted = useMemo(() => {
+    const tradeResult = convertTrades(trades, reporting, rates);
+    const cashflowResult = convertCashflows(cashflows, reporting, rates);
+    return {
+      trades: tradeResult.rows,
+      cashflows: cashflowResult.rows,
+      unconverted: tradeResult.unconverted + cashflowResult.unconverted,
+    };
+  }, [trades, cashflows, reporting, rates]);
+
+  return {
+    trades: converted.trades,
+    cashflows: converted.cashflows,
+    unconverted: converted.unconverted,
+    // Records are held back until the rates they need have loaded
+    pending: !!rateKey && loading,
+    loading,
+    error,
+    lastUpdated,
+    refetch: fetchRates
+  };
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchJournalEntry, JournalEntryInput, saveJournalEntry } from '@/lib/journal';
+import { getScreenshotStore, validateScreenshot } from '@/lib/screenshotStorage';
+import { TradeJournalEntry } from '@/types/database';
+
+/**
+ * Hook for a trade's journal entry and its screenshots. Screenshots upload as
+ * soon as they are picked; ones dropped from the entry are deleted on save.
+ */
+export function useJournalEntry(tradeId: string | undefined) {
+  const [entry, setEntry] = useState<TradeJournalEntry | null>(null);
+  const [screenshotUrls, setScreenshotUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resolveUrls = useCallback(async (paths: string[]) => {
+    if (paths.length === 0) return;
+    try {
+      const urls = await getScreenshotStore().getUrls(paths);
+      setScreenshotUrls(prev => ({ ...prev, ...urls }));
+    } catch (err) {
+      console.warn('⚠️ Unable to load screenshots:', err);
+    }
+  }, []);
+
+  const fetchEntry = useCallback(async () => {
+    if (!tradeId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const loaded = await fetchJournalEntry(tradeId);
+      setEntry(loaded);
+      if (loaded) await resolveUrls(loaded.screenshots);
+    } catch (err) {
+      console.error('❌ Failed to load journal entry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load journal entry');
+    } finally {
+      setLoading(false);
+    }
+  }, [tradeId, resolveUrls]);
+
+  useEffect(() => {
+    fetchEntry();
+  }, [fetchEntry]);
+
+  const uploadScreenshots = useCallback(async (userId: string, files: File[]): Promise<string[]> => {
+    if (!tradeId) return [];
+
+    const invalid = files.map(validateScreenshot).find(message => message !== null);
+    if (invalid) throw new Error(invalid);
+
+    const store = getScreenshotStore();
+    const paths = await Promise.all(files.map(file => store.upload(userId, tradeId, file)));
+    await resolveUrls(paths);
+    return paths;
+  }, [tradeId, resolveUrls]);
+
+  const save = useCallback(async (userId: string, input: JournalEntryInput) => {
+    if (!tradeId) return;
+
+    const saved = await saveJournalEntry(userId, tradeId, input);
+    const dropped = (entry?.screenshots || []).filter(path => !saved.screenshots.includes(path));
+    if (dropped.length > 0) {
+      try {
+        await getScreenshotStore().remove(dropped);
+      } catch (err) {
+        console.warn('⚠️ Unable to delete removed screenshots:', err);
+      }
+    }
+    setEntry(saved);
+    return saved;
+  }, [tradeId, entry]);
+
+  return {
+    entry,
+    screenshotUrls,
+    uploadScreenshots,
+    save,
+    loading,
+    error,
+    refetch: fetchEntry
+  };
+}
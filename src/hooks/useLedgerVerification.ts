@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AuditLog } from '@/types/database';
+import { fetchAmendments, LedgerVerification, verifyLedger } from '@/lib/ledger';
+
+/**
+ * Hook verifying a trader's trade ledger and listing its amendments
+ */
+export function useLedgerVerification(traderId: string | undefined) {
+  const [verification, setVerification] = useState<LedgerVerification | null>(null);
+  const [amendments, setAmendments] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = useCallback(async () => {
+    if (!traderId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [result, amended] = await Promise.all([
+        verifyLedger(traderId),
+        fetchAmendments(traderId),
+      ]);
+      setVerification(result);
+      setAmendments(amended);
+    } catch (err) {
+      console.error('❌ Ledger verification failed:', err);
+      setError(err instanceof Error ? err.message : 'Ledger verification failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [traderId]);
+
+  useEffect(() => {
+    verify();
+  }, [verify]);
+
+  return { verification, amendments, loading, error, refetch: verify };
+}
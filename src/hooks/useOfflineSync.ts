@@ -0,0 +1,64 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { getQueueState, refreshQueueState, setQueueState, subscribeQueueState } from '@/lib/offlineQueue';
+import { replayQueue } from '@/lib/offlineSync';
+import { tradeKeys } from '@/lib/tradeQueries';
+import { cashflowKeys } from '@/lib/cashflowQueries';
+
+/**
+ * Replays the user's offline writes on sign-in and whenever the connection
+ * returns; mount once, in the app layout
+ */
+export function useOfflineSync() {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const userId = profile?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const sync = async () => {
+      const result = await replayQueue(queryClient, userId);
+      if (result.synced > 0) {
+        toast({
+          title: "Offline changes synced",
+          description: `${result.synced} change${result.synced === 1 ? '' : 's'} saved to your journal.`,
+        });
+      }
+      if (result.conflicts > 0) {
+        toast({
+          title: "Sync conflict",
+          description: "Some entries were changed on another device. Review them to finish syncing.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    const handleOffline = () => setQueueState({ online: false });
+    const handleOnline = () => {
+      setQueueState({ online: true });
+      // Reads made offline came from the mirror; refresh them from the server
+      queryClient.invalidateQueries({ queryKey: tradeKeys.all });
+      queryClient.invalidateQueries({ queryKey: cashflowKeys.all });
+      sync();
+    };
+
+    refreshQueueState(userId).then(sync);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [queryClient, userId, toast]);
+}
+
+/**
+ * Pending writes, failures and conflicts of the signed-in user's offline queue
+ */
+export function useOfflineQueue() {
+  return useSyncExternalStore(subscribeQueueState, getQueueState);
+}
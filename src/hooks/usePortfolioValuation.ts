@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { usePortfolioPnL } from '@/hooks/usePriceData';
+import { useFxConversion } from '@/hooks/useFxConversion';
+import { CurrencyCode } from '@/lib/currencies';
+import { Cashflow, Trade } from '@/types/database';
+
+const isManual = (trade: Trade) => !['spot', 'futures'].includes(trade.category);
+
+/**
+ * Hook for the current value of a trade and cashflow history: spot holdings at
+ * live prices, other investments at cost plus recorded P&L, and net cash.
+ * Everything is stated in `currency` at each record's trade-date FX rate.
+ */
+export function usePortfolioValuation(
+  recordedTrades: Trade[],
+  recordedCashflows: Cashflow[],
+  currency: CurrencyCode
+) {
+  const { trades, cashflows, unconverted, pending } = useFxConversion(recordedTrades, recordedCashflows, currency);
+  const { portfolioData, loading: pnlLoading, error, lastUpdated, refetch } = usePortfolioPnL(trades, currency);
+
+  const cashflowData = useMemo(() => {
+    const totalDeposits = cashflows
+      .filter(cf => cf.type === 'deposit')
+      .reduce((sum, cf) => sum + cf.amount, 0);
+
+    const totalWithdrawals = cashflows
+      .filter(cf => cf.type === 'withdrawal')
+      .reduce((sum, cf) => sum + cf.amount, 0);
+
+    return {
+      totalDeposits,
+      totalWithdrawals,
+      netCashflow: totalDeposits - totalWithdrawals
+    };
+  }, [cashflows]);
+
+  const valuation = useMemo(() => {
+    const spotCurrentValue = portfolioData?.totalCurrentValue || 0;
+    const spotInvested = portfolioData?.totalInvested || 0;
+    const spotUnrealizedPnL = portfolioData?.totalUnrealizedPnL || 0;
+
+    // Non-spot investments are valued at the initial investment plus recorded P&L
+    const nonSpotTrades = trades.filter(isManual);
+    const manualPnL = nonSpotTrades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0);
+    const nonSpotInvested = nonSpotTrades.reduce((sum, trade) => sum + (trade.price * trade.quantity) + (trade.fees || 0), 0);
+    const nonSpotCurrentValue = nonSpotInvested + manualPnL;
+
+    const totalInvested = spotInvested + nonSpotInvested;
+    const totalCurrentValue = spotCurrentValue + nonSpotCurrentValue;
+    const totalUnrealizedPnL = spotUnrealizedPnL + manualPnL;
+    const totalCash = cashflowData.netCashflow;
+
+    return {
+      // Grand total including cash
+      grandTotalValue: totalCurrentValue + totalCash,
+      totalInvested,
+      totalCurrentValue,
+      totalUnrealizedPnL,
+      totalPnLPercentage: totalInvested > 0 ? (totalUnrealizedPnL / totalInvested) * 100 : 0,
+      totalCash,
+      spotValue: spotCurrentValue,
+      nonSpotValue: nonSpotCurrentValue,
+      cashflowData
+    };
+  }, [portfolioData, cashflowData, trades]);
+
+  return {
+    ...valuation,
+    // Converted records the totals are built from
+    trades,
+    cashflows,
+    unconverted,
+    // FX rates are still loading
+    pending,
+    // Spot holdings have been marked at least once
+    priced: !!portfolioData,
+    loading: pnlLoading || pending,
+    error,
+    lastUpdated,
+    refetch
+  };
+}
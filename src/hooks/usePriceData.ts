@@ -7,12 +7,14 @@ import {
   SpotPnLCalculation,
   PortfolioSummary 
 } from '@/lib/priceApi';
+import { CostBasisMethod } from '@/lib/lotMatching';
 import { Trade } from '@/types/database';
+import { CurrencyCode } from '@/lib/currencies';
 
 /**
  * Hook for fetching individual cryptocurrency prices
  */
-export function useCryptoPrice(symbol: string, currency: 'USD' | 'PHP' = 'USD') {
+export function useCryptoPrice(symbol: string, currency: CurrencyCode = 'USD') {
   const [price, setPrice] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -52,7 +54,7 @@ export function useCryptoPrice(symbol: string, currency: 'USD' | 'PHP' = 'USD')
 /**
  * Hook for fetching multiple cryptocurrency prices
  */
-export function useMultipleCryptoPrices(symbols: string[], currency: 'USD' | 'PHP' = 'USD') {
+export function useMultipleCryptoPrices(symbols: string[], currency: CurrencyCode = 'USD') {
   const [prices, setPrices] = useState<Record<string, number | null>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -96,7 +98,7 @@ export function useSpotPnL(
   asset: string,
   purchasePrice: number,
   quantity: number,
-  currency: 'USD' | 'PHP' = 'USD',
+  currency: CurrencyCode = 'USD',
   fees: number = 0
 ) {
   const [pnlData, setPnlData] = useState<SpotPnLCalculation | null>(null);
@@ -135,7 +137,11 @@ export function useSpotPnL(
 /**
  * Hook for calculating portfolio PnL from spot trades
  */
-export function usePortfolioPnL(trades: Trade[], currency: 'USD' | 'PHP' = 'USD') {
+export function usePortfolioPnL(
+  trades: Trade[],
+  currency: CurrencyCode = 'USD',
+  costBasisMethod: CostBasisMethod = 'fifo'
+) {
   const [portfolioData, setPortfolioData] = useState<PortfolioSummary | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -151,6 +157,9 @@ export function usePortfolioPnL(trades: Trade[], currency: 'USD' | 'PHP' = 'USD'
         totalCurrentValue: 0,
         totalUnrealizedPnL: 0,
         totalPnLPercentage: 0,
+        totalRealizedPnL: 0,
+        costBasisMethod,
+        closedLots: [],
         assetBreakdown: []
       });
       return;
@@ -160,7 +169,7 @@ export function usePortfolioPnL(trades: Trade[], currency: 'USD' | 'PHP' = 'USD'
     setError(null);
     
     try {
-      const calculation = await calculatePortfolioPnL(spotTrades, currency);
+      const calculation = await calculatePortfolioPnL(spotTrades, currency, costBasisMethod);
       setPortfolioData(calculation);
       setLastUpdated(new Date());
     } catch (err) {
@@ -169,7 +178,7 @@ export function usePortfolioPnL(trades: Trade[], currency: 'USD' | 'PHP' = 'USD'
     } finally {
       setLoading(false);
     }
-  }, [trades, currency]);
+  }, [trades, currency, costBasisMethod]);
 
   useEffect(() => {
     calculatePortfolio();
@@ -189,7 +198,7 @@ export function usePortfolioPnL(trades: Trade[], currency: 'USD' | 'PHP' = 'USD'
  */
 export function useRealTimePrices(
   symbols: string[], 
-  currency: 'USD' | 'PHP' = 'USD',
+  currency: CurrencyCode = 'USD',
   refreshInterval: number = 1800000 // 30 minutes default (30 * 60 * 1000)
 ) {
   const [prices, setPrices] = useState<Record<string, number | null>>({});
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { backfillForTrades, loadPriceSeries } from '@/lib/priceHistory';
+import { Trade } from '@/types/database';
+import { CurrencyCode } from '@/lib/currencies';
+
+/**
+ * Hook for stored daily closes of every spot asset in a trade list.
+ * Missing days are backfilled from the first trade date before the series load.
+ */
+export function usePriceHistory(trades: Trade[], currency: CurrencyCode = 'USD') {
+  const [series, setSeries] = useState<Record<string, Map<string, number>>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const spotTrades = useMemo(
+    () => trades.filter(trade => trade.category === 'spot'),
+    [trades]
+  );
+
+  // Stable dependency: only refetch when the asset set or first trade dates change
+  const backfillKey = useMemo(() => {
+    const firstDates = spotTrades.reduce((acc, trade) => {
+      const asset = trade.asset.toUpperCase();
+      if (!acc[asset] || trade.trade_date < acc[asset]) acc[asset] = trade.trade_date;
+      return acc;
+    }, {} as Record<string, string>);
+    return JSON.stringify(Object.entries(firstDates).sort());
+  }, [spotTrades]);
+
+  const fetchHistory = useCallback(async () => {
+    const firstDates: [string, string][] = JSON.parse(backfillKey);
+    if (!firstDates.length) {
+      setSeries({});
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      await backfillForTrades(
+        firstDates.map(([asset, trade_date]) => ({ asset, trade_date })),
+        currency
+      );
+
+      const loaded: Record<string, Map<string, number>> = {};
+      for (const [asset] of firstDates) {
+        loaded[asset] = await loadPriceSeries(asset, currency);
+      }
+
+      setSeries(loaded);
+      setLastUpdated(new Date());
+    } catch (err) {
+      console.error('❌ Error loading price history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load price history');
+    } finally {
+      setLoading(false);
+    }
+  }, [backfillKey, currency]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return {
+    series,
+    loading,
+    error,
+    lastUpdated,
+    refetch: fetchHistory
+  };
+}
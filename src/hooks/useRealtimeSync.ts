@@ -0,0 +1,55 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useTradeOwner } from '@/hooks/useTrades';
+import {
+  getRealtimeState,
+  REALTIME_CHANGE_EVENT,
+  RealtimeChange,
+  RealtimeTable,
+  startRealtimeSync,
+  subscribeRealtimeState,
+} from '@/lib/realtimeSync';
+
+/**
+ * Keeps the query caches in sync with database changes for as long as the
+ * calling component is mounted; mount once, in the app layout
+ */
+export function useRealtimeSync() {
+  const { profile, isTrader } = useAuth();
+  const { ownerIds } = useTradeOwner();
+  const queryClient = useQueryClient();
+  const userId = profile?.id;
+  // Resubscribe only when the set of owners changes, not on every new array
+  const owners = ownerIds.join(',');
+
+  useEffect(() => {
+    if (!userId) return;
+    return startRealtimeSync(queryClient, { userId, isTrader, ownerIds: owners ? owners.split(',') : [] });
+  }, [queryClient, userId, isTrader, owners]);
+}
+
+/**
+ * Connection status and time of the last change received
+ */
+export function useRealtimeStatus() {
+  return useSyncExternalStore(subscribeRealtimeState, getRealtimeState);
+}
+
+/**
+ * Calls `onChange` for every realtime change to `table` in the user's scope
+ */
+export function useRealtimeChanges(table: RealtimeTable, onChange: (change: RealtimeChange) => void) {
+  const handlerRef = useRef(onChange);
+  handlerRef.current = onChange;
+
+  useEffect(() => {
+    const listener = (event: Event) => {
+      const change = (event as CustomEvent<RealtimeChange>).detail;
+      if (change.table === table) handlerRef.current(change);
+    };
+
+    window.addEventListener(REALTIME_CHANGE_EVENT, listener);
+    return () => window.removeEventListener(REALTIME_CHANGE_EVENT, listener);
+  }, [table]);
+}
@@ -0,0 +1,52 @@
+import { useMemo } from 'react';
+import { useFxConversion } from '@/hooks/useFxConversion';
+import { usePriceHistory } from '@/hooks/usePriceHistory';
+import { CurrencyCode } from '@/lib/currencies';
+import { buildValuationSeries, computePeriodReturn, returnsByPeriod } from '@/lib/returns';
+import { Cashflow, Trade } from '@/types/database';
+
+/**
+ * Hook for cashflow-adjusted returns of a trade and cashflow history.
+ * Records are restated in the reporting currency and spot holdings are marked
+ * at stored daily closes before the account value series is built.
+ */
+export function useReturns(
+  recordedTrades: Trade[],
+  recordedCashflows: Cashflow[],
+  currency: CurrencyCode = 'USD'
+) {
+  const { trades, cashflows, unconverted, pending } = useFxConversion(recordedTrades, recordedCashflows, currency);
+  const { series, loading: historyLoading, error, lastUpdated, refetch } = usePriceHistory(trades, currency);
+
+  const points = useMemo(
+    () => buildValuationSeries(trades, cashflows, series),
+    [trades, cashflows, series]
+  );
+
+  const returns = useMemo(() => {
+    if (points.length === 0) {
+      return { sinceInception: null, monthly: [], yearly: [] };
+    }
+    return {
+      sinceInception: computePeriodReturn(points, points[0].date, points[points.length - 1].date, 'Since inception'),
+      monthly: returnsByPeriod(points, 'month'),
+      yearly: returnsByPeriod(points, 'year'),
+    };
+  }, [points]);
+
+  return {
+    points,
+    ...returns,
+    // Converted records and closes, for analytics built on the same valuation
+    trades,
+    cashflows,
+    series,
+    // Without recorded deposits there is no capital base to measure against
+    hasCashflows: cashflows.length > 0,
+    unconverted,
+    loading: historyLoading || pending,
+    error,
+    lastUpdated,
+    refetch
+  };
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getRegistryStatus,
+  getSymbolPins,
+  loadSymbolRegistry,
+  pinSymbol,
+  unpinSymbol,
+  SYMBOL_PINS_CHANGE_EVENT,
+} from '@/lib/symbolRegistry';
+
+/**
+ * Hook for the cached coin registry and the user's pinned symbol mappings.
+ * Loads the registry on mount and keeps pins in sync across components.
+ */
+export function useSymbolRegistry() {
+  const [status, setStatus] = useState(getRegistryStatus);
+  const [pins, setPins] = useState<Record<string, string>>(getSymbolPins);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRegistry = useCallback(async (force = false) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const coins = await loadSymbolRegistry(force);
+      if (coins.length === 0) {
+        setError('Coin list unavailable');
+      }
+      setStatus(getRegistryStatus());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load coin list');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRegistry();
+  }, [fetchRegistry]);
+
+  useEffect(() => {
+    const sync = () => setPins(getSymbolPins());
+
+    window.addEventListener(SYMBOL_PINS_CHANGE_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(SYMBOL_PINS_CHANGE_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  return {
+    registrySize: status.size,
+    lastUpdated: status.fetchedAt ? new Date(status.fetchedAt) : null,
+    pins,
+    pinSymbol,
+    unpinSymbol,
+    loading,
+    error,
+    refetch: () => fetchRegistry(true)
+  };
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Strategy, Tag } from '@/types/database';
+
+/**
+ * Hook for a trader's tags and strategies. Mutations throw so callers can
+ * surface the error; the lists are refetched after every change.
+ */
+export function useTradeTags(ownerId: string | undefined) {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [strategies, setStrategies] = useState<Strategy[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAll = useCallback(async () => {
+    if (!ownerId) {
+      setTags([]);
+      setStrategies([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [tagsResult, strategiesResult] = await Promise.all([
+        supabase.from('tags').select('*').eq('user_id', ownerId).order('name'),
+        supabase.from('strategies').select('*').eq('user_id', ownerId).order('name'),
+      ]);
+      if (tagsResult.error) throw tagsResult.error;
+      if (strategiesResult.error) throw strategiesResult.error;
+
+      setTags(tagsResult.data || []);
+      setStrategies(strategiesResult.data || []);
+    } catch (err) {
+      console.error('❌ Failed to load tags and strategies:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load tags and strategies');
+    } finally {
+      setLoading(false);
+    }
+  }, [ownerId]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const createTag = useCallback(async (name: string, color: string) => {
+    if (!ownerId) return;
+    const { error } = await supabase.from('tags').insert({ user_id: ownerId, name: name.trim(), color });
+    if (error) throw error;
+    await fetchAll();
+  }, [ownerId, fetchAll]);
+
+  const deleteTag = useCallback(async (id: string) => {
+    const { error } = await supabase.from('tags').delete().eq('id', id);
+    if (error) throw error;
+    await fetchAll();
+  }, [fetchAll]);
+
+  const createStrategy = useCallback(async (name: string, description?: string) => {
+    if (!ownerId) return;
+    const { error } = await supabase.from('strategies').insert({
+      user_id: ownerId,
+      name: name.trim(),
+      description: description?.trim() || null,
+    });
+    if (error) throw error;
+    await fetchAll();
+  }, [ownerId, fetchAll]);
+
+  const deleteStrategy = useCallback(async (id: string) => {
+    const { error } = await supabase.from('strategies').delete().eq('id', id);
+    if (error) throw error;
+    await fetchAll();
+  }, [fetchAll]);
+
+  return {
+    tags,
+    strategies,
+    createTag,
+    deleteTag,
+    createStrategy,
+    deleteStrategy,
+    loading,
+    error,
+    refetch: fetchAll
+  };
+}
@@ -0,0 +1,172 @@
+import { useMemo, useState } from 'react';
+import { useInfiniteQuery, useQueries, useQuery, UseQueryResult } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useBoundTraders } from '@/hooks/useBoundTraders';
+import {
+  fetchRecentTrades,
+  fetchTradeHistory,
+  fetchTradesPage,
+  filterAndSortTrades,
+  TradeCursor,
+  TradeQueryFilter,
+  tradeKeys,
+  TRADES_PAGE_SIZE,
+} from '@/lib/tradeQueries';
+import { Trade } from '@/types/database';
+
+// Stable while a query is disabled or loading, so memoized totals do not recompute
+const NO_TRADES: Trade[] = [];
+
+/**
+ * Whose trades the signed-in user sees: their own as a trader, or as an
+ * investor the bound trader they selected. In the consolidated view `ownerId`
+ * is undefined and `ownerIds` lists every bound trader.
+ */
+export function useTradeOwner() {
+  const { profile, isTrader } = useAuth();
+  const { traders, selection, consolidated, loading, error } = useBoundTraders();
+
+  const ownerIds = useMemo(() => {
+    if (isTrader) return profile ? [profile.id] : [];
+    if (consolidated) return traders.map(trader => trader.id);
+    return selection ? [selection] : [];
+  }, [isTrader, profile, consolidated, traders, selection]);
+
+  return {
+    ownerId: isTrader ? profile?.id : consolidated ? undefined : selection,
+    ownerIds,
+    consolidated: !isTrader && consolidated,
+    loading: !profile || loading,
+    error,
+  };
+}
+
+/**
+ * Cursor-paginated trades of an owner matching `filter`, in `sortBy` order
+ */
+export function useTradesPages(ownerId: string | undefined, filter: TradeQueryFilter, sortBy: string) {
+  const query = useInfiniteQuery({
+    queryKey: tradeKeys.list(ownerId || '', filter, sortBy),
+    enabled: !!ownerId,
+    // Run offline too: the fetchers fall back to the offline mirror
+    networkMode: 'offlineFirst',
+    initialPageParam: null as TradeCursor | null,
+    queryFn: ({ pageParam }) => fetchTradesPage(ownerId!, filter, sortBy, pageParam),
+    getNextPageParam: lastPage => lastPage.nextCursor,
+  });
+
+  const trades = useMemo(() => query.data?.pages.flatMap(page => page.trades) || [], [query.data]);
+
+  return {
+    trades,
+    total: query.data?.pages[0]?.total ?? trades.length,
+    hasMore: !!query.hasNextPage,
+    loadMore: query.fetchNextPage,
+    loadingMore: query.isFetchingNextPage,
+    loading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refetch: query.refetch,
+  };
+}
+
+/**
+ * An owner's full trade history, oldest first, for aggregates and analytics
+ */
+export function useTradeHistory(ownerId: string | undefined) {
+  const query = useQuery({
+    queryKey: tradeKeys.history(ownerId || ''),
+    enabled: !!ownerId,
+    networkMode: 'offlineFirst',
+    queryFn: () => fetchTradeHistory(ownerId!),
+  });
+
+  return {
+    trades: query.data || NO_TRADES,
+    loading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refetch: query.refetch,
+  };
+}
+
+const byTradeDate = (a: Trade, b: Trade) =>
+  new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime() || a.id.localeCompare(b.id);
+
+// Module-level, so React Query only recombines when a history changes
+const mergeTradeHistories = (results: UseQueryResult<Trade[]>[]) => {
+  const failed = results.find(result => result.error);
+  return {
+    trades: results.some(result => result.data)
+      ? results.flatMap(result => result.data || NO_TRADES).sort(byTradeDate)
+      : NO_TRADES,
+    loading: results.some(result => result.isLoading),
+    error: failed ? (failed.error as Error).message : null,
+    refetch: () => Promise.all(results.map(result => result.refetch())),
+  };
+};
+
+/**
+ * Several owners' trade histories merged, oldest first. Each history stays
+ * cached under its own owner's key, so realtime patches reach it as usual.
+ */
+export function useTradeHistories(ownerIds: string[]) {
+  return useQueries({
+    queries: ownerIds.map(ownerId => ({
+      queryKey: tradeKeys.history(ownerId),
+      networkMode: 'offlineFirst' as const,
+      queryFn: () => fetchTradeHistory(ownerId),
+    })),
+    combine: mergeTradeHistories,
+  });
+}
+
+/**
+ * Several owners' trades matching `filter` in `sortBy` order, shaped like
+ * `useTradesPages`. Filtered and paged on the client from the merged histories.
+ */
+export function useMergedTradesPages(ownerIds: string[], filter: TradeQueryFilter, sortBy: string) {
+  const history = useTradeHistories(ownerIds);
+  const [pageCount, setPageCount] = useState(1);
+  const [view, setView] = useState({ filter, sortBy });
+
+  // A new filter or order starts again from the first page
+  if (view.filter !== filter || view.sortBy !== sortBy) {
+    setView({ filter, sortBy });
+    setPageCount(1);
+  }
+
+  const matching = useMemo(
+    () => filterAndSortTrades(history.trades, filter, sortBy),
+    [history.trades, filter, sortBy]
+  );
+  const trades = useMemo(() => matching.slice(0, pageCount * TRADES_PAGE_SIZE), [matching, pageCount]);
+
+  return {
+    trades,
+    total: matching.length,
+    hasMore: trades.length < matching.length,
+    loadMore: async () => setPageCount(count => count + 1),
+    loadingMore: false,
+    loading: history.loading,
+    error: history.error,
+    refetch: history.refetch,
+  };
+}
+
+/**
+ * An owner's most recently recorded trades
+ */
+export function useRecentTrades(ownerId: string | undefined, limit = 5) {
+  const query = useQuery({
+    queryKey: tradeKeys.recent(ownerId || '', limit),
+    enabled: !!ownerId,
+    networkMode: 'offlineFirst',
+    queryFn: () => fetchRecentTrades(ownerId!, limit),
+  });
+
+  return {
+    trades: query.data || NO_TRADES,
+    loading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refetch: query.refetch,
+  };
+}
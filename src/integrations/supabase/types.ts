@@ -17,34 +17,58 @@ export type Database = {
       audit_log: {
         Row: {
           action: string
+          actor_id: string | null
           changes: Json | null
           created_at: string | null
+          hash: string | null
           id: string
+          is_amendment: boolean
+          prev_hash: string | null
+          record_id: string | null
+          related_user_id: string | null
+          seq: number | null
+          table_name: string
           trade_id: string | null
           user_id: string
         }
         Insert: {
           action: string
+          actor_id?: string | null
           changes?: Json | null
           created_at?: string | null
+          hash?: string | null
           id?: string
+          is_amendment?: boolean
+          prev_hash?: string | null
+          record_id?: string | null
+          related_user_id?: string | null
+          seq?: number | null
+          table_name?: string
           trade_id?: string | null
           user_id: string
         }
         Update: {
           action?: string
+          actor_id?: string | null
           changes?: Json | null
           created_at?: string | null
+          hash?: string | null
           id?: string
+          is_amendment?: boolean
+          prev_hash?: string | null
+          record_id?: string | null
+          related_user_id?: string | null
+          seq?: number | null
+          table_name?: string
           trade_id?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "audit_log_trade_id_fkey"
-            columns: ["trade_id"]
+            foreignKeyName: "audit_log_related_user_id_fkey"
+            columns: ["related_user_id"]
             isOneToOne: false
-            referencedRelation: "trades"
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
           {
@@ -98,6 +122,511 @@ export type Database = {
           },
         ]
       }
+      capital_units: {
+        Row: {
+          amount: number
+          cashflow_id: string | null
+          created_at: string
+          fee_statement_id: string | null
+          holder_id: string
+          id: string
+          kind: string
+          nav_per_unit: number
+          trader_id: string
+          units: number
+        }
+        Insert: {
+          amount: number
+          cashflow_id?: string | null
+          created_at?: string
+          fee_statement_id?: string | null
+          holder_id: string
+          id?: string
+          kind: string
+          nav_per_unit: number
+          trader_id: string
+          units: number
+        }
+        Update: {
+          amount?: number
+          cashflow_id?: string | null
+          created_at?: string
+          fee_statement_id?: string | null
+          holder_id?: string
+          id?: string
+          kind?: string
+          nav_per_unit?: number
+          trader_id?: string
+          units?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "capital_units_cashflow_id_fkey"
+            columns: ["cashflow_id"]
+            isOneToOne: true
+            referencedRelation: "cashflows"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "capital_units_fee_statement_id_fkey"
+            columns: ["fee_statement_id"]
+            isOneToOne: false
+            referencedRelation: "fee_statements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "capital_units_holder_id_fkey"
+            columns: ["holder_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "capital_units_trader_id_fkey"
+            columns: ["trader_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      currencies: {
+        Row: {
+          code: string
+          decimals: number
+          kind: string
+          name: string
+          pegged_to: string | null
+        }
+        Insert: {
+          code: string
+          decimals?: number
+          kind: string
+          name: string
+          pegged_to?: string | null
+        }
+        Update: {
+          code?: string
+          decimals?: number
+          kind?: string
+          name?: string
+          pegged_to?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "currencies_pegged_to_fkey"
+            columns: ["pegged_to"]
+            isOneToOne: false
+            referencedRelation: "currencies"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      fee_schedules: {
+        Row: {
+          created_at: string
+          crystallization: string
+          hurdle_rate: number
+          id: string
+          investor_id: string
+          management_rate: number
+          performance_rate: number
+          start_nav_per_unit: number
+          starts_at: string
+          trader_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          crystallization?: string
+          hurdle_rate?: number
+          id?: string
+          investor_id: string
+          management_rate?: number
+          performance_rate?: number
+          start_nav_per_unit: number
+          starts_at?: string
+          trader_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          crystallization?: string
+          hurdle_rate?: number
+          id?: string
+          investor_id?: string
+          management_rate?: number
+          performance_rate?: number
+          start_nav_per_unit?: number
+          starts_at?: string
+          trader_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_schedules_investor_id_fkey"
+            columns: ["investor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_schedules_trader_id_fkey"
+            columns: ["trader_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_statements: {
+        Row: {
+          closing_high_water_mark: number
+          created_at: string
+          fee_units: number
+          gross_balance: number
+          high_water_mark: number
+          hurdle_rate: number
+          hurdle_threshold: number
+          id: string
+          investor_id: string
+          management_fee: number
+          management_rate: number
+          nav_per_unit: number
+          performance_fee: number
+          performance_rate: number
+          period_end: string
+          period_start: string
+          trader_id: string
+        }
+        Insert: {
+          closing_high_water_mark: number
+          created_at?: string
+          fee_units: number
+          gross_balance: number
+          high_water_mark: number
+          hurdle_rate: number
+          hurdle_threshold: number
+          id?: string
+          investor_id: string
+          management_fee: number
+          management_rate: number
+          nav_per_unit: number
+          performance_fee: number
+          performance_rate: number
+          period_end: string
+          period_start: string
+          trader_id: string
+        }
+        Update: {
+          closing_high_water_mark?: number
+          created_at?: string
+          fee_units?: number
+          gross_balance?: number
+          high_water_mark?: number
+          hurdle_rate?: number
+          hurdle_threshold?: number
+          id?: string
+          investor_id?: string
+          management_fee?: number
+          management_rate?: number
+          nav_per_unit?: number
+          performance_fee?: number
+          performance_rate?: number
+          period_end?: string
+          period_start?: string
+          trader_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_statements_investor_id_fkey"
+            columns: ["investor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_statements_trader_id_fkey"
+            columns: ["trader_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      futures_funding: {
+        Row: {
+          amount: number
+          asset: string
+          created_at: string | null
+          currency: string
+          id: string
+          notes: string | null
+          paid_at: string
+          position_side: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          asset: string
+          created_at?: string | null
+          currency?: string
+          id?: string
+          notes?: string | null
+          paid_at: string
+          position_side: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          asset?: string
+          created_at?: string | null
+          currency?: string
+          id?: string
+          notes?: string | null
+          paid_at?: string
+          position_side?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "futures_funding_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fx_rates: {
+        Row: {
+          base: string
+          created_at: string | null
+          quote: string
+          rate: number
+          rate_date: string
+          source: string
+        }
+        Insert: {
+          base: string
+          created_at?: string | null
+          quote: string
+          rate: number
+          rate_date: string
+          source: string
+        }
+        Update: {
+          base?: string
+          created_at?: string | null
+          quote?: string
+          rate?: number
+          rate_date?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fx_rates_base_fkey"
+            columns: ["base"]
+            isOneToOne: false
+            referencedRelation: "currencies"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "fx_rates_quote_fkey"
+            columns: ["quote"]
+            isOneToOne: false
+            referencedRelation: "currencies"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      price_history: {
+        Row: {
+          asset: string
+          close: number
+          created_at: string | null
+          currency: string
+          price_date: string
+          source: string
+        }
+        Insert: {
+          asset: string
+          close: number
+          created_at?: string | null
+          currency: string
+          price_date: string
+          source: string
+        }
+        Update: {
+          asset?: string
+          close?: number
+          created_at?: string | null
+          currency?: string
+          price_date?: string
+          source?: string
+        }
+        Relationships: []
+      }
+      strategies: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "strategies_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          color: string
+          created_at: string | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trade_journal_entries: {
+        Row: {
+          confidence: number | null
+          created_at: string | null
+          emotion: string | null
+          emotion_intensity: number | null
+          id: string
+          lessons: string | null
+          review: string | null
+          rules: Json
+          screenshots: string[]
+          thesis: string | null
+          trade_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string | null
+          emotion?: string | null
+          emotion_intensity?: number | null
+          id?: string
+          lessons?: string | null
+          review?: string | null
+          rules?: Json
+          screenshots?: string[]
+          thesis?: string | null
+          trade_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string | null
+          emotion?: string | null
+          emotion_intensity?: number | null
+          id?: string
+          lessons?: string | null
+          review?: string | null
+          rules?: Json
+          screenshots?: string[]
+          thesis?: string | null
+          trade_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_journal_entries_trade_id_fkey"
+            columns: ["trade_id"]
+            isOneToOne: true
+            referencedRelation: "trades"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trade_journal_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trade_tags: {
+        Row: {
+          created_at: string | null
+          tag_id: string
+          trade_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          tag_id: string
+          trade_id: string
+        }
+        Update: {
+          created_at?: string | null
+          tag_id?: string
+          trade_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trade_tags_trade_id_fkey"
+            columns: ["trade_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       trades: {
         Row: {
           asset: string
@@ -111,6 +640,7 @@ export type Database = {
           price: number
           profit_loss: number | null
           quantity: number
+          strategy_id: string | null
           trade_date: string
           updated_at: string | null
           user_id: string
@@ -127,6 +657,7 @@ export type Database = {
           price: number
           profit_loss?: number | null
           quantity: number
+          strategy_id?: string | null
           trade_date: string
           updated_at?: string | null
           user_id: string
@@ -143,11 +674,19 @@ export type Database = {
           price?: number
           profit_loss?: number | null
           quantity?: number
+          strategy_id?: string | null
           trade_date?: string
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "trades_strategy_id_fkey"
+            columns: ["strategy_id"]
+            isOneToOne: false
+            referencedRelation: "strategies"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "trades_user_id_fkey"
             columns: ["user_id"]
@@ -166,6 +705,8 @@ export type Database = {
           currency: string
           email: string
           id: string
+          investor_cap: number | null
+          plan: string
           role: string
           trader_uid: string | null
           updated_at: string | null
@@ -179,6 +720,8 @@ export type Database = {
           currency?: string
           email: string
           id: string
+          investor_cap?: number | null
+          plan?: string
           role: string
           trader_uid?: string | null
           updated_at?: string | null
@@ -192,6 +735,8 @@ export type Database = {
           currency?: string
           email?: string
           id?: string
+          investor_cap?: number | null
+          plan?: string
           role?: string
           trader_uid?: string | null
           updated_at?: string | null
@@ -214,6 +759,7 @@ export type Database = {
           currency: string
           destination: string | null
           id: string
+          investor_id: string | null
           notes: string | null
           source: string | null
           transaction_date: string
@@ -227,6 +773,7 @@ export type Database = {
           currency?: string
           destination?: string | null
           id?: string
+          investor_id?: string | null
           notes?: string | null
           source?: string | null
           transaction_date: string
@@ -240,6 +787,7 @@ export type Database = {
           currency?: string
           destination?: string | null
           id?: string
+          investor_id?: string | null
           notes?: string | null
           source?: string | null
           transaction_date?: string
@@ -248,6 +796,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "cashflows_investor_id_fkey"
+            columns: ["investor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "cashflows_user_id_fkey"
             columns: ["user_id"]
@@ -262,10 +817,145 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      binding_capacity: {
+        Args: { p_trader_id: string }
+        Returns: {
+          approved: number
+          investor_limit: number
+          pending: number
+          plan: string
+          remaining: number
+          waitlist_position: number | null
+        }[]
+      }
+      capital_accounts: {
+        Args: { p_trader_id: string }
+        Returns: {
+          contributed: number
+          fees_paid: number
+          holder_id: string
+          opened_at: string | null
+          priced_cashflows: string[]
+          total_units: number
+          units: number
+          username: string
+          withdrawn: number
+        }[]
+      }
+      check_fund_value: {
+        Args: { p_fund_value: number; p_trader_id: string }
+        Returns: undefined
+      }
+      crystallize_fees: {
+        Args: { p_investor_id: string; p_period_start: string }
+        Returns: {
+          closing_high_water_mark: number
+          created_at: string
+          fee_units: number
+          gross_balance: number
+          high_water_mark: number
+          hurdle_rate: number
+          hurdle_threshold: number
+          id: string
+          investor_id: string
+          management_fee: number
+          management_rate: number
+          nav_per_unit: number
+          performance_fee: number
+          performance_rate: number
+          period_end: string
+          period_start: string
+          trader_id: string
+        }
+      }
+      fee_period_end: {
+        Args: { p_crystallization: string; p_start: string }
+        Returns: string
+      }
+      fund_nav_at: {
+        Args: { p_as_of: string; p_trader_id: string }
+        Returns: number
+      }
+      fund_valuation: {
+        Args: { p_as_of?: string; p_trader_id: string }
+        Returns: {
+          fund_value: number
+          spot_value: number
+        }[]
+      }
+      fx_convert: {
+        Args: { p_amount: number; p_date: string; p_from: string; p_to: string }
+        Returns: number
+      }
+      fx_rate_on: {
+        Args: { p_code: string; p_date: string }
+        Returns: number
+      }
       generate_trader_uid: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      import_trades: {
+        Args: { p_source: string; p_trades: Json }
+        Returns: number
+      }
+      investor_limit: {
+        Args: { p_trader_id: string }
+        Returns: number
+      }
+      issue_capital_units: {
+        Args: { p_cashflow_id: string; p_fund_value: number }
+        Returns: {
+          amount: number
+          cashflow_id: string | null
+          created_at: string
+          fee_statement_id: string | null
+          holder_id: string
+          id: string
+          kind: string
+          nav_per_unit: number
+          trader_id: string
+          units: number
+        }
+      }
+      ledger_amendment_days: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      open_capital_accounts: {
+        Args: { p_fund_value: number }
+        Returns: {
+          amount: number
+          cashflow_id: string | null
+          created_at: string
+          fee_statement_id: string | null
+          holder_id: string
+          id: string
+          kind: string
+          nav_per_unit: number
+          trader_id: string
+          units: number
+        }
+      }
+      plan_investor_limit: {
+        Args: { p_plan: string }
+        Returns: number
+      }
+      valuation_currency: {
+        Args: { p_code: string }
+        Returns: string
+      }
+      verify_audit_chain: {
+        Args: { p_user_id: string }
+        Returns: {
+          amendments: number
+          entries: number
+          first_invalid_seq: number | null
+          head_hash: string | null
+          head_seq: number | null
+          valid: boolean
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
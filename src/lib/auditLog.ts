@@ -0,0 +1,78 @@
+/**
+ * Audit log queries
+ * Read-only access to the append-only `audit_log` written by database triggers
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { AuditAction, AuditLog, AuditTable } from '@/types/database';
+
+export const AUDIT_TABLES: Array<{ value: AuditTable; label: string }> = [
+  { value: 'trades', label: 'Trades' },
+  { value: 'cashflows', label: 'Cashflows' },
+  { value: 'bindings', label: 'Bindings' },
+];
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'import'];
+
+export interface AuditLogFilter {
+  // Owner of the logged records (the trader)
+  userId?: string;
+  tables?: AuditTable[];
+  recordId?: string;
+  actions?: AuditAction[];
+  actorId?: string;
+  amendmentsOnly?: boolean;
+  from?: Date | string;
+  to?: Date | string;
+  ascending?: boolean;
+  limit?: number;
+}
+
+const toIso = (value: Date | string) => (value instanceof Date ? value.toISOString() : value);
+
+/**
+ * Audit entries matching every given filter, newest first unless `ascending`
+ */
+export async function fetchAuditLog(filter: AuditLogFilter = {}): Promise<AuditLog[]> {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: !!filter.ascending });
+
+  if (filter.userId) query = query.eq('user_id', filter.userId);
+  if (filter.tables?.length) query = query.in('table_name', filter.tables);
+  if (filter.recordId) query = query.eq('record_id', filter.recordId);
+  if (filter.actions?.length) query = query.in('action', filter.actions);
+  if (filter.actorId) query = query.eq('actor_id', filter.actorId);
+  if (filter.amendmentsOnly) query = query.eq('is_amendment', true);
+  if (filter.from) query = query.gte('created_at', toIso(filter.from));
+  if (filter.to) query = query.lte('created_at', toIso(filter.to));
+  if (filter.limit) query = query.limit(filter.limit);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as AuditLog[];
+}
+
+/**
+ * Full history of one record, newest first. Trades also include the batch
+ * entry of the import that created them.
+ */
+export async function fetchRecordHistory(table: AuditTable, recordId: string): Promise<AuditLog[]> {
+  if (table !== 'trades') {
+    return fetchAuditLog({ tables: [table], recordId });
+  }
+
+  const [entries, imports] = await Promise.all([
+    fetchAuditLog({ tables: ['trades'], recordId }),
+    supabase
+      .from('audit_log')
+      .select('*')
+      .eq('action', 'import')
+      .contains('changes', { trade_ids: [recordId] }),
+  ]);
+  if (imports.error) throw imports.error;
+
+  return [...entries, ...((imports.data || []) as AuditLog[])]
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+}
@@ -0,0 +1,188 @@
+/**
+ * Trade audit trail
+ * Turns `audit_log` rows into timeline events with field-level before/after diffs
+ */
+
+import { format } from 'date-fns';
+import { AuditLog } from '@/types/database';
+
+export interface AuditFieldChange {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEvent {
+  id: string;
+  action: AuditLog['action'];
+  createdAt: string;
+  // Row as it stood after the event (before it, for deletes)
+  snapshot: Record<string, unknown> | null;
+  changes: AuditFieldChange[];
+  // Import entries only
+  source?: string;
+  importCount?: number;
+  // Edit or delete after the amendment window, made by `actorId`
+  isAmendment: boolean;
+  actorId: string | null;
+  hash: string | null;
+}
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = ['id', 'user_id', 'created_at', 'updated_at'];
+
+const FIELD_LABELS: Record<string, string> = {
+  category: 'Category',
+  asset: 'Asset',
+  price: 'Price',
+  currency: 'Currency',
+  quantity: 'Quantity',
+  trade_date: 'Date',
+  fees: 'Fees',
+  profit_loss: 'P&L',
+  notes: 'Notes',
+  strategy_id: 'Strategy',
+  'details.buy_sell': 'Side',
+  'details.position_side': 'Position Side',
+  'details.leverage': 'Leverage',
+  'details.margin': 'Margin',
+  'details.stop_loss': 'Stop Loss',
+  'details.platform': 'Platform',
+  'details.apy': 'APY %',
+  'details.strike_price': 'Strike Price',
+  'details.pool_share': 'Pool Share %',
+  'details.rewards_token': 'Rewards Token',
+};
+
+// Fields shown in the trade's quote currency
+export const MONEY_FIELDS = ['price', 'fees', 'profit_loss', 'details.margin', 'details.stop_loss', 'details.strike_price'];
+
+export function auditFieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const name = field.replace(/^details\./, '').replace(/_/g, ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Top-level columns plus one `details.<key>` entry per category-specific detail
+ */
+function flattenRecord(record: Record<string, unknown> | null): Record<string, unknown> {
+  if (!record) return {};
+  const flat: Record<string, unknown> = {};
+
+  Object.entries(record).forEach(([key, value]) => {
+    if (IGNORED_FIELDS.includes(key)) return;
+    if (key === 'details' && value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.entries(value as Record<string, unknown>).forEach(([detailKey, detailValue]) => {
+        flat[`details.${detailKey}`] = detailValue;
+      });
+      return;
+    }
+    flat[key] = value;
+  });
+
+  return flat;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (isBlank(a) && isBlank(b)) return true;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Fields that differ between two versions of a row, in label order
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditFieldChange[] {
+  const flatBefore = flattenRecord(before);
+  const flatAfter = flattenRecord(after);
+  const fields = Array.from(new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)]));
+  const order = Object.keys(FIELD_LABELS);
+  const rank = (field: string) => (order.includes(field) ? order.indexOf(field) : order.length);
+
+  return fields
+    .filter(field => !sameValue(flatBefore[field], flatAfter[field]))
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(field => ({
+      field,
+      label: auditFieldLabel(field),
+      before: flatBefore[field] ?? null,
+      after: flatAfter[field] ?? null,
+    }));
+}
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+/**
+ * Before and after rows of an entry. Older entries logged creates without a
+ * row and deletes as the bare row rather than `{ old }`.
+ */
+function entryVersions(entry: AuditLog): { before: Record<string, unknown> | null; after: Record<string, unknown> | null } {
+  const changes = asRecord(entry.changes);
+
+  switch (entry.action) {
+    case 'create':
+      return { before: null, after: asRecord(changes?.new) };
+    case 'update':
+      return { before: asRecord(changes?.old), after: asRecord(changes?.new) };
+    case 'delete':
+      return { before: changes && 'old' in changes ? asRecord(changes.old) : changes, after: null };
+    default:
+      return { before: null, after: null };
+  }
+}
+
+/**
+ * Timeline events, newest first
+ */
+export function toAuditEvents(entries: AuditLog[]): AuditEvent[] {
+  return [...entries]
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .map(entry => {
+      const { before, after } = entryVersions(entry);
+      const changes = asRecord(entry.changes);
+
+      return {
+        id: entry.id,
+        action: entry.action,
+        createdAt: entry.created_at,
+        snapshot: after || before,
+        changes: before || after ? diffRecords(before, after) : [],
+        source: entry.action === 'import' ? String(changes?.source || 'CSV') : undefined,
+        importCount: entry.action === 'import' ? Number(changes?.count || 0) : undefined,
+        isAmendment: !!entry.is_amendment,
+        actorId: entry.actor_id ?? null,
+        hash: entry.hash ?? null,
+      };
+    });
+}
+
+/**
+ * Display text for a logged value; money fields use `formatMoney`
+ */
+export function formatAuditValue(
+  field: string,
+  value: unknown,
+  formatMoney: (amount: number) => string,
+  lookup: Record<string, string> = {}
+): string {
+  if (isBlank(value)) return '—';
+  if (typeof value === 'string' && lookup[value]) return lookup[value];
+  if (field === 'trade_date' && typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : format(date, 'MMM dd, yyyy HH:mm');
+  }
+  if (MONEY_FIELDS.includes(field) && !isNaN(Number(value))) return formatMoney(Number(value));
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 8 });
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
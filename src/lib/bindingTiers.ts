@@ -0,0 +1,78 @@
+/**
+ * Binding tiers
+ * How many investors a trader's plan lets them approve, and the waitlist of
+ * requests past that limit. The database enforces the limit on approval.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { UserPlan } from '@/types/database';
+
+// Mirror `plan_investor_limit()` and the `investor_cap` check
+export const PLAN_INVESTOR_LIMITS: Record<UserPlan, number> = {
+  free: 10,
+  premium: 50,
+};
+
+export const MIN_INVESTOR_CAP = 3;
+
+export const PLAN_LABELS: Record<UserPlan, string> = {
+  free: 'Free',
+  premium: 'Premium',
+};
+
+export interface BindingCapacity {
+  plan: UserPlan;
+  limit: number;
+  approved: number;
+  remaining: number;
+  pending: number;
+  // The signed-in investor's place among pending requests, oldest first
+  waitlistPosition: number | null;
+}
+
+export const bindingCapacityKey = (traderId: string) => ['binding-capacity', traderId] as const;
+
+export async function fetchBindingCapacity(traderId: string): Promise<BindingCapacity> {
+  const { data, error } = await supabase.rpc('binding_capacity', { p_trader_id: traderId });
+  if (error) throw error;
+
+  const row = data?.[0];
+  const plan = (row?.plan === 'premium' ? 'premium' : 'free') as UserPlan;
+  return {
+    plan,
+    limit: row?.investor_limit ?? PLAN_INVESTOR_LIMITS[plan],
+    approved: row?.approved ?? 0,
+    remaining: row?.remaining ?? 0,
+    pending: row?.pending ?? 0,
+    waitlistPosition: row?.waitlist_position ?? null,
+  };
+}
+
+/**
+ * Whether the investor at `position` in the pending queue is waiting for a slot
+ * to open rather than for the trader to review them
+ */
+export function isWaitlisted(capacity: BindingCapacity, position = capacity.waitlistPosition): boolean {
+  return position !== null && position > capacity.remaining;
+}
+
+/**
+ * Caps a trader on `plan` can choose, from the minimum up to the plan's limit
+ */
+export function investorCapOptions(plan: UserPlan): number[] {
+  const limit = PLAN_INVESTOR_LIMITS[plan];
+  const step = limit > 10 ? 5 : 1;
+  const options: number[] = [];
+  for (let cap = MIN_INVESTOR_CAP; cap < limit; cap = cap < step ? step : cap + step) {
+    options.push(cap);
+  }
+  return [...options, limit];
+}
+
+/**
+ * Whether an approval failed because the trader has no free slots
+ */
+export function isInvestorLimitError(error: unknown): boolean {
+  const message = String((error as { message?: unknown } | null)?.message || '');
+  return message.startsWith('Investor limit reached');
+}
@@ -0,0 +1,88 @@
+/**
+ * Bound traders
+ * The traders an investor holds approved bindings with, and which of them the
+ * investor is looking at: one trader, or all of them consolidated
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@/types/database';
+
+// Selection value of the consolidated view
+export const ALL_TRADERS = 'all';
+
+export type BoundTrader = Pick<User, 'id' | 'username' | 'bio' | 'avatar_url' | 'currency'> & {
+  bindingId: string;
+  boundAt: string;
+};
+
+const STORAGE_KEY = 'cryptoflow:trader-selection';
+export const TRADER_SELECTION_EVENT = 'cryptoflow:trader-selection-change';
+
+export const boundTradersKey = (investorId: string) => ['bound-traders', investorId] as const;
+
+/**
+ * Traders with an approved binding to the investor, oldest binding first
+ */
+export async function fetchBoundTraders(investorId: string): Promise<BoundTrader[]> {
+  const { data, error } = await supabase
+    .from('bindings')
+    .select(`
+      id,
+      created_at,
+      users!bindings_trader_id_fkey(
+        id,
+        username,
+        bio,
+        avatar_url,
+        currency
+      )
+    `)
+    .eq('investor_id', investorId)
+    .eq('status', 'approved')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || [])
+    .filter(binding => binding.users)
+    .map(binding => ({
+      ...(binding.users as unknown as Pick<User, 'id' | 'username' | 'bio' | 'avatar_url' | 'currency'>),
+      bindingId: binding.id,
+      boundAt: binding.created_at,
+    }));
+}
+
+export function readTraderSelection(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('⚠️ Unable to read trader selection:', error);
+    return null;
+  }
+}
+
+export function writeTraderSelection(selection: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, selection);
+  } catch (error) {
+    console.warn('⚠️ Unable to persist trader selection:', error);
+  }
+  window.dispatchEvent(new Event(TRADER_SELECTION_EVENT));
+}
+
+/**
+ * The selection to show: the stored one while it is still valid, else the
+ * profile's default trader, else the first bound trader. The consolidated view
+ * needs at least two traders.
+ */
+export function resolveTraderSelection(
+  stored: string | null,
+  traders: BoundTrader[],
+  defaultTraderId?: string | null
+): string | undefined {
+  if (traders.length === 0) return undefined;
+  if (stored === ALL_TRADERS && traders.length > 1) return ALL_TRADERS;
+  if (stored && traders.some(trader => trader.id === stored)) return stored;
+  if (defaultTraderId && traders.some(trader => trader.id === defaultTraderId)) return defaultTraderId;
+  return traders[0].id;
+}
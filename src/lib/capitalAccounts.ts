@@ -0,0 +1,156 @@
+/**
+ * Capital accounts
+ * Fund-style unit accounting for a trader's investors. Each deposit buys units
+ * and each withdrawal redeems them at the net asset value per unit, so every
+ * holder's balance and return follow their own timing.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Cashflow } from '@/types/database';
+
+export interface CapitalAccount {
+  holderId: string;
+  username: string;
+  units: number;
+  // Money put in and taken out, in the fund's currency
+  contributed: number;
+  withdrawn: number;
+  // Crystallized fees paid out of the account
+  feesPaid: number;
+}
+
+export interface CapitalAccounts {
+  // Every holder for the trader; only the caller's own for an investor
+  accounts: CapitalAccount[];
+  totalUnits: number;
+  // When unit accounting started; null until the trader opens it
+  openedAt: string | null;
+  // Cashflows that have bought or redeemed units
+  pricedCashflowIds: string[];
+}
+
+export interface AccountValuation {
+  balance: number;
+  // Fraction of the fund's units held
+  share: number;
+  // Balance plus withdrawals less contributions, so net of fees paid
+  gain: number;
+  returnPct: number;
+}
+
+export interface FundInvestor {
+  id: string;
+  username: string;
+}
+
+export const capitalAccountsKey = (traderId: string) => ['capital-accounts', traderId] as const;
+export const fundInvestorsKey = (traderId: string) => ['capital-accounts', traderId, 'investors'] as const;
+
+export async function fetchCapitalAccounts(traderId: string): Promise<CapitalAccounts> {
+  const { data, error } = await supabase.rpc('capital_accounts', { p_trader_id: traderId });
+  if (error) throw error;
+
+  const rows = data || [];
+  return {
+    accounts: rows.map(row => ({
+      holderId: row.holder_id,
+      username: row.username,
+      units: Number(row.units),
+      contributed: Number(row.contributed),
+      withdrawn: Number(row.withdrawn),
+      feesPaid: Number(row.fees_paid),
+    })),
+    totalUnits: Number(rows[0]?.total_units ?? 0),
+    openedAt: rows[0]?.opened_at ?? null,
+    pricedCashflowIds: rows[0]?.priced_cashflows ?? [],
+  };
+}
+
+/**
+ * Approved investors of the trader, whose deposits and withdrawals can be recorded
+ */
+export async function fetchFundInvestors(traderId: string): Promise<FundInvestor[]> {
+  const { data, error } = await supabase
+    .from('bindings')
+    .select('investor_id, users!bindings_investor_id_fkey(username)')
+    .eq('trader_id', traderId)
+    .eq('status', 'approved');
+  if (error) throw error;
+
+  return (data || [])
+    .map(row => ({
+      id: row.investor_id,
+      username: (row.users as { username: string } | null)?.username || 'Investor',
+    }))
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export const signedAmount = (cashflow: Cashflow) =>
+  cashflow.type === 'deposit' ? cashflow.amount : -cashflow.amount;
+
+/**
+ * Net asset value per unit; an empty fund is priced at 1.00
+ */
+export function navPerUnit(fundValue: number, totalUnits: number): number {
+  return totalUnits > 0 && fundValue > 0 ? fundValue / totalUnits : 1;
+}
+
+export function valueAccount(account: CapitalAccount, nav: number, totalUnits: number): AccountValuation {
+  const balance = account.units * nav;
+  const gain = balance + account.withdrawn - account.contributed;
+  return {
+    balance,
+    share: totalUnits > 0 ? account.units / totalUnits : 0,
+    gain,
+    returnPct: account.contributed > 0 ? (gain / account.contributed) * 100 : 0,
+  };
+}
+
+/**
+ * Flows recorded since the accounts opened that have no units yet, oldest
+ * first. `cashflows` must already be in the fund's currency.
+ */
+export function unpricedCashflows(
+  cashflows: Cashflow[],
+  pricedIds: string[],
+  openedAt: string | null
+): Cashflow[] {
+  if (!openedAt) return [];
+  const priced = new Set(pricedIds);
+  const opened = new Date(openedAt).getTime();
+  return cashflows
+    .filter(cashflow => !priced.has(cashflow.id) && new Date(cashflow.created_at).getTime() > opened)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Start unit accounting: the fund's current value becomes the trader's
+ * opening units at 1.00 each
+ */
+export async function openCapitalAccounts(fundValue: number): Promise<void> {
+  const { error } = await supabase.rpc('open_capital_accounts', { p_fund_value: Math.max(fundValue, 0) });
+  if (error) throw error;
+  console.log('✅ Capital accounts opened');
+}
+
+/**
+ * Price unpriced flows at the current NAV. The fund's value already includes
+ * their cash, so each flow is priced against the value without it and the
+ * flows after it. The database converts each flow's own amount into the
+ * fund's currency.
+ */
+export async function priceCashflows(flows: Cashflow[], fundValue: number): Promise<number> {
+  let later = flows.reduce((sum, cashflow) => sum + signedAmount(cashflow), 0);
+
+  for (const cashflow of flows) {
+    const { error } = await supabase.rpc('issue_capital_units', {
+      p_cashflow_id: cashflow.id,
+      p_fund_value: Math.max(fundValue - later, 0),
+    });
+    if (error) throw error;
+    later -= signedAmount(cashflow);
+  }
+
+  console.log(`✅ Priced ${flows.length} cashflows into units`);
+  return flows.length;
+}
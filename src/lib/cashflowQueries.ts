@@ -0,0 +1,66 @@
+/**
+ * Cashflow queries
+ * An owner's deposits and withdrawals, cached under React Query keys and
+ * mirrored for offline use
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Cashflow } from '@/types/database';
+import { mirrorRows, readMirror } from '@/lib/offlineStore';
+import { isNetworkError, overlayQueuedWrites } from '@/lib/offlineQueue';
+
+export const cashflowKeys = {
+  all: ['cashflows'] as const,
+  owner: (ownerId: string) => ['cashflows', ownerId] as const,
+  history: (ownerId: string) => ['cashflows', ownerId, 'history'] as const,
+};
+
+const byTransactionDate = (a: Cashflow, b: Cashflow) =>
+  new Date(a.transaction_date).getTime() - new Date(b.transaction_date).getTime() || a.id.localeCompare(b.id);
+
+/**
+ * Every cashflow of an owner, oldest first. Offline, the mirrored history is
+ * returned with queued writes applied.
+ */
+export async function fetchCashflowHistory(ownerId: string): Promise<Cashflow[]> {
+  const { data, error } = await supabase
+    .from('cashflows')
+    .select('*')
+    .eq('user_id', ownerId)
+    .order('transaction_date', { ascending: true });
+
+  if (error) {
+    if (!isNetworkError(error)) throw error;
+    const mirrored = await overlayQueuedWrites('cashflows', ownerId, await readMirror<Cashflow>('cashflows', ownerId));
+    console.log(`⚠️ Offline: showing ${mirrored.length} stored cashflow entries`);
+    return mirrored.sort(byTransactionDate);
+  }
+
+  const cashflows = (data || []) as Cashflow[];
+  await mirrorRows('cashflows', ownerId, cashflows, { replace: true });
+  console.log(`✅ Loaded ${cashflows.length} cashflow entries`);
+  return cashflows;
+}
+
+export function invalidateCashflowQueries(queryClient: QueryClient, ownerId: string): Promise<void> {
+  return queryClient.invalidateQueries({ queryKey: cashflowKeys.owner(ownerId) });
+}
+
+/**
+ * Patch the cached history with one inserted, updated or deleted row
+ */
+export function applyCashflowChange(
+  queryClient: QueryClient,
+  ownerId: string,
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE',
+  row: Cashflow | null,
+  old: Partial<Cashflow> | null
+) {
+  queryClient.setQueryData<Cashflow[]>(cashflowKeys.history(ownerId), cashflows => {
+    if (!cashflows) return cashflows;
+    const id = row?.id || old?.id;
+    const rest = cashflows.filter(cashflow => cashflow.id !== id);
+    return eventType === 'DELETE' || !row ? rest : [...rest, row].sort(byTransactionDate);
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Currency model
+ * ISO-4217 fiat currencies plus USD stablecoins that exchanges use as quote
+ * currencies. Stablecoins are treated as pegged 1:1 to their reference currency.
+ */
+
+export const CURRENCIES = [
+  { code: 'USD', name: 'US Dollar', kind: 'fiat', decimals: 2 },
+  { code: 'EUR', name: 'Euro', kind: 'fiat', decimals: 2 },
+  { code: 'GBP', name: 'British Pound', kind: 'fiat', decimals: 2 },
+  { code: 'JPY', name: 'Japanese Yen', kind: 'fiat', decimals: 0 },
+  { code: 'PHP', name: 'Philippine Peso', kind: 'fiat', decimals: 2 },
+  { code: 'SGD', name: 'Singapore Dollar', kind: 'fiat', decimals: 2 },
+  { code: 'HKD', name: 'Hong Kong Dollar', kind: 'fiat', decimals: 2 },
+  { code: 'AUD', name: 'Australian Dollar', kind: 'fiat', decimals: 2 },
+  { code: 'CAD', name: 'Canadian Dollar', kind: 'fiat', decimals: 2 },
+  { code: 'CHF', name: 'Swiss Franc', kind: 'fiat', decimals: 2 },
+  { code: 'CNY', name: 'Chinese Yuan', kind: 'fiat', decimals: 2 },
+  { code: 'INR', name: 'Indian Rupee', kind: 'fiat', decimals: 2 },
+  { code: 'KRW', name: 'South Korean Won', kind: 'fiat', decimals: 0 },
+  { code: 'USDT', name: 'Tether (USD)', kind: 'stablecoin', decimals: 2, peggedTo: 'USD' },
+  { code: 'USDC', name: 'USD Coin', kind: 'stablecoin', decimals: 2, peggedTo: 'USD' },
+] as const;
+
+export type CurrencyCode = typeof CURRENCIES[number]['code'];
+
+export type CurrencyInfo = {
+  code: CurrencyCode;
+  name: string;
+  kind: 'fiat' | 'stablecoin';
+  decimals: number;
+  peggedTo?: CurrencyCode;
+};
+
+export const CURRENCY_CODES = CURRENCIES.map(currency => currency.code) as CurrencyCode[];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (CURRENCY_CODES as string[]).includes(value);
+}
+
+export function getCurrencyInfo(code: string): CurrencyInfo {
+  return (CURRENCIES.find(currency => currency.code === code) || CURRENCIES[0]) as CurrencyInfo;
+}
+
+/**
+ * The fiat currency an amount is actually valued in (stablecoins resolve to their peg)
+ */
+export function valuationCurrency(code: CurrencyCode): CurrencyCode {
+  return getCurrencyInfo(code).peggedTo || code;
+}
+
+/**
+ * Short display symbol, e.g. `$`, `₱`, `€`; stablecoins show their code
+ */
+export function currencySymbol(code: string): string {
+  const info = getCurrencyInfo(code);
+  if (info.kind === 'stablecoin') return `${info.code} `;
+
+  const part = new Intl.NumberFormat('en-US', { style: 'currency', currency: info.code })
+    .formatToParts(0)
+    .find(p => p.type === 'currency');
+  return part?.value || `${info.code} `;
+}
+
+/**
+ * Format an amount in a currency. Stablecoins are not ISO-4217 codes, so they
+ * are rendered as a plain number followed by their ticker.
+ */
+export function formatCurrency(
+  amount: number,
+  code: string = DEFAULT_CURRENCY,
+  options: Intl.NumberFormatOptions = {}
+): string {
+  const info = getCurrencyInfo(code);
+  const maximumFractionDigits = options.maximumFractionDigits ?? info.decimals;
+  const digits = {
+    ...options,
+    minimumFractionDigits: options.minimumFractionDigits ?? Math.min(info.decimals, maximumFractionDigits),
+    maximumFractionDigits,
+  };
+
+  if (info.kind === 'stablecoin') {
+    return `${new Intl.NumberFormat('en-US', digits).format(amount)} ${info.code}`;
+  }
+
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: info.code,
+    ...digits,
+  }).format(amount);
+}
@@ -0,0 +1,300 @@
+/**
+ * Fee engine
+ * Management and performance fees on investor capital accounts. Fees accrue
+ * from the investor's unit history over each crystallization period, against a
+ * flow-adjusted high-water mark raised by the hurdle rate, and are paid by
+ * moving the investor's units to the trader.
+ */
+
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { CurrencyCode } from '@/lib/currencies';
+import { ExportFile, toCsv } from '@/lib/journalExport';
+import { CapitalUnitEntry, FeeCrystallization, FeeSchedule, FeeStatement } from '@/types/database';
+
+export type FeeTerms = Pick<FeeSchedule, 'management_rate' | 'performance_rate' | 'hurdle_rate' | 'crystallization'>;
+
+// 2 and 20, crystallized once a year, no hurdle
+export const DEFAULT_FEE_TERMS: FeeTerms = {
+  management_rate: 0.02,
+  performance_rate: 0.2,
+  hurdle_rate: 0,
+  crystallization: 'yearly',
+};
+
+// Mirror the `fee_schedules` checks
+export const MAX_MANAGEMENT_RATE = 0.1;
+export const MAX_PERFORMANCE_RATE = 0.5;
+export const MAX_HURDLE_RATE = 0.5;
+
+export const CRYSTALLIZATION_LABELS: Record<FeeCrystallization, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+export interface FeeAccrual {
+  investorId: string;
+  periodStart: string;
+  // When the period can be crystallized
+  periodEnd: Date;
+  due: boolean;
+  units: number;
+  navPerUnit: number;
+  grossBalance: number;
+  // High-water mark carried in, adjusted for the period's flows
+  highWaterMark: number;
+  // The high-water mark grown at the hurdle rate; performance is earned above it
+  hurdleThreshold: number;
+  managementFee: number;
+  performanceFee: number;
+  totalFee: number;
+  netBalance: number;
+  closingHighWaterMark: number;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Under the capital accounts key, so unit changes refresh accrued fees too
+export const feesKey = (traderId: string) => ['capital-accounts', traderId, 'fees'] as const;
+
+export async function fetchFeeSchedules(traderId: string): Promise<FeeSchedule[]> {
+  const { data, error } = await supabase
+    .from('fee_schedules')
+    .select('*')
+    .eq('trader_id', traderId);
+  if (error) throw error;
+  return (data || []) as FeeSchedule[];
+}
+
+/**
+ * Crystallized statements, newest first
+ */
+export async function fetchFeeStatements(traderId: string): Promise<FeeStatement[]> {
+  const { data, error } = await supabase
+    .from('fee_statements')
+    .select('*')
+    .eq('trader_id', traderId)
+    .order('period_end', { ascending: false });
+  if (error) throw error;
+  return (data || []) as FeeStatement[];
+}
+
+/**
+ * Every unit movement in the trader's fund, oldest first
+ */
+export async function fetchUnitEntries(traderId: string): Promise<CapitalUnitEntry[]> {
+  const { data, error } = await supabase
+    .from('capital_units')
+    .select('*')
+    .eq('trader_id', traderId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(entry => ({
+    ...entry,
+    amount: Number(entry.amount),
+    units: Number(entry.units),
+    nav_per_unit: Number(entry.nav_per_unit),
+  })) as CapitalUnitEntry[];
+}
+
+/**
+ * Create or change an investor's schedule. A new schedule starts accruing now,
+ * from the investor's balance at `navPerUnit`.
+ */
+export async function saveFeeSchedule(
+  traderId: string,
+  investorId: string,
+  terms: FeeTerms,
+  navPerUnit: number
+): Promise<void> {
+  const { error } = await supabase
+    .from('fee_schedules')
+    .upsert({
+      trader_id: traderId,
+      investor_id: investorId,
+      ...terms,
+      // Checked against the fund's value on the first save; the database
+      // ignores later changes
+      start_nav_per_unit: navPerUnit,
+    }, { onConflict: 'trader_id,investor_id' });
+  if (error) throw error;
+  console.log(`✅ Saved fee schedule for investor ${investorId}`);
+}
+
+/**
+ * End of the crystallization period `start` falls in, in UTC like `fee_period_end()`
+ */
+export function feePeriodEnd(start: string, crystallization: FeeCrystallization): Date {
+  const date = new Date(start);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (crystallization) {
+    case 'monthly':
+      return new Date(Date.UTC(year, month + 1, 1));
+    case 'quarterly':
+      return new Date(Date.UTC(year, Math.floor(month / 3) * 3 + 3, 1));
+    default:
+      return new Date(Date.UTC(year + 1, 0, 1));
+  }
+}
+
+/**
+ * The investor's open period: from their latest statement's end, or the
+ * schedule's start, to the crystallization boundary after it
+ */
+export function currentFeePeriod(
+  schedule: FeeSchedule,
+  lastStatement: FeeStatement | null
+): { periodStart: string; periodEnd: Date } {
+  const periodStart = lastStatement?.period_end ?? schedule.starts_at;
+  return { periodStart, periodEnd: feePeriodEnd(periodStart, schedule.crystallization) };
+}
+
+/**
+ * The fund's NAV per unit at a past moment, from the records and stored
+ * closes up to it; periods are crystallized at the NAV at their end
+ */
+export async function fetchNavAt(traderId: string, at: Date): Promise<number> {
+  const { data, error } = await supabase.rpc('fund_nav_at', {
+    p_trader_id: traderId,
+    p_as_of: at.toISOString(),
+  });
+  if (error) throw error;
+  return Number(data);
+}
+
+/**
+ * Fees the investor owes for the current period if it were crystallized at
+ * `navPerUnit`: the current NAV while the period runs, the NAV at its end
+ * once it is due. Accrual stops at the period's end, so a period crystallized
+ * late is charged for the period only. `entries` are the investor's own unit
+ * movements, oldest first; `lastStatement` is their latest crystallized
+ * period, if any.
+ */
+export function accrueFees(
+  schedule: FeeSchedule,
+  entries: CapitalUnitEntry[],
+  lastStatement: FeeStatement | null,
+  navPerUnit: number,
+  asOf: Date = new Date()
+): FeeAccrual {
+  const { periodStart, periodEnd } = currentFeePeriod(schedule, lastStatement);
+  const startTime = new Date(periodStart).getTime();
+  const endTime = Math.min(asOf.getTime(), periodEnd.getTime());
+  const before = entries.filter(entry => new Date(entry.created_at).getTime() <= startTime);
+  const during = entries.filter(entry => {
+    const time = new Date(entry.created_at).getTime();
+    return time > startTime && time <= endTime;
+  });
+
+  let units = before.reduce((sum, entry) => sum + entry.units, 0);
+  let highWaterMark = lastStatement
+    ? Number(lastStatement.closing_high_water_mark)
+    : units * Number(schedule.start_nav_per_unit);
+  let hurdleThreshold = highWaterMark;
+  // Units held times years held, for the time-weighted management fee
+  let unitYears = 0;
+  let time = startTime;
+
+  const advance = (until: number) => {
+    const years = Math.max(until - time, 0) / YEAR_MS;
+    unitYears += units * years;
+    hurdleThreshold *= 1 + Number(schedule.hurdle_rate) * years;
+    time = Math.max(until, time);
+  };
+
+  during.forEach(entry => {
+    advance(new Date(entry.created_at).getTime());
+    if (entry.kind === 'subscription') {
+      // New money raises the bar by what was paid in
+      highWaterMark += entry.amount;
+      hurdleThreshold += entry.amount;
+    } else if (entry.kind === 'redemption' && units > 0) {
+      // Withdrawals lower it in proportion to the units redeemed
+      const kept = Math.max(1 + entry.units / units, 0);
+      highWaterMark *= kept;
+      hurdleThreshold *= kept;
+    }
+    units += entry.units;
+  });
+  advance(endTime);
+
+  const grossBalance = Math.max(units, 0) * navPerUnit;
+  const managementFee = Math.min(Number(schedule.management_rate) * unitYears * navPerUnit, grossBalance);
+  const afterManagement = grossBalance - managementFee;
+  const performanceFee = Number(schedule.performance_rate) * Math.max(afterManagement - hurdleThreshold, 0);
+  const netBalance = afterManagement - performanceFee;
+
+  return {
+    investorId: schedule.investor_id,
+    periodStart,
+    periodEnd,
+    due: asOf.getTime() >= periodEnd.getTime(),
+    units,
+    navPerUnit,
+    grossBalance,
+    highWaterMark,
+    hurdleThreshold,
+    managementFee,
+    performanceFee,
+    totalFee: managementFee + performanceFee,
+    netBalance,
+    closingHighWaterMark: Math.max(highWaterMark, netBalance),
+  };
+}
+
+/**
+ * Close the investor's period: record the statement and pay the fee in units.
+ * The database computes the fees itself at the NAV at the period's end, so the
+ * statement returned is the one to show.
+ */
+export async function crystallizeFees(accrual: FeeAccrual): Promise<FeeStatement> {
+  const { data, error } = await supabase.rpc('crystallize_fees', {
+    p_investor_id: accrual.investorId,
+    p_period_start: accrual.periodStart,
+  });
+  if (error) throw error;
+  console.log(`✅ Crystallized fees for investor ${accrual.investorId}`);
+  return data as FeeStatement;
+}
+
+const STATEMENT_COLUMNS = [
+  'investor', 'period_start', 'period_end', 'currency', 'management_rate', 'performance_rate',
+  'hurdle_rate', 'nav_per_unit', 'gross_balance', 'high_water_mark', 'hurdle_threshold',
+  'management_fee', 'performance_fee', 'total_fee', 'closing_high_water_mark', 'fee_units',
+];
+
+/**
+ * Fee statements as a CSV file, one row per crystallized period
+ */
+export function buildFeeStatementsCsv(
+  statements: FeeStatement[],
+  investorNames: Record<string, string>,
+  currency: CurrencyCode
+): ExportFile {
+  const rows = statements.map(statement => ({
+    investor: investorNames[statement.investor_id] || statement.investor_id,
+    period_start: statement.period_start,
+    period_end: statement.period_end,
+    currency,
+    management_rate: Number(statement.management_rate),
+    performance_rate: Number(statement.performance_rate),
+    hurdle_rate: Number(statement.hurdle_rate),
+    nav_per_unit: Number(statement.nav_per_unit),
+    gross_balance: Number(statement.gross_balance),
+    high_water_mark: Number(statement.high_water_mark),
+    hurdle_threshold: Number(statement.hurdle_threshold),
+    management_fee: Number(statement.management_fee),
+    performance_fee: Number(statement.performance_fee),
+    total_fee: Number(statement.management_fee) + Number(statement.performance_fee),
+    closing_high_water_mark: Number(statement.closing_high_water_mark),
+    fee_units: Number(statement.fee_units),
+  }));
+
+  return {
+    filename: `fee-statements-${format(new Date(), 'yyyy-MM-dd')}.csv`,
+    mimeType: 'text/csv;charset=utf-8',
+    content: toCsv(STATEMENT_COLUMNS, rows),
+  };
+}
@@ -0,0 +1,377 @@
+/**
+ * Futures position lifecycle
+ * Groups futures fills into positions (open, scale-in, partial close, close) and
+ * derives entry/exit averages, realized P&L, liquidation estimates and funding
+ */
+
+import { FundingPayment, FuturesDetails, PositionSide } from '@/types/database';
+
+// Default maintenance margin rate used for liquidation estimates (0.5%)
+export const DEFAULT_MAINTENANCE_MARGIN_RATE = 0.005;
+
+const QUANTITY_EPSILON = 1e-12;
+
+export type PositionEventType = 'open' | 'increase' | 'reduce' | 'close';
+
+/**
+ * Minimal trade shape needed to build futures positions
+ */
+export interface FuturesTrade {
+  id?: string;
+  asset: string;
+  price: number;
+  quantity: number;
+  fees?: number;
+  trade_date: string;
+  created_at?: string;
+  details?: Partial<FuturesDetails>;
+}
+
+export interface PositionEvent {
+  tradeId?: string;
+  type: PositionEventType;
+  date: string;
+  price: number;
+  quantity: number;
+  fees: number;
+  sizeAfter: number;
+  realizedPnL: number;
+}
+
+export interface FuturesPosition {
+  id: string;
+  asset: string;
+  side: PositionSide;
+  status: 'open' | 'closed';
+  openedAt: string;
+  closedAt?: string;
+  size: number;
+  maxSize: number;
+  entryPrice: number;
+  exitPrice: number | null;
+  closedQuantity: number;
+  leverage: number | null;
+  margin: number | null;
+  liquidationPrice: number | null;
+  tradingPnL: number;
+  fees: number;
+  fundingPnL: number;
+  realizedPnL: number;
+  events: PositionEvent[];
+  funding: FundingPayment[];
+}
+
+export interface FuturesPositionMetrics {
+  unrealizedPnL: number | null;
+  roe: number | null;
+  markPrice: number | null;
+}
+
+/**
+ * A closing fill with no open position to close, usually because the opening
+ * fill was never recorded
+ */
+export interface OrphanClose {
+  tradeId?: string;
+  asset: string;
+  side: PositionSide;
+  date: string;
+  // The part of the fill left without a position
+  quantity: number;
+}
+
+export interface FuturesLedger {
+  positions: FuturesPosition[];
+  orphanCloses: OrphanClose[];
+}
+
+interface PositionBuilder extends FuturesPosition {
+  exitNotional: number;
+}
+
+/**
+ * Estimate the liquidation price of an isolated-margin position.
+ *
+ * Uses the posted margin when known, otherwise derives it from leverage.
+ * Returns null when neither is available.
+ */
+export function estimateLiquidationPrice(
+  side: PositionSide,
+  entryPrice: number,
+  size: number,
+  leverage: number | null,
+  margin: number | null,
+  maintenanceMarginRate: number = DEFAULT_MAINTENANCE_MARGIN_RATE
+): number | null {
+  if (entryPrice <= 0 || size <= QUANTITY_EPSILON) return null;
+
+  const notional = entryPrice * size;
+  const postedMargin = margin && margin > 0
+    ? margin
+    : leverage && leverage > 0 ? notional / leverage : null;
+
+  if (postedMargin === null) return null;
+
+  const liquidationPrice = side === 'long'
+    ? (notional - postedMargin) / (size * (1 - maintenanceMarginRate))
+    : (notional + postedMargin) / (size * (1 + maintenanceMarginRate));
+
+  return Math.max(liquidationPrice, 0);
+}
+
+function tradeTimestamp(trade: FuturesTrade): number {
+  return new Date(trade.trade_date || trade.created_at || 0).getTime();
+}
+
+/**
+ * Whether a fill adds to a position on the given side
+ */
+function isIncreasingFill(side: PositionSide, buySell: 'buy' | 'sell'): boolean {
+  return side === 'long' ? buySell === 'buy' : buySell === 'sell';
+}
+
+function newPosition(trade: FuturesTrade, asset: string, side: PositionSide): PositionBuilder {
+  return {
+    id: `${asset}-${side}-${trade.id || trade.trade_date}`,
+    asset,
+    side,
+    status: 'open',
+    openedAt: trade.trade_date,
+    size: 0,
+    maxSize: 0,
+    entryPrice: 0,
+    exitPrice: null,
+    closedQuantity: 0,
+    leverage: null,
+    margin: null,
+    liquidationPrice: null,
+    tradingPnL: 0,
+    fees: 0,
+    fundingPnL: 0,
+    realizedPnL: 0,
+    events: [],
+    funding: [],
+    exitNotional: 0,
+  };
+}
+
+/**
+ * Open a new position from (part of) a single fill
+ */
+function startPosition(
+  trade: FuturesTrade,
+  asset: string,
+  side: PositionSide,
+  quantity: number,
+  fees: number
+): PositionBuilder {
+  const position = newPosition(trade, asset, side);
+  position.entryPrice = trade.price;
+  position.size = quantity;
+  position.maxSize = quantity;
+  position.fees = fees;
+  if (trade.details?.leverage) position.leverage = trade.details.leverage;
+  if (trade.details?.margin) position.margin = trade.details.margin;
+  position.events.push({
+    tradeId: trade.id,
+    type: 'open',
+    date: trade.trade_date,
+    price: trade.price,
+    quantity,
+    fees,
+    sizeAfter: quantity,
+    realizedPnL: 0,
+  });
+  return position;
+}
+
+function finalizePosition(builder: PositionBuilder): FuturesPosition {
+  const { exitNotional, ...position } = builder;
+  position.exitPrice = position.closedQuantity > QUANTITY_EPSILON
+    ? exitNotional / position.closedQuantity
+    : null;
+  position.fundingPnL = position.funding.reduce((sum, payment) => sum + payment.amount, 0);
+  position.realizedPnL = position.tradingPnL - position.fees + position.fundingPnL;
+  position.liquidationPrice = position.status === 'open'
+    ? estimateLiquidationPrice(position.side, position.entryPrice, position.size, position.leverage, position.margin)
+    : null;
+  return position;
+}
+
+/**
+ * Build futures positions from fills and attach funding payments.
+ *
+ * Fills carry `details.position_side`; legacy fills without it are treated as
+ * reducing whatever position is open on the asset, or opening one in the
+ * direction of the fill (buy = long, sell = short), and a legacy fill larger
+ * than the open size flips the position with the remainder.
+ * A close of a long or short with nothing open on that side never invents
+ * exposure on the other side: it is reported as an orphan close instead.
+ */
+export function buildFuturesLedger(
+  trades: FuturesTrade[],
+  fundingPayments: FundingPayment[] = []
+): FuturesLedger {
+  const sortedTrades = [...trades].sort((a, b) => tradeTimestamp(a) - tradeTimestamp(b));
+  const openPositions: Record<string, PositionBuilder> = {};
+  const positions: PositionBuilder[] = [];
+  const orphanCloses: OrphanClose[] = [];
+
+  const openKey = (asset: string, side: PositionSide) => `${asset}:${side}`;
+
+  for (const trade of sortedTrades) {
+    const asset = trade.asset.toUpperCase();
+    const buySell = trade.details?.buy_sell || 'buy';
+    let remaining = Math.abs(trade.quantity);
+    let fees = trade.fees || 0;
+    const totalQuantity = remaining;
+
+    if (remaining <= QUANTITY_EPSILON) continue;
+
+    let side: PositionSide = trade.details?.position_side
+      || (buySell === 'buy' ? 'long' : 'short');
+
+    // Legacy fills: a fill against an open position on the other side reduces it
+    if (!trade.details?.position_side) {
+      const opposite: PositionSide = side === 'long' ? 'short' : 'long';
+      if (openPositions[openKey(asset, opposite)]) side = opposite;
+    }
+
+    const key = openKey(asset, side);
+    let position = openPositions[key];
+
+    if (isIncreasingFill(side, buySell)) {
+      if (!position) {
+        position = newPosition(trade, asset, side);
+        openPositions[key] = position;
+        positions.push(position);
+      }
+
+      const isOpening = position.size <= QUANTITY_EPSILON;
+      position.entryPrice =
+        (position.entryPrice * position.size + trade.price * remaining) / (position.size + remaining);
+      position.size += remaining;
+      position.maxSize = Math.max(position.maxSize, position.size);
+      position.fees += fees;
+      if (trade.details?.leverage) position.leverage = trade.details.leverage;
+      if (trade.details?.margin) position.margin = (position.margin || 0) + trade.details.margin;
+
+      position.events.push({
+        tradeId: trade.id,
+        type: isOpening ? 'open' : 'increase',
+        date: trade.trade_date,
+        price: trade.price,
+        quantity: remaining,
+        fees,
+        sizeAfter: position.size,
+        realizedPnL: 0,
+      });
+      continue;
+    }
+
+    if (!position) {
+      console.warn(`⚠️ ${asset} ${side} closing fill has no open position`);
+      orphanCloses.push({ tradeId: trade.id, asset, side, date: trade.trade_date, quantity: remaining });
+      continue;
+    }
+
+    const closing = Math.min(remaining, position.size);
+    const closingFees = fees * (closing / totalQuantity);
+    const direction = side === 'long' ? 1 : -1;
+    const pnl = (trade.price - position.entryPrice) * closing * direction;
+
+    // Release margin proportionally to the size being closed
+    if (position.margin !== null && position.size > QUANTITY_EPSILON) {
+      position.margin -= position.margin * (closing / position.size);
+    }
+
+    position.size -= closing;
+    position.closedQuantity += closing;
+    position.exitNotional += trade.price * closing;
+    position.tradingPnL += pnl;
+    position.fees += closingFees;
+
+    const isClosed = position.size <= QUANTITY_EPSILON;
+    position.events.push({
+      tradeId: trade.id,
+      type: isClosed ? 'close' : 'reduce',
+      date: trade.trade_date,
+      price: trade.price,
+      quantity: closing,
+      fees: closingFees,
+      sizeAfter: Math.max(position.size, 0),
+      realizedPnL: pnl - closingFees,
+    });
+
+    if (isClosed) {
+      position.size = 0;
+      position.status = 'closed';
+      position.closedAt = trade.trade_date;
+      delete openPositions[key];
+    }
+
+    remaining -= closing;
+    fees -= closingFees;
+
+    if (remaining <= QUANTITY_EPSILON) continue;
+
+    if (trade.details?.position_side) {
+      // An explicit close cannot close more than is open
+      console.warn(`⚠️ ${asset} ${side} closing fill exceeds the open size by ${remaining}`);
+      orphanCloses.push({ tradeId: trade.id, asset, side, date: trade.trade_date, quantity: remaining });
+    } else {
+      // Over-sized legacy fill flips the position with the remainder
+      const flipped: PositionSide = side === 'long' ? 'short' : 'long';
+      const started = startPosition(trade, asset, flipped, remaining, fees);
+      openPositions[openKey(asset, flipped)] = started;
+      positions.push(started);
+    }
+  }
+
+  // Attach each funding payment to the position open on that asset/side at the time
+  for (const payment of fundingPayments) {
+    const asset = payment.asset.toUpperCase();
+    const paidAt = new Date(payment.paid_at).getTime();
+    const match = positions.find(position =>
+      position.asset === asset &&
+      position.side === payment.position_side &&
+      new Date(position.openedAt).getTime() <= paidAt &&
+      (!position.closedAt || new Date(position.closedAt).getTime() >= paidAt)
+    );
+
+    if (match) {
+      match.funding.push(payment);
+    } else {
+      console.warn(`⚠️ Funding payment ${payment.id} has no matching ${asset} ${payment.position_side} position`);
+    }
+  }
+
+  return { positions: positions.map(finalizePosition), orphanCloses };
+}
+
+/**
+ * Futures positions built from fills, without the orphan close report
+ */
+export function buildFuturesPositions(
+  trades: FuturesTrade[],
+  fundingPayments: FundingPayment[] = []
+): FuturesPosition[] {
+  return buildFuturesLedger(trades, fundingPayments).positions;
+}
+
+/**
+ * Mark an open position to market
+ */
+export function markPosition(position: FuturesPosition, markPrice: number | null): FuturesPositionMetrics {
+  if (position.status !== 'open' || markPrice === null) {
+    return { unrealizedPnL: null, roe: null, markPrice };
+  }
+
+  const direction = position.side === 'long' ? 1 : -1;
+  const unrealizedPnL = (markPrice - position.entryPrice) * position.size * direction;
+  const margin = position.margin
+    || (position.leverage ? (position.entryPrice * position.size) / position.leverage : null);
+  const roe = margin ? (unrealizedPnL / margin) * 100 : null;
+
+  return { unrealizedPnL, roe, markPrice };
+}
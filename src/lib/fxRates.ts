@@ -0,0 +1,187 @@
+/**
+ * FX rate service
+ * Backfills daily USD-based exchange rates into the `fx_rates` table through
+ * the `backfill-fx-rates` edge function and converts amounts between
+ * currencies at the rate of a given day
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { CurrencyCode, valuationCurrency } from '@/lib/currencies';
+import { priceFromSeries, toDateKey } from '@/lib/priceHistory';
+
+// All stored rates are units of the quote currency per 1 USD
+const FX_BASE: CurrencyCode = 'USD';
+
+// Daily USD -> currency rates per quote currency: date -> rate
+export type FxRateTable = Partial<Record<CurrencyCode, Map<string, number>>>;
+
+const rateCache: FxRateTable = {};
+
+/**
+ * Fiat currencies that need stored rates to convert between the given currencies
+ */
+export function currenciesNeedingRates(codes: CurrencyCode[]): CurrencyCode[] {
+  return Array.from(new Set(codes.map(valuationCurrency))).filter(code => code !== FX_BASE);
+}
+
+/**
+ * Fill `fx_rates` for each currency from `from` up to yesterday.
+ * Rates are shared by every user, so they are fetched and stored by the
+ * `backfill-fx-rates` edge function; it only requests the days before the
+ * earliest and after the latest stored rate.
+ */
+export async function backfillFxRates(codes: CurrencyCode[], from: Date): Promise<number> {
+  const quotes = currenciesNeedingRates(codes);
+  if (quotes.length === 0) return 0;
+
+  const { data, error } = await supabase.functions.invoke<{ stored: number }>('backfill-fx-rates', {
+    body: { quotes, from: toDateKey(from) },
+  });
+
+  if (error) throw error;
+  const stored = data?.stored ?? 0;
+  if (stored === 0) return 0;
+
+  quotes.forEach(quote => delete rateCache[quote]);
+  console.log(`✅ Stored ${stored} FX rates`);
+  return stored;
+}
+
+/**
+ * Load stored rates for the given currencies into memory
+ */
+export async function loadFxRates(codes: CurrencyCode[]): Promise<FxRateTable> {
+  const table: FxRateTable = {};
+
+  for (const quote of currenciesNeedingRates(codes)) {
+    if (!rateCache[quote]) {
+      const { data, error } = await supabase
+        .from('fx_rates')
+        .select('rate_date, rate')
+        .eq('base', FX_BASE)
+        .eq('quote', quote)
+        .order('rate_date', { ascending: true });
+
+      if (error) throw error;
+
+      const series = new Map<string, number>();
+      (data || []).forEach(row => series.set(row.rate_date, Number(row.rate)));
+      rateCache[quote] = series;
+    }
+    table[quote] = rateCache[quote];
+  }
+
+  return table;
+}
+
+/**
+ * USD -> currency rate on a date: the latest rate on or before it, else the
+ * earliest stored rate (for dates before the history starts)
+ */
+export function rateOn(table: FxRateTable, code: CurrencyCode, date: Date | string): number | null {
+  const fiat = valuationCurrency(code);
+  if (fiat === FX_BASE) return 1;
+
+  const series = table[fiat];
+  if (!series || series.size === 0) return null;
+
+  const rate = priceFromSeries(series, date);
+  if (rate !== null) return rate;
+
+  return series.get(Array.from(series.keys()).sort()[0]) ?? null;
+}
+
+/**
+ * Convert an amount between currencies at the rate of the given day.
+ * Returns null when a required rate is missing.
+ */
+export function convertAmount(
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: Date | string,
+  table: FxRateTable
+): number | null {
+  if (valuationCurrency(from) === valuationCurrency(to)) return amount;
+
+  const fromRate = rateOn(table, from, date);
+  const toRate = rateOn(table, to, date);
+  if (fromRate === null || toRate === null || fromRate === 0) return null;
+
+  return (amount / fromRate) * toRate;
+}
+
+export interface ConvertibleTrade {
+  currency: CurrencyCode;
+  trade_date: string;
+  price: number;
+  fees?: number | null;
+  profit_loss?: number | null;
+  details?: { margin?: number; [key: string]: unknown } | null;
+}
+
+export interface ConvertibleCashflow {
+  currency: CurrencyCode;
+  transaction_date: string;
+  amount: number;
+}
+
+/**
+ * Restate trades in the reporting currency at each trade date's rate.
+ * Trades without a usable rate are left out and counted in `unconverted`.
+ */
+export function convertTrades<T extends ConvertibleTrade>(
+  trades: T[],
+  reporting: CurrencyCode,
+  table: FxRateTable
+): { rows: T[]; unconverted: number } {
+  const rows: T[] = [];
+  let unconverted = 0;
+
+  trades.forEach(trade => {
+    const from = trade.currency || reporting;
+    const convert = (value: number) => convertAmount(value, from, reporting, trade.trade_date, table);
+    const price = convert(trade.price);
+
+    if (price === null) {
+      unconverted += 1;
+      return;
+    }
+
+    rows.push({
+      ...trade,
+      currency: reporting,
+      price,
+      fees: trade.fees ? convert(trade.fees) ?? 0 : trade.fees,
+      profit_loss: trade.profit_loss ? convert(trade.profit_loss) ?? 0 : trade.profit_loss,
+      details: trade.details?.margin
+        ? { ...trade.details, margin: convert(trade.details.margin) ?? undefined }
+        : trade.details,
+    } as T);
+  });
+
+  return { rows, unconverted };
+}
+
+/**
+ * Restate cashflows in the reporting currency at each transaction date's rate
+ */
+export function convertCashflows<T extends ConvertibleCashflow>(
+  cashflows: T[],
+  reporting: CurrencyCode,
+  table: FxRateTable
+): { rows: T[]; unconverted: number } {
+  const rows: T[] = [];
+  let unconverted = 0;
+
+  cashflows.forEach(cashflow => {
+    const amount = convertAmount(cashflow.amount, cashflow.currency || reporting, reporting, cashflow.transaction_date, table);
+    if (amount === null) {
+      unconverted += 1;
+      return;
+    }
+    rows.push({ ...cashflow, currency: reporting, amount } as T);
+  });
+
+  return { rows, unconverted };
+}
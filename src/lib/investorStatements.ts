@@ -0,0 +1,474 @@
+/**
+ * Investor statements
+ * Monthly and quarterly statements of a trader's fund: opening and closing
+ * value, deposits and withdrawals, realized and unrealized P&L, allocation by
+ * trade category and the period's trades, rendered to PDF on the client
+ */
+
+import { format } from 'date-fns';
+import { CostBasisMethod, LotTrade, matchLots } from '@/lib/lotMatching';
+import { addDays, buildEquityCurve, toDateKey } from '@/lib/priceHistory';
+import { computePeriodReturn, ValuationPoint } from '@/lib/returns';
+import { CurrencyCode, formatCurrency, getCurrencyInfo } from '@/lib/currencies';
+import { ExportFile } from '@/lib/journalExport';
+import {
+  buildPdf,
+  isPdfEncodable,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  PdfColor,
+  PdfElement,
+  PdfJpeg,
+  PdfPage,
+  textWidth,
+  wrapText,
+} from '@/lib/pdfWriter';
+import { Cashflow, Trade, TradeCategory } from '@/types/database';
+
+export type StatementFrequency = 'monthly' | 'quarterly';
+
+export const STATEMENT_FREQUENCIES: { value: StatementFrequency; label: string }[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+];
+
+export const CATEGORY_LABELS: Record<TradeCategory, string> = {
+  spot: 'Spot',
+  futures: 'Futures',
+  defi: 'DeFi',
+  dual_investment: 'Dual Investment',
+  liquidity_pool: 'Liquidity Pool',
+  liquidity_mining: 'Liquidity Mining',
+};
+
+export interface StatementPeriod {
+  label: string;
+  start: string; // yyyy-MM-dd (UTC)
+  end: string;
+  // False for the period still running, which is stated to date
+  complete: boolean;
+}
+
+export interface StatementAllocation {
+  key: TradeCategory | 'cash';
+  label: string;
+  value: number;
+  share: number;
+}
+
+export interface StatementTrade {
+  id: string;
+  date: string;
+  category: TradeCategory;
+  asset: string;
+  side: string;
+  quantity: number;
+  price: number;
+  fees: number;
+  profitLoss: number | null;
+}
+
+export interface InvestorStatement {
+  period: StatementPeriod;
+  currency: CurrencyCode;
+  openingBalance: number;
+  deposits: number;
+  withdrawals: number;
+  realizedPnL: number;
+  // The rest of the period's gain: marks on open positions, net of fees
+  unrealizedPnL: number;
+  closingBalance: number;
+  twr: number | null;
+  allocation: StatementAllocation[];
+  trades: StatementTrade[];
+}
+
+export interface StatementBranding {
+  username: string;
+  bio?: string | null;
+  avatar?: PdfJpeg | null;
+  investorName?: string;
+}
+
+const dayKey = (year: number, month: number) => toDateKey(new Date(Date.UTC(year, month, 1)));
+
+/**
+ * Every statement period from the first day of activity to `today`, newest first
+ */
+export function statementPeriods(
+  firstDate: string,
+  frequency: StatementFrequency,
+  today: string = toDateKey(new Date())
+): StatementPeriod[] {
+  const step = frequency === 'monthly' ? 1 : 3;
+  const first = new Date(`${firstDate}T00:00:00Z`);
+  let year = first.getUTCFullYear();
+  let month = frequency === 'monthly' ? first.getUTCMonth() : Math.floor(first.getUTCMonth() / 3) * 3;
+  const periods: StatementPeriod[] = [];
+
+  for (let start = dayKey(year, month); start <= today; start = dayKey(year, month)) {
+    const end = addDays(dayKey(year, month + step), -1);
+    const complete = end < today;
+    const name = frequency === 'monthly'
+      ? format(new Date(Date.UTC(year, month, 15)), 'MMMM yyyy')
+      : `Q${month / 3 + 1} ${year}`;
+
+    periods.push({
+      label: complete ? name : `${name} (to date)`,
+      start,
+      end: complete ? end : today,
+      complete,
+    });
+
+    month += step;
+    if (month >= 12) {
+      year += 1;
+      month -= 12;
+    }
+  }
+
+  return periods.reverse();
+}
+
+const tradeSide = (trade: Trade): string => {
+  const side = trade.category === 'spot' ? trade.details?.buy_sell || 'buy' : trade.details?.position_side;
+  return side ? side.charAt(0).toUpperCase() + side.slice(1) : '';
+};
+
+/**
+ * Statement figures for one period. Trades and cashflows are already restated
+ * in `currency`, and `points` is their valuation series (see `buildValuationSeries`).
+ */
+export function buildInvestorStatement(
+  period: StatementPeriod,
+  points: ValuationPoint[],
+  trades: Trade[],
+  cashflows: Cashflow[],
+  series: Record<string, Map<string, number>>,
+  method: CostBasisMethod,
+  currency: CurrencyCode
+): InvestorStatement {
+  const inPeriod = (date: string) => {
+    const key = toDateKey(date);
+    return key >= period.start && key <= period.end;
+  };
+  const untilEnd = trades.filter(trade => toDateKey(trade.trade_date) <= period.end);
+  const periodTrades = untilEnd
+    .filter(trade => inPeriod(trade.trade_date))
+    .sort((a, b) => new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime());
+
+  const summary = computePeriodReturn(points, period.start, period.end, period.label);
+  const periodCashflows = cashflows.filter(cashflow => inPeriod(cashflow.transaction_date));
+  const deposits = periodCashflows
+    .filter(cashflow => cashflow.type !== 'withdrawal')
+    .reduce((sum, cashflow) => sum + cashflow.amount, 0);
+  const withdrawals = periodCashflows
+    .filter(cashflow => cashflow.type === 'withdrawal')
+    .reduce((sum, cashflow) => sum + cashflow.amount, 0);
+
+  // Spot sells are realized against earlier lots; other trades carry their recorded P&L
+  const lots = matchLots(untilEnd.filter(trade => trade.category === 'spot') as LotTrade[], method);
+  const realizedBySell: Record<string, number> = {};
+  lots.closedLots.forEach(lot => {
+    if (!lot.sellTradeId || !lot.closeDate || !inPeriod(lot.closeDate)) return;
+    realizedBySell[lot.sellTradeId] = (realizedBySell[lot.sellTradeId] || 0) + lot.realizedPnL;
+  });
+  const spotRealized = Object.values(realizedBySell).reduce((sum, pnl) => sum + pnl, 0);
+  const otherRealized = periodTrades
+    .filter(trade => trade.category !== 'spot')
+    .reduce((sum, trade) => sum + (trade.profit_loss || 0) - (trade.fees || 0), 0);
+  const realizedPnL = spotRealized + otherRealized;
+
+  // Holdings at the close of the period, valued like the valuation series
+  const byCategory: Partial<Record<TradeCategory, number>> = {};
+  const equity = buildEquityCurve(untilEnd, series, new Date(`${period.end}T00:00:00Z`));
+  if (equity.length > 0) byCategory.spot = equity[equity.length - 1].marketValue;
+  untilEnd
+    .filter(trade => trade.category !== 'spot' && trade.category !== 'futures')
+    .forEach(trade => {
+      byCategory[trade.category] = (byCategory[trade.category] || 0) + trade.price * trade.quantity + (trade.profit_loss || 0);
+    });
+
+  const closingBalance = summary.endValue;
+  const invested = Object.values(byCategory).reduce((sum, value) => sum + value, 0);
+  const allocation: StatementAllocation[] = [
+    ...(Object.entries(byCategory) as [TradeCategory, number][]).map(([key, value]) => ({
+      key,
+      label: CATEGORY_LABELS[key] || key,
+      value,
+    })),
+    { key: 'cash' as const, label: 'Cash', value: closingBalance - invested },
+  ]
+    .filter(row => Math.abs(row.value) >= 0.005)
+    .map(row => ({ ...row, share: closingBalance !== 0 ? row.value / closingBalance : 0 }))
+    .sort((a, b) => b.value - a.value);
+
+  return {
+    period,
+    currency,
+    openingBalance: summary.startValue,
+    deposits,
+    withdrawals,
+    realizedPnL,
+    unrealizedPnL: summary.gain - realizedPnL,
+    closingBalance,
+    twr: summary.twr,
+    allocation,
+    trades: periodTrades.map(trade => ({
+      id: trade.id,
+      date: trade.trade_date,
+      category: trade.category,
+      asset: trade.asset,
+      side: tradeSide(trade),
+      quantity: trade.quantity,
+      price: trade.price,
+      fees: trade.fees || 0,
+      profitLoss: trade.category === 'spot'
+        ? realizedBySell[trade.id] ?? null
+        : trade.profit_loss ?? null,
+    })),
+  };
+}
+
+/**
+ * Fetch an image and re-encode it as a square JPEG for the PDF header.
+ * Returns null when the image cannot be loaded (e.g. it is not served with CORS headers).
+ */
+export async function loadAvatarJpeg(url: string, size = 160): Promise<PdfJpeg | null> {
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const element = new Image();
+      element.crossOrigin = 'anonymous';
+      element.onload = () => resolve(element);
+      element.onerror = () => reject(new Error(`Failed to load ${url}`));
+      element.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    // Cover-crop to a square on a white background (JPEG has no transparency)
+    const side = Math.min(image.naturalWidth, image.naturalHeight);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, size, size);
+    context.drawImage(
+      image,
+      (image.naturalWidth - side) / 2,
+      (image.naturalHeight - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      size,
+      size
+    );
+
+    const base64 = canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+    const binary = atob(base64);
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+    return { data, width: size, height: size };
+  } catch (error) {
+    console.warn('⚠️ Unable to load avatar for statement:', error);
+    return null;
+  }
+}
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = PAGE_HEIGHT - 28;
+
+const INK: PdfColor = [15, 23, 42];
+const MUTED: PdfColor = [100, 116, 139];
+const RULE: PdfColor = [226, 232, 240];
+const BAND: PdfColor = [241, 245, 249];
+const GAIN: PdfColor = [22, 163, 74];
+const LOSS: PdfColor = [220, 38, 38];
+
+const TRADE_COLUMNS: { title: string; x: number; align: 'left' | 'right' }[] = [
+  { title: 'Date', x: MARGIN, align: 'left' },
+  { title: 'Category', x: MARGIN + 62, align: 'left' },
+  { title: 'Asset', x: MARGIN + 142, align: 'left' },
+  { title: 'Side', x: MARGIN + 200, align: 'left' },
+  { title: 'Quantity', x: MARGIN + 300, align: 'right' },
+  { title: 'Price', x: MARGIN + 370, align: 'right' },
+  { title: 'Fees', x: MARGIN + 425, align: 'right' },
+  { title: 'P&L', x: MARGIN + CONTENT_WIDTH, align: 'right' },
+];
+
+const formatDay = (date: string) => format(new Date(`${toDateKey(date)}T00:00:00Z`), 'MMM dd, yyyy');
+
+/**
+ * Render a statement as an A4 PDF with the trader's name, avatar and bio
+ */
+export function renderStatementPdf(statement: InvestorStatement, branding: StatementBranding): ExportFile {
+  const { currency, period } = statement;
+  const decimals = getCurrencyInfo(currency).decimals;
+
+  // Currency symbols the standard fonts cannot draw fall back to the code
+  const money = (amount: number) => {
+    const formatted = formatCurrency(amount, currency);
+    if (isPdfEncodable(formatted)) return formatted;
+    return `${amount.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })} ${currency}`;
+  };
+  const signedMoney = (amount: number) => `${amount > 0 ? '+' : ''}${money(amount)}`;
+  const percent = (value: number | null) =>
+    value === null ? '—' : `${value > 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+  const pnlColor = (value: number | null) => (value === null || value === 0 ? INK : value > 0 ? GAIN : LOSS);
+  const fit = (text: string, width: number, size: number) => {
+    if (textWidth(text, size) <= width) return text;
+    let clipped = text;
+    while (clipped.length > 1 && textWidth(`${clipped}…`, size) > width) clipped = clipped.slice(0, -1);
+    return `${clipped}…`;
+  };
+
+  const pages: PdfPage[] = [];
+  let elements: PdfElement[] = [];
+  let y = MARGIN;
+
+  const text = (x: number, baseline: number, value: string, size: number, options: Partial<Extract<PdfElement, { type: 'text' }>> = {}) =>
+    elements.push({ type: 'text', x, y: baseline, text: value, size, color: INK, ...options });
+  const rule = (at: number, color: PdfColor = RULE) =>
+    elements.push({ type: 'line', x1: MARGIN, y1: at, x2: MARGIN + CONTENT_WIDTH, y2: at, color });
+  const newPage = () => {
+    pages.push({ elements });
+    elements = [];
+    y = MARGIN;
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height > FOOTER_Y - 16) newPage();
+  };
+  const sectionTitle = (title: string) => {
+    ensureSpace(48);
+    text(MARGIN, y + 12, title, 12, { bold: true });
+    y += 22;
+  };
+
+  // Header: trader branding on the left, period on the right
+  const nameX = branding.avatar ? MARGIN + 60 : MARGIN;
+  if (branding.avatar) {
+    elements.push({ type: 'image', x: MARGIN, y, width: 48, height: 48, image: branding.avatar });
+  }
+  text(nameX, y + 18, branding.username, 18, { bold: true });
+  text(nameX, y + 32, 'Investor Statement', 10, { color: MUTED });
+  text(MARGIN + CONTENT_WIDTH, y + 16, period.label, 12, { bold: true, align: 'right' });
+  text(MARGIN + CONTENT_WIDTH, y + 30, `${formatDay(period.start)} – ${formatDay(period.end)}`, 9, { color: MUTED, align: 'right' });
+  if (branding.investorName) {
+    text(MARGIN + CONTENT_WIDTH, y + 42, `Prepared for ${branding.investorName}`, 9, { color: MUTED, align: 'right' });
+  }
+  y += 48;
+
+  if (branding.bio) {
+    const lines = wrapText(branding.bio, 9, CONTENT_WIDTH * 0.65).slice(0, 4);
+    lines.forEach((line, index) => text(nameX, y + 4 + index * 12, line, 9, { color: MUTED }));
+    y += lines.length * 12;
+  }
+  y += 12;
+  rule(y, INK);
+  y += 20;
+
+  // Summary
+  sectionTitle('Summary');
+  const summaryRows: [string, string, PdfColor?][] = [
+    ['Opening balance', money(statement.openingBalance)],
+    ['Deposits', money(statement.deposits)],
+    ['Withdrawals', money(-statement.withdrawals)],
+    ['Realized P&L', signedMoney(statement.realizedPnL), pnlColor(statement.realizedPnL)],
+    ['Unrealized P&L', signedMoney(statement.unrealizedPnL), pnlColor(statement.unrealizedPnL)],
+  ];
+  summaryRows.forEach(([label, value, color]) => {
+    text(MARGIN, y + 10, label, 10);
+    text(MARGIN + CONTENT_WIDTH, y + 10, value, 10, { align: 'right', color: color ?? INK });
+    y += 16;
+    rule(y);
+    y += 2;
+  });
+  elements.push({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height: 20, color: BAND });
+  text(MARGIN + 6, y + 14, 'Closing balance', 11, { bold: true });
+  text(MARGIN + CONTENT_WIDTH - 6, y + 14, money(statement.closingBalance), 11, { bold: true, align: 'right' });
+  y += 28;
+  text(MARGIN, y + 8, 'Time-weighted return', 9, { color: MUTED });
+  text(MARGIN + CONTENT_WIDTH, y + 8, percent(statement.twr), 9, { align: 'right', color: pnlColor(statement.twr) });
+  y += 28;
+
+  // Allocation
+  sectionTitle(`Allocation at ${formatDay(period.end)}`);
+  if (statement.allocation.length === 0) {
+    text(MARGIN, y + 10, 'No holdings.', 10, { color: MUTED });
+    y += 18;
+  }
+  statement.allocation.forEach(row => {
+    ensureSpace(20);
+    const barWidth = Math.max(0, Math.min(row.share, 1)) * 120;
+    text(MARGIN, y + 10, row.label, 10);
+    elements.push({ type: 'rect', x: MARGIN + 150, y: y + 3, width: 120, height: 8, color: BAND });
+    if (barWidth > 0) elements.push({ type: 'rect', x: MARGIN + 150, y: y + 3, width: barWidth, height: 8, color: MUTED });
+    text(MARGIN + 340, y + 10, `${(row.share * 100).toFixed(1)}%`, 10, { align: 'right' });
+    text(MARGIN + CONTENT_WIDTH, y + 10, money(row.value), 10, { align: 'right' });
+    y += 16;
+    rule(y);
+    y += 2;
+  });
+  y += 20;
+
+  // Trades
+  sectionTitle(`Trades (${statement.trades.length})`);
+  const tradeHeader = () => {
+    elements.push({ type: 'rect', x: MARGIN, y, width: CONTENT_WIDTH, height: 16, color: BAND });
+    TRADE_COLUMNS.forEach(column => {
+      const x = column.align === 'right' ? column.x - 4 : column.x + 4;
+      text(x, y + 11, column.title, 8, { bold: true, color: MUTED, align: column.align });
+    });
+    y += 20;
+  };
+
+  if (statement.trades.length === 0) {
+    text(MARGIN, y + 10, 'No trades in this period.', 10, { color: MUTED });
+  } else {
+    tradeHeader();
+    statement.trades.forEach(trade => {
+      if (y + 14 > FOOTER_Y - 16) {
+        newPage();
+        tradeHeader();
+      }
+      const cells = [
+        toDateKey(trade.date),
+        fit(CATEGORY_LABELS[trade.category] || trade.category, 74, 8),
+        fit(trade.asset, 52, 8),
+        trade.side,
+        trade.quantity.toLocaleString('en-US', { maximumFractionDigits: 8 }),
+        trade.price.toLocaleString('en-US', { maximumFractionDigits: 8 }),
+        trade.fees ? money(trade.fees) : '',
+        trade.profitLoss === null ? '' : signedMoney(trade.profitLoss),
+      ];
+      cells.forEach((cell, index) => {
+        const column = TRADE_COLUMNS[index];
+        const x = column.align === 'right' ? column.x - 4 : column.x + 4;
+        const color = index === cells.length - 1 ? pnlColor(trade.profitLoss) : INK;
+        text(x, y + 9, cell, 8, { align: column.align, color });
+      });
+      y += 14;
+    });
+  }
+  pages.push({ elements });
+
+  // Footer on every page once the page count is known
+  const generated = format(new Date(), 'MMM dd, yyyy HH:mm');
+  pages.forEach((page, index) => {
+    page.elements.push(
+      { type: 'line', x1: MARGIN, y1: FOOTER_Y - 10, x2: MARGIN + CONTENT_WIDTH, y2: FOOTER_Y - 10, color: RULE, width: 0.5 },
+      { type: 'text', x: MARGIN, y: FOOTER_Y, text: `${branding.username} · ${period.label} · Figures in ${currency}`, size: 8, color: MUTED },
+      { type: 'text', x: MARGIN + CONTENT_WIDTH, y: FOOTER_Y, text: `Generated ${generated} · Page ${index + 1} of ${pages.length}`, size: 8, color: MUTED, align: 'right' }
+    );
+  });
+
+  const slug = branding.username.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'fund';
+  return {
+    filename: `statement-${slug}-${period.start}.pdf`,
+    mimeType: 'application/pdf',
+    content: buildPdf(pages, { title: `${branding.username} – ${period.label} statement`, author: branding.username }),
+  };
+}
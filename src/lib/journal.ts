@@ -0,0 +1,103 @@
+/**
+ * Trade journal entries
+ * Thesis, emotions, rule adherence and post-trade review recorded per trade
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { TradeEmotion, TradeJournalEntry } from '@/types/database';
+
+export const TRADE_EMOTIONS: Array<{ value: TradeEmotion; label: string }> = [
+  { value: 'calm', label: 'Calm' },
+  { value: 'confident', label: 'Confident' },
+  { value: 'excited', label: 'Excited' },
+  { value: 'anxious', label: 'Anxious' },
+  { value: 'fearful', label: 'Fearful' },
+  { value: 'greedy', label: 'Greedy' },
+  { value: 'frustrated', label: 'Frustrated' },
+  { value: 'bored', label: 'Bored' },
+];
+
+// Checklist shown on every entry; stored as rule key -> followed
+export const TRADING_RULES: Array<{ key: string; label: string }> = [
+  { key: 'setup_criteria', label: 'Entry met my setup criteria' },
+  { key: 'position_size', label: 'Position size within risk limits' },
+  { key: 'stop_loss', label: 'Stop loss set before entry' },
+  { key: 'exit_plan', label: 'Followed my exit plan' },
+  { key: 'no_revenge', label: 'Not chasing or revenge trading' },
+];
+
+export const RATING_SCALE = [1, 2, 3, 4, 5];
+
+export type JournalEntryInput = Pick<
+  TradeJournalEntry,
+  'thesis' | 'emotion' | 'emotion_intensity' | 'confidence' | 'rules' | 'screenshots' | 'review' | 'lessons'
+>;
+
+export const EMPTY_JOURNAL_ENTRY: JournalEntryInput = {
+  thesis: '',
+  emotion: null,
+  emotion_intensity: null,
+  confidence: null,
+  rules: {},
+  screenshots: [],
+  review: '',
+  lessons: '',
+};
+
+/**
+ * Share of checklist rules followed, or null for entries saved without a checklist
+ */
+export function ruleAdherence(rules: Record<string, boolean>): number | null {
+  if (!TRADING_RULES.some(rule => rule.key in rules)) return null;
+  return TRADING_RULES.filter(rule => rules[rule.key]).length / TRADING_RULES.length;
+}
+
+function toEntry(row: Record<string, unknown>): TradeJournalEntry {
+  return {
+    ...(row as TradeJournalEntry),
+    rules: (row.rules as Record<string, boolean>) || {},
+    screenshots: (row.screenshots as string[]) || [],
+  };
+}
+
+export async function fetchJournalEntry(tradeId: string): Promise<TradeJournalEntry | null> {
+  const { data, error } = await supabase
+    .from('trade_journal_entries')
+    .select('*')
+    .eq('trade_id', tradeId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toEntry(data) : null;
+}
+
+/**
+ * Create or replace the journal entry for a trade
+ */
+export async function saveJournalEntry(
+  userId: string,
+  tradeId: string,
+  input: JournalEntryInput
+): Promise<TradeJournalEntry> {
+  const { data, error } = await supabase
+    .from('trade_journal_entries')
+    .upsert(
+      {
+        user_id: userId,
+        trade_id: tradeId,
+        thesis: input.thesis?.trim() || null,
+        emotion: input.emotion || null,
+        emotion_intensity: input.emotion ? input.emotion_intensity || null : null,
+        confidence: input.confidence || null,
+        // Every rule is recorded, so unticked means not followed
+        rules: Object.fromEntries(TRADING_RULES.map(rule => [rule.key, !!input.rules[rule.key]])),
+        screenshots: input.screenshots,
+        review: input.review?.trim() || null,
+        lessons: input.lessons?.trim() || null,
+      },
+      { onConflict: 'trade_id' }
+    )
+    .select('*')
+    .single();
+  if (error) throw error;
+  return toEntry(data);
+}
@@ -0,0 +1,349 @@
+/**
+ * Journal export
+ * Fetches trades, cashflows and audit log entries for a trader and writes them
+ * to CSV, JSON or XLSX with `details` JSON flattened into columns. Amounts keep
+ * their recorded currency and are also restated in the display currency.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { fetchAuditLog } from '@/lib/auditLog';
+import { sortCashflows, sortTrades } from '@/lib/sorting';
+import { buildXlsx, XlsxCell } from '@/lib/xlsxWriter';
+import { format } from 'date-fns';
+import { CurrencyCode } from '@/lib/currencies';
+import { backfillFxRates, convertAmount, currenciesNeedingRates, FxRateTable, loadFxRates } from '@/lib/fxRates';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export type ExportDataset = 'trades' | 'cashflows' | 'audit_log';
+
+export const EXPORT_DATASETS: { value: ExportDataset; label: string }[] = [
+  { value: 'trades', label: 'Trades' },
+  { value: 'cashflows', label: 'Cash Flows' },
+  { value: 'audit_log', label: 'Audit Log' },
+];
+
+export interface ExportFilters {
+  category?: string;
+  cashflowType?: string;
+  from?: Date;
+  to?: Date;
+  tradeSortBy?: string;
+  cashflowSortBy?: string;
+}
+
+export interface JournalExportData {
+  ownerId: string;
+  displayCurrency: CurrencyCode;
+  // Rates for restating amounts in the display currency
+  rates: FxRateTable;
+  generatedAt: string;
+  filters: ExportFilters;
+  trades: Tables<'trades'>[];
+  cashflows: Tables<'cashflows'>[];
+  auditLog: Tables<'audit_log'>[];
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: BlobPart;
+}
+
+type FlatRow = Record<string, XlsxCell>;
+
+const TRADE_COLUMNS = [
+  'id', 'trade_date', 'category', 'asset', 'price', 'quantity', 'fees',
+  'profit_loss', 'currency', 'notes', 'created_at', 'updated_at',
+];
+
+const CASHFLOW_COLUMNS = [
+  'id', 'transaction_date', 'type', 'amount', 'currency', 'source',
+  'destination', 'notes', 'created_at', 'updated_at',
+];
+
+// Missing when no rate covers the record's date
+const TRADE_DISPLAY_COLUMNS = ['display_currency', 'display_price', 'display_fees', 'display_profit_loss'];
+const CASHFLOW_DISPLAY_COLUMNS = ['display_currency', 'display_amount'];
+
+const AUDIT_COLUMNS = ['id', 'created_at', 'table_name', 'record_id', 'action', 'trade_id', 'user_id', 'actor_id', 'changes', 'seq', 'prev_hash', 'hash', 'is_amendment'];
+
+/**
+ * Flatten nested JSON into dotted keys ({ a: { b: 1 } } -> { 'a.b': 1 })
+ */
+export function flattenObject(value: unknown, prefix: string, target: FlatRow = {}): FlatRow {
+  if (value === null || value === undefined) return target;
+
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, nested]) => {
+      flattenObject(nested, prefix ? `${prefix}.${key}` : key, target);
+    });
+    return target;
+  }
+
+  target[prefix] = Array.isArray(value)
+    ? JSON.stringify(value)
+    : (value as XlsxCell);
+  return target;
+}
+
+function inDisplayCurrency(data: JournalExportData, amount: number | null, currency: string, date: string): number | null {
+  if (amount === null || amount === undefined) return null;
+  return convertAmount(Number(amount), currency as CurrencyCode, data.displayCurrency, date, data.rates);
+}
+
+function tradeDisplayAmounts(data: JournalExportData, trade: Tables<'trades'>): FlatRow {
+  const convert = (amount: number | null) => inDisplayCurrency(data, amount, trade.currency, trade.trade_date);
+  return {
+    display_currency: data.displayCurrency,
+    display_price: convert(trade.price),
+    display_fees: convert(trade.fees),
+    display_profit_loss: convert(trade.profit_loss),
+  };
+}
+
+function cashflowDisplayAmounts(data: JournalExportData, cashflow: Tables<'cashflows'>): FlatRow {
+  return {
+    display_currency: data.displayCurrency,
+    display_amount: inDisplayCurrency(data, cashflow.amount, cashflow.currency, cashflow.transaction_date),
+  };
+}
+
+function toTradeRows(data: JournalExportData): { columns: string[]; rows: FlatRow[] } {
+  const detailColumns = new Set<string>();
+
+  const rows = data.trades.map(trade => {
+    const row: FlatRow = {};
+    TRADE_COLUMNS.forEach(column => {
+      row[column] = trade[column as keyof Tables<'trades'>] as XlsxCell;
+    });
+
+    const details = flattenObject(trade.details, 'details');
+    Object.keys(details).forEach(key => detailColumns.add(key));
+    return { ...row, ...tradeDisplayAmounts(data, trade), ...details };
+  });
+
+  return { columns: [...TRADE_COLUMNS, ...TRADE_DISPLAY_COLUMNS, ...Array.from(detailColumns).sort()], rows };
+}
+
+function toCashflowRows(data: JournalExportData): { columns: string[]; rows: FlatRow[] } {
+  const rows = data.cashflows.map(cashflow => ({
+    ...CASHFLOW_COLUMNS.reduce((row, column) => {
+      row[column] = cashflow[column as keyof Tables<'cashflows'>] as XlsxCell;
+      return row;
+    }, {} as FlatRow),
+    ...cashflowDisplayAmounts(data, cashflow),
+  }));
+  return { columns: [...CASHFLOW_COLUMNS, ...CASHFLOW_DISPLAY_COLUMNS], rows };
+}
+
+function toAuditRows(entries: Tables<'audit_log'>[]): { columns: string[]; rows: FlatRow[] } {
+  const rows = entries.map(entry => ({
+    id: entry.id,
+    created_at: entry.created_at,
+    table_name: entry.table_name,
+    record_id: entry.record_id,
+    action: entry.action,
+    trade_id: entry.trade_id,
+    user_id: entry.user_id,
+    actor_id: entry.actor_id,
+    changes: entry.changes ? JSON.stringify(entry.changes) : null,
+    seq: entry.seq,
+    prev_hash: entry.prev_hash,
+    hash: entry.hash,
+    is_amendment: entry.is_amendment,
+  }));
+  return { columns: AUDIT_COLUMNS, rows };
+}
+
+function escapeCsvValue(value: XlsxCell): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+
+  // Neutralise spreadsheet formulas in text cells
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(columns: string[], rows: FlatRow[]): string {
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(row[column])).join(',')),
+  ];
+  return lines.join('\r\n');
+}
+
+function datasetTable(data: JournalExportData, dataset: ExportDataset) {
+  switch (dataset) {
+    case 'trades':
+      return toTradeRows(data);
+    case 'cashflows':
+      return toCashflowRows(data);
+    case 'audit_log':
+      return toAuditRows(data.auditLog);
+  }
+}
+
+/**
+ * Rates needed to restate the exported trades and cashflows in the display currency
+ */
+async function loadDisplayRates(data: JournalExportData): Promise<FxRateTable> {
+  const records = [
+    ...data.trades.map(trade => ({ currency: trade.currency as CurrencyCode, date: trade.trade_date })),
+    ...data.cashflows.map(cashflow => ({ currency: cashflow.currency as CurrencyCode, date: cashflow.transaction_date })),
+  ].filter(record => record.currency && record.currency !== data.displayCurrency);
+  if (records.length === 0) return {};
+
+  const codes = currenciesNeedingRates([...records.map(record => record.currency), data.displayCurrency]);
+  if (codes.length === 0) return {};
+
+  const earliest = records.reduce((min, record) => (record.date < min ? record.date : min), records[0].date);
+  try {
+    await backfillFxRates(codes, new Date(earliest));
+  } catch (error) {
+    // Stored rates may still cover the records
+    console.error('❌ Error backfilling FX rates:', error);
+  }
+  return loadFxRates(codes);
+}
+
+/**
+ * Fetch the rows to export for a trader, applying the page filters and sort order.
+ * RLS limits investors to the data of a trader they have an approved binding with.
+ */
+export async function fetchJournalExportData(
+  ownerId: string,
+  datasets: ExportDataset[],
+  filters: ExportFilters,
+  displayCurrency: CurrencyCode
+): Promise<JournalExportData> {
+  const fromIso = filters.from?.toISOString();
+  const toIso = filters.to?.toISOString();
+
+  const data: JournalExportData = {
+    ownerId,
+    displayCurrency,
+    rates: {},
+    generatedAt: new Date().toISOString(),
+    filters,
+    trades: [],
+    cashflows: [],
+    auditLog: [],
+  };
+
+  if (datasets.includes('trades')) {
+    let query = supabase.from('trades').select('*').eq('user_id', ownerId);
+    if (filters.category && filters.category !== 'all') query = query.eq('category', filters.category);
+    if (fromIso) query = query.gte('trade_date', fromIso);
+    if (toIso) query = query.lte('trade_date', toIso);
+
+    const { data: trades, error } = await query;
+    if (error) throw error;
+    data.trades = sortTrades(trades || [], filters.tradeSortBy);
+  }
+
+  if (datasets.includes('cashflows')) {
+    let query = supabase.from('cashflows').select('*').eq('user_id', ownerId);
+    if (filters.cashflowType && filters.cashflowType !== 'all') query = query.eq('type', filters.cashflowType);
+    if (fromIso) query = query.gte('transaction_date', fromIso);
+    if (toIso) query = query.lte('transaction_date', toIso);
+
+    const { data: cashflows, error } = await query;
+    if (error) throw error;
+    data.cashflows = sortCashflows(cashflows || [], filters.cashflowSortBy);
+  }
+
+  data.rates = await loadDisplayRates(data);
+
+  if (datasets.includes('audit_log')) {
+    data.auditLog = await fetchAuditLog({ userId: ownerId, from: fromIso, to: toIso }) as Tables<'audit_log'>[];
+  }
+
+  console.log(`📊 Export data: ${data.trades.length} trades, ${data.cashflows.length} cashflows, ${data.auditLog.length} audit entries`);
+  return data;
+}
+
+/**
+ * Render export data into downloadable files.
+ * CSV produces one file per dataset; JSON and XLSX bundle every dataset into one file.
+ */
+export function buildJournalExport(
+  data: JournalExportData,
+  datasets: ExportDataset[],
+  exportFormat: ExportFormat
+): ExportFile[] {
+  const stamp = format(new Date(data.generatedAt), 'yyyyMMdd-HHmmss');
+  const baseName = `cryptoflow-journal-${stamp}`;
+
+  if (exportFormat === 'csv') {
+    return datasets.map(dataset => {
+      const { columns, rows } = datasetTable(data, dataset);
+      return {
+        filename: `${baseName}-${dataset}.csv`,
+        mimeType: 'text/csv;charset=utf-8',
+        // BOM so spreadsheet apps detect UTF-8
+        content: `\uFEFF${toCsv(columns, rows)}`,
+      };
+    });
+  }
+
+  if (exportFormat === 'json') {
+    const payload: Record<string, unknown> = {
+      generated_at: data.generatedAt,
+      owner_id: data.ownerId,
+      display_currency: data.displayCurrency,
+      filters: {
+        category: data.filters.category || 'all',
+        cashflow_type: data.filters.cashflowType || 'all',
+        from: data.filters.from?.toISOString() || null,
+        to: data.filters.to?.toISOString() || null,
+      },
+    };
+    if (datasets.includes('trades')) {
+      payload.trades = data.trades.map(trade => ({ ...trade, ...tradeDisplayAmounts(data, trade) }));
+    }
+    if (datasets.includes('cashflows')) {
+      payload.cashflows = data.cashflows.map(cashflow => ({ ...cashflow, ...cashflowDisplayAmounts(data, cashflow) }));
+    }
+    if (datasets.includes('audit_log')) payload.audit_log = data.auditLog;
+
+    return [{
+      filename: `${baseName}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify(payload, null, 2),
+    }];
+  }
+
+  const sheets = datasets.map(dataset => {
+    const { columns, rows } = datasetTable(data, dataset);
+    return {
+      name: EXPORT_DATASETS.find(d => d.value === dataset)?.label || dataset,
+      rows: [columns, ...rows.map(row => columns.map(column => row[column]))] as XlsxCell[][],
+    };
+  });
+
+  return [{
+    filename: `${baseName}.xlsx`,
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    content: buildXlsx(sheets),
+  }];
+}
+
+/**
+ * Trigger a browser download for an export file
+ */
+export function downloadExportFile(file: ExportFile) {
+  const blob = new Blob([file.content], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,118 @@
+/**
+ * Trade ledger verification
+ * Checks a trader's hash-chained trade history in `audit_log` so investors can
+ * trust that past results were not rewritten
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { AuditLog } from '@/types/database';
+import { fetchAuditLog } from '@/lib/auditLog';
+
+// Mirrors `ledger_amendment_days()`: edits to trades recorded earlier are amendments
+export const AMENDMENT_WINDOW_DAYS = 7;
+
+export type LedgerStatus = 'verified' | 'broken' | 'empty';
+
+export interface LedgerVerification {
+  status: LedgerStatus;
+  entries: number;
+  amendments: number;
+  // First entry that no longer matches its hash or its predecessor
+  firstInvalidSeq: number | null;
+  headSeq: number | null;
+  headHash: string | null;
+  // The chain no longer contains a head this browser verified before
+  rewritten: boolean;
+  checkedAt: string;
+}
+
+interface LedgerCheckpoint {
+  seq: number;
+  hash: string;
+}
+
+const CHECKPOINT_STORAGE_KEY = 'cryptoflow:ledger-checkpoints';
+
+function readCheckpoints(): Record<string, LedgerCheckpoint> {
+  try {
+    const stored = localStorage.getItem(CHECKPOINT_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as Record<string, LedgerCheckpoint> : {};
+  } catch (error) {
+    console.warn('⚠️ Unable to read ledger checkpoints:', error);
+    return {};
+  }
+}
+
+function saveCheckpoint(traderId: string, checkpoint: LedgerCheckpoint) {
+  try {
+    localStorage.setItem(
+      CHECKPOINT_STORAGE_KEY,
+      JSON.stringify({ ...readCheckpoints(), [traderId]: checkpoint })
+    );
+  } catch (error) {
+    console.warn('⚠️ Unable to save ledger checkpoint:', error);
+  }
+}
+
+export const shortHash = (hash: string | null | undefined) => (hash ? hash.slice(0, 12) : '—');
+
+/**
+ * A checkpoint from an earlier verification must still be in the chain
+ * unchanged; otherwise the history was rebuilt from that point on.
+ */
+async function checkpointHolds(traderId: string, checkpoint: LedgerCheckpoint): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('hash')
+    .eq('user_id', traderId)
+    .eq('table_name', 'trades')
+    .eq('seq', checkpoint.seq)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.hash === checkpoint.hash;
+}
+
+/**
+ * Recomputes the trader's chain in the database and compares it with the last
+ * head this browser verified. Only the trader and approved investors may call it.
+ */
+export async function verifyLedger(traderId: string): Promise<LedgerVerification> {
+  const { data, error } = await supabase.rpc('verify_audit_chain', { p_user_id: traderId });
+  if (error) throw error;
+
+  const result = data?.[0];
+  const checkpoint = readCheckpoints()[traderId];
+  const rewritten = !!checkpoint && !(await checkpointHolds(traderId, checkpoint));
+  const entries = Number(result?.entries || 0);
+  const valid = !!result?.valid && !rewritten;
+
+  if (valid && result?.head_seq && result.head_hash) {
+    saveCheckpoint(traderId, { seq: result.head_seq, hash: result.head_hash });
+  }
+
+  const verification: LedgerVerification = {
+    status: !valid ? 'broken' : entries === 0 ? 'empty' : 'verified',
+    entries,
+    amendments: Number(result?.amendments || 0),
+    firstInvalidSeq: result?.first_invalid_seq ?? null,
+    headSeq: result?.head_seq ?? null,
+    headHash: result?.head_hash ?? null,
+    rewritten,
+    checkedAt: new Date().toISOString(),
+  };
+
+  if (verification.status === 'broken') {
+    console.warn('⚠️ Trade ledger failed verification:', verification);
+  } else {
+    console.log(`✅ Trade ledger verified: ${entries} entries, ${verification.amendments} amendments`);
+  }
+
+  return verification;
+}
+
+/**
+ * Amendments to the trader's history, newest first
+ */
+export function fetchAmendments(traderId: string, limit = 20): Promise<AuditLog[]> {
+  return fetchAuditLog({ userId: traderId, tables: ['trades'], amendmentsOnly: true, limit });
+}
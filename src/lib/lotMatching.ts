@@ -0,0 +1,267 @@
+/**
+ * Lot matching engine for spot realized P&L
+ * Pairs every spot sell with earlier buy lots using a configurable cost-basis method
+ */
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'average';
+
+export const COST_BASIS_METHODS: Array<{ value: CostBasisMethod; label: string; description: string }> = [
+  { value: 'fifo', label: 'FIFO', description: 'First in, first out' },
+  { value: 'lifo', label: 'LIFO', description: 'Last in, first out' },
+  { value: 'hifo', label: 'HIFO', description: 'Highest cost lots sold first' },
+  { value: 'average', label: 'Average Cost', description: 'Pooled average cost per unit' },
+];
+
+// Quantities below this are treated as fully consumed (floating point dust)
+const QUANTITY_EPSILON = 1e-12;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Minimal trade shape needed for lot matching
+ */
+export interface LotTrade {
+  id?: string;
+  asset: string;
+  price: number;
+  quantity: number;
+  fees?: number;
+  trade_date?: string;
+  created_at?: string;
+  details?: { buy_sell?: 'buy' | 'sell' };
+}
+
+export interface OpenLot {
+  tradeId?: string;
+  asset: string;
+  openDate?: string;
+  originalQuantity: number;
+  quantity: number;
+  unitCost: number;
+  costBasis: number;
+}
+
+export interface ClosedLot {
+  asset: string;
+  buyTradeId?: string;
+  sellTradeId?: string;
+  openDate?: string;
+  closeDate?: string;
+  quantity: number;
+  unitCost: number;
+  unitProceeds: number;
+  costBasis: number;
+  proceeds: number;
+  realizedPnL: number;
+  holdingPeriodDays: number | null;
+}
+
+export interface AssetLotSummary {
+  asset: string;
+  openLots: OpenLot[];
+  closedLots: ClosedLot[];
+  openQuantity: number;
+  openCostBasis: number;
+  averageCost: number;
+  realizedPnL: number;
+  unmatchedSellQuantity: number;
+}
+
+export interface LotMatchingResult {
+  method: CostBasisMethod;
+  assets: Record<string, AssetLotSummary>;
+  closedLots: ClosedLot[];
+  totalRealizedPnL: number;
+}
+
+/**
+ * Check whether a spot trade is a buy (trades without a side are treated as buys)
+ */
+export function isBuyTrade(trade: LotTrade): boolean {
+  return !trade.details?.buy_sell || trade.details.buy_sell === 'buy';
+}
+
+function tradeTimestamp(trade: LotTrade): number {
+  const date = trade.trade_date || trade.created_at;
+  return date ? new Date(date).getTime() : 0;
+}
+
+/**
+ * Chronological order; fills sharing a timestamp keep the order they were
+ * recorded in, then id, so the result never depends on input order
+ */
+function compareTrades(a: LotTrade, b: LotTrade): number {
+  return tradeTimestamp(a) - tradeTimestamp(b)
+    || (a.created_at || '').localeCompare(b.created_at || '')
+    || (a.id || '').localeCompare(b.id || '');
+}
+
+function holdingPeriod(openDate?: string, closeDate?: string): number | null {
+  if (!openDate || !closeDate) return null;
+  return (new Date(closeDate).getTime() - new Date(openDate).getTime()) / MS_PER_DAY;
+}
+
+/**
+ * Pick the index of the next open lot to consume for the given method
+ */
+function selectLotIndex(lots: OpenLot[], method: CostBasisMethod): number {
+  switch (method) {
+    case 'lifo':
+      return lots.length - 1;
+    case 'hifo': {
+      let best = 0;
+      for (let i = 1; i < lots.length; i++) {
+        if (lots[i].unitCost > lots[best].unitCost) best = i;
+      }
+      return best;
+    }
+    case 'fifo':
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Re-price every open lot at the pooled average cost (average cost method)
+ */
+function applyAverageCost(lots: OpenLot[]): void {
+  const totalQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const totalCost = lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+  if (totalQuantity <= QUANTITY_EPSILON) return;
+
+  const averageCost = totalCost / totalQuantity;
+  for (const lot of lots) {
+    lot.unitCost = averageCost;
+    lot.costBasis = averageCost * lot.quantity;
+  }
+}
+
+function emptySummary(asset: string): AssetLotSummary {
+  return {
+    asset,
+    openLots: [],
+    closedLots: [],
+    openQuantity: 0,
+    openCostBasis: 0,
+    averageCost: 0,
+    realizedPnL: 0,
+    unmatchedSellQuantity: 0,
+  };
+}
+
+/**
+ * Match spot sells against earlier buy lots and report realized and open positions.
+ *
+ * Buy fees are capitalised into the lot cost; sell fees reduce the proceeds of the
+ * lots they close. Sells that exceed the open quantity are reported as
+ * `unmatchedSellQuantity` and produce no realized P&L.
+ */
+export function matchLots(trades: LotTrade[], method: CostBasisMethod = 'fifo'): LotMatchingResult {
+  const sortedTrades = [...trades].sort(compareTrades);
+
+  const openLotsByAsset: Record<string, OpenLot[]> = {};
+  const summaries: Record<string, AssetLotSummary> = {};
+
+  for (const trade of sortedTrades) {
+    const asset = trade.asset.toUpperCase();
+    const quantity = Math.abs(trade.quantity);
+    if (quantity <= QUANTITY_EPSILON) continue;
+
+    if (!summaries[asset]) summaries[asset] = emptySummary(asset);
+    if (!openLotsByAsset[asset]) openLotsByAsset[asset] = [];
+
+    const lots = openLotsByAsset[asset];
+    const summary = summaries[asset];
+    const fees = trade.fees || 0;
+
+    if (isBuyTrade(trade)) {
+      const costBasis = trade.price * quantity + fees;
+      lots.push({
+        tradeId: trade.id,
+        asset,
+        openDate: trade.trade_date,
+        originalQuantity: quantity,
+        quantity,
+        unitCost: costBasis / quantity,
+        costBasis,
+      });
+      if (method === 'average') applyAverageCost(lots);
+      continue;
+    }
+
+    const unitProceeds = (trade.price * quantity - fees) / quantity;
+    let remaining = quantity;
+
+    while (remaining > QUANTITY_EPSILON && lots.length > 0) {
+      const index = selectLotIndex(lots, method);
+      const lot = lots[index];
+      const matched = Math.min(remaining, lot.quantity);
+      const costBasis = lot.unitCost * matched;
+      const proceeds = unitProceeds * matched;
+
+      summary.closedLots.push({
+        asset,
+        buyTradeId: lot.tradeId,
+        sellTradeId: trade.id,
+        openDate: lot.openDate,
+        closeDate: trade.trade_date,
+        quantity: matched,
+        unitCost: lot.unitCost,
+        unitProceeds,
+        costBasis,
+        proceeds,
+        realizedPnL: proceeds - costBasis,
+        holdingPeriodDays: holdingPeriod(lot.openDate, trade.trade_date),
+      });
+
+      lot.quantity -= matched;
+      lot.costBasis = lot.unitCost * lot.quantity;
+      remaining -= matched;
+
+      if (lot.quantity <= QUANTITY_EPSILON) {
+        lots.splice(index, 1);
+      }
+    }
+
+    if (remaining > QUANTITY_EPSILON) {
+      summary.unmatchedSellQuantity += remaining;
+      console.warn(`⚠️ ${asset} sell of ${quantity} exceeds open lots by ${remaining}`);
+    }
+  }
+
+  const closedLots: ClosedLot[] = [];
+
+  for (const [asset, summary] of Object.entries(summaries)) {
+    const lots = openLotsByAsset[asset] || [];
+    summary.openLots = lots;
+    summary.openQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    summary.openCostBasis = lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+    summary.averageCost = summary.openQuantity > QUANTITY_EPSILON
+      ? summary.openCostBasis / summary.openQuantity
+      : 0;
+    summary.realizedPnL = summary.closedLots.reduce((sum, lot) => sum + lot.realizedPnL, 0);
+    closedLots.push(...summary.closedLots);
+  }
+
+  closedLots.sort((a, b) =>
+    new Date(a.closeDate || 0).getTime() - new Date(b.closeDate || 0).getTime()
+  );
+
+  return {
+    method,
+    assets: summaries,
+    closedLots,
+    totalRealizedPnL: closedLots.reduce((sum, lot) => sum + lot.realizedPnL, 0),
+  };
+}
+
+/**
+ * Realized P&L per sell trade (a sell can close several lots)
+ */
+export function realizedPnLBySellTrade(result: LotMatchingResult): Record<string, number> {
+  return result.closedLots.reduce((acc, lot) => {
+    if (!lot.sellTradeId) return acc;
+    acc[lot.sellTradeId] = (acc[lot.sellTradeId] || 0) + lot.realizedPnL;
+    return acc;
+  }, {} as Record<string, number>);
+}
@@ -0,0 +1,187 @@
+/**
+ * Offline write queue
+ * Trade and cashflow writes that could not reach the server, kept in IndexedDB
+ * until they are replayed, and overlaid on mirrored rows in the meantime
+ */
+
+import {
+  deleteQueueRecord,
+  isOfflineStoreAvailable,
+  OfflineTable,
+  putQueueRecord,
+  readQueueRecords,
+} from '@/lib/offlineStore';
+
+export type QueuedOperation = 'insert' | 'update' | 'delete';
+
+export interface QueuedWrite {
+  id: string;
+  table: OfflineTable;
+  op: QueuedOperation;
+  recordId: string;
+  ownerId: string;
+  // Columns to write, without `id` and `trade_tags`
+  payload: Record<string, unknown>;
+  // Trades only: tags to set once the row is written
+  tagIds?: string[];
+  // `updated_at` of the row the edit started from; a newer server row is a conflict
+  baseUpdatedAt: string | null;
+  createdAt: string;
+  status: 'pending' | 'conflict';
+  // Server row found on replay; null when it was deleted there
+  remote?: Record<string, unknown> | null;
+  attempts: number;
+  lastError?: string;
+}
+
+export type NewQueuedWrite = Pick<QueuedWrite, 'table' | 'op' | 'recordId' | 'ownerId' | 'payload' | 'tagIds' | 'baseUpdatedAt'>;
+
+export interface OfflineQueueState {
+  // Writes waiting to be replayed, including failed ones
+  pending: number;
+  // Writes the server rejected for a reason other than the connection
+  failed: QueuedWrite[];
+  conflicts: QueuedWrite[];
+  syncing: boolean;
+  // Browser's view of the connection
+  online: boolean;
+}
+
+let state: OfflineQueueState = {
+  pending: 0,
+  failed: [],
+  conflicts: [],
+  syncing: false,
+  online: typeof navigator === 'undefined' || navigator.onLine,
+};
+const listeners = new Set<() => void>();
+// Queues are per device; only the signed-in user's writes are counted and replayed
+let queueOwnerId: string | null = null;
+
+export function setQueueState(next: Partial<OfflineQueueState>) {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener());
+}
+
+export const getQueueState = () => state;
+
+export function subscribeQueueState(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function newRecordId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Whether a failed request never reached the server, so retrying later may work
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = String((error as { message?: unknown } | null)?.message || '');
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+const byCreatedAt = (a: QueuedWrite, b: QueuedWrite) => a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Queued writes of the signed-in user, oldest first
+ */
+export async function listQueuedWrites(ownerId = queueOwnerId): Promise<QueuedWrite[]> {
+  if (!ownerId || !isOfflineStoreAvailable()) return [];
+  const records = await readQueueRecords<QueuedWrite>();
+  return records.filter(write => write.ownerId === ownerId).sort(byCreatedAt);
+}
+
+/**
+ * Re-read the queue into the shared state; pass the user whose queue to track
+ */
+export async function refreshQueueState(ownerId: string | null = queueOwnerId): Promise<void> {
+  queueOwnerId = ownerId;
+  try {
+    const writes = await listQueuedWrites(ownerId);
+    setQueueState({
+      pending: writes.filter(write => write.status === 'pending').length,
+      failed: writes.filter(write => write.status === 'pending' && write.lastError),
+      conflicts: writes.filter(write => write.status === 'conflict'),
+    });
+  } catch (error) {
+    console.warn('⚠️ Could not read the offline queue:', error);
+  }
+}
+
+/**
+ * Queue a write, folding it into an earlier pending write of the same row:
+ * edits of an unsynced insert stay an insert, deleting one cancels both
+ */
+export async function queueWrite(write: NewQueuedWrite): Promise<void> {
+  const queued = await listQueuedWrites(write.ownerId);
+  const earlier = queued.find(item =>
+    item.status === 'pending' && item.table === write.table && item.recordId === write.recordId
+  );
+
+  if (earlier && earlier.op === 'insert' && write.op === 'delete') {
+    await deleteQueueRecord(earlier.id);
+  } else if (earlier && earlier.op !== 'delete') {
+    await putQueueRecord<QueuedWrite>({
+      ...earlier,
+      op: write.op === 'delete' ? 'delete' : earlier.op,
+      payload: { ...earlier.payload, ...write.payload },
+      tagIds: write.tagIds ?? earlier.tagIds,
+    });
+  } else {
+    await putQueueRecord<QueuedWrite>({
+      ...write,
+      id: newRecordId(),
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+    });
+  }
+
+  console.log(`📊 Queued offline ${write.op} of ${write.table} ${write.recordId}`);
+  await refreshQueueState(write.ownerId);
+}
+
+/**
+ * Rows as they will be once the owner's queued writes are replayed
+ */
+export async function overlayQueuedWrites<T extends { id: string }>(
+  table: OfflineTable,
+  ownerId: string,
+  rows: T[]
+): Promise<T[]> {
+  let writes: QueuedWrite[] = [];
+  try {
+    writes = (await listQueuedWrites(ownerId)).filter(write => write.table === table);
+  } catch (error) {
+    console.warn('⚠️ Could not read the offline queue:', error);
+  }
+  if (writes.length === 0) return rows;
+
+  const byId = new Map(rows.map(row => [row.id, row]));
+  writes.forEach(write => {
+    const current = byId.get(write.recordId);
+    if (write.op === 'delete') {
+      byId.delete(write.recordId);
+      return;
+    }
+    if (write.op === 'update' && !current) return;
+
+    byId.set(write.recordId, {
+      created_at: write.createdAt,
+      updated_at: write.createdAt,
+      ...current,
+      ...write.payload,
+      id: write.recordId,
+      user_id: write.ownerId,
+      ...(write.tagIds ? { trade_tags: write.tagIds.map(tag_id => ({ tag_id })) } : {}),
+    } as unknown as T);
+  });
+
+  return Array.from(byId.values());
+}
@@ -0,0 +1,118 @@
+/**
+ * Offline store
+ * IndexedDB mirror of the trades and cashflows last read from the server, plus
+ * the queue of writes made while offline
+ */
+
+export type OfflineTable = 'trades' | 'cashflows';
+
+const DB_NAME = 'cryptoflow-offline';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'queue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isOfflineStoreAvailable = () => typeof indexedDB !== 'undefined';
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (['trades', 'cashflows'] as const).forEach(table => {
+          if (!db.objectStoreNames.contains(table)) {
+            db.createObjectStore(table, { keyPath: 'id' }).createIndex('user_id', 'user_id');
+          }
+        });
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Store rows read from the server. With `replace`, the owner's mirror becomes
+ * exactly `rows`, so rows deleted elsewhere drop out; otherwise rows are upserted.
+ * Mirroring is best effort: failures are logged, never thrown.
+ */
+export async function mirrorRows<T extends { id: string }>(
+  table: OfflineTable,
+  ownerId: string,
+  rows: T[],
+  options: { replace?: boolean } = {}
+): Promise<void> {
+  if (!isOfflineStoreAvailable()) return;
+
+  try {
+    const db = await openDb();
+    const transaction = db.transaction(table, 'readwrite');
+    const store = transaction.objectStore(table);
+
+    if (options.replace) {
+      const keys = await requestResult(store.index('user_id').getAllKeys(ownerId));
+      keys.forEach(key => store.delete(key));
+    }
+    rows.forEach(row => store.put(row));
+
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn(`⚠️ Could not mirror ${table} offline:`, error);
+  }
+}
+
+/**
+ * Rows of an owner as last mirrored; empty when nothing was stored
+ */
+export async function readMirror<T>(table: OfflineTable, ownerId: string): Promise<T[]> {
+  if (!isOfflineStoreAvailable()) return [];
+
+  const db = await openDb();
+  const store = db.transaction(table, 'readonly').objectStore(table);
+  return requestResult(store.index('user_id').getAll(ownerId)) as Promise<T[]>;
+}
+
+export async function readQueueRecords<T>(): Promise<T[]> {
+  if (!isOfflineStoreAvailable()) return [];
+
+  const db = await openDb();
+  return requestResult(db.transaction(QUEUE_STORE, 'readonly').objectStore(QUEUE_STORE).getAll()) as Promise<T[]>;
+}
+
+export async function putQueueRecord<T extends { id: string }>(record: T): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+  transaction.objectStore(QUEUE_STORE).put(record);
+  await transactionDone(transaction);
+}
+
+export async function deleteQueueRecord(id: string): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+  transaction.objectStore(QUEUE_STORE).delete(id);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,196 @@
+/**
+ * Offline sync
+ * Replays queued writes once the connection returns. A row changed on the
+ * server since the edit started is held back as a conflict for the user to merge.
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Cashflow, Trade } from '@/types/database';
+import { saveTradeTags } from '@/lib/tradeTags';
+import { diffRecords } from '@/lib/auditTrail';
+import { applyTradeChange, tradeKeys } from '@/lib/tradeQueries';
+import { applyCashflowChange, cashflowKeys } from '@/lib/cashflowQueries';
+import { deleteQueueRecord, putQueueRecord } from '@/lib/offlineStore';
+import {
+  getQueueState,
+  isNetworkError,
+  listQueuedWrites,
+  NewQueuedWrite,
+  QueuedWrite,
+  queueWrite,
+  refreshQueueState,
+  setQueueState,
+} from '@/lib/offlineQueue';
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+}
+
+// Postgres unique violation: an insert whose earlier attempt reached the server
+const DUPLICATE_KEY = '23505';
+
+const isNewer = (remote: Record<string, unknown>, baseUpdatedAt: string | null) =>
+  !!baseUpdatedAt && !!remote.updated_at &&
+  new Date(remote.updated_at as string).getTime() > new Date(baseUpdatedAt).getTime();
+
+/**
+ * Whether the server row already holds every column the write sets, as when
+ * the same edit reached the server before the connection dropped
+ */
+const alreadyApplied = (remote: Record<string, unknown>, payload: Record<string, unknown>) =>
+  diffRecords(Object.fromEntries(Object.keys(payload).map(key => [key, remote[key] ?? null])), payload).length === 0;
+
+async function fetchRemote(write: QueuedWrite): Promise<Record<string, unknown> | null> {
+  const { data, error } = await supabase
+    .from(write.table)
+    .select('*')
+    .eq('id', write.recordId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as Record<string, unknown> | null;
+}
+
+/**
+ * Send one queued write; returns false when it conflicts with the server row
+ */
+async function replayWrite(write: QueuedWrite): Promise<boolean> {
+  if (write.op === 'insert') {
+    const { error } = await supabase
+      .from(write.table)
+      .insert({ ...write.payload, id: write.recordId, user_id: write.ownerId } as never);
+    if (error && error.code !== DUPLICATE_KEY) throw error;
+  } else {
+    const remote = await fetchRemote(write);
+    if (write.op === 'delete' && !remote) return true;
+    const conflicting = write.op === 'delete' || !alreadyApplied(remote || {}, write.payload);
+    if (!remote || (conflicting && isNewer(remote, write.baseUpdatedAt))) {
+      await putQueueRecord<QueuedWrite>({ ...write, status: 'conflict', remote, lastError: undefined });
+      return false;
+    }
+
+    const request = write.op === 'update'
+      ? supabase.from(write.table).update(write.payload as never).eq('id', write.recordId)
+      : supabase.from(write.table).delete().eq('id', write.recordId);
+    const { error } = await request;
+    if (error) throw error;
+  }
+
+  if (write.table === 'trades' && write.op !== 'delete' && write.tagIds) {
+    await saveTradeTags(write.recordId, write.tagIds);
+  }
+  return true;
+}
+
+/**
+ * Replay the user's pending writes in the order they were made. Stops at the
+ * first connection failure; writes the server rejects stay queued with their error.
+ */
+export async function replayQueue(queryClient: QueryClient, ownerId: string): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: 0, conflicts: 0, failed: 0 };
+  if (getQueueState().syncing || (typeof navigator !== 'undefined' && !navigator.onLine)) return result;
+
+  setQueueState({ syncing: true });
+  const touched = new Set<QueuedWrite['table']>();
+
+  try {
+    const writes = (await listQueuedWrites(ownerId)).filter(write => write.status === 'pending');
+
+    for (const write of writes) {
+      try {
+        if (await replayWrite(write)) {
+          await deleteQueueRecord(write.id);
+          result.synced++;
+        } else {
+          result.conflicts++;
+        }
+        touched.add(write.table);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          console.warn('⚠️ Connection lost while syncing offline changes');
+          break;
+        }
+        console.error('❌ Offline change rejected:', error);
+        await putQueueRecord<QueuedWrite>({
+          ...write,
+          attempts: write.attempts + 1,
+          lastError: (error as { message?: string }).message || 'Unknown error',
+        });
+        result.failed++;
+      }
+    }
+  } finally {
+    setQueueState({ syncing: false });
+    await refreshQueueState(ownerId);
+  }
+
+  if (touched.has('trades')) queryClient.invalidateQueries({ queryKey: tradeKeys.owner(ownerId) });
+  if (touched.has('cashflows')) queryClient.invalidateQueries({ queryKey: cashflowKeys.owner(ownerId) });
+  if (result.synced > 0) console.log(`✅ Synced ${result.synced} offline changes`);
+
+  return result;
+}
+
+/**
+ * Queue a write that could not be sent and show it in the cached lists right
+ * away. `before` is the row as it was, for edits and deletes.
+ */
+export async function saveOffline<T extends Trade | Cashflow>(
+  queryClient: QueryClient,
+  write: NewQueuedWrite,
+  before: T | null
+): Promise<void> {
+  await queueWrite(write);
+
+  const eventType = write.op === 'insert' ? 'INSERT' : write.op === 'update' ? 'UPDATE' : 'DELETE';
+  const now = new Date().toISOString();
+  const row = write.op === 'delete' ? null : {
+    created_at: now,
+    ...before,
+    ...write.payload,
+    id: write.recordId,
+    user_id: write.ownerId,
+    updated_at: now,
+    ...(write.tagIds ? { trade_tags: write.tagIds.map(tag_id => ({ tag_id })) } : {}),
+  };
+
+  if (write.table === 'trades') {
+    applyTradeChange(queryClient, write.ownerId, eventType, row as Trade | null, before as Trade | null);
+  } else {
+    applyCashflowChange(queryClient, write.ownerId, eventType, row as Cashflow | null, before as Cashflow | null);
+  }
+}
+
+/**
+ * Settle a conflict: 'theirs' drops the queued write and keeps the server row;
+ * 'mine' writes `merged` (the queued columns by default) over the current server row
+ */
+export async function resolveConflict(
+  queryClient: QueryClient,
+  write: QueuedWrite,
+  choice: 'theirs' | 'mine',
+  merged: Record<string, unknown> = write.payload
+): Promise<ReplayResult | null> {
+  if (choice === 'theirs') {
+    await deleteQueueRecord(write.id);
+    await refreshQueueState(write.ownerId);
+    queryClient.invalidateQueries({ queryKey: [write.table, write.ownerId] });
+    return null;
+  }
+
+  const remote = write.remote ?? null;
+  await putQueueRecord<QueuedWrite>({
+    ...write,
+    // An edit of a row deleted elsewhere brings the row back
+    op: write.op === 'update' && !remote ? 'insert' : write.op,
+    payload: merged,
+    baseUpdatedAt: (remote?.updated_at as string | undefined) ?? write.baseUpdatedAt,
+    status: 'pending',
+    remote: undefined,
+  });
+  await refreshQueueState(write.ownerId);
+
+  return replayQueue(queryClient, write.ownerId);
+}
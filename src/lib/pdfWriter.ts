@@ -0,0 +1,285 @@
+/**
+ * Minimal PDF writer
+ * Lays out text, rules, filled boxes and JPEG images on A4 pages using the
+ * standard Helvetica fonts (WinAnsi encoding), without any PDF dependency
+ */
+
+// A4 in points; element coordinates run from the top-left corner
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// RGB, 0-255
+export type PdfColor = [number, number, number];
+
+export interface PdfJpeg {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export type PdfElement =
+  // `y` is the text baseline
+  | { type: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; color?: PdfColor; align?: 'left' | 'right' | 'center' }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; color?: PdfColor; width?: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; color: PdfColor }
+  | { type: 'image'; x: number; y: number; width: number; height: number; image: PdfJpeg };
+
+export interface PdfPage {
+  elements: PdfElement[];
+}
+
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+}
+
+// Glyph widths per 1000 units for ASCII 32-126, from the Helvetica AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015,
+  667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611,
+  278, 278, 278, 469, 556, 333,
+  556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500,
+  334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975,
+  722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611,
+  333, 278, 333, 584, 556, 333,
+  556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500,
+  389, 280, 389, 584,
+];
+
+// WinAnsi code points outside Latin-1, with their widths
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '€': { code: 0x80, width: 556 },
+  '…': { code: 0x85, width: 1000 },
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 556 },
+  '—': { code: 0x97, width: 1000 },
+  '™': { code: 0x99, width: 1000 },
+};
+
+const encoder = new TextEncoder();
+
+function winAnsiCode(char: string): number | null {
+  const code = char.charCodeAt(0);
+  if (char.length === 1 && ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff))) return code;
+  return WIN_ANSI_EXTRAS[char]?.code ?? null;
+}
+
+/**
+ * Whether every character can be drawn with the standard fonts
+ */
+export function isPdfEncodable(text: string): boolean {
+  return Array.from(text).every(char => winAnsiCode(char) !== null);
+}
+
+/**
+ * Width of a line of text in points. Latin-1 letters are measured as an average glyph.
+ */
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    if (code >= 32 && code <= 126) return sum + widths[code - 32];
+    if (code === 0xa0) return sum + 278;
+    return sum + (WIN_ANSI_EXTRAS[char]?.width ?? 556);
+  }, 0);
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`, at spaces where possible
+ */
+export function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = [];
+
+  text.split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      // Words longer than a whole line are split by character
+      line = '';
+      for (const char of Array.from(word)) {
+        if (line && textWidth(line + char, size, bold) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+}
+
+/**
+ * A PDF literal string; characters outside WinAnsi become '?'
+ */
+function pdfString(text: string): string {
+  const escaped = Array.from(text).map(char => {
+    const code = winAnsiCode(char) ?? 63;
+    if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+    if (code > 126) return `\\${code.toString(8).padStart(3, '0')}`;
+    return String.fromCharCode(code);
+  }).join('');
+  return `(${escaped})`;
+}
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const colorOp = (color: PdfColor, operator: 'rg' | 'RG') =>
+  `${color.map(channel => num(channel / 255)).join(' ')} ${operator}`;
+
+function contentStream(page: PdfPage, imageNames: Map<PdfJpeg, string>): string {
+  const ops: string[] = [];
+
+  page.elements.forEach(element => {
+    switch (element.type) {
+      case 'text': {
+        const width = textWidth(element.text, element.size, element.bold);
+        const x = element.align === 'right'
+          ? element.x - width
+          : element.align === 'center' ? element.x - width / 2 : element.x;
+        ops.push(
+          'BT',
+          colorOp(element.color ?? [0, 0, 0], 'rg'),
+          `/${element.bold ? 'F2' : 'F1'} ${num(element.size)} Tf`,
+          `${num(x)} ${num(PAGE_HEIGHT - element.y)} Td`,
+          `${pdfString(element.text)} Tj`,
+          'ET'
+        );
+        break;
+      }
+      case 'line':
+        ops.push(
+          colorOp(element.color ?? [0, 0, 0], 'RG'),
+          `${num(element.width ?? 0.5)} w`,
+          `${num(element.x1)} ${num(PAGE_HEIGHT - element.y1)} m ${num(element.x2)} ${num(PAGE_HEIGHT - element.y2)} l S`
+        );
+        break;
+      case 'rect':
+        ops.push(
+          colorOp(element.color, 'rg'),
+          `${num(element.x)} ${num(PAGE_HEIGHT - element.y - element.height)} ${num(element.width)} ${num(element.height)} re f`
+        );
+        break;
+      case 'image':
+        ops.push(
+          'q',
+          `${num(element.width)} 0 0 ${num(element.height)} ${num(element.x)} ${num(PAGE_HEIGHT - element.y - element.height)} cm`,
+          `/${imageNames.get(element.image)} Do`,
+          'Q'
+        );
+        break;
+    }
+  });
+
+  return ops.join('\n');
+}
+
+const pdfDate = (date: Date) =>
+  `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+/**
+ * Build a PDF document with one page per entry
+ */
+export function buildPdf(pages: PdfPage[], info: PdfInfo = {}): Uint8Array {
+  const documentPages = pages.length > 0 ? pages : [{ elements: [] }];
+  const objects: (string | Uint8Array[])[] = [];
+  // Object numbers start at 1
+  const add = (object: string | Uint8Array[]) => objects.push(object);
+
+  const catalogId = add('');
+  const pagesId = add('');
+  const regularId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const boldId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const infoEntries = [
+    info.title ? `/Title ${pdfString(info.title)}` : '',
+    info.author ? `/Author ${pdfString(info.author)}` : '',
+    '/Producer (CryptoFlow Journal)',
+    `/CreationDate (${pdfDate(new Date())})`,
+  ].filter(Boolean).join(' ');
+  const infoId = add(`<< ${infoEntries} >>`);
+
+  // Each distinct image is embedded once
+  const imageNames = new Map<PdfJpeg, string>();
+  const imageRefs: string[] = [];
+  documentPages.forEach(page => page.elements.forEach(element => {
+    if (element.type !== 'image' || imageNames.has(element.image)) return;
+    const { data, width, height } = element.image;
+    const name = `Im${imageNames.size + 1}`;
+    const id = add([
+      encoder.encode(
+        `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${data.length} >>\nstream\n`
+      ),
+      data,
+      encoder.encode('\nendstream'),
+    ]);
+    imageNames.set(element.image, name);
+    imageRefs.push(`/${name} ${id} 0 R`);
+  }));
+
+  const resources = `<< /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >>` +
+    (imageRefs.length > 0 ? ` /XObject << ${imageRefs.join(' ')} >>` : '') + ' >>';
+
+  const pageIds = documentPages.map(page => {
+    const content = contentStream(page, imageNames);
+    const contentId = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources ${resources} /Contents ${contentId} 0 R >>`
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  // The binary comment marks the file as binary for transfer tools
+  const chunks: Uint8Array[] = [encoder.encode('%PDF-1.4\n'), new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])];
+  let offset = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(offset);
+    const body = typeof object === 'string' ? [encoder.encode(object)] : object;
+    const parts = [encoder.encode(`${index + 1} 0 obj\n`), ...body, encoder.encode('\nendobj\n')];
+    parts.forEach(part => { offset += part.length; });
+    chunks.push(...parts);
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(position => `${String(position).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(encoder.encode(`${xref}\n`));
+
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return output;
+}
@@ -1,19 +1,18 @@
 /**
- * CoinGecko API integration for cryptocurrency price fetching
- * Using the free API with rate limiting considerations
+ * Cryptocurrency price fetching with caching
+ * Prices come from the provider fallback chain in priceProviders.ts
  */
 
-// CoinGecko Free API base URL
-const COINGECKO_API_BASE = 'https://api.coingecko.com/api/v3';
+import { matchLots, CostBasisMethod, ClosedLot, OpenLot, LotTrade } from '@/lib/lotMatching';
+import { fetchQuotesFromProviders, PriceQuote } from '@/lib/priceProviders';
+import { CurrencyCode } from '@/lib/currencies';
 
-// Rate limiting - free tier allows 30 calls per minute
-// With 30-minute caching, we can afford slightly longer delays for better reliability
-const RATE_LIMIT_DELAY = 3000; // 3 seconds between calls for better rate limiting
+export { symbolToCoinGeckoId } from '@/lib/symbolRegistry';
+export type { PriceQuote } from '@/lib/priceProviders';
 
 // Cache to avoid excessive API calls
 interface PriceCache {
-  [key: string]: {
-    price: number;
+  [key: string]: PriceQuote & {
     timestamp: number;
   };
 }
@@ -21,229 +20,112 @@ interface PriceCache {
 const priceCache: PriceCache = {};
 const CACHE_DURATION = 1800000; // 30 minutes cache (30 * 60 * 1000)
 
-// Common cryptocurrency symbol mappings to CoinGecko IDs
-const SYMBOL_TO_ID_MAP: Record<string, string> = {
-  'BTC': 'bitcoin',
-  'ETH': 'ethereum',
-  'BNB': 'binancecoin',
-  'ADA': 'cardano',
-  'DOT': 'polkadot',
-  'XRP': 'ripple',
-  'LTC': 'litecoin',
-  'BCH': 'bitcoin-cash',
-  'LINK': 'chainlink',
-  'UNI': 'uniswap',
-  'USDT': 'tether',
-  'USDC': 'usd-coin',
-  'BUSD': 'binance-usd',
-  'DAI': 'dai',
-  'MATIC': 'matic-network',
-  'AVAX': 'avalanche-2',
-  'SOL': 'solana',
-  'ATOM': 'cosmos',
-  'FTM': 'fantom',
-  'NEAR': 'near',
-  'ALGO': 'algorand',
-  'VET': 'vechain',
-  'ICP': 'internet-computer',
-  'THETA': 'theta-token',
-  'TRX': 'tron',
-  'EOS': 'eos',
-  'AAVE': 'aave',
-  'MKR': 'maker',
-  'COMP': 'compound-governance-token',
-  'YFI': 'yearn-finance',
-  'SUSHI': 'sushi',
-  'CRV': 'curve-dao-token',
-  'SNX': 'synthetix-network-token',
-  '1INCH': '1inch',
-  'BAL': 'balancer',
-  'ZRX': '0x',
-  'KNC': 'kyber-network-crystal',
-  'LRC': 'loopring',
-  'REN': 'republic-protocol',
-  'BAND': 'band-protocol',
-  'STORJ': 'storj',
-  'ANT': 'aragon',
-  'REP': 'augur',
-  'ZEC': 'zcash',
-  'XMR': 'monero',
-  'DASH': 'dash',
-  'DCR': 'decred',
-  'ZIL': 'zilliqa'
-};
-
-/**
- * Convert cryptocurrency symbol to CoinGecko ID
- */
-function symbolToCoinGeckoId(symbol: string): string {
-  const upperSymbol = symbol.toUpperCase();
-  return SYMBOL_TO_ID_MAP[upperSymbol] || symbol.toLowerCase();
-}
-
 /**
- * Add delay to respect rate limits
+ * Check if cached quote is still valid
  */
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-/**
- * Check if cached price is still valid
- */
-function getCachedPrice(symbol: string): number | null {
-  const cacheKey = symbol.toUpperCase();
+function getCachedQuote(cacheKey: string): PriceQuote | null {
   const cached = priceCache[cacheKey];
   
   if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION) {
-    return cached.price;
+    return cached;
   }
   
   return null;
 }
 
 /**
- * Cache price data
+ * Cache quote data
  */
-function setCachedPrice(symbol: string, price: number): void {
-  const cacheKey = symbol.toUpperCase();
+function setCachedQuote(cacheKey: string, quote: PriceQuote): void {
   priceCache[cacheKey] = {
-    price,
+    ...quote,
     timestamp: Date.now()
   };
 }
 
 /**
- * Fetch current price for a single cryptocurrency
+ * Fetch current quotes (price plus serving provider) for multiple cryptocurrencies
  */
-export async function fetchCryptoPrice(
-  symbol: string, 
-  currency: 'USD' | 'PHP' = 'USD'
-): Promise<number | null> {
-  try {
-    // Check cache first
+export async function fetchPriceQuotes(
+  symbols: string[], 
+  currency: CurrencyCode = 'USD'
+): Promise<Record<string, PriceQuote | null>> {
+  const results: Record<string, PriceQuote | null> = {};
+  
+  // Check cache for all symbols first
+  const uncachedSymbols: string[] = [];
+  
+  for (const symbol of symbols) {
     const cacheKey = `${symbol.toUpperCase()}_${currency}`;
-    const cachedPrice = getCachedPrice(cacheKey);
-    if (cachedPrice !== null) {
-      console.log(`📱 Using cached price for ${symbol}: ${cachedPrice} ${currency} (cache expires in ${Math.round((CACHE_DURATION - (Date.now() - priceCache[cacheKey].timestamp)) / 60000)} minutes)`);
-      return cachedPrice;
-    }
-
-    const coinId = symbolToCoinGeckoId(symbol);
-    const currencyParam = currency.toLowerCase();
-    
-    const url = `${COINGECKO_API_BASE}/simple/price?ids=${coinId}&vs_currencies=${currencyParam}`;
-    
-    console.log(`📡 Fetching price for ${symbol} (${coinId}) in ${currency}...`);
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    
-    if (!data[coinId] || !data[coinId][currencyParam]) {
-      console.warn(`⚠️ No price data found for ${symbol} (${coinId}) in ${currency}`);
-      return null;
+    const cachedQuote = getCachedQuote(cacheKey);
+    if (cachedQuote !== null) {
+      results[symbol.toUpperCase()] = cachedQuote;
+      console.log(`📱 Using cached price for ${symbol}: ${cachedQuote.price} ${currency} from ${cachedQuote.source} (cache expires in ${Math.round((CACHE_DURATION - (Date.now() - priceCache[cacheKey].timestamp)) / 60000)} minutes)`);
+    } else {
+      uncachedSymbols.push(symbol);
     }
+  }
+  
+  if (uncachedSymbols.length === 0) {
+    return results;
+  }
+  
+  try {
+    const quotes = await fetchQuotesFromProviders(uncachedSymbols, currency);
     
-    const price = data[coinId][currencyParam];
-    
-    // Cache the result
-    setCachedPrice(cacheKey, price);
-    
-    console.log(`✅ Successfully fetched ${symbol} price: ${price} ${currency} (cached for 30 minutes)`);
-    
-    // Add delay to respect rate limits
-    await delay(RATE_LIMIT_DELAY);
+    Object.entries(quotes).forEach(([symbol, quote]) => {
+      results[symbol] = quote;
+      if (quote) {
+        setCachedQuote(`${symbol}_${currency}`, quote);
+        console.log(`✅ Fetched ${symbol} price: ${quote.price} ${currency} from ${quote.source} (cached for 30 minutes)`);
+      }
+    });
     
-    return price;
+    return results;
     
   } catch (error) {
-    console.error(`❌ Error fetching price for ${symbol}:`, error);
-    return null;
+    console.error(`❌ Error fetching multiple crypto prices:`, error);
+    uncachedSymbols.forEach(symbol => {
+      results[symbol.toUpperCase()] = null;
+    });
+    return results;
   }
 }
 
+/**
+ * Fetch the current quote for a single cryptocurrency
+ */
+export async function fetchCryptoPriceQuote(
+  symbol: string, 
+  currency: CurrencyCode = 'USD'
+): Promise<PriceQuote | null> {
+  const quotes = await fetchPriceQuotes([symbol], currency);
+  return quotes[symbol.toUpperCase()] ?? null;
+}
+
+/**
+ * Fetch current price for a single cryptocurrency
+ */
+export async function fetchCryptoPrice(
+  symbol: string, 
+  currency: CurrencyCode = 'USD'
+): Promise<number | null> {
+  const quote = await fetchCryptoPriceQuote(symbol, currency);
+  return quote ? quote.price : null;
+}
+
 /**
  * Fetch current prices for multiple cryptocurrencies
  */
 export async function fetchMultipleCryptoPrices(
   symbols: string[], 
-  currency: 'USD' | 'PHP' = 'USD'
+  currency: CurrencyCode = 'USD'
 ): Promise<Record<string, number | null>> {
-  try {
-    const results: Record<string, number | null> = {};
-    
-    // Check cache for all symbols first
-    const uncachedSymbols: string[] = [];
-    
-    for (const symbol of symbols) {
-      const cacheKey = `${symbol.toUpperCase()}_${currency}`;
-      const cachedPrice = getCachedPrice(cacheKey);
-      if (cachedPrice !== null) {
-        results[symbol.toUpperCase()] = cachedPrice;
-        console.log(`📱 Using cached price for ${symbol}: ${cachedPrice} ${currency} (cache expires in ${Math.round((CACHE_DURATION - (Date.now() - priceCache[cacheKey].timestamp)) / 60000)} minutes)`);
-      } else {
-        uncachedSymbols.push(symbol);
-      }
-    }
-    
-    if (uncachedSymbols.length === 0) {
-      return results;
-    }
-    
-    // Convert symbols to CoinGecko IDs
-    const coinIds = uncachedSymbols.map(symbolToCoinGeckoId);
-    const currencyParam = currency.toLowerCase();
-    
-    const url = `${COINGECKO_API_BASE}/simple/price?ids=${coinIds.join(',')}&vs_currencies=${currencyParam}`;
-    
-    console.log(`📡 Fetching prices for ${uncachedSymbols.length} cryptocurrencies in ${currency}...`);
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    
-    // Map results back to original symbols
-    for (let i = 0; i < uncachedSymbols.length; i++) {
-      const symbol = uncachedSymbols[i];
-      const coinId = coinIds[i];
-      
-      if (data[coinId] && data[coinId][currencyParam]) {
-        const price = data[coinId][currencyParam];
-        results[symbol.toUpperCase()] = price;
-        
-        // Cache the result
-        const cacheKey = `${symbol.toUpperCase()}_${currency}`;
-        setCachedPrice(cacheKey, price);
-        
-        console.log(`✅ Fetched ${symbol} price: ${price} ${currency} (cached for 30 minutes)`);
-      } else {
-        results[symbol.toUpperCase()] = null;
-        console.warn(`⚠️ No price data found for ${symbol} (${coinId}) in ${currency}`);
-      }
-    }
-    
-    // Add delay to respect rate limits
-    await delay(RATE_LIMIT_DELAY);
-    
-    return results;
-    
-  } catch (error) {
-    console.error(`❌ Error fetching multiple crypto prices:`, error);
-    // Return null for all symbols on error
-    return symbols.reduce((acc, symbol) => {
-      acc[symbol.toUpperCase()] = null;
-      return acc;
-    }, {} as Record<string, number | null>);
-  }
+  const quotes = await fetchPriceQuotes(symbols, currency);
+  return Object.entries(quotes).reduce((acc, [symbol, quote]) => {
+    acc[symbol] = quote ? quote.price : null;
+    return acc;
+  }, {} as Record<string, number | null>);
 }
 
 /**
@@ -261,7 +143,7 @@ export async function calculateSpotPnL(
   asset: string,
   purchasePrice: number,
   quantity: number,
-  currency: 'USD' | 'PHP' = 'USD',
+  currency: CurrencyCode = 'USD',
   fees: number = 0
 ): Promise<SpotPnLCalculation | null> {
   try {
@@ -309,6 +191,9 @@ export interface PortfolioSummary {
   totalCurrentValue: number;
   totalUnrealizedPnL: number;
   totalPnLPercentage: number;
+  totalRealizedPnL: number;
+  costBasisMethod: CostBasisMethod;
+  closedLots: ClosedLot[];
   assetBreakdown: Array<{
     asset: string;
     quantity: number;
@@ -318,50 +203,23 @@ export interface PortfolioSummary {
     invested: number;
     unrealizedPnL: number;
     pnlPercentage: number;
+    realizedPnL: number;
+    openLots: OpenLot[];
   }>;
 }
 
 export async function calculatePortfolioPnL(
-  spotTrades: Array<{
-    asset: string;
-    price: number;
-    quantity: number;
-    fees?: number;
-    details?: { buy_sell?: 'buy' | 'sell' };
-  }>,
-  currency: 'USD' | 'PHP' = 'USD'
+  spotTrades: LotTrade[],
+  currency: CurrencyCode = 'USD',
+  costBasisMethod: CostBasisMethod = 'fifo'
 ): Promise<PortfolioSummary | null> {
   try {
-    // Group trades by asset and calculate net positions
-    const positions: Record<string, {
-      totalQuantity: number;
-      totalCost: number;
-      totalFees: number;
-    }> = {};
-    
-    for (const trade of spotTrades) {
-      const asset = trade.asset.toUpperCase();
-      const isBuy = !trade.details?.buy_sell || trade.details.buy_sell === 'buy';
-      const quantity = isBuy ? trade.quantity : -trade.quantity;
-      const cost = trade.price * Math.abs(trade.quantity);
-      const fees = trade.fees || 0;
-      
-      if (!positions[asset]) {
-        positions[asset] = {
-          totalQuantity: 0,
-          totalCost: 0,
-          totalFees: 0
-        };
-      }
-      
-      positions[asset].totalQuantity += quantity;
-      positions[asset].totalCost += isBuy ? cost : -cost;
-      positions[asset].totalFees += fees;
-    }
+    // Pair sells with earlier buy lots so open positions carry their true cost basis
+    const lotResult = matchLots(spotTrades, costBasisMethod);
     
-    // Filter out zero or negative positions
-    const activePositions = Object.entries(positions).filter(
-      ([_, pos]) => pos.totalQuantity > 0
+    // Only assets with remaining open lots have a market value
+    const activePositions = Object.values(lotResult.assets).filter(
+      summary => summary.openQuantity > 0
     );
     
     if (activePositions.length === 0) {
@@ -370,32 +228,36 @@ export async function calculatePortfolioPnL(
         totalCurrentValue: 0,
         totalUnrealizedPnL: 0,
         totalPnLPercentage: 0,
+        totalRealizedPnL: lotResult.totalRealizedPnL,
+        costBasisMethod,
+        closedLots: lotResult.closedLots,
         assetBreakdown: []
       };
     }
     
     // Get current prices for all assets
-    const assets = activePositions.map(([asset]) => asset);
+    const assets = activePositions.map(position => position.asset);
     const currentPrices = await fetchMultipleCryptoPrices(assets, currency);
     
     // Calculate PnL for each position
-    const assetBreakdown = activePositions.map(([asset, position]) => {
-      const currentPrice = currentPrices[asset];
-      const avgPurchasePrice = position.totalCost / position.totalQuantity;
-      const invested = position.totalCost + position.totalFees;
-      const currentValue = currentPrice ? currentPrice * position.totalQuantity : 0;
+    const assetBreakdown = activePositions.map(position => {
+      const currentPrice = currentPrices[position.asset];
+      const invested = position.openCostBasis;
+      const currentValue = currentPrice ? currentPrice * position.openQuantity : 0;
       const unrealizedPnL = currentValue - invested;
       const pnlPercentage = invested > 0 ? (unrealizedPnL / invested) * 100 : 0;
       
       return {
-        asset,
-        quantity: position.totalQuantity,
-        purchasePrice: avgPurchasePrice,
+        asset: position.asset,
+        quantity: position.openQuantity,
+        purchasePrice: position.averageCost,
         currentPrice,
         currentValue,
         invested,
         unrealizedPnL,
-        pnlPercentage
+        pnlPercentage,
+        realizedPnL: position.realizedPnL,
+        openLots: position.openLots
       };
     });
     
@@ -410,13 +272,17 @@ export async function calculatePortfolioPnL(
       totalCurrentValue,
       totalUnrealizedPnL,
       totalPnLPercentage,
+      totalRealizedPnL: lotResult.totalRealizedPnL,
+      costBasisMethod,
+      closedLots: lotResult.closedLots,
       assetBreakdown
     };
     
-    console.log(`📊 Portfolio PnL calculated:`, {
+    console.log(`📊 Portfolio PnL calculated (${costBasisMethod.toUpperCase()}):`, {
       totalInvested: totalInvested.toFixed(2),
       totalCurrentValue: totalCurrentValue.toFixed(2),
       totalUnrealizedPnL: totalUnrealizedPnL.toFixed(2),
+      totalRealizedPnL: lotResult.totalRealizedPnL.toFixed(2),
       totalPnLPercentage: totalPnLPercentage.toFixed(2) + '%'
     });
     
@@ -0,0 +1,228 @@
+/**
+ * Historical price service
+ * Backfills daily closes per asset into the `price_history` table through the
+ * `backfill-price-history` edge function and answers point-in-time price lookups
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { CurrencyCode } from '@/lib/currencies';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Per asset/currency series kept in memory after a load: date -> close
+const seriesCache: Record<string, Map<string, number>> = {};
+
+const seriesKey = (asset: string, currency: string) => `${asset.toUpperCase()}_${currency}`;
+
+/**
+ * UTC calendar day key for a date
+ */
+export function toDateKey(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Shift a day key by a number of calendar days
+ */
+export function addDays(dateKey: string, days: number): string {
+  return toDateKey(new Date(new Date(`${dateKey}T00:00:00Z`).getTime() + days * MS_PER_DAY));
+}
+
+/**
+ * Fill `price_history` for an asset from `from` up to yesterday.
+ * Closes are shared by every user, so they are fetched and stored by the
+ * `backfill-price-history` edge function; it only requests the days before
+ * the earliest and after the latest stored close.
+ * Returns the number of closes stored.
+ */
+export async function backfillPriceHistory(
+  asset: string,
+  currency: CurrencyCode,
+  from: Date
+): Promise<number> {
+  const symbol = asset.toUpperCase();
+  const { data, error } = await supabase.functions.invoke<{ stored: number }>('backfill-price-history', {
+    body: { asset: symbol, currency, from: toDateKey(from) },
+  });
+
+  if (error) throw error;
+  const stored = data?.stored ?? 0;
+  if (stored === 0) return 0;
+
+  delete seriesCache[seriesKey(symbol, currency)];
+  console.log(`✅ Stored ${stored} daily closes for ${symbol} in ${currency}`);
+  return stored;
+}
+
+/**
+ * Backfill every asset in a trade list from its first trade date
+ */
+export async function backfillForTrades(
+  trades: { asset: string; trade_date: string }[],
+  currency: CurrencyCode
+): Promise<Record<string, number>> {
+  const firstTradeDates = trades.reduce((acc, trade) => {
+    const asset = trade.asset.toUpperCase();
+    const date = new Date(trade.trade_date);
+    if (!acc[asset] || date < acc[asset]) acc[asset] = date;
+    return acc;
+  }, {} as Record<string, Date>);
+
+  const results: Record<string, number> = {};
+  // Sequential to stay inside provider rate limits
+  for (const [asset, from] of Object.entries(firstTradeDates)) {
+    try {
+      results[asset] = await backfillPriceHistory(asset, currency, from);
+    } catch (error) {
+      console.error(`❌ Error backfilling ${asset} price history:`, error);
+      results[asset] = 0;
+    }
+  }
+  return results;
+}
+
+/**
+ * Load stored daily closes for an asset into memory
+ */
+export async function loadPriceSeries(
+  asset: string,
+  currency: CurrencyCode,
+  from?: Date
+): Promise<Map<string, number>> {
+  const symbol = asset.toUpperCase();
+  const key = seriesKey(symbol, currency);
+  if (seriesCache[key] && !from) return seriesCache[key];
+
+  let query = supabase
+    .from('price_history')
+    .select('price_date, close')
+    .eq('asset', symbol)
+    .eq('currency', currency)
+    .order('price_date', { ascending: true });
+
+  if (from) query = query.gte('price_date', toDateKey(from));
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const series = new Map<string, number>();
+  (data || []).forEach(row => series.set(row.price_date, Number(row.close)));
+
+  if (!from) seriesCache[key] = series;
+  return series;
+}
+
+/**
+ * Latest close on or before a date within a loaded series (forward-filled)
+ */
+export function priceFromSeries(series: Map<string, number>, date: Date | string): number | null {
+  const target = toDateKey(date);
+  if (series.has(target)) return series.get(target)!;
+
+  let best: string | null = null;
+  for (const day of series.keys()) {
+    if (day <= target && (!best || day > best)) best = day;
+  }
+  return best ? series.get(best)! : null;
+}
+
+/**
+ * Close price of an asset on a date, using the latest stored close on or before it
+ */
+export async function getPriceAt(
+  asset: string,
+  date: Date | string,
+  currency: CurrencyCode = 'USD'
+): Promise<number | null> {
+  const symbol = asset.toUpperCase();
+  const cached = seriesCache[seriesKey(symbol, currency)];
+  if (cached) return priceFromSeries(cached, date);
+
+  const { data, error } = await supabase
+    .from('price_history')
+    .select('close')
+    .eq('asset', symbol)
+    .eq('currency', currency)
+    .lte('price_date', toDateKey(date))
+    .order('price_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`❌ Error reading ${symbol} price at ${toDateKey(date)}:`, error);
+    return null;
+  }
+
+  return data ? Number(data.close) : null;
+}
+
+export interface EquityPoint {
+  date: string;
+  marketValue: number;
+  costBasis: number;
+  // Assets held that day without a stored close (valued at cost)
+  unpricedAssets: string[];
+}
+
+/**
+ * Daily mark-to-market equity curve for spot holdings.
+ * Holdings are replayed from buys and sells; each day is valued at that day's close,
+ * falling back to average cost when no close is stored.
+ */
+export function buildEquityCurve(
+  trades: { asset: string; price: number; quantity: number; fees?: number; trade_date: string; category: string; details?: { buy_sell?: string } }[],
+  series: Record<string, Map<string, number>>,
+  until: Date = new Date()
+): EquityPoint[] {
+  const spotTrades = trades
+    .filter(trade => trade.category === 'spot')
+    .sort((a, b) => new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime());
+
+  if (spotTrades.length === 0) return [];
+
+  const holdings: Record<string, { quantity: number; cost: number }> = {};
+  const points: EquityPoint[] = [];
+  const lastClose: Record<string, number> = {};
+  let tradeIndex = 0;
+
+  const endKey = toDateKey(until);
+  for (let day = toDateKey(spotTrades[0].trade_date); day <= endKey; day = addDays(day, 1)) {
+    while (tradeIndex < spotTrades.length && toDateKey(spotTrades[tradeIndex].trade_date) <= day) {
+      const trade = spotTrades[tradeIndex++];
+      const asset = trade.asset.toUpperCase();
+      const holding = holdings[asset] || (holdings[asset] = { quantity: 0, cost: 0 });
+
+      if (trade.details?.buy_sell === 'sell') {
+        const sold = Math.min(trade.quantity, holding.quantity);
+        const averageCost = holding.quantity > 0 ? holding.cost / holding.quantity : 0;
+        holding.cost -= averageCost * sold;
+        holding.quantity -= sold;
+      } else {
+        holding.quantity += trade.quantity;
+        holding.cost += trade.price * trade.quantity + (trade.fees || 0);
+      }
+    }
+
+    let marketValue = 0;
+    let costBasis = 0;
+    const unpricedAssets: string[] = [];
+
+    Object.entries(holdings).forEach(([asset, holding]) => {
+      if (holding.quantity <= 1e-12) return;
+      const close = series[asset]?.get(day);
+      if (close !== undefined) lastClose[asset] = close;
+
+      costBasis += holding.cost;
+      if (lastClose[asset] !== undefined) {
+        marketValue += holding.quantity * lastClose[asset];
+      } else {
+        marketValue += holding.cost;
+        unpricedAssets.push(asset);
+      }
+    });
+
+    points.push({ date: day, marketValue, costBasis, unpricedAssets });
+  }
+
+  return points;
+}
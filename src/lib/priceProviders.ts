@@ -0,0 +1,349 @@
+/**
+ * Spot price providers and the fallback chain that queries them
+ * Each provider is tried in the configured order; symbols a provider cannot
+ * price fall through to the next one, and every quote records its source
+ */
+
+import { loadSymbolRegistry, symbolToCoinGeckoId } from '@/lib/symbolRegistry';
+import { CURRENCY_CODES, CurrencyCode, valuationCurrency } from '@/lib/currencies';
+
+export type PriceCurrency = CurrencyCode;
+
+export type PriceProviderId = 'coingecko' | 'binance' | 'fixture';
+
+export interface PriceProvider {
+  id: PriceProviderId;
+  label: string;
+  currencies: PriceCurrency[];
+  // Resolves prices for the symbols it can serve; throws when the source is unreachable
+  fetchPrices(symbols: string[], currency: PriceCurrency): Promise<Record<string, number | null>>;
+}
+
+export interface PriceQuote {
+  symbol: string;
+  price: number;
+  currency: PriceCurrency;
+  source: PriceProviderId;
+  fetchedAt: number;
+}
+
+export interface ProviderHealth {
+  id: PriceProviderId;
+  label: string;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  symbolsRequested: number;
+  symbolsServed: number;
+  // Average latency of completed requests in ms
+  averageLatency: number | null;
+  lastLatency: number | null;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+  cooldownUntil: number | null;
+}
+
+const COINGECKO_API_BASE = 'https://api.coingecko.com/api/v3';
+const BINANCE_API_BASE = 'https://api.binance.com/api/v3';
+
+// Rate limiting - CoinGecko free tier allows 30 calls per minute
+const COINGECKO_RATE_LIMIT_DELAY = 3000;
+
+// Requests slower than this count as failures so the chain can move on
+const PROVIDER_TIMEOUT = 10000;
+
+// After this many consecutive failures a provider is skipped for COOLDOWN_DURATION
+const MAX_CONSECUTIVE_FAILURES = 3;
+const COOLDOWN_DURATION = 60000;
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function fetchJson(url: string, label: string) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`${label} API error: ${response.status} ${response.statusText}`);
+    }
+    return await response.json();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`${label} API timed out after ${PROVIDER_TIMEOUT / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * CoinGecko `/simple/price`
+ */
+export const coinGeckoProvider: PriceProvider = {
+  id: 'coingecko',
+  label: 'CoinGecko',
+  currencies: CURRENCY_CODES,
+  async fetchPrices(symbols, currency) {
+    await loadSymbolRegistry();
+    const coinIds = symbols.map(symbolToCoinGeckoId);
+    // Stablecoin quotes are priced in the currency they are pegged to
+    const currencyParam = valuationCurrency(currency).toLowerCase();
+
+    const data = await fetchJson(
+      `${COINGECKO_API_BASE}/simple/price?ids=${coinIds.join(',')}&vs_currencies=${currencyParam}`,
+      'CoinGecko'
+    );
+
+    // Add delay to respect rate limits
+    await delay(COINGECKO_RATE_LIMIT_DELAY);
+
+    return symbols.reduce((acc, symbol, i) => {
+      const price = data[coinIds[i]]?.[currencyParam];
+      acc[symbol] = typeof price === 'number' ? price : null;
+      return acc;
+    }, {} as Record<string, number | null>);
+  },
+};
+
+/**
+ * Binance public ticker, quoting USD prices from USDT pairs (Binance lists no fiat markets)
+ */
+export const binanceProvider: PriceProvider = {
+  id: 'binance',
+  label: 'Binance',
+  currencies: ['USD', 'USDT', 'USDC'],
+  async fetchPrices(symbols) {
+    // The full ticker is a single request; a `symbols=` filter fails outright on any unlisted pair
+    const tickers: { symbol: string; price: string }[] = await fetchJson(
+      `${BINANCE_API_BASE}/ticker/price`,
+      'Binance'
+    );
+    const byPair = new Map(tickers.map(ticker => [ticker.symbol, Number(ticker.price)]));
+
+    return symbols.reduce((acc, symbol) => {
+      const upper = symbol.toUpperCase();
+      const price = upper === 'USDT' ? 1 : byPair.get(`${upper}USDT`);
+      acc[symbol] = price !== undefined && Number.isFinite(price) ? price : null;
+      return acc;
+    }, {} as Record<string, number | null>);
+  },
+};
+
+// Reference USD prices for the fixture provider
+const FIXTURE_USD_PRICES: Record<string, number> = {
+  'BTC': 65000,
+  'ETH': 3200,
+  'BNB': 580,
+  'SOL': 150,
+  'XRP': 0.6,
+  'ADA': 0.45,
+  'DOT': 7,
+  'AVAX': 35,
+  'LINK': 15,
+  'MATIC': 0.7,
+  'LTC': 80,
+  'USDT': 1,
+  'USDC': 1,
+  'BUSD': 1,
+  'DAI': 1,
+};
+
+// Approximate units per USD for fixture prices in other currencies
+const FIXTURE_FX_PER_USD: Partial<Record<CurrencyCode, number>> = {
+  'EUR': 0.92,
+  'GBP': 0.79,
+  'JPY': 150,
+  'PHP': 56,
+  'SGD': 1.35,
+  'HKD': 7.8,
+  'AUD': 1.52,
+  'CAD': 1.36,
+  'CHF': 0.88,
+  'CNY': 7.2,
+  'INR': 83,
+  'KRW': 1350,
+};
+
+/**
+ * Deterministic offline prices for development and tests.
+ * Unknown symbols get a stable price derived from the symbol itself.
+ */
+export const fixtureProvider: PriceProvider = {
+  id: 'fixture',
+  label: 'Local fixture',
+  currencies: CURRENCY_CODES,
+  async fetchPrices(symbols, currency) {
+    const perUsd = FIXTURE_FX_PER_USD[valuationCurrency(currency)] ?? 1;
+    return symbols.reduce((acc, symbol) => {
+      const upper = symbol.toUpperCase();
+      const hash = Array.from(upper).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) % 100000, 7);
+      const usd = FIXTURE_USD_PRICES[upper] ?? (hash % 1000) / 10 + 0.1;
+      acc[symbol] = usd * perUsd;
+      return acc;
+    }, {} as Record<string, number | null>);
+  },
+};
+
+export const PRICE_PROVIDERS: Record<PriceProviderId, PriceProvider> = {
+  coingecko: coinGeckoProvider,
+  binance: binanceProvider,
+  fixture: fixtureProvider,
+};
+
+const DEFAULT_PROVIDER_ORDER: PriceProviderId[] = ['coingecko', 'binance'];
+
+/**
+ * Fallback order from VITE_PRICE_PROVIDERS (comma separated), e.g. `fixture` for offline work
+ */
+function configuredProviderOrder(): PriceProviderId[] {
+  const configured = String(import.meta.env?.VITE_PRICE_PROVIDERS || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter((id): id is PriceProviderId => id in PRICE_PROVIDERS);
+
+  return configured.length > 0 ? Array.from(new Set(configured)) : DEFAULT_PROVIDER_ORDER;
+}
+
+let providerOrder: PriceProviderId[] = configuredProviderOrder();
+
+export function getPriceProviderOrder(): PriceProviderId[] {
+  return [...providerOrder];
+}
+
+export function setPriceProviderOrder(order: PriceProviderId[]): void {
+  const valid = Array.from(new Set(order.filter(id => id in PRICE_PROVIDERS)));
+  if (valid.length === 0) {
+    throw new Error('At least one price provider is required');
+  }
+  providerOrder = valid;
+  console.log(`🔀 Price provider order: ${valid.join(' → ')}`);
+}
+
+const emptyHealth = (provider: PriceProvider): ProviderHealth => ({
+  id: provider.id,
+  label: provider.label,
+  requests: 0,
+  failures: 0,
+  consecutiveFailures: 0,
+  symbolsRequested: 0,
+  symbolsServed: 0,
+  averageLatency: null,
+  lastLatency: null,
+  lastError: null,
+  lastSuccessAt: null,
+  cooldownUntil: null,
+});
+
+const providerHealth: Record<PriceProviderId, ProviderHealth> = {
+  coingecko: emptyHealth(coinGeckoProvider),
+  binance: emptyHealth(binanceProvider),
+  fixture: emptyHealth(fixtureProvider),
+};
+
+function recordLatency(health: ProviderHealth, latency: number) {
+  const completed = health.requests;
+  health.averageLatency = health.averageLatency === null
+    ? latency
+    : (health.averageLatency * (completed - 1) + latency) / completed;
+  health.lastLatency = latency;
+}
+
+/**
+ * Snapshot of per-provider health in the current fallback order first
+ */
+export function getProviderHealth(): ProviderHealth[] {
+  const ordered = [
+    ...providerOrder,
+    ...(Object.keys(PRICE_PROVIDERS) as PriceProviderId[]).filter(id => !providerOrder.includes(id)),
+  ];
+  return ordered.map(id => ({ ...providerHealth[id] }));
+}
+
+/**
+ * Share of requested symbols a provider returned a price for
+ */
+export function providerHitRate(health: ProviderHealth): number | null {
+  return health.symbolsRequested > 0 ? health.symbolsServed / health.symbolsRequested : null;
+}
+
+export function resetProviderHealth(): void {
+  (Object.keys(PRICE_PROVIDERS) as PriceProviderId[]).forEach(id => {
+    providerHealth[id] = emptyHealth(PRICE_PROVIDERS[id]);
+  });
+}
+
+function isCoolingDown(health: ProviderHealth, now: number): boolean {
+  return health.cooldownUntil !== null && health.cooldownUntil > now;
+}
+
+/**
+ * Resolve prices through the fallback chain.
+ * Symbols no provider can price are returned as null.
+ */
+export async function fetchQuotesFromProviders(
+  symbols: string[],
+  currency: PriceCurrency
+): Promise<Record<string, PriceQuote | null>> {
+  const results: Record<string, PriceQuote | null> = {};
+  let remaining = Array.from(new Set(symbols.map(symbol => symbol.toUpperCase())));
+
+  for (const id of providerOrder) {
+    if (remaining.length === 0) break;
+
+    const provider = PRICE_PROVIDERS[id];
+    const health = providerHealth[id];
+    if (!provider.currencies.includes(currency)) continue;
+
+    if (isCoolingDown(health, Date.now())) {
+      console.warn(`⚠️ Skipping ${provider.label}: cooling down after ${health.consecutiveFailures} failures`);
+      continue;
+    }
+
+    const started = Date.now();
+    health.requests += 1;
+    health.symbolsRequested += remaining.length;
+
+    try {
+      console.log(`📡 Fetching ${remaining.length} price(s) in ${currency} from ${provider.label}...`);
+      const prices = await provider.fetchPrices(remaining, currency);
+      recordLatency(health, Date.now() - started);
+
+      const fetchedAt = Date.now();
+      const unresolved: string[] = [];
+      remaining.forEach(symbol => {
+        const price = prices[symbol];
+        if (price !== null && price !== undefined) {
+          results[symbol] = { symbol, price, currency, source: id, fetchedAt };
+          health.symbolsServed += 1;
+        } else {
+          unresolved.push(symbol);
+        }
+      });
+
+      health.consecutiveFailures = 0;
+      health.cooldownUntil = null;
+      health.lastSuccessAt = fetchedAt;
+      remaining = unresolved;
+    } catch (error) {
+      recordLatency(health, Date.now() - started);
+      health.failures += 1;
+      health.consecutiveFailures += 1;
+      health.lastError = error instanceof Error ? error.message : String(error);
+      if (health.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+        health.cooldownUntil = Date.now() + COOLDOWN_DURATION;
+      }
+      console.error(`❌ ${provider.label} price request failed:`, error);
+    }
+  }
+
+  remaining.forEach(symbol => {
+    results[symbol] = null;
+    console.warn(`⚠️ No price data found for ${symbol} in ${currency} from any provider`);
+  });
+
+  return results;
+}
@@ -0,0 +1,162 @@
+/**
+ * Realtime sync
+ * Streams changes to trades, cashflows and bindings into the query caches.
+ * Row level security decides which inserts and updates reach each user;
+ * deletes reach everyone as bare ids.
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Binding, Cashflow, Trade } from '@/types/database';
+import { applyTradeChange } from '@/lib/tradeQueries';
+import { applyCashflowChange, cashflowKeys } from '@/lib/cashflowQueries';
+import { bindingCapacityKey } from '@/lib/bindingTiers';
+import { capitalAccountsKey } from '@/lib/capitalAccounts';
+import { boundTradersKey } from '@/lib/boundTraders';
+
+export type RealtimeStatus = 'connecting' | 'live' | 'offline';
+
+export type RealtimeTable = 'trades' | 'cashflows' | 'bindings';
+
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Record<string, unknown> | null;
+  old: Record<string, unknown> | null;
+}
+
+// Dispatched on `window` with a `RealtimeChange` detail for every change received
+export const REALTIME_CHANGE_EVENT = 'cryptoflow:realtime-change';
+
+export interface RealtimeState {
+  status: RealtimeStatus;
+  lastChangeAt: string | null;
+}
+
+let state: RealtimeState = { status: 'offline', lastChangeAt: null };
+const listeners = new Set<() => void>();
+
+function setState(next: Partial<RealtimeState>) {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener());
+}
+
+export const getRealtimeState = () => state;
+
+export function subscribeRealtimeState(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+interface SyncScope {
+  userId: string;
+  isTrader: boolean;
+  // Whose trades and cashflows are shown: the trader, or the investor's selected traders
+  ownerIds: string[];
+}
+
+const rowOrNull = (row: object | undefined) =>
+  row && Object.keys(row).length > 0 ? row as Record<string, unknown> : null;
+
+/**
+ * Subscribe to changes in the user's scope; returns the unsubscribe function
+ */
+export function startRealtimeSync(queryClient: QueryClient, scope: SyncScope): () => void {
+  const handle = (table: RealtimeTable) => (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+    const change: RealtimeChange = {
+      table,
+      eventType: payload.eventType,
+      new: rowOrNull(payload.new),
+      old: rowOrNull(payload.old),
+    };
+    const ownerId = (change.new?.user_id || change.old?.user_id) as string | undefined;
+    // With row level security on, delete events carry only the id, so the
+    // row is removed from every owner's cache in scope
+    const owners = ownerId ? [ownerId] : change.eventType === 'DELETE' ? scope.ownerIds : [];
+
+    if (table === 'trades') {
+      owners.forEach(owner =>
+        applyTradeChange(queryClient, owner, change.eventType, change.new as unknown as Trade | null, change.old as Partial<Trade> | null)
+      );
+    } else if (table === 'cashflows') {
+      const id = (change.new?.id || change.old?.id) as string | undefined;
+      owners.forEach(owner => {
+        const held = queryClient.getQueryData<Cashflow[]>(cashflowKeys.history(owner))?.some(cashflow => cashflow.id === id);
+        applyCashflowChange(queryClient, owner, change.eventType, change.new as unknown as Cashflow | null, change.old as Partial<Cashflow> | null);
+        // The fund's value, and so its NAV and accrued fees, follow its flows
+        if (ownerId || held) queryClient.invalidateQueries({ queryKey: capitalAccountsKey(owner) });
+      });
+    } else if (table === 'bindings') {
+      // Approvals and revocations change whose trades an investor sees
+      const binding = (change.new || change.old) as Partial<Binding> | null;
+      if (binding?.investor_id) queryClient.invalidateQueries({ queryKey: boundTradersKey(binding.investor_id) });
+      if (binding?.trader_id) {
+        queryClient.invalidateQueries({ queryKey: bindingCapacityKey(binding.trader_id) });
+        queryClient.invalidateQueries({ queryKey: capitalAccountsKey(binding.trader_id) });
+      }
+    }
+
+    setState({ lastChangeAt: new Date().toISOString() });
+    window.dispatchEvent(new CustomEvent<RealtimeChange>(REALTIME_CHANGE_EVENT, { detail: change }));
+  };
+
+  const bindingColumn = scope.isTrader ? 'trader_id' : 'investor_id';
+  const ownerFilter = scope.ownerIds.length === 1
+    ? `user_id=eq.${scope.ownerIds[0]}`
+    : `user_id=in.(${scope.ownerIds.join(',')})`;
+  let channel = supabase
+    .channel(`sync:${scope.userId}:${scope.ownerIds.join(',') || 'none'}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'bindings',
+      filter: `${bindingColumn}=eq.${scope.userId}`,
+    }, handle('bindings'));
+
+  if (scope.ownerIds.length > 0) {
+    (['trades', 'cashflows'] as const).forEach(table => {
+      channel = channel
+        .on('postgres_changes', {
+          event: 'INSERT',
+          schema: 'public',
+          table,
+          filter: ownerFilter,
+        }, handle(table))
+        .on('postgres_changes', {
+          event: 'UPDATE',
+          schema: 'public',
+          table,
+          filter: ownerFilter,
+        }, handle(table))
+        // Deletes cannot be filtered and are not scoped by row level
+        // security: every delete in the table arrives, with only its id
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, handle(table));
+    });
+  }
+
+  // Status callbacks from a channel that was already removed are ignored
+  let active = true;
+  setState({ status: 'connecting' });
+
+  channel.subscribe((status, error) => {
+    if (!active) return;
+    if (status === 'SUBSCRIBED') {
+      console.log('✅ Realtime sync connected');
+      setState({ status: 'live' });
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.warn('⚠️ Realtime sync interrupted:', status, error);
+      setState({ status: 'connecting' });
+    } else if (status === 'CLOSED') {
+      setState({ status: 'offline' });
+    }
+  });
+
+  return () => {
+    active = false;
+    supabase.removeChannel(channel);
+    setState({ status: 'offline' });
+  };
+}
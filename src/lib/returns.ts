@@ -0,0 +1,304 @@
+/**
+ * Returns engine
+ * Measures portfolio performance net of deposits and withdrawals: time-weighted
+ * return (TWR), modified Dietz and money-weighted return (IRR) over any period
+ */
+
+import { addDays, buildEquityCurve, toDateKey } from '@/lib/priceHistory';
+import { Cashflow, Trade } from '@/types/database';
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * End-of-day account value. `flow` is the external cashflow booked at the start
+ * of that day (deposits positive, withdrawals negative) and is included in `value`.
+ */
+export interface ValuationPoint {
+  date: string; // yyyy-MM-dd (UTC)
+  value: number;
+  flow: number;
+}
+
+export interface PeriodReturn {
+  label: string;
+  start: string;
+  end: string;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  gain: number;
+  // Linked sub-period returns split at each cashflow
+  twr: number | null;
+  modifiedDietz: number | null;
+  // IRR over the period and its annualized rate
+  mwr: number | null;
+  irrAnnualized: number | null;
+}
+
+export type ReturnPeriodUnit = 'month' | 'year';
+
+/**
+ * Daily account value replayed from trades and cashflows.
+ * Cash starts at zero and moves with deposits, withdrawals, spot buys and sells,
+ * fees and realized P&L; spot holdings are marked at each day's close and other
+ * investments are carried at initial investment plus recorded P&L.
+ */
+export function buildValuationSeries(
+  trades: Trade[],
+  cashflows: Cashflow[],
+  series: Record<string, Map<string, number>>,
+  until: Date = new Date()
+): ValuationPoint[] {
+  const dates = [
+    ...trades.map(trade => toDateKey(trade.trade_date)),
+    ...cashflows.map(cashflow => toDateKey(cashflow.transaction_date)),
+  ].sort();
+  if (dates.length === 0) return [];
+
+  const cashByDay = new Map<string, number>();
+  const flowByDay = new Map<string, number>();
+  const investedByDay = new Map<string, number>();
+  const addTo = (map: Map<string, number>, day: string, amount: number) =>
+    map.set(day, (map.get(day) || 0) + amount);
+
+  cashflows.forEach(cashflow => {
+    const day = toDateKey(cashflow.transaction_date);
+    const amount = cashflow.type === 'withdrawal' ? -cashflow.amount : cashflow.amount;
+    addTo(flowByDay, day, amount);
+    addTo(cashByDay, day, amount);
+  });
+
+  trades.forEach(trade => {
+    const day = toDateKey(trade.trade_date);
+    const notional = trade.price * trade.quantity;
+    const fees = trade.fees || 0;
+
+    if (trade.category === 'spot') {
+      addTo(cashByDay, day, trade.details?.buy_sell === 'sell' ? notional - fees : -notional - fees);
+    } else if (trade.category === 'futures') {
+      addTo(cashByDay, day, (trade.profit_loss || 0) - fees);
+    } else {
+      // Investment leaves cash and is carried at principal plus recorded P&L
+      addTo(cashByDay, day, -notional - fees);
+      addTo(investedByDay, day, notional + (trade.profit_loss || 0));
+    }
+  });
+
+  const spotValue = new Map(
+    buildEquityCurve(trades, series, until).map(point => [point.date, point.marketValue])
+  );
+
+  const points: ValuationPoint[] = [];
+  const endKey = toDateKey(until);
+  let cash = 0;
+  let invested = 0;
+  let holdings = 0;
+
+  for (let day = dates[0]; day <= endKey; day = addDays(day, 1)) {
+    cash += cashByDay.get(day) || 0;
+    invested += investedByDay.get(day) || 0;
+    holdings = spotValue.get(day) ?? holdings;
+    points.push({ date: day, value: cash + invested + holdings, flow: flowByDay.get(day) || 0 });
+  }
+
+  return points;
+}
+
+/**
+ * Slice a valuation series to [start, end]; returns the opening value
+ * (end of the day before `start`) with the points inside the period
+ */
+function periodSlice(points: ValuationPoint[], start: string, end: string) {
+  let startValue = 0;
+  const inPeriod: ValuationPoint[] = [];
+
+  for (const point of points) {
+    if (point.date < start) startValue = point.value;
+    else if (point.date <= end) inPeriod.push(point);
+  }
+
+  return { startValue, inPeriod };
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * Time-weighted return: the period is split at every cashflow and the
+ * sub-period returns are chained, so the size and timing of flows do not matter.
+ * Sub-periods that start with no capital are skipped.
+ */
+export function timeWeightedReturn(points: ValuationPoint[], start: string, end: string): number | null {
+  const { startValue, inPeriod } = periodSlice(points, start, end);
+  if (inPeriod.length === 0) return null;
+
+  let growth = 1;
+  let measured = false;
+  let base = startValue;
+  let previousValue = startValue;
+
+  const closeSubPeriod = () => {
+    if (base <= 0) return;
+    growth *= previousValue / base;
+    measured = true;
+  };
+
+  inPeriod.forEach(point => {
+    if (point.flow !== 0) {
+      // The flow lands before the day's trading: close the sub-period at the prior close
+      closeSubPeriod();
+      base = previousValue + point.flow;
+    }
+    previousValue = point.value;
+  });
+  closeSubPeriod();
+
+  return measured ? growth - 1 : null;
+}
+
+/**
+ * Modified Dietz: gain over average capital, each flow weighted by the share
+ * of the period it was invested for
+ */
+export function modifiedDietzReturn(points: ValuationPoint[], start: string, end: string): number | null {
+  const { startValue, inPeriod } = periodSlice(points, start, end);
+  if (inPeriod.length === 0) return null;
+
+  const totalDays = daysBetween(start, end) + 1;
+  const endValue = inPeriod[inPeriod.length - 1].value;
+  let netFlows = 0;
+  let weightedFlows = 0;
+
+  inPeriod.forEach(point => {
+    if (point.flow === 0) return;
+    netFlows += point.flow;
+    weightedFlows += point.flow * ((daysBetween(point.date, end) + 1) / totalDays);
+  });
+
+  const averageCapital = startValue + weightedFlows;
+  if (averageCapital <= 0) return null;
+
+  return (endValue - startValue - netFlows) / averageCapital;
+}
+
+/**
+ * Annualized internal rate of return of dated cashflows (investor's view:
+ * money in is negative, money out positive). Newton's method with a bisection
+ * fallback; null when no rate solves the cashflows.
+ */
+export function internalRateOfReturn(flows: { years: number; amount: number }[]): number | null {
+  if (!flows.some(flow => flow.amount > 0) || !flows.some(flow => flow.amount < 0)) return null;
+
+  const npv = (rate: number) =>
+    flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.years), 0);
+  const derivative = (rate: number) =>
+    flows.reduce((sum, flow) => sum - (flow.years * flow.amount) / Math.pow(1 + rate, flow.years + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+
+    const next = rate - value / slope;
+    if (next <= -1 || !isFinite(next)) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Bisection over a wide bracket when Newton does not converge
+  let low = -0.9999;
+  let high = 1e6;
+  if (npv(low) * npv(high) > 0) return null;
+
+  for (let i = 0; i < 300; i++) {
+    const mid = (low + high) / 2;
+    const value = npv(mid);
+    if (Math.abs(value) < 1e-9) return mid;
+    if (npv(low) * value < 0) high = mid;
+    else low = mid;
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Money-weighted return for a period: the opening value and each deposit go in,
+ * withdrawals and the closing value come out
+ */
+export function moneyWeightedReturn(
+  points: ValuationPoint[],
+  start: string,
+  end: string
+): { mwr: number | null; irrAnnualized: number | null } {
+  const { startValue, inPeriod } = periodSlice(points, start, end);
+  if (inPeriod.length === 0) return { mwr: null, irrAnnualized: null };
+
+  // Time from the start of the period; the closing value is taken at the end of `end`
+  const years = (date: string) => daysBetween(start, date) / DAYS_PER_YEAR;
+  const closing = years(addDays(end, 1));
+
+  const flows = [{ years: 0, amount: -startValue }];
+  inPeriod.forEach(point => {
+    if (point.flow !== 0) flows.push({ years: years(point.date), amount: -point.flow });
+  });
+  flows.push({ years: closing, amount: inPeriod[inPeriod.length - 1].value });
+
+  const irrAnnualized = internalRateOfReturn(flows);
+  if (irrAnnualized === null) return { mwr: null, irrAnnualized: null };
+
+  return {
+    mwr: Math.pow(1 + irrAnnualized, closing) - 1,
+    irrAnnualized,
+  };
+}
+
+/**
+ * Every return measure for one period
+ */
+export function computePeriodReturn(
+  points: ValuationPoint[],
+  start: string,
+  end: string,
+  label = `${start} – ${end}`
+): PeriodReturn {
+  const { startValue, inPeriod } = periodSlice(points, start, end);
+  const endValue = inPeriod.length > 0 ? inPeriod[inPeriod.length - 1].value : startValue;
+  const netFlows = inPeriod.reduce((sum, point) => sum + point.flow, 0);
+
+  return {
+    label,
+    start,
+    end,
+    startValue,
+    endValue,
+    netFlows,
+    gain: endValue - startValue - netFlows,
+    twr: timeWeightedReturn(points, start, end),
+    modifiedDietz: modifiedDietzReturn(points, start, end),
+    ...moneyWeightedReturn(points, start, end),
+  };
+}
+
+/**
+ * Returns broken down by calendar month or year, oldest first.
+ * The first and last periods are clipped to the series.
+ */
+export function returnsByPeriod(points: ValuationPoint[], unit: ReturnPeriodUnit): PeriodReturn[] {
+  if (points.length === 0) return [];
+
+  const keyLength = unit === 'month' ? 7 : 4;
+  const periods: PeriodReturn[] = [];
+  let periodStart = points[0].date;
+
+  points.forEach((point, index) => {
+    const next = points[index + 1];
+    if (next && next.date.slice(0, keyLength) === point.date.slice(0, keyLength)) return;
+
+    periods.push(computePeriodReturn(points, periodStart, point.date, point.date.slice(0, keyLength)));
+    if (next) periodStart = next.date;
+  });
+
+  return periods;
+}
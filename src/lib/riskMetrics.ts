@@ -0,0 +1,314 @@
+/**
+ * Risk metrics
+ * Drawdown, volatility and risk-adjusted ratios over a daily account value
+ * series, plus per-asset and per-category exposure of open positions
+ */
+
+import { buildFuturesPositions } from '@/lib/futuresPositions';
+import { priceFromSeries } from '@/lib/priceHistory';
+import { ValuationPoint } from '@/lib/returns';
+import { Trade, TradeCategory } from '@/types/database';
+
+// Crypto trades every day of the year
+export const PERIODS_PER_YEAR = 365;
+
+export const DEFAULT_VOLATILITY_WINDOW = 30;
+
+export interface DailyReturn {
+  date: string;
+  return: number;
+}
+
+export interface DrawdownPoint {
+  date: string;
+  // Growth of 1 unit invested at the start, net of deposits and withdrawals
+  wealthIndex: number;
+  // Fall from the running peak (0 at a new high, -0.25 = 25% below the peak)
+  drawdown: number;
+}
+
+export interface DrawdownStats {
+  maxDrawdown: number;
+  peakDate: string | null;
+  troughDate: string | null;
+  recoveryDate: string | null;
+  // Peak to recovery, or to the last day when not yet recovered
+  maxDrawdownDays: number;
+  longestDrawdownDays: number;
+  currentDrawdown: number;
+}
+
+export interface RiskMetrics extends DrawdownStats {
+  days: number;
+  totalReturn: number;
+  annualizedReturn: number | null;
+  annualizedVolatility: number | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  calmarRatio: number | null;
+}
+
+export interface ExposureSlice {
+  key: string;
+  // Signed market value (short futures are negative)
+  value: number;
+  // Share of gross exposure
+  weight: number;
+}
+
+export interface ExposureBreakdown {
+  byAsset: ExposureSlice[];
+  byCategory: ExposureSlice[];
+  grossExposure: number;
+  netExposure: number;
+  // Herfindahl-Hirschman index of asset weights: 1 = a single asset
+  concentration: number;
+  // 1 / HHI: how many equally weighted assets the book behaves like
+  effectiveAssets: number;
+}
+
+/**
+ * Daily returns net of external flows. Flows are booked at the start of the day,
+ * so each day's return is measured against the prior close plus that day's flow.
+ */
+export function dailyReturns(points: ValuationPoint[]): DailyReturn[] {
+  const returns: DailyReturn[] = [];
+  let previousValue = 0;
+
+  points.forEach(point => {
+    const base = previousValue + point.flow;
+    if (base > 0) returns.push({ date: point.date, return: point.value / base - 1 });
+    previousValue = point.value;
+  });
+
+  return returns;
+}
+
+/**
+ * Underwater curve of a return series
+ */
+export function drawdownSeries(returns: DailyReturn[]): DrawdownPoint[] {
+  let wealthIndex = 1;
+  let peak = 1;
+
+  return returns.map(({ date, return: dailyReturn }) => {
+    wealthIndex *= 1 + dailyReturn;
+    peak = Math.max(peak, wealthIndex);
+    return { date, wealthIndex, drawdown: wealthIndex / peak - 1 };
+  });
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * Deepest drawdown with its dates, and the longest stretch spent below a peak
+ */
+export function drawdownStats(drawdowns: DrawdownPoint[]): DrawdownStats {
+  const stats: DrawdownStats = {
+    maxDrawdown: 0,
+    peakDate: null,
+    troughDate: null,
+    recoveryDate: null,
+    maxDrawdownDays: 0,
+    longestDrawdownDays: 0,
+    currentDrawdown: drawdowns.length > 0 ? drawdowns[drawdowns.length - 1].drawdown : 0,
+  };
+  if (drawdowns.length === 0) return stats;
+
+  const lastDate = drawdowns[drawdowns.length - 1].date;
+  let peakDate = drawdowns[0].date;
+  let underwaterSince: string | null = null;
+
+  drawdowns.forEach(point => {
+    if (point.drawdown >= 0) {
+      if (underwaterSince) {
+        stats.longestDrawdownDays = Math.max(stats.longestDrawdownDays, daysBetween(underwaterSince, point.date));
+        if (stats.peakDate === underwaterSince && !stats.recoveryDate) stats.recoveryDate = point.date;
+        underwaterSince = null;
+      }
+      peakDate = point.date;
+      return;
+    }
+
+    if (!underwaterSince) underwaterSince = peakDate;
+    if (point.drawdown < stats.maxDrawdown) {
+      stats.maxDrawdown = point.drawdown;
+      stats.peakDate = peakDate;
+      stats.troughDate = point.date;
+      stats.recoveryDate = null;
+    }
+  });
+
+  if (underwaterSince) {
+    stats.longestDrawdownDays = Math.max(stats.longestDrawdownDays, daysBetween(underwaterSince, lastDate));
+  }
+  if (stats.peakDate) {
+    stats.maxDrawdownDays = daysBetween(stats.peakDate, stats.recoveryDate || lastDate);
+  }
+
+  return stats;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const average = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Annualized standard deviation of daily returns
+ */
+export function annualizedVolatility(returns: DailyReturn[]): number | null {
+  const deviation = standardDeviation(returns.map(r => r.return));
+  return deviation === null ? null : deviation * Math.sqrt(PERIODS_PER_YEAR);
+}
+
+/**
+ * Annualized volatility over a trailing window ending on each day
+ */
+export function rollingVolatility(
+  returns: DailyReturn[],
+  window: number = DEFAULT_VOLATILITY_WINDOW
+): { date: string; volatility: number }[] {
+  const points: { date: string; volatility: number }[] = [];
+
+  for (let i = window - 1; i < returns.length; i++) {
+    const volatility = annualizedVolatility(returns.slice(i - window + 1, i + 1));
+    if (volatility !== null) points.push({ date: returns[i].date, volatility });
+  }
+
+  return points;
+}
+
+/**
+ * Annualized Sharpe ratio; `riskFreeRate` is an annual rate
+ */
+export function sharpeRatio(returns: DailyReturn[], riskFreeRate = 0): number | null {
+  const excess = returns.map(r => r.return - riskFreeRate / PERIODS_PER_YEAR);
+  const deviation = standardDeviation(excess);
+  if (!deviation) return null;
+  return (mean(excess) / deviation) * Math.sqrt(PERIODS_PER_YEAR);
+}
+
+/**
+ * Annualized Sortino ratio: like Sharpe, but only returns below the risk-free
+ * rate count as risk
+ */
+export function sortinoRatio(returns: DailyReturn[], riskFreeRate = 0): number | null {
+  if (returns.length < 2) return null;
+  const excess = returns.map(r => r.return - riskFreeRate / PERIODS_PER_YEAR);
+  const downsideDeviation = Math.sqrt(mean(excess.map(value => Math.min(0, value) ** 2)));
+  if (!downsideDeviation) return null;
+  return (mean(excess) / downsideDeviation) * Math.sqrt(PERIODS_PER_YEAR);
+}
+
+/**
+ * Every risk measure for an account value series
+ */
+export function computeRiskMetrics(points: ValuationPoint[], riskFreeRate = 0): RiskMetrics {
+  const returns = dailyReturns(points);
+  const drawdowns = drawdownSeries(returns);
+  const stats = drawdownStats(drawdowns);
+
+  const totalReturn = drawdowns.length > 0 ? drawdowns[drawdowns.length - 1].wealthIndex - 1 : 0;
+  const annualizedReturn = returns.length > 0
+    ? Math.pow(1 + totalReturn, PERIODS_PER_YEAR / returns.length) - 1
+    : null;
+
+  return {
+    ...stats,
+    days: returns.length,
+    totalReturn,
+    annualizedReturn,
+    annualizedVolatility: annualizedVolatility(returns),
+    sharpeRatio: sharpeRatio(returns, riskFreeRate),
+    sortinoRatio: sortinoRatio(returns, riskFreeRate),
+    calmarRatio: annualizedReturn !== null && stats.maxDrawdown < 0
+      ? annualizedReturn / Math.abs(stats.maxDrawdown)
+      : null,
+  };
+}
+
+function toSlices(values: Record<string, number>, gross: number): ExposureSlice[] {
+  return Object.entries(values)
+    .filter(([, value]) => Math.abs(value) > 1e-9)
+    .map(([key, value]) => ({ key, value, weight: gross > 0 ? Math.abs(value) / gross : 0 }))
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+}
+
+/**
+ * Exposure of open positions: spot holdings at the latest close (average cost
+ * when unpriced), open futures at entry notional and other investments at
+ * principal plus recorded P&L
+ */
+export function computeExposure(
+  trades: Trade[],
+  series: Record<string, Map<string, number>> = {},
+  asOf: Date = new Date()
+): ExposureBreakdown {
+  const byAsset: Record<string, number> = {};
+  const byCategory: Record<string, number> = {};
+  const add = (asset: string, category: TradeCategory, value: number) => {
+    byAsset[asset] = (byAsset[asset] || 0) + value;
+    byCategory[category] = (byCategory[category] || 0) + value;
+  };
+
+  const spot: Record<string, { quantity: number; cost: number }> = {};
+  [...trades]
+    .filter(trade => trade.category === 'spot')
+    .sort((a, b) => new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime())
+    .forEach(trade => {
+      const asset = trade.asset.toUpperCase();
+      const holding = spot[asset] || (spot[asset] = { quantity: 0, cost: 0 });
+      if (trade.details?.buy_sell === 'sell') {
+        const sold = Math.min(trade.quantity, holding.quantity);
+        const averageCost = holding.quantity > 0 ? holding.cost / holding.quantity : 0;
+        holding.cost -= averageCost * sold;
+        holding.quantity -= sold;
+      } else {
+        holding.quantity += trade.quantity;
+        holding.cost += trade.price * trade.quantity + (trade.fees || 0);
+      }
+    });
+
+  Object.entries(spot).forEach(([asset, holding]) => {
+    if (holding.quantity <= 1e-12) return;
+    const close = series[asset] ? priceFromSeries(series[asset], asOf) : null;
+    add(asset, 'spot', close !== null ? holding.quantity * close : holding.cost);
+  });
+
+  buildFuturesPositions(trades.filter(trade => trade.category === 'futures'))
+    .filter(position => position.status === 'open')
+    .forEach(position => {
+      const notional = position.size * position.entryPrice;
+      add(position.asset.toUpperCase(), 'futures', position.side === 'short' ? -notional : notional);
+    });
+
+  trades
+    .filter(trade => trade.category !== 'spot' && trade.category !== 'futures')
+    .forEach(trade => {
+      add(trade.asset.toUpperCase(), trade.category, trade.price * trade.quantity + (trade.profit_loss || 0));
+    });
+
+  const assetValues = Object.values(byAsset);
+  const grossExposure = assetValues.reduce((sum, value) => sum + Math.abs(value), 0);
+  const netExposure = assetValues.reduce((sum, value) => sum + value, 0);
+  const assetSlices = toSlices(byAsset, grossExposure);
+  const concentration = assetSlices.reduce((sum, slice) => sum + slice.weight ** 2, 0);
+
+  return {
+    byAsset: assetSlices,
+    byCategory: toSlices(byCategory, Object.values(byCategory).reduce((sum, value) => sum + Math.abs(value), 0)),
+    grossExposure,
+    netExposure,
+    concentration,
+    effectiveAssets: concentration > 0 ? 1 / concentration : 0,
+  };
+}
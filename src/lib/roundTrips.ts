@@ -0,0 +1,309 @@
+/**
+ * Round-trip reconstruction
+ * Pairs entries with exits per asset and category: a spot round trip runs from
+ * flat to flat, a futures round trip is one position from open to close
+ */
+
+import { buildFuturesPositions } from '@/lib/futuresPositions';
+import { toDateKey } from '@/lib/priceHistory';
+import { PositionSide, Trade } from '@/types/database';
+
+// Quantities below this are treated as flat (floating point dust)
+const QUANTITY_EPSILON = 1e-12;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface RoundTrip {
+  id: string;
+  asset: string;
+  category: 'spot' | 'futures';
+  side: PositionSide;
+  status: 'open' | 'closed';
+  openedAt: string;
+  closedAt: string | null;
+  holdingDays: number | null;
+  // Largest size held during the trip
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number | null;
+  fees: number;
+  // Realized P&L net of fees (partial exits count while the trip is open)
+  pnl: number;
+  returnPct: number | null;
+  // Money at risk between the first entry and its stop loss
+  initialRisk: number | null;
+  rMultiple: number | null;
+  // Worst and best close while held, relative to the entry price
+  mae: number | null;
+  mfe: number | null;
+  tradeIds: string[];
+}
+
+export interface HoldingTimeBucket {
+  label: string;
+  maxDays: number;
+  count: number;
+  pnl: number;
+}
+
+export interface RoundTripSummary {
+  closedCount: number;
+  openCount: number;
+  winRate: number;
+  avgHoldingDays: number;
+  medianHoldingDays: number;
+  avgPnL: number;
+  avgRMultiple: number | null;
+}
+
+const HOLDING_BUCKETS: Array<{ label: string; maxDays: number }> = [
+  { label: '< 1h', maxDays: 1 / 24 },
+  { label: '1h – 1d', maxDays: 1 },
+  { label: '1 – 7d', maxDays: 7 },
+  { label: '1 – 4w', maxDays: 28 },
+  { label: '1 – 3mo', maxDays: 91 },
+  { label: '3 – 12mo', maxDays: 365 },
+  { label: '> 1y', maxDays: Infinity },
+];
+
+function holdingDays(openedAt: string, closedAt: string): number {
+  return Math.max(0, (new Date(closedAt).getTime() - new Date(openedAt).getTime()) / MS_PER_DAY);
+}
+
+function initialRisk(entryPrice: number, quantity: number, stopLoss: unknown): number | null {
+  if (typeof stopLoss !== 'number' || stopLoss <= 0) return null;
+  const risk = Math.abs(entryPrice - stopLoss) * quantity;
+  return risk > 0 ? risk : null;
+}
+
+function finishTrip(trip: Omit<RoundTrip, 'returnPct' | 'rMultiple'>): RoundTrip {
+  const entryCost = trip.entryPrice * trip.quantity;
+  return {
+    ...trip,
+    returnPct: trip.status === 'closed' && entryCost > 0 ? trip.pnl / entryCost : null,
+    rMultiple: trip.status === 'closed' && trip.initialRisk ? trip.pnl / trip.initialRisk : null,
+  };
+}
+
+/**
+ * Spot round trips: a trip opens on a buy from flat and closes when sells bring
+ * the holding back to zero. Sells without holdings are ignored.
+ */
+function buildSpotRoundTrips(trades: Trade[]): RoundTrip[] {
+  const sorted = trades
+    .filter(trade => trade.category === 'spot')
+    .sort((a, b) => new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime());
+
+  const trips: RoundTrip[] = [];
+  const open: Record<string, {
+    trip: Omit<RoundTrip, 'returnPct' | 'rMultiple'>;
+    quantity: number;
+    cost: number;
+    entryQuantity: number;
+    entryNotional: number;
+    exitQuantity: number;
+    exitNotional: number;
+  }> = {};
+
+  sorted.forEach(trade => {
+    const asset = trade.asset.toUpperCase();
+    const fees = trade.fees || 0;
+    let state = open[asset];
+
+    if (trade.details?.buy_sell !== 'sell') {
+      if (!state) {
+        state = open[asset] = {
+          trip: {
+            id: trade.id,
+            asset,
+            category: 'spot',
+            side: 'long',
+            status: 'open',
+            openedAt: trade.trade_date,
+            closedAt: null,
+            holdingDays: null,
+            quantity: 0,
+            entryPrice: trade.price,
+            exitPrice: null,
+            fees: 0,
+            pnl: 0,
+            initialRisk: initialRisk(trade.price, trade.quantity, trade.details?.stop_loss),
+            mae: null,
+            mfe: null,
+            tradeIds: [],
+          },
+          quantity: 0,
+          cost: 0,
+          entryQuantity: 0,
+          entryNotional: 0,
+          exitQuantity: 0,
+          exitNotional: 0,
+        };
+      }
+
+      state.quantity += trade.quantity;
+      state.cost += trade.price * trade.quantity + fees;
+      state.entryQuantity += trade.quantity;
+      state.entryNotional += trade.price * trade.quantity;
+      state.trip.quantity = Math.max(state.trip.quantity, state.quantity);
+      state.trip.entryPrice = state.entryNotional / state.entryQuantity;
+      state.trip.fees += fees;
+      state.trip.tradeIds.push(trade.id);
+      return;
+    }
+
+    if (!state) return;
+
+    const sold = Math.min(trade.quantity, state.quantity);
+    const averageCost = state.cost / state.quantity;
+    const sellFees = trade.quantity > 0 ? fees * (sold / trade.quantity) : 0;
+
+    state.trip.pnl += sold * trade.price - averageCost * sold - sellFees;
+    state.trip.fees += sellFees;
+    state.trip.tradeIds.push(trade.id);
+    state.cost -= averageCost * sold;
+    state.quantity -= sold;
+    state.exitQuantity += sold;
+    state.exitNotional += sold * trade.price;
+    state.trip.exitPrice = state.exitNotional / state.exitQuantity;
+
+    if (state.quantity <= QUANTITY_EPSILON) {
+      state.trip.status = 'closed';
+      state.trip.closedAt = trade.trade_date;
+      state.trip.holdingDays = holdingDays(state.trip.openedAt, trade.trade_date);
+      trips.push(finishTrip(state.trip));
+      delete open[asset];
+    }
+  });
+
+  Object.values(open).forEach(state => trips.push(finishTrip(state.trip)));
+  return trips;
+}
+
+/**
+ * Futures round trips: one per position built by the futures engine
+ */
+function buildFuturesRoundTrips(trades: Trade[]): RoundTrip[] {
+  const futuresTrades = trades.filter(trade => trade.category === 'futures');
+  const byId = new Map(futuresTrades.map(trade => [trade.id, trade]));
+
+  return buildFuturesPositions(futuresTrades).map(position => {
+    const opening = position.events[0];
+    const openingTrade = opening?.tradeId ? byId.get(opening.tradeId) : undefined;
+
+    return finishTrip({
+      id: position.id,
+      asset: position.asset.toUpperCase(),
+      category: 'futures',
+      side: position.side,
+      status: position.status,
+      openedAt: position.openedAt,
+      closedAt: position.closedAt || null,
+      holdingDays: position.closedAt ? holdingDays(position.openedAt, position.closedAt) : null,
+      quantity: position.maxSize,
+      entryPrice: position.entryPrice,
+      exitPrice: position.exitPrice,
+      fees: position.fees,
+      pnl: position.realizedPnL,
+      initialRisk: opening
+        ? initialRisk(opening.price, opening.quantity, openingTrade?.details?.stop_loss)
+        : null,
+      mae: null,
+      mfe: null,
+      tradeIds: position.events.map(event => event.tradeId).filter((id): id is string => !!id),
+    });
+  });
+}
+
+/**
+ * Every spot and futures round trip, oldest first
+ */
+export function buildRoundTrips(trades: Trade[]): RoundTrip[] {
+  return [...buildSpotRoundTrips(trades), ...buildFuturesRoundTrips(trades)]
+    .sort((a, b) => new Date(a.openedAt).getTime() - new Date(b.openedAt).getTime());
+}
+
+/**
+ * Maximum adverse and favourable excursion from stored daily closes.
+ * Trips opened and closed on the same day, or without a close inside their
+ * holding window, keep null excursions.
+ */
+export function withExcursions(
+  trips: RoundTrip[],
+  series: Record<string, Map<string, number>>,
+  asOf: Date = new Date()
+): RoundTrip[] {
+  return trips.map(trip => {
+    const closes = series[trip.asset];
+    if (!closes || trip.entryPrice <= 0) return trip;
+
+    const from = toDateKey(trip.openedAt);
+    const to = toDateKey(trip.closedAt || asOf);
+    if (trip.closedAt && from === to) return trip;
+
+    let low = Infinity;
+    let high = -Infinity;
+
+    closes.forEach((close, date) => {
+      if (date < from || date > to) return;
+      low = Math.min(low, close);
+      high = Math.max(high, close);
+    });
+    if (low === Infinity) return trip;
+
+    const lowMove = low / trip.entryPrice - 1;
+    const highMove = high / trip.entryPrice - 1;
+    const long = trip.side === 'long';
+
+    return {
+      ...trip,
+      mae: Math.min(0, long ? lowMove : -highMove),
+      mfe: Math.max(0, long ? highMove : -lowMove),
+    };
+  });
+}
+
+/**
+ * Closed round trips grouped by how long they were held
+ */
+export function holdingTimeHistogram(trips: RoundTrip[]): HoldingTimeBucket[] {
+  const buckets = HOLDING_BUCKETS.map(bucket => ({ ...bucket, count: 0, pnl: 0 }));
+
+  trips.forEach(trip => {
+    if (trip.holdingDays === null) return;
+    const bucket = buckets.find(b => trip.holdingDays! < b.maxDays) || buckets[buckets.length - 1];
+    bucket.count += 1;
+    bucket.pnl += trip.pnl;
+  });
+
+  return buckets;
+}
+
+export function summarizeRoundTrips(trips: RoundTrip[]): RoundTripSummary {
+  const closed = trips.filter(trip => trip.status === 'closed');
+  const holding = closed.map(trip => trip.holdingDays || 0).sort((a, b) => a - b);
+  const rMultiples = closed.map(trip => trip.rMultiple).filter((r): r is number => r !== null);
+  const middle = Math.floor(holding.length / 2);
+
+  return {
+    closedCount: closed.length,
+    openCount: trips.length - closed.length,
+    winRate: closed.length > 0 ? (closed.filter(trip => trip.pnl > 0).length / closed.length) * 100 : 0,
+    avgHoldingDays: holding.length > 0 ? holding.reduce((sum, days) => sum + days, 0) / holding.length : 0,
+    medianHoldingDays: holding.length === 0
+      ? 0
+      : holding.length % 2 ? holding[middle] : (holding[middle - 1] + holding[middle]) / 2,
+    avgPnL: closed.length > 0 ? closed.reduce((sum, trip) => sum + trip.pnl, 0) / closed.length : 0,
+    avgRMultiple: rMultiples.length > 0 ? rMultiples.reduce((sum, r) => sum + r, 0) / rMultiples.length : null,
+  };
+}
+
+/**
+ * Compact holding time, e.g. `45m`, `6h`, `3.5d`
+ */
+export function formatHoldingPeriod(days: number | null): string {
+  if (days === null) return '—';
+  if (days < 1 / 24) return `${Math.round(days * 24 * 60)}m`;
+  if (days < 1) return `${Math.round(days * 24)}h`;
+  return `${days < 10 ? days.toFixed(1) : Math.round(days)}d`;
+}
@@ -0,0 +1,130 @@
+/**
+ * Trade screenshot storage
+ * Chart screenshots live in the private `trade-screenshots` Supabase Storage
+ * bucket under `<user_id>/<trade_id>/`. A local in-memory store stands in for
+ * offline work and tests (VITE_SCREENSHOT_STORAGE=local).
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export const SCREENSHOT_BUCKET = 'trade-screenshots';
+
+// Signed URLs are requested per view, so they only need to outlive the page
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+export const ACCEPTED_SCREENSHOT_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+export interface ScreenshotStore {
+  id: 'supabase' | 'local';
+  upload(userId: string, tradeId: string, file: File): Promise<string>;
+  getUrls(paths: string[]): Promise<Record<string, string>>;
+  remove(paths: string[]): Promise<void>;
+}
+
+export function maxScreenshotSize(): number {
+  const configured = Number(import.meta.env?.VITE_MAX_FILE_SIZE);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_FILE_SIZE;
+}
+
+/**
+ * Reject files the bucket should not hold; returns an error message or null
+ */
+export function validateScreenshot(file: File): string | null {
+  if (!ACCEPTED_SCREENSHOT_TYPES.includes(file.type)) {
+    return `${file.name} is not a PNG, JPEG, WebP or GIF image`;
+  }
+  if (file.size > maxScreenshotSize()) {
+    return `${file.name} is larger than ${(maxScreenshotSize() / 1024 / 1024).toFixed(0)} MB`;
+  }
+  return null;
+}
+
+function screenshotPath(userId: string, tradeId: string, file: File): string {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : 'png';
+  const unique = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  return `${userId}/${tradeId}/${unique}.${extension}`;
+}
+
+export const supabaseScreenshotStore: ScreenshotStore = {
+  id: 'supabase',
+
+  async upload(userId, tradeId, file) {
+    const path = screenshotPath(userId, tradeId, file);
+    const { error } = await supabase.storage
+      .from(SCREENSHOT_BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: false });
+    if (error) throw error;
+    console.log(`✅ Uploaded screenshot ${path}`);
+    return path;
+  },
+
+  async getUrls(paths) {
+    if (paths.length === 0) return {};
+    const { data, error } = await supabase.storage
+      .from(SCREENSHOT_BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+    if (error) throw error;
+
+    return (data || []).reduce((acc, item) => {
+      if (item.path && item.signedUrl) acc[item.path] = item.signedUrl;
+      return acc;
+    }, {} as Record<string, string>);
+  },
+
+  async remove(paths) {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(SCREENSHOT_BUCKET).remove(paths);
+    if (error) throw error;
+  },
+};
+
+/**
+ * In-memory store keeping object URLs for the lifetime of the page
+ */
+export function createLocalScreenshotStore(): ScreenshotStore {
+  const objects = new Map<string, string>();
+
+  return {
+    id: 'local',
+
+    async upload(userId, tradeId, file) {
+      const path = screenshotPath(userId, tradeId, file);
+      objects.set(path, URL.createObjectURL(file));
+      return path;
+    },
+
+    async getUrls(paths) {
+      return paths.reduce((acc, path) => {
+        const url = objects.get(path);
+        if (url) acc[path] = url;
+        return acc;
+      }, {} as Record<string, string>);
+    },
+
+    async remove(paths) {
+      paths.forEach(path => {
+        const url = objects.get(path);
+        if (url) URL.revokeObjectURL(url);
+        objects.delete(path);
+      });
+    },
+  };
+}
+
+let activeStore: ScreenshotStore =
+  String(import.meta.env?.VITE_SCREENSHOT_STORAGE || '').toLowerCase() === 'local'
+    ? createLocalScreenshotStore()
+    : supabaseScreenshotStore;
+
+export function getScreenshotStore(): ScreenshotStore {
+  return activeStore;
+}
+
+/**
+ * Swap the backing store, e.g. for tests
+ */
+export function setScreenshotStore(store: ScreenshotStore): void {
+  activeStore = store;
+}
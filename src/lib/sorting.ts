@@ -0,0 +1,85 @@
+/**
+ * Sort orders shared by the trade and cashflow lists and the journal export
+ */
+
+import { TradeCategory } from '@/types/database';
+
+const CATEGORY_ORDER: TradeCategory[] = ['spot', 'futures', 'defi', 'dual_investment', 'liquidity_pool', 'liquidity_mining'];
+
+type SortableTrade = {
+  category: string;
+  asset: string;
+  trade_date: string;
+  profit_loss?: number | null;
+};
+
+type SortableCashflow = {
+  type: string;
+  amount: number;
+  transaction_date: string;
+};
+
+const time = (date: string) => new Date(date).getTime();
+
+/**
+ * Sort trades by one of the Trades page sort options (returns a new array)
+ */
+export function sortTrades<T extends SortableTrade>(trades: T[], sortBy: string = 'date_desc'): T[] {
+  return [...trades].sort((a, b) => {
+    switch (sortBy) {
+      case 'date_asc':
+        return time(a.trade_date) - time(b.trade_date);
+      case 'date_desc':
+        return time(b.trade_date) - time(a.trade_date);
+      case 'asset_asc':
+        return a.asset.localeCompare(b.asset);
+      case 'asset_desc':
+        return b.asset.localeCompare(a.asset);
+      case 'pnl_desc':
+        return (b.profit_loss || 0) - (a.profit_loss || 0);
+      case 'pnl_asc':
+        return (a.profit_loss || 0) - (b.profit_loss || 0);
+      case 'category': {
+        const aIndex = CATEGORY_ORDER.indexOf(a.category as TradeCategory);
+        const bIndex = CATEGORY_ORDER.indexOf(b.category as TradeCategory);
+        if (aIndex !== bIndex) return aIndex - bIndex;
+        // Secondary sort by date (newest first) for same category
+        return time(b.trade_date) - time(a.trade_date);
+      }
+      default: {
+        // Default sort: date desc, then category, then asset
+        const dateComparison = time(b.trade_date) - time(a.trade_date);
+        if (dateComparison !== 0) return dateComparison;
+
+        const aIndex = CATEGORY_ORDER.indexOf(a.category as TradeCategory);
+        const bIndex = CATEGORY_ORDER.indexOf(b.category as TradeCategory);
+        if (aIndex !== bIndex) return aIndex - bIndex;
+
+        return a.asset.localeCompare(b.asset);
+      }
+    }
+  });
+}
+
+/**
+ * Sort cashflows by one of the Cash Flow page sort options (returns a new array)
+ */
+export function sortCashflows<T extends SortableCashflow>(cashflows: T[], sortBy: string = 'date_desc'): T[] {
+  return [...cashflows].sort((a, b) => {
+    switch (sortBy) {
+      case 'date_asc':
+        return time(a.transaction_date) - time(b.transaction_date);
+      case 'date_desc':
+        return time(b.transaction_date) - time(a.transaction_date);
+      case 'amount_asc':
+        return a.amount - b.amount;
+      case 'amount_desc':
+        return b.amount - a.amount;
+      case 'type':
+        if (a.type !== b.type) return a.type.localeCompare(b.type);
+        return time(b.transaction_date) - time(a.transaction_date);
+      default:
+        return time(b.transaction_date) - time(a.transaction_date);
+    }
+  });
+}
@@ -0,0 +1,253 @@
+/**
+ * Symbol registry
+ * Resolves trade tickers to CoinGecko coin ids from a locally cached coin list.
+ * Tickers shared by several coins resolve to the one with the highest market cap
+ * unless the user has pinned an explicit coin id for the asset.
+ */
+
+const COINGECKO_API_BASE = 'https://api.coingecko.com/api/v3';
+
+const REGISTRY_STORAGE_KEY = 'cryptoflow:coin-registry';
+const PINS_STORAGE_KEY = 'cryptoflow:symbol-pins';
+export const SYMBOL_PINS_CHANGE_EVENT = 'cryptoflow:symbol-pins-change';
+
+const REGISTRY_TTL = 24 * 60 * 60 * 1000; // Coin list refreshed daily
+const RETRY_DELAY = 5 * 60 * 1000; // Wait before retrying a failed load
+
+// Market-cap ranks are fetched for this many top coins (250 per page)
+const RANKED_PAGES = 2;
+
+export interface CoinListing {
+  id: string;
+  symbol: string;
+  name: string;
+  marketCapRank: number | null;
+}
+
+export type SymbolResolutionSource = 'pin' | 'registry' | 'unresolved';
+
+export interface SymbolResolution {
+  symbol: string;
+  coinId: string;
+  source: SymbolResolutionSource;
+  // Every registry coin sharing the ticker, best market cap first
+  candidates: CoinListing[];
+}
+
+interface StoredRegistry {
+  fetchedAt: number;
+  // [id, symbol, name, marketCapRank] tuples keep the cached list compact
+  coins: [string, string, string, number | null][];
+}
+
+let coins: CoinListing[] = [];
+let bySymbol = new Map<string, CoinListing[]>();
+let byId = new Map<string, CoinListing>();
+let fetchedAt: number | null = null;
+let lastFailureAt: number | null = null;
+let pendingLoad: Promise<CoinListing[]> | null = null;
+
+function compareByRank(a: CoinListing, b: CoinListing): number {
+  return (a.marketCapRank ?? Infinity) - (b.marketCapRank ?? Infinity);
+}
+
+function indexCoins(list: CoinListing[], loadedAt: number) {
+  coins = list;
+  fetchedAt = loadedAt;
+  bySymbol = new Map();
+  byId = new Map();
+
+  list.forEach(coin => {
+    byId.set(coin.id, coin);
+    const key = coin.symbol.toUpperCase();
+    const existing = bySymbol.get(key);
+    if (existing) existing.push(coin);
+    else bySymbol.set(key, [coin]);
+  });
+  bySymbol.forEach(entries => entries.sort(compareByRank));
+}
+
+function readStoredRegistry(): StoredRegistry | null {
+  try {
+    const stored = localStorage.getItem(REGISTRY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as StoredRegistry : null;
+  } catch (error) {
+    console.warn('⚠️ Unable to read cached coin registry:', error);
+    return null;
+  }
+}
+
+function hydrateFromStorage() {
+  const stored = readStoredRegistry();
+  if (!stored?.coins?.length) return;
+  indexCoins(
+    stored.coins.map(([id, symbol, name, marketCapRank]) => ({ id, symbol, name, marketCapRank })),
+    stored.fetchedAt
+  );
+}
+
+hydrateFromStorage();
+
+async function fetchCoinList(): Promise<CoinListing[]> {
+  console.log('📡 Fetching CoinGecko coin list...');
+  const listResponse = await fetch(`${COINGECKO_API_BASE}/coins/list`);
+  if (!listResponse.ok) {
+    throw new Error(`CoinGecko API error: ${listResponse.status} ${listResponse.statusText}`);
+  }
+  const list: { id: string; symbol: string; name: string }[] = await listResponse.json();
+
+  const ranks = new Map<string, number>();
+  for (let page = 1; page <= RANKED_PAGES; page++) {
+    const marketsResponse = await fetch(
+      `${COINGECKO_API_BASE}/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=250&page=${page}`
+    );
+    // Ranks only break ticker ties; the list is still usable without them
+    if (!marketsResponse.ok) {
+      console.warn(`⚠️ Market cap ranks unavailable: ${marketsResponse.status} ${marketsResponse.statusText}`);
+      break;
+    }
+    const markets: { id: string; market_cap_rank: number | null }[] = await marketsResponse.json();
+    markets.forEach(market => {
+      if (market.market_cap_rank) ranks.set(market.id, market.market_cap_rank);
+    });
+  }
+
+  return list.map(coin => ({
+    id: coin.id,
+    symbol: coin.symbol,
+    name: coin.name,
+    marketCapRank: ranks.get(coin.id) ?? null,
+  }));
+}
+
+/**
+ * Load the coin list, reusing the local cache while it is fresh
+ */
+export async function loadSymbolRegistry(force = false): Promise<CoinListing[]> {
+  const now = Date.now();
+  if (!force && fetchedAt !== null && now - fetchedAt < REGISTRY_TTL) return coins;
+  if (!force && lastFailureAt !== null && now - lastFailureAt < RETRY_DELAY) return coins;
+  if (pendingLoad) return pendingLoad;
+
+  pendingLoad = (async () => {
+    try {
+      const list = await fetchCoinList();
+      indexCoins(list, Date.now());
+
+      try {
+        const stored: StoredRegistry = {
+          fetchedAt: Date.now(),
+          coins: list.map(coin => [coin.id, coin.symbol, coin.name, coin.marketCapRank]),
+        };
+        localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(stored));
+      } catch (error) {
+        console.warn('⚠️ Unable to cache coin registry:', error);
+      }
+
+      lastFailureAt = null;
+      console.log(`✅ Coin registry loaded: ${list.length} coins`);
+      return coins;
+    } catch (error) {
+      lastFailureAt = Date.now();
+      console.error('❌ Error loading coin registry:', error);
+      // Keep serving the stale list, if any
+      return coins;
+    } finally {
+      pendingLoad = null;
+    }
+  })();
+
+  return pendingLoad;
+}
+
+export function getRegistryStatus(): { size: number; fetchedAt: number | null } {
+  return { size: coins.length, fetchedAt };
+}
+
+export function getCoinById(id: string): CoinListing | undefined {
+  return byId.get(id);
+}
+
+/**
+ * Registry coins listed under a ticker, best market cap first
+ */
+export function coinsForSymbol(symbol: string): CoinListing[] {
+  return bySymbol.get(symbol.trim().toUpperCase()) || [];
+}
+
+/**
+ * User-pinned coin ids, keyed by uppercase asset symbol
+ */
+export function getSymbolPins(): Record<string, string> {
+  try {
+    const stored = localStorage.getItem(PINS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('⚠️ Unable to read symbol pins:', error);
+    return {};
+  }
+}
+
+function writeSymbolPins(pins: Record<string, string>) {
+  try {
+    localStorage.setItem(PINS_STORAGE_KEY, JSON.stringify(pins));
+  } catch (error) {
+    console.warn('⚠️ Unable to persist symbol pins:', error);
+  }
+  window.dispatchEvent(new Event(SYMBOL_PINS_CHANGE_EVENT));
+}
+
+export function pinSymbol(symbol: string, coinId: string): void {
+  const pins = getSymbolPins();
+  pins[symbol.trim().toUpperCase()] = coinId.trim().toLowerCase();
+  writeSymbolPins(pins);
+}
+
+export function unpinSymbol(symbol: string): void {
+  const pins = getSymbolPins();
+  delete pins[symbol.trim().toUpperCase()];
+  writeSymbolPins(pins);
+}
+
+/**
+ * Resolve a ticker: pinned id, else the highest-market-cap registry coin
+ */
+export function resolveSymbol(symbol: string): SymbolResolution {
+  const upper = symbol.trim().toUpperCase();
+  const candidates = coinsForSymbol(upper);
+  const pinned = getSymbolPins()[upper];
+
+  if (pinned) {
+    return { symbol: upper, coinId: pinned, source: 'pin', candidates };
+  }
+  if (candidates.length > 0) {
+    return { symbol: upper, coinId: candidates[0].id, source: 'registry', candidates };
+  }
+  return { symbol: upper, coinId: upper.toLowerCase(), source: 'unresolved', candidates };
+}
+
+/**
+ * Convert cryptocurrency symbol to CoinGecko ID
+ */
+export function symbolToCoinGeckoId(symbol: string): string {
+  return resolveSymbol(symbol).coinId;
+}
+
+/**
+ * Coins matching a ticker or name prefix, exact tickers first then by market cap
+ */
+export function searchCoins(query: string, limit = 8): CoinListing[] {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+
+  const exact = coinsForSymbol(term);
+  const seen = new Set(exact.map(coin => coin.id));
+  const partial = coins
+    .filter(coin => !seen.has(coin.id) && (
+      coin.symbol.toLowerCase().startsWith(term) ||
+      coin.name.toLowerCase().startsWith(term)
+    ))
+    .sort(compareByRank);
+
+  return [...exact, ...partial].slice(0, limit);
+}
@@ -0,0 +1,313 @@
+/**
+ * Capital-gains tax report
+ * Classifies spot disposals as short- or long-term per tax year using the lot
+ * matching engine, and treats DeFi / liquidity-mining profit_loss as income
+ */
+
+import { addYears } from 'date-fns';
+import { ClosedLot, CostBasisMethod, LotTrade, matchLots } from '@/lib/lotMatching';
+import { CurrencyCode } from '@/lib/currencies';
+
+export type TaxJurisdiction = 'US' | 'PH';
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface JurisdictionRules {
+  value: TaxJurisdiction;
+  label: string;
+  // Assets held longer than this many years are long-term
+  longTermYears: number;
+  // Share of a long-term net gain that is taxable
+  longTermInclusionRate: number;
+  note: string;
+}
+
+export const TAX_JURISDICTIONS: JurisdictionRules[] = [
+  {
+    value: 'US',
+    label: 'United States',
+    longTermYears: 1,
+    longTermInclusionRate: 1,
+    note: 'Held more than one year is long-term (Form 8949 Part II); one year or less is short-term (Part I).',
+  },
+  {
+    value: 'PH',
+    label: 'Philippines',
+    longTermYears: 1,
+    longTermInclusionRate: 0.5,
+    note: 'Under NIRC Sec. 39(B), individuals take 50% of the net gain on capital assets held over 12 months into account.',
+  },
+];
+
+// Trade categories whose profit_loss is reported as ordinary income
+export const INCOME_CATEGORIES = ['defi', 'liquidity_mining'];
+
+export interface TaxTrade extends LotTrade {
+  category: string;
+  currency?: string;
+  profit_loss?: number | null;
+}
+
+export interface TaxCashflow {
+  type: string;
+  amount: number;
+  currency?: string;
+  transaction_date: string;
+}
+
+export interface TaxDisposal {
+  asset: string;
+  description: string;
+  dateAcquired?: string;
+  dateSold?: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gainOrLoss: number;
+  term: HoldingTerm;
+  buyTradeId?: string;
+  sellTradeId?: string;
+}
+
+export interface TaxIncomeItem {
+  tradeId?: string;
+  date: string;
+  category: string;
+  asset: string;
+  amount: number;
+  notes?: string;
+}
+
+export interface TermTotals {
+  count: number;
+  proceeds: number;
+  costBasis: number;
+  gainOrLoss: number;
+}
+
+export interface TaxReport {
+  jurisdiction: TaxJurisdiction;
+  taxYear: number;
+  method: CostBasisMethod;
+  currency: CurrencyCode;
+  disposals: TaxDisposal[];
+  income: TaxIncomeItem[];
+  shortTerm: TermTotals;
+  longTerm: TermTotals;
+  totalIncome: number;
+  // Net capital gain after any long-term inclusion rate
+  taxableCapitalGain: number;
+  deposits: number;
+  withdrawals: number;
+  warnings: string[];
+}
+
+const emptyTotals = (): TermTotals => ({ count: 0, proceeds: 0, costBasis: 0, gainOrLoss: 0 });
+
+function addToTotals(totals: TermTotals, disposal: TaxDisposal) {
+  totals.count += 1;
+  totals.proceeds += disposal.proceeds;
+  totals.costBasis += disposal.costBasis;
+  totals.gainOrLoss += disposal.gainOrLoss;
+}
+
+function inTaxYear(date: string | undefined, taxYear: number): boolean {
+  return !!date && new Date(date).getUTCFullYear() === taxYear;
+}
+
+/**
+ * Long-term when the asset was sold after the anniversary of its acquisition
+ */
+export function holdingTerm(lot: Pick<ClosedLot, 'openDate' | 'closeDate'>, rules: JurisdictionRules): HoldingTerm {
+  if (!lot.openDate || !lot.closeDate) return 'short';
+  const threshold = addYears(new Date(lot.openDate), rules.longTermYears);
+  return new Date(lot.closeDate) > threshold ? 'long' : 'short';
+}
+
+function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString('en-US', { maximumFractionDigits: 8 });
+}
+
+/**
+ * Tax years that have spot sells or income
+ */
+export function availableTaxYears(trades: TaxTrade[]): number[] {
+  const years = new Set<number>();
+  trades.forEach(trade => {
+    const isSpotSell = trade.category === 'spot' && trade.details?.buy_sell === 'sell';
+    const isIncome = INCOME_CATEGORIES.includes(trade.category) && trade.profit_loss;
+    if ((isSpotSell || isIncome) && trade.trade_date) {
+      years.add(new Date(trade.trade_date).getUTCFullYear());
+    }
+  });
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+/**
+ * Build the tax report for one jurisdiction and tax year.
+ * Lots are matched across the full trade history so earlier-year buys supply cost basis.
+ */
+export function buildTaxReport(
+  trades: TaxTrade[],
+  cashflows: TaxCashflow[],
+  options: {
+    jurisdiction: TaxJurisdiction;
+    taxYear: number;
+    method: CostBasisMethod;
+    currency: CurrencyCode;
+  }
+): TaxReport {
+  const rules = TAX_JURISDICTIONS.find(j => j.value === options.jurisdiction) || TAX_JURISDICTIONS[0];
+  const warnings: string[] = [];
+
+  // Amounts are reported in the profile currency; other-currency rows cannot be combined
+  const inCurrency = trades.filter(trade => !trade.currency || trade.currency === options.currency);
+  const excluded = trades.length - inCurrency.length;
+  if (excluded > 0) {
+    warnings.push(`${excluded} trade${excluded !== 1 ? 's' : ''} recorded in another currency ${excluded !== 1 ? 'were' : 'was'} excluded.`);
+  }
+
+  const spotTrades = inCurrency.filter(trade => trade.category === 'spot');
+  const lots = matchLots(spotTrades, options.method);
+
+  const disposals: TaxDisposal[] = lots.closedLots
+    .filter(lot => inTaxYear(lot.closeDate, options.taxYear))
+    .map(lot => ({
+      asset: lot.asset,
+      description: `${formatQuantity(lot.quantity)} ${lot.asset}`,
+      dateAcquired: lot.openDate,
+      dateSold: lot.closeDate,
+      quantity: lot.quantity,
+      proceeds: lot.proceeds,
+      costBasis: lot.costBasis,
+      gainOrLoss: lot.realizedPnL,
+      term: holdingTerm(lot, rules),
+      buyTradeId: lot.buyTradeId,
+      sellTradeId: lot.sellTradeId,
+    }))
+    .sort((a, b) => new Date(a.dateSold || 0).getTime() - new Date(b.dateSold || 0).getTime());
+
+  Object.values(lots.assets).forEach(summary => {
+    if (summary.unmatchedSellQuantity > 0) {
+      warnings.push(
+        `${formatQuantity(summary.unmatchedSellQuantity)} ${summary.asset} was sold without a recorded purchase; its cost basis is unknown and it is not included.`
+      );
+    }
+  });
+
+  const shortTerm = emptyTotals();
+  const longTerm = emptyTotals();
+  disposals.forEach(disposal => addToTotals(disposal.term === 'long' ? longTerm : shortTerm, disposal));
+
+  const income: TaxIncomeItem[] = inCurrency
+    .filter(trade =>
+      INCOME_CATEGORIES.includes(trade.category) &&
+      trade.profit_loss &&
+      inTaxYear(trade.trade_date, options.taxYear)
+    )
+    .map(trade => ({
+      tradeId: trade.id,
+      date: trade.trade_date!,
+      category: trade.category,
+      asset: trade.asset,
+      amount: trade.profit_loss!,
+    }))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const totalIncome = income.reduce((sum, item) => sum + item.amount, 0);
+
+  // Only net long-term gains get the reduced inclusion rate
+  const longTermTaxable = longTerm.gainOrLoss > 0
+    ? longTerm.gainOrLoss * rules.longTermInclusionRate
+    : longTerm.gainOrLoss;
+  const taxableCapitalGain = shortTerm.gainOrLoss + longTermTaxable;
+
+  const yearCashflows = cashflows.filter(cf =>
+    inTaxYear(cf.transaction_date, options.taxYear) &&
+    (!cf.currency || cf.currency === options.currency)
+  );
+  const deposits = yearCashflows.filter(cf => cf.type === 'deposit').reduce((sum, cf) => sum + cf.amount, 0);
+  const withdrawals = yearCashflows.filter(cf => cf.type === 'withdrawal').reduce((sum, cf) => sum + cf.amount, 0);
+
+  return {
+    jurisdiction: rules.value,
+    taxYear: options.taxYear,
+    method: options.method,
+    currency: options.currency,
+    disposals,
+    income,
+    shortTerm,
+    longTerm,
+    totalIncome,
+    taxableCapitalGain,
+    deposits,
+    withdrawals,
+    warnings,
+  };
+}
+
+function csvValue(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatDate(date?: string): string {
+  if (!date) return 'VARIOUS';
+  const d = new Date(date);
+  const mm = String(d.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(d.getUTCDate()).padStart(2, '0');
+  return `${mm}/${dd}/${d.getUTCFullYear()}`;
+}
+
+/**
+ * Form 8949-style CSV: Part I (short-term) then Part II (long-term), columns (a)-(h)
+ */
+export function taxReportToForm8949Csv(report: TaxReport): string {
+  const header = [
+    'Part',
+    '(a) Description of property',
+    '(b) Date acquired',
+    '(c) Date sold or disposed of',
+    `(d) Proceeds (${report.currency})`,
+    `(e) Cost or other basis (${report.currency})`,
+    '(f) Code',
+    '(g) Adjustment',
+    `(h) Gain or (loss) (${report.currency})`,
+  ];
+
+  const money = (value: number) => value.toFixed(2);
+  const rows: (string | number)[][] = [];
+
+  (['short', 'long'] as HoldingTerm[]).forEach(term => {
+    const part = term === 'short' ? 'I' : 'II';
+    const totals = term === 'short' ? report.shortTerm : report.longTerm;
+
+    report.disposals.filter(d => d.term === term).forEach(disposal => {
+      rows.push([
+        part,
+        disposal.description,
+        formatDate(disposal.dateAcquired),
+        formatDate(disposal.dateSold),
+        money(disposal.proceeds),
+        money(disposal.costBasis),
+        '',
+        '',
+        money(disposal.gainOrLoss),
+      ]);
+    });
+
+    rows.push([
+      part,
+      `Totals (${term}-term)`,
+      '',
+      '',
+      money(totals.proceeds),
+      money(totals.costBasis),
+      '',
+      '',
+      money(totals.gainOrLoss),
+    ]);
+  });
+
+  return [header, ...rows].map(row => row.map(csvValue).join(',')).join('\r\n');
+}
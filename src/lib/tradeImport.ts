@@ -0,0 +1,466 @@
+/**
+ * CSV trade import
+ * Parses exchange CSV exports (Binance, Bybit, OKX, Coinbase or a generic layout),
+ * maps their columns onto trades, validates rows with the trade schemas and
+ * flags duplicates against existing trades
+ */
+
+import { getTradeSchema } from '@/lib/tradeSchemas';
+import { Trade } from '@/types/database';
+import { CurrencyCode } from '@/lib/currencies';
+
+export type ImportSource = 'binance' | 'bybit' | 'okx' | 'coinbase' | 'generic';
+
+export type ImportCategory = 'spot' | 'futures';
+
+/**
+ * Trade fields a CSV column can be mapped onto
+ */
+export type ImportField =
+  | 'trade_date'
+  | 'asset'
+  | 'side'
+  | 'price'
+  | 'quantity'
+  | 'fees'
+  | 'fee_asset'
+  | 'external_id'
+  | 'notes';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportPreset {
+  source: ImportSource;
+  label: string;
+  // Candidate header names per field, first match wins
+  columns: Partial<Record<ImportField, string[]>>;
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  raw: Record<string, string>;
+  trade: TradeImportInsert | null;
+  errors: string[];
+  duplicate: boolean;
+  skipped: boolean;
+}
+
+/**
+ * Row shape sent to the bulk insert
+ */
+export interface TradeImportInsert {
+  category: ImportCategory;
+  asset: string;
+  price: number;
+  quantity: number;
+  currency: CurrencyCode;
+  trade_date: string;
+  fees: number;
+  notes: string | null;
+  details: Record<string, unknown>;
+}
+
+export const IMPORT_FIELDS: { value: ImportField; label: string; required: boolean }[] = [
+  { value: 'trade_date', label: 'Date', required: true },
+  { value: 'asset', label: 'Asset / Pair', required: true },
+  { value: 'side', label: 'Side (Buy/Sell)', required: true },
+  { value: 'price', label: 'Price', required: true },
+  { value: 'quantity', label: 'Quantity', required: true },
+  { value: 'fees', label: 'Fee', required: false },
+  { value: 'fee_asset', label: 'Fee Asset', required: false },
+  { value: 'external_id', label: 'Exchange Trade ID', required: false },
+  { value: 'notes', label: 'Notes', required: false },
+];
+
+export const IMPORT_PRESETS: ImportPreset[] = [
+  {
+    source: 'binance',
+    label: 'Binance',
+    columns: {
+      trade_date: ['Date(UTC)', 'Date(UTC+0)', 'Time'],
+      asset: ['Pair', 'Market', 'Symbol'],
+      side: ['Side', 'Type'],
+      price: ['Price'],
+      quantity: ['Executed', 'Amount'],
+      fees: ['Fee'],
+      fee_asset: ['Fee Coin'],
+      external_id: ['Trade ID', 'TradeId'],
+    },
+  },
+  {
+    source: 'bybit',
+    label: 'Bybit',
+    columns: {
+      trade_date: ['Timestamp (UTC)', 'Trade Time(UTC+0)', 'Filled Time'],
+      asset: ['Spot Pairs', 'Contracts', 'Symbol'],
+      side: ['Direction', 'Side'],
+      price: ['Filled Price', 'Exec Price'],
+      quantity: ['Filled Quantity', 'Exec Qty', 'Filled'],
+      fees: ['Fees', 'Trading Fee', 'Fee'],
+      fee_asset: ['Fee Currency', 'Fee Token'],
+      external_id: ['Transaction ID', 'Trade ID', 'Exec ID'],
+    },
+  },
+  {
+    source: 'okx',
+    label: 'OKX',
+    columns: {
+      trade_date: ['Trade Time', 'Time'],
+      asset: ['Instrument', 'Symbol'],
+      side: ['Action', 'Side'],
+      price: ['Fill Price', 'Trade Price', 'Price'],
+      quantity: ['Filled', 'Fill Size', 'Amount'],
+      fees: ['Fee'],
+      fee_asset: ['Fee Unit', 'Fee Currency'],
+      external_id: ['Trade ID', 'id'],
+    },
+  },
+  {
+    source: 'coinbase',
+    label: 'Coinbase',
+    columns: {
+      trade_date: ['Timestamp'],
+      asset: ['Asset'],
+      side: ['Transaction Type'],
+      price: ['Spot Price at Transaction', 'Price at Transaction'],
+      quantity: ['Quantity Transacted'],
+      fees: ['Fees and/or Spread', 'Fees'],
+      fee_asset: ['Spot Price Currency', 'Price Currency'],
+      external_id: ['ID'],
+      notes: ['Notes'],
+    },
+  },
+  {
+    source: 'generic',
+    label: 'Generic CSV',
+    columns: {
+      trade_date: ['trade_date', 'date', 'time', 'timestamp'],
+      asset: ['asset', 'symbol', 'pair', 'coin'],
+      side: ['buy_sell', 'side', 'type'],
+      price: ['price'],
+      quantity: ['quantity', 'qty', 'amount', 'size'],
+      fees: ['fees', 'fee'],
+      fee_asset: ['fee_asset', 'fee_currency'],
+      external_id: ['external_id', 'id', 'trade_id'],
+      notes: ['notes', 'note'],
+    },
+  },
+];
+
+// Quote currencies stripped from pairs such as BTCUSDT, BTC-USDT or BTC/USDT
+const QUOTE_ASSETS = ['USDT', 'USDC', 'BUSD', 'FDUSD', 'TUSD', 'USD', 'PHP', 'EUR', 'BTC', 'ETH', 'BNB'];
+
+// Coinbase exports include transfers and rewards; only these types become trades
+const SIDE_ALIASES: Record<string, 'buy' | 'sell'> = {
+  buy: 'buy',
+  b: 'buy',
+  long: 'buy',
+  'advanced trade buy': 'buy',
+  sell: 'sell',
+  s: 'sell',
+  short: 'sell',
+  'advanced trade sell': 'sell',
+};
+
+/**
+ * Parse CSV text into headers and rows (RFC 4180 quoting, CRLF or LF line endings)
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const records: string[][] = [];
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) return { headers: [], rows: [] };
+
+  const headers = nonEmpty[0].map(header => header.trim());
+  const rows = nonEmpty.slice(1).map(values =>
+    headers.reduce((acc, header, index) => {
+      acc[header] = (values[index] ?? '').trim();
+      return acc;
+    }, {} as Record<string, string>)
+  );
+
+  return { headers, rows };
+}
+
+function findHeader(headers: string[], candidates: string[] = []): string | undefined {
+  for (const candidate of candidates) {
+    const match = headers.find(header => header.toLowerCase() === candidate.toLowerCase());
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Build a column mapping for a preset from the headers present in the file
+ */
+export function buildColumnMapping(preset: ImportPreset, headers: string[]): ColumnMapping {
+  return (Object.keys(preset.columns) as ImportField[]).reduce((mapping, field) => {
+    const header = findHeader(headers, preset.columns[field]);
+    if (header) mapping[field] = header;
+    return mapping;
+  }, {} as ColumnMapping);
+}
+
+/**
+ * Pick the exchange preset whose required columns all appear in the headers
+ */
+export function detectPreset(headers: string[]): ImportPreset {
+  const required = IMPORT_FIELDS.filter(field => field.required).map(field => field.value);
+  const exchangePresets = IMPORT_PRESETS.filter(preset => preset.source !== 'generic');
+
+  const match = exchangePresets.find(preset => {
+    const mapping = buildColumnMapping(preset, headers);
+    return required.every(field => mapping[field]);
+  });
+
+  return match || IMPORT_PRESETS.find(preset => preset.source === 'generic')!;
+}
+
+/**
+ * Parse an exchange number, dropping thousands separators and unit suffixes
+ * (Binance writes amounts like "0.0100BTC" or "1,234.5USDT")
+ */
+export function parseImportNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const cleaned = value.replace(/,/g, '').replace(/[^0-9.eE+-]/g, '');
+  if (cleaned === '' || cleaned === '-' || cleaned === '.') return null;
+  const parsed = parseFloat(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Unit suffix of an amount such as "0.1BNB", if any
+ */
+function parseAmountUnit(value: string | undefined): string | null {
+  const match = value?.match(/[0-9.]\s*([A-Za-z]{2,})$/);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Parse an exchange timestamp. Exports without an offset are in UTC;
+ * purely numeric values are epoch seconds or milliseconds
+ */
+export function parseImportDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  if (/^\d{10,13}$/.test(trimmed)) {
+    const epoch = Number(trimmed);
+    return new Date(trimmed.length === 13 ? epoch : epoch * 1000);
+  }
+
+  const hasZone = /(Z|[+-]\d{2}:?\d{2}|UTC)$/i.test(trimmed);
+  const normalized = trimmed.replace(/\s*UTC$/i, 'Z').replace(' ', 'T');
+  const date = new Date(hasZone ? normalized : `${normalized}Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Split a trading pair into base and quote assets
+ */
+export function parsePair(value: string): { base: string; quote: string | null } {
+  const symbol = value.trim().toUpperCase().replace(/-(SWAP|PERP|PERPETUAL)$/, '');
+  const parts = symbol.split(/[-/_]/).filter(Boolean);
+  if (parts.length >= 2) return { base: parts[0], quote: parts[1] };
+
+  const quote = QUOTE_ASSETS.find(q => symbol.length > q.length && symbol.endsWith(q));
+  return quote
+    ? { base: symbol.slice(0, -quote.length), quote }
+    : { base: symbol, quote: null };
+}
+
+/**
+ * Duplicate key shared by imported rows and existing trades.
+ * Exchange trade ids win; otherwise the fill itself (asset, side, time, price, size)
+ */
+export function tradeDedupeKey(trade: {
+  category: string;
+  asset: string;
+  trade_date: string;
+  price: number;
+  quantity: number;
+  details?: Record<string, unknown> | null;
+}): string {
+  const externalId = trade.details?.external_id;
+  if (externalId) return `id:${trade.category}:${String(externalId)}`;
+
+  const timestamp = Math.floor(new Date(trade.trade_date).getTime() / 1000);
+  return [
+    trade.category,
+    trade.asset.toUpperCase(),
+    trade.details?.buy_sell || '',
+    timestamp,
+    Number(trade.price).toPrecision(10),
+    Number(trade.quantity).toPrecision(10),
+  ].join('|');
+}
+
+/**
+ * Map, validate and dedupe parsed CSV rows
+ */
+export function prepareImportRows(
+  parsed: ParsedCsv,
+  mapping: ColumnMapping,
+  options: {
+    source: ImportSource;
+    category: ImportCategory;
+    currency: CurrencyCode;
+    existingTrades: Pick<Trade, 'category' | 'asset' | 'trade_date' | 'price' | 'quantity' | 'details'>[];
+  }
+): ImportRow[] {
+  const existingKeys = new Set(options.existingTrades.map(tradeDedupeKey));
+  const existingFillKeys = new Set(
+    options.existingTrades.map(trade => tradeDedupeKey({ ...trade, details: { buy_sell: trade.details?.buy_sell } }))
+  );
+  const seenKeys = new Set<string>();
+  const schema = getTradeSchema(options.category);
+
+  return parsed.rows.map((raw, index) => {
+    const rowNumber = index + 2; // header is line 1
+    const value = (field: ImportField) => (mapping[field] ? raw[mapping[field]!] : undefined);
+    const errors: string[] = [];
+
+    const rawSide = (value('side') || '').trim().toLowerCase();
+    const side = SIDE_ALIASES[rawSide];
+
+    // Non-trade rows (deposits, transfers, rewards) are skipped rather than failed
+    if (rawSide && !side) {
+      return { rowNumber, raw, trade: null, errors: [`Skipped "${value('side')}" row`], duplicate: false, skipped: true };
+    }
+
+    const date = parseImportDate(value('trade_date'));
+    const pair = parsePair(value('asset') || '');
+    const price = parseImportNumber(value('price'));
+    const quantity = parseImportNumber(value('quantity'));
+    const rawFee = parseImportNumber(value('fees'));
+    const feeAsset = (value('fee_asset') || parseAmountUnit(value('fees')) || '').toUpperCase() || null;
+
+    if (!date) errors.push('Invalid or missing date');
+    if (!side) errors.push('Side must be buy or sell');
+
+    // Fees charged in the base asset are converted to quote currency at the fill price.
+    // A fee in any other asset (e.g. BNB) has no price here, so the row is rejected
+    // rather than recorded at face value.
+    const feeAmount = rawFee !== null ? Math.abs(rawFee) : 0;
+    const fees = feeAsset && feeAsset === pair.base && price ? feeAmount * price : feeAmount;
+    if (feeAmount > 0 && feeAsset && ![pair.base, pair.quote, options.currency].includes(feeAsset)) {
+      errors.push(`Fee charged in ${feeAsset} cannot be converted; record it in ${pair.quote || options.currency} or ${pair.base}`);
+    }
+
+    const candidate = {
+      category: options.category,
+      asset: pair.base,
+      price: price ?? NaN,
+      quantity: quantity !== null ? Math.abs(quantity) : NaN,
+      trade_date: date ?? new Date(NaN),
+      fees,
+      notes: value('notes') || undefined,
+      buy_sell: side,
+    };
+
+    const result = schema.safeParse(candidate);
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        const field = issue.path.join('.');
+        const message = `${field ? `${field}: ` : ''}${issue.message}`;
+        if (!errors.includes(message) && !(field === 'buy_sell' && !side) && !(field === 'trade_date' && !date)) {
+          errors.push(message);
+        }
+      });
+    }
+
+    if (errors.length > 0) {
+      return { rowNumber, raw, trade: null, errors, duplicate: false, skipped: false };
+    }
+
+    const details: Record<string, unknown> = {
+      buy_sell: side,
+      import_source: options.source,
+    };
+    // No position side: a sell may close a long or open a short, so the futures
+    // ledger nets fills by direction instead
+    if (feeAsset) details.fee_asset = feeAsset;
+    if (rawFee !== null && feeAsset && feeAsset === pair.base) details.fee_amount = feeAmount;
+    if (pair.quote) details.quote_asset = pair.quote;
+    if (value('external_id')) details.external_id = value('external_id');
+
+    const trade: TradeImportInsert = {
+      category: options.category,
+      asset: pair.base,
+      price: price!,
+      quantity: Math.abs(quantity!),
+      currency: options.currency,
+      trade_date: date!.toISOString(),
+      fees,
+      notes: value('notes') || null,
+      details,
+    };
+
+    const key = tradeDedupeKey(trade);
+    const fillKey = tradeDedupeKey({ ...trade, details: { buy_sell: side } });
+    const duplicate = existingKeys.has(key) || existingFillKeys.has(fillKey) || seenKeys.has(key);
+    seenKeys.add(key);
+
+    return { rowNumber, raw, trade, errors: [], duplicate, skipped: false };
+  });
+}
+
+/**
+ * Summary counts for an import preview
+ */
+export function summarizeImportRows(rows: ImportRow[]) {
+  return {
+    total: rows.length,
+    valid: rows.filter(row => row.trade && !row.duplicate).length,
+    invalid: rows.filter(row => !row.trade && !row.skipped).length,
+    duplicates: rows.filter(row => row.duplicate).length,
+    skipped: rows.filter(row => row.skipped).length,
+  };
+}
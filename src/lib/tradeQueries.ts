@@ -0,0 +1,418 @@
+/**
+ * Trade queries
+ * Server-side filtered, cursor-paginated trade reads and the React Query keys
+ * they are cached under. Without a connection, reads fall back to the offline mirror.
+ */
+
+import { InfiniteData, QueryClient } from '@tanstack/react-query';
+import { addDays, parseISO, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Trade } from '@/types/database';
+import { matchesTradeFilter, TradeFilter, UNASSIGNED_KEY } from '@/lib/tradeTags';
+import { mirrorRows, readMirror } from '@/lib/offlineStore';
+import { isNetworkError, overlayQueuedWrites } from '@/lib/offlineQueue';
+
+export const TRADES_PAGE_SIZE = 50;
+
+// PostgREST caps a single response at 1000 rows
+const HISTORY_PAGE_SIZE = 1000;
+
+const TRADE_SELECT = '*, trade_tags(tag_id)';
+
+export interface TradeQueryFilter extends TradeFilter {
+  category?: string;
+  // Case-insensitive substring of the asset symbol
+  asset?: string;
+  side?: 'buy' | 'sell';
+  // Inclusive calendar days, yyyy-MM-dd in local time
+  from?: string;
+  to?: string;
+}
+
+export interface TradeCursor {
+  values: Array<string | number | null>;
+  id: string;
+}
+
+export interface TradesPage {
+  trades: Trade[];
+  // Matching trades across all pages; first page only
+  total: number | null;
+  nextCursor: TradeCursor | null;
+}
+
+type SortColumn = 'trade_date' | 'created_at' | 'asset' | 'profit_loss' | 'category';
+
+interface SortKey {
+  column: SortColumn;
+  ascending: boolean;
+  // Nullable columns sort their nulls last
+  nullable?: boolean;
+}
+
+// Sort options of the Trades page; ties are broken by id in the first key's direction
+const SORT_KEYS: Record<string, SortKey[]> = {
+  date_desc: [{ column: 'trade_date', ascending: false }],
+  date_asc: [{ column: 'trade_date', ascending: true }],
+  asset_asc: [{ column: 'asset', ascending: true }],
+  asset_desc: [{ column: 'asset', ascending: false }],
+  pnl_desc: [{ column: 'profit_loss', ascending: false, nullable: true }],
+  pnl_asc: [{ column: 'profit_loss', ascending: true, nullable: true }],
+  category: [{ column: 'category', ascending: true }, { column: 'trade_date', ascending: false }],
+  recent: [{ column: 'created_at', ascending: false }],
+};
+
+const sortKeysFor = (sortBy: string) => SORT_KEYS[sortBy] || SORT_KEYS.date_desc;
+
+export const tradeKeys = {
+  all: ['trades'] as const,
+  owner: (ownerId: string) => ['trades', ownerId] as const,
+  lists: (ownerId: string) => ['trades', ownerId, 'list'] as const,
+  list: (ownerId: string, filter: TradeQueryFilter, sortBy: string) =>
+    ['trades', ownerId, 'list', { filter, sortBy }] as const,
+  history: (ownerId: string) => ['trades', ownerId, 'history'] as const,
+  recent: (ownerId: string, limit: number) => ['trades', ownerId, 'recent', limit] as const,
+};
+
+// Values are quoted so dates, decimals and symbols survive PostgREST's filter syntax
+const quote = (value: string | number) => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+/**
+ * PostgREST `or` filter for rows after `cursor` in the given order: a row
+ * comes later if it ties on every earlier key and is past the cursor on the next
+ */
+function cursorFilter(keys: SortKey[], cursor: TradeCursor): string | null {
+  const allKeys = [...keys.map((key, index) => ({ ...key, value: cursor.values[index] })), {
+    column: 'id',
+    ascending: keys[0].ascending,
+    nullable: false,
+    value: cursor.id as string | number | null,
+  }];
+
+  const equals = (key: typeof allKeys[number]) =>
+    key.value === null ? `${key.column}.is.null` : `${key.column}.eq.${quote(key.value)}`;
+
+  const after = (key: typeof allKeys[number]): string | null => {
+    // Nulls sort last, so nothing follows a null but more nulls
+    if (key.value === null) return null;
+    const comparison = `${key.column}.${key.ascending ? 'gt' : 'lt'}.${quote(key.value)}`;
+    return key.nullable ? `or(${comparison},${key.column}.is.null)` : comparison;
+  };
+
+  const branches = allKeys
+    .map((key, index) => {
+      const next = after(key);
+      if (!next) return null;
+      const ties = allKeys.slice(0, index).map(equals);
+      return ties.length > 0 ? `and(${[...ties, next].join(',')})` : next;
+    })
+    .filter((branch): branch is string => !!branch);
+
+  return branches.length > 0 ? branches.join(',') : null;
+}
+
+/**
+ * Base trades query for one owner with every filter applied on the server
+ */
+function buildTradesQuery(ownerId: string, filter: TradeQueryFilter, options: { count?: boolean } = {}) {
+  const tagIds = filter.tagIds || [];
+  // One inner join per tag: a trade must carry all of them
+  const select = [TRADE_SELECT, ...tagIds.map((_, i) => `tag_filter_${i}:trade_tags!inner(tag_id)`)].join(', ');
+
+  let query = supabase
+    .from('trades')
+    .select(select, options.count ? { count: 'exact' } : undefined)
+    .eq('user_id', ownerId);
+
+  tagIds.forEach((tagId, i) => {
+    query = query.eq(`tag_filter_${i}.tag_id`, tagId);
+  });
+
+  if (filter.category && filter.category !== 'all') query = query.eq('category', filter.category);
+  if (filter.asset?.trim()) query = query.ilike('asset', `%${escapeLike(filter.asset.trim())}%`);
+  if (filter.side) query = query.eq('details->>buy_sell', filter.side);
+  if (filter.from) query = query.gte('trade_date', startOfDay(parseISO(filter.from)).toISOString());
+  if (filter.to) query = query.lt('trade_date', addDays(startOfDay(parseISO(filter.to)), 1).toISOString());
+  if (filter.strategyId === UNASSIGNED_KEY) query = query.is('strategy_id', null);
+  else if (filter.strategyId) query = query.eq('strategy_id', filter.strategyId);
+
+  return query;
+}
+
+const stripTagFilters = (rows: unknown[]): Trade[] =>
+  rows.map(row => {
+    const trade = { ...(row as Record<string, unknown>) };
+    Object.keys(trade).filter(key => key.startsWith('tag_filter_')).forEach(key => delete trade[key]);
+    return trade as unknown as Trade;
+  });
+
+const cursorAfter = (keys: SortKey[], trade: Trade): TradeCursor => ({
+  values: keys.map(key => (trade[key.column] ?? null) as string | number | null),
+  id: trade.id,
+});
+
+const DATE_COLUMNS: SortColumn[] = ['trade_date', 'created_at'];
+
+/**
+ * Client-side equivalent of the server order for `keys`, nulls last
+ */
+function compareTrades(keys: SortKey[]) {
+  return (a: Trade, b: Trade): number => {
+    for (const key of keys) {
+      const left = a[key.column] ?? null;
+      const right = b[key.column] ?? null;
+      if (left === right) continue;
+      if (left === null) return 1;
+      if (right === null) return -1;
+
+      const order = DATE_COLUMNS.includes(key.column)
+        ? new Date(left as string).getTime() - new Date(right as string).getTime()
+        : typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right));
+      if (order !== 0) return key.ascending ? order : -order;
+    }
+    const byId = a.id.localeCompare(b.id);
+    return keys[0].ascending ? byId : -byId;
+  };
+}
+
+/**
+ * A page read from the offline mirror, with queued writes applied
+ */
+async function fetchOfflineTradesPage(
+  ownerId: string,
+  filter: TradeQueryFilter,
+  sortBy: string,
+  cursor: TradeCursor | null,
+  pageSize: number
+): Promise<TradesPage> {
+  const keys = sortKeysFor(sortBy);
+  const mirrored = await overlayQueuedWrites('trades', ownerId, await readMirror<Trade>('trades', ownerId));
+  const matching = mirrored.filter(trade => tradeMatchesQuery(trade, filter)).sort(compareTrades(keys));
+
+  const start = cursor ? matching.findIndex(trade => trade.id === cursor.id) + 1 : 0;
+  if (cursor && start === 0) return { trades: [], total: null, nextCursor: null };
+
+  const trades = matching.slice(start, start + pageSize);
+  const last = trades[trades.length - 1];
+  console.log(`⚠️ Offline: showing ${trades.length} stored trades`);
+
+  return {
+    trades,
+    total: cursor ? null : matching.length,
+    nextCursor: start + pageSize < matching.length && last ? cursorAfter(keys, last) : null,
+  };
+}
+
+async function fetchRemoteTradesPage(
+  ownerId: string,
+  filter: TradeQueryFilter,
+  sortBy: string,
+  cursor: TradeCursor | null,
+  pageSize: number
+): Promise<TradesPage> {
+  const keys = sortKeysFor(sortBy);
+  let query = buildTradesQuery(ownerId, filter, { count: !cursor });
+
+  if (cursor) {
+    const after = cursorFilter(keys, cursor);
+    if (after) query = query.or(after);
+  }
+
+  keys.forEach(key => {
+    query = query.order(key.column, { ascending: key.ascending, nullsFirst: false });
+  });
+  query = query.order('id', { ascending: keys[0].ascending }).limit(pageSize);
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+
+  const trades = stripTagFilters(data || []);
+  const last = trades[trades.length - 1];
+
+  return {
+    trades,
+    total: count ?? null,
+    nextCursor: trades.length === pageSize && last ? cursorAfter(keys, last) : null,
+  };
+}
+
+/**
+ * One page of an owner's trades in `sortBy` order, starting after `cursor`
+ */
+export async function fetchTradesPage(
+  ownerId: string,
+  filter: TradeQueryFilter,
+  sortBy: string,
+  cursor: TradeCursor | null = null,
+  pageSize = TRADES_PAGE_SIZE
+): Promise<TradesPage> {
+  try {
+    const page = await fetchRemoteTradesPage(ownerId, filter, sortBy, cursor, pageSize);
+    await mirrorRows('trades', ownerId, page.trades);
+    return page;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    return fetchOfflineTradesPage(ownerId, filter, sortBy, cursor, pageSize);
+  }
+}
+
+/**
+ * Every trade of an owner, oldest first, read page by page. The result
+ * replaces the owner's offline mirror; offline, the mirror is returned instead.
+ */
+export async function fetchTradeHistory(ownerId: string, filter: TradeQueryFilter = {}): Promise<Trade[]> {
+  const trades: Trade[] = [];
+  let cursor: TradeCursor | null = null;
+
+  try {
+    do {
+      const page = await fetchRemoteTradesPage(ownerId, filter, 'date_asc', cursor, HISTORY_PAGE_SIZE);
+      trades.push(...page.trades);
+      cursor = page.nextCursor;
+    } while (cursor);
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    const page = await fetchOfflineTradesPage(ownerId, filter, 'date_asc', null, Number.MAX_SAFE_INTEGER);
+    return page.trades;
+  }
+
+  if (Object.keys(filter).length === 0) await mirrorRows('trades', ownerId, trades, { replace: true });
+  console.log(`✅ Loaded ${trades.length} trades of history`);
+  return trades;
+}
+
+/**
+ * Most recently recorded trades of an owner
+ */
+export async function fetchRecentTrades(ownerId: string, limit: number): Promise<Trade[]> {
+  const page = await fetchTradesPage(ownerId, {}, 'recent', null, limit);
+  return page.trades;
+}
+
+/**
+ * Whether `trade` satisfies a list filter; mirrors the server-side filters
+ */
+export function tradeMatchesQuery(trade: Partial<Trade>, filter: TradeQueryFilter): boolean {
+  if (filter.category && filter.category !== 'all' && trade.category !== filter.category) return false;
+  if (filter.asset?.trim() && !trade.asset?.toLowerCase().includes(filter.asset.trim().toLowerCase())) return false;
+  if (filter.side && trade.details?.buy_sell !== filter.side) return false;
+
+  const tradeDate = trade.trade_date ? new Date(trade.trade_date) : null;
+  if (filter.from && (!tradeDate || tradeDate < startOfDay(parseISO(filter.from)))) return false;
+  if (filter.to && (!tradeDate || tradeDate >= addDays(startOfDay(parseISO(filter.to)), 1))) return false;
+
+  return matchesTradeFilter(trade as Trade, filter);
+}
+
+/**
+ * Trades matching `filter` in `sortBy` order, for lists assembled on the client
+ * from several owners' histories
+ */
+export function filterAndSortTrades(trades: Trade[], filter: TradeQueryFilter, sortBy: string): Trade[] {
+  return trades.filter(trade => tradeMatchesQuery(trade, filter)).sort(compareTrades(sortKeysFor(sortBy)));
+}
+
+/**
+ * Refetch only the cached lists a changed trade appears in, before or after the
+ * change, plus the owner's history and recent trades. Pass `null` for the
+ * missing side of a create or delete.
+ */
+export function invalidateTradeQueries(
+  queryClient: QueryClient,
+  ownerId: string,
+  before: Partial<Trade> | null,
+  after: Partial<Trade> | null
+): Promise<void> {
+  const versions = [before, after].filter((version): version is Partial<Trade> => !!version);
+
+  return Promise.all([
+    queryClient.invalidateQueries({
+      queryKey: tradeKeys.lists(ownerId),
+      predicate: query => {
+        const params = query.queryKey[3] as { filter?: TradeQueryFilter } | undefined;
+        return versions.some(version => tradeMatchesQuery(version, params?.filter || {}));
+      },
+    }),
+    queryClient.invalidateQueries({ queryKey: tradeKeys.history(ownerId) }),
+    queryClient.invalidateQueries({ queryKey: [...tradeKeys.owner(ownerId), 'recent'] }),
+  ]).then(() => undefined);
+}
+
+const byTradeDate = (a: Trade, b: Trade) =>
+  new Date(a.trade_date).getTime() - new Date(b.trade_date).getTime() || a.id.localeCompare(b.id);
+
+/**
+ * Patch cached trades with one inserted, updated or deleted row, as delivered
+ * by realtime. Rows arrive without their tags, so cached tags are kept; lists
+ * a new or moved row may belong to are refetched rather than spliced.
+ */
+export function applyTradeChange(
+  queryClient: QueryClient,
+  ownerId: string,
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE',
+  row: Trade | null,
+  old: Partial<Trade> | null
+) {
+  const id = row?.id || old?.id;
+  if (!id) return;
+
+  const withCachedTags = (trades: Trade[]): Trade | null => {
+    if (!row) return null;
+    const cached = trades.find(trade => trade.id === id);
+    return { ...row, trade_tags: cached?.trade_tags || row.trade_tags || [] };
+  };
+
+  queryClient.setQueryData<Trade[]>(tradeKeys.history(ownerId), trades => {
+    if (!trades) return trades;
+    const next = withCachedTags(trades);
+    const rest = trades.filter(trade => trade.id !== id);
+    return eventType === 'DELETE' || !next ? rest : [...rest, next].sort(byTradeDate);
+  });
+
+  queryClient.getQueryCache().findAll({ queryKey: [...tradeKeys.owner(ownerId), 'recent'] }).forEach(query => {
+    if (eventType === 'INSERT') {
+      queryClient.invalidateQueries({ queryKey: query.queryKey, exact: true });
+      return;
+    }
+    queryClient.setQueryData<Trade[]>(query.queryKey, trades => {
+      if (!trades) return trades;
+      const next = withCachedTags(trades);
+      return eventType === 'DELETE' || !next
+        ? trades.filter(trade => trade.id !== id)
+        : trades.map(trade => (trade.id === id ? next : trade));
+    });
+  });
+
+  queryClient.getQueryCache().findAll({ queryKey: tradeKeys.lists(ownerId) }).forEach(query => {
+    const data = query.state.data as InfiniteData<TradesPage> | undefined;
+    if (!data) return;
+
+    const { filter = {}, sortBy = 'date_desc' } = (query.queryKey[3] || {}) as { filter?: TradeQueryFilter; sortBy?: string };
+    const cached = data.pages.flatMap(page => page.trades).find(trade => trade.id === id);
+    const next = row ? { ...row, trade_tags: cached?.trade_tags || row.trade_tags || [] } : null;
+    // New rows carry no tags yet, so tag filters cannot rule them out
+    const belongs = !!next && tradeMatchesQuery(next, cached ? filter : { ...filter, tagIds: undefined });
+    const moved = !!cached && !!next && sortKeysFor(sortBy).some(key => cached[key.column] !== next[key.column]);
+
+    if ((belongs && !cached) || moved) {
+      queryClient.invalidateQueries({ queryKey: query.queryKey, exact: true });
+      return;
+    }
+    if (!cached) return;
+
+    queryClient.setQueryData<InfiniteData<TradesPage>>(query.queryKey, current => current && {
+      ...current,
+      pages: current.pages.map((page, index) => ({
+        ...page,
+        trades: belongs && next
+          ? page.trades.map(trade => (trade.id === id ? next : trade))
+          : page.trades.filter(trade => trade.id !== id),
+        total: index === 0 && page.total !== null && !belongs ? page.total - 1 : page.total,
+      })),
+    });
+  });
+}
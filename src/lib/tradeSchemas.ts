@@ -0,0 +1,92 @@
+/**
+ * Trade validation schemas
+ * Shared by the trade form and the CSV import wizard so both enforce the same rules
+ */
+
+import { z } from 'zod';
+import { TradeCategory } from '@/types/database';
+import { isCurrencyCode } from '@/lib/currencies';
+
+export const baseSchema = z.object({
+  category: z.enum(['spot', 'futures', 'defi', 'dual_investment', 'liquidity_pool', 'liquidity_mining']),
+  asset: z.string().min(1, 'Asset is required'),
+  price: z.number().positive('Price must be positive'),
+  currency: z.string().refine(isCurrencyCode, 'Unsupported currency').optional(),
+  quantity: z.number().positive('Quantity must be positive'),
+  trade_date: z.date(),
+  fees: z.number().min(0, 'Fees cannot be negative').optional(),
+  notes: z.string().optional(),
+  strategy_id: z.string().optional(),
+  tag_ids: z.array(z.string()).optional(),
+});
+
+export const investmentSchema = baseSchema.extend({
+  profit_loss: z.number().optional(),
+});
+
+export const spotSchema = baseSchema.extend({
+  buy_sell: z.enum(['buy', 'sell']),
+  stop_loss: z.number().positive().optional(),
+});
+
+export const futuresSchema = baseSchema.extend({
+  buy_sell: z.enum(['buy', 'sell']),
+  position_side: z.enum(['long', 'short']).optional(),
+  leverage: z.number().positive().optional(),
+  margin: z.number().positive().optional(),
+  stop_loss: z.number().positive().optional(),
+});
+
+// A fill entered by hand names its side: a sell closes a long or opens a short
+export const futuresEntrySchema = futuresSchema.extend({
+  position_side: z.enum(['long', 'short'], { required_error: 'Choose the long or short side' }),
+});
+
+export const defiSchema = investmentSchema.extend({
+  platform: z.string().min(1, 'Platform is required'),
+  apy: z.number().min(0).optional(),
+});
+
+export const dualInvestmentSchema = investmentSchema.extend({
+  platform: z.string().min(1, 'Platform is required'),
+  strike_price: z.number().positive().optional(),
+});
+
+export const liquidityPoolSchema = investmentSchema.extend({
+  platform: z.string().min(1, 'Platform is required'),
+  pool_share: z.number().min(0).max(1).optional(),
+});
+
+export const liquidityMiningSchema = investmentSchema.extend({
+  platform: z.string().min(1, 'Platform is required'),
+  rewards_token: z.string().optional(),
+});
+
+/**
+ * Get the validation schema for a trade category
+ */
+export function getTradeSchema(category: TradeCategory) {
+  switch (category) {
+    case 'spot':
+      return spotSchema;
+    case 'futures':
+      return futuresSchema;
+    case 'defi':
+      return defiSchema;
+    case 'dual_investment':
+      return dualInvestmentSchema;
+    case 'liquidity_pool':
+      return liquidityPoolSchema;
+    case 'liquidity_mining':
+      return liquidityMiningSchema;
+    default:
+      return baseSchema;
+  }
+}
+
+/**
+ * Get the validation schema for the trade form, which asks for more than an import
+ */
+export function getTradeEntrySchema(category: TradeCategory) {
+  return category === 'futures' ? futuresEntrySchema : getTradeSchema(category);
+}
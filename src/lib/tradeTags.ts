@@ -0,0 +1,189 @@
+/**
+ * Trade tags and strategies
+ * Tag assignment, list filtering and P&L attribution by strategy and tag
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { buildRoundTrips } from '@/lib/roundTrips';
+import { Strategy, Tag, Trade } from '@/types/database';
+
+export const TAG_COLORS = [
+  '#64748b', '#ef4444', '#f97316', '#eab308', '#22c55e',
+  '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899',
+];
+
+// Attribution row for trades without a strategy or tag
+export const UNASSIGNED_KEY = 'unassigned';
+
+export interface TradeFilter {
+  strategyId?: string;
+  // A trade must carry every listed tag
+  tagIds?: string[];
+}
+
+export interface AttributionRow {
+  key: string;
+  name: string;
+  color?: string;
+  results: number;
+  wins: number;
+  losses: number;
+  pnl: number;
+  winRate: number;
+  avgWin: number;
+  avgLoss: number;
+  // Average result: winRate * avgWin - lossRate * avgLoss
+  expectancy: number;
+}
+
+export function tradeTagIds(trade: Trade): string[] {
+  return (trade.trade_tags || []).map(link => link.tag_id);
+}
+
+export function matchesTradeFilter(trade: Trade, filter: TradeFilter): boolean {
+  if (filter.strategyId) {
+    const strategyId = trade.strategy_id || UNASSIGNED_KEY;
+    if (strategyId !== filter.strategyId) return false;
+  }
+  if (filter.tagIds?.length) {
+    const tagIds = tradeTagIds(trade);
+    if (!filter.tagIds.every(id => tagIds.includes(id))) return false;
+  }
+  return true;
+}
+
+/**
+ * Replace a trade's tags with `tagIds`, touching only the links that changed
+ */
+export async function saveTradeTags(tradeId: string, tagIds: string[]): Promise<void> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('trade_tags')
+    .select('tag_id')
+    .eq('trade_id', tradeId);
+  if (fetchError) throw fetchError;
+
+  const current = (existing || []).map(link => link.tag_id);
+  const removed = current.filter(id => !tagIds.includes(id));
+  const added = tagIds.filter(id => !current.includes(id));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('trade_tags')
+      .delete()
+      .eq('trade_id', tradeId)
+      .in('tag_id', removed);
+    if (error) throw error;
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from('trade_tags')
+      .insert(added.map(tag_id => ({ trade_id: tradeId, tag_id })));
+    if (error) throw error;
+  }
+}
+
+/**
+ * One P&L result per closed position or investment, with the trades it came from.
+ * Spot and futures results are closed round trips; other categories carry
+ * their recorded P&L.
+ */
+function tradeResults(trades: Trade[]): { pnl: number; trades: Trade[] }[] {
+  const byId = new Map(trades.map(trade => [trade.id, trade]));
+  const results: { pnl: number; trades: Trade[] }[] = [];
+
+  buildRoundTrips(trades)
+    .filter(trip => trip.status === 'closed')
+    .forEach(trip => {
+      const tripTrades = trip.tradeIds.map(id => byId.get(id)).filter((trade): trade is Trade => !!trade);
+      results.push({ pnl: trip.pnl, trades: tripTrades });
+    });
+
+  trades
+    .filter(trade => trade.category !== 'spot' && trade.category !== 'futures')
+    .filter(trade => trade.profit_loss !== null && trade.profit_loss !== undefined)
+    .forEach(trade => results.push({ pnl: trade.profit_loss || 0, trades: [trade] }));
+
+  return results;
+}
+
+function summarize(key: string, name: string, pnls: number[], color?: string): AttributionRow {
+  const wins = pnls.filter(pnl => pnl > 0);
+  const losses = pnls.filter(pnl => pnl < 0);
+  const total = pnls.reduce((sum, pnl) => sum + pnl, 0);
+
+  return {
+    key,
+    name,
+    color,
+    results: pnls.length,
+    wins: wins.length,
+    losses: losses.length,
+    pnl: total,
+    winRate: pnls.length > 0 ? (wins.length / pnls.length) * 100 : 0,
+    avgWin: wins.length > 0 ? wins.reduce((sum, pnl) => sum + pnl, 0) / wins.length : 0,
+    avgLoss: losses.length > 0 ? Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0)) / losses.length : 0,
+    expectancy: pnls.length > 0 ? total / pnls.length : 0,
+  };
+}
+
+function attribute(
+  trades: Trade[],
+  keysOf: (resultTrades: Trade[]) => string[],
+  labels: Map<string, { name: string; color?: string }>
+): AttributionRow[] {
+  const pnlsByKey = new Map<string, number[]>();
+
+  tradeResults(trades).forEach(result => {
+    const keys = keysOf(result.trades);
+    (keys.length > 0 ? keys : [UNASSIGNED_KEY]).forEach(key => {
+      pnlsByKey.set(key, [...(pnlsByKey.get(key) || []), result.pnl]);
+    });
+  });
+
+  return Array.from(pnlsByKey.entries())
+    .map(([key, pnls]) => {
+      const label = labels.get(key);
+      return summarize(key, label?.name || (key === UNASSIGNED_KEY ? 'Unassigned' : 'Deleted'), pnls, label?.color);
+    })
+    .sort((a, b) => b.pnl - a.pnl);
+}
+
+/**
+ * Results by strategy; a round trip takes the strategy of its first entry
+ */
+export function attributionByStrategy(trades: Trade[], strategies: Strategy[]): AttributionRow[] {
+  const labels = new Map(strategies.map(strategy => [strategy.id, { name: strategy.name }]));
+  return attribute(
+    trades,
+    resultTrades => (resultTrades[0]?.strategy_id ? [resultTrades[0].strategy_id] : []),
+    labels
+  );
+}
+
+/**
+ * Results by tag; a round trip counts toward every tag on any of its trades,
+ * so tag rows can overlap
+ */
+export function attributionByTag(trades: Trade[], tags: Tag[]): AttributionRow[] {
+  const labels = new Map(tags.map(tag => [tag.id, { name: tag.name, color: tag.color }]));
+  return attribute(
+    trades,
+    resultTrades => Array.from(new Set(resultTrades.flatMap(tradeTagIds))),
+    labels
+  );
+}
+
+/**
+ * Results by owner, for views that merge several traders' journals. Round
+ * trips are matched within each owner's own trades, never across owners.
+ */
+export function attributionByOwner(trades: Trade[], owners: { id: string; name: string }[]): AttributionRow[] {
+  return owners
+    .map(owner => summarize(
+      owner.id,
+      owner.name,
+      tradeResults(trades.filter(trade => trade.user_id === owner.id)).map(result => result.pnl)
+    ))
+    .sort((a, b) => b.pnl - a.pnl);
+}
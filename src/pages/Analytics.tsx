@@ -1,7 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useMemo } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
-import { Trade } from '@/types/database';
+import { useFxConversion } from '@/hooks/useFxConversion';
+import { useTradeTags } from '@/hooks/useTradeTags';
+import { useTradeHistories, useTradeOwner } from '@/hooks/useTrades';
+import { useCashflowHistories } from '@/hooks/useCashflows';
+import { useBoundTraders } from '@/hooks/useBoundTraders';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PortfolioChart } from '@/components/analytics/PortfolioChart';
@@ -9,105 +12,65 @@ import { AssetAllocation } from '@/components/analytics/AssetAllocation';
 import { PerformanceMetrics } from '@/components/analytics/PerformanceMetrics';
 import { TradeFrequency } from '@/components/analytics/TradeFrequency';
 import { ProfitLossChart } from '@/components/analytics/ProfitLossChart';
+import { ReturnsPanel } from '@/components/analytics/ReturnsPanel';
+import { RiskAnalytics } from '@/components/analytics/RiskAnalytics';
+import { RoundTripAnalysis } from '@/components/analytics/RoundTripAnalysis';
+import { StrategyAttribution } from '@/components/analytics/StrategyAttribution';
+import { TraderAttribution } from '@/components/analytics/TraderAttribution';
 import { BarChart3, TrendingUp, DollarSign, Target } from 'lucide-react';
+import { formatCurrency as formatMoney } from '@/lib/currencies';
+import { buildRoundTrips, formatHoldingPeriod, summarizeRoundTrips } from '@/lib/roundTrips';
 
 export default function Analytics() {
   const { profile, isTrader } = useAuth();
-  const [trades, setTrades] = useState<Trade[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [analytics, setAnalytics] = useState({
-    totalValue: 0,
-    totalPnL: 0,
-    totalTrades: 0,
-    winRate: 0,
-    avgHoldingPeriod: 0,
-    bestPerformer: '',
-    worstPerformer: '',
-  });
-
-  useEffect(() => {
-    fetchAnalyticsData();
-  }, [profile]);
-
-  const fetchAnalyticsData = async () => {
-    if (!profile) return;
-
-    try {
-      let query = supabase
-        .from('trades')
-        .select('*')
-        .order('trade_date', { ascending: true });
-
-      // For traders, get their own trades
-      if (isTrader) {
-        query = query.eq('user_id', profile.id);
-      } else {
-        // For investors, get their bound trader's trades
-        const { data: bindings } = await supabase
-          .from('bindings')
-          .select('trader_id')
-          .eq('investor_id', profile.id)
-          .eq('status', 'approved')
-          .maybeSingle();
-
-        if (bindings) {
-          query = query.eq('user_id', bindings.trader_id);
-        } else {
-          setTrades([]);
-          setLoading(false);
-          return;
-        }
+  const { ownerId, ownerIds, consolidated, loading: ownerLoading } = useTradeOwner();
+  const { traders } = useBoundTraders();
+  // The consolidated view aggregates every bound trader's journal
+  const { trades: recordedTrades, loading: tradesLoading } = useTradeHistories(ownerIds);
+  const { cashflows: recordedCashflows } = useCashflowHistories(ownerIds);
+  const { tags, strategies } = useTradeTags(ownerId);
+  const loading = ownerLoading || tradesLoading;
+
+  // Every aggregate below is stated in the viewer's currency at trade-date FX rates
+  const { trades, cashflows, unconverted } = useFxConversion(recordedTrades, recordedCashflows, profile?.currency || 'USD');
+
+  const analytics = useMemo(() => {
+    const totalValue = trades.reduce((sum, trade) => sum + (trade.price * trade.quantity), 0);
+    const totalPnL = trades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0);
+    const profitableTrades = trades.filter(trade => (trade.profit_loss || 0) > 0).length;
+    const winRate = trades.length > 0 ? (profitableTrades / trades.length) * 100 : 0;
+
+    // Asset performance
+    const assetPerformance = trades.reduce((acc, trade) => {
+      if (!acc[trade.asset]) {
+        acc[trade.asset] = { pnl: 0, trades: 0 };
       }
+      acc[trade.asset].pnl += trade.profit_loss || 0;
+      acc[trade.asset].trades += 1;
+      return acc;
+    }, {} as Record<string, { pnl: number; trades: number }>);
+
+    const sortedAssets = Object.entries(assetPerformance)
+      .sort(([,a], [,b]) => b.pnl - a.pnl);
+
+    // Positions are matched within each trader's own trades
+    const roundTrips = summarizeRoundTrips(
+      Array.from(new Set(trades.map(trade => trade.user_id)))
+        .flatMap(owner => buildRoundTrips(trades.filter(trade => trade.user_id === owner)))
+    );
+
+    return {
+      totalValue,
+      totalPnL,
+      totalTrades: trades.length,
+      winRate,
+      avgHoldingPeriod: roundTrips.closedCount > 0 ? roundTrips.avgHoldingDays : null,
+      bestPerformer: sortedAssets[0]?.[0] || '',
+      worstPerformer: sortedAssets[sortedAssets.length - 1]?.[0] || '',
+    };
+  }, [trades]);
 
-      const { data, error } = await query;
-      if (error) throw error;
-
-      const tradesData = data as Trade[];
-      setTrades(tradesData);
-
-      // Calculate analytics
-      const totalValue = tradesData.reduce((sum, trade) => sum + (trade.price * trade.quantity), 0);
-      const totalPnL = tradesData.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0);
-      const profitableTrades = tradesData.filter(trade => (trade.profit_loss || 0) > 0).length;
-      const winRate = tradesData.length > 0 ? (profitableTrades / tradesData.length) * 100 : 0;
-
-      // Asset performance
-      const assetPerformance = tradesData.reduce((acc, trade) => {
-        if (!acc[trade.asset]) {
-          acc[trade.asset] = { pnl: 0, trades: 0 };
-        }
-        acc[trade.asset].pnl += trade.profit_loss || 0;
-        acc[trade.asset].trades += 1;
-        return acc;
-      }, {} as Record<string, { pnl: number; trades: number }>);
-
-      const sortedAssets = Object.entries(assetPerformance)
-        .sort(([,a], [,b]) => b.pnl - a.pnl);
-
-      setAnalytics({
-        totalValue,
-        totalPnL,
-        totalTrades: tradesData.length,
-        winRate,
-        avgHoldingPeriod: 0, // TODO: Calculate based on buy/sell pairs
-        bestPerformer: sortedAssets[0]?.[0] || '',
-        worstPerformer: sortedAssets[sortedAssets.length - 1]?.[0] || '',
-      });
-
-    } catch (error) {
-      console.error('Error fetching analytics:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: profile?.currency || 'USD',
-      minimumFractionDigits: 2,
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, profile?.currency || 'USD');
 
   if (loading) {
     return (
@@ -133,9 +96,14 @@ export default function Analytics() {
         <p className="text-muted-foreground">
           {isTrader 
             ? 'Comprehensive analysis of your trading performance' 
-            : 'Your trader\'s performance insights'
+            : consolidated ? 'Combined performance of all your traders' : 'Your trader\'s performance insights'
           }
         </p>
+        {unconverted > 0 && (
+          <p className="text-xs text-amber-600 mt-1">
+            {unconverted} trade{unconverted !== 1 ? 's' : ''} excluded: no {profile?.currency || 'USD'} exchange rate available
+          </p>
+        )}
       </div>
 
       {/* Key Metrics */}
@@ -179,6 +147,7 @@ export default function Analytics() {
                 <p className="text-2xl font-bold">{analytics.totalTrades}</p>
                 <p className="text-xs text-muted-foreground">
                   {analytics.winRate.toFixed(1)}% win rate
+                  {analytics.avgHoldingPeriod !== null && ` · ${formatHoldingPeriod(analytics.avgHoldingPeriod)} avg hold`}
                 </p>
               </div>
               <div className="p-3 bg-primary/20 rounded-xl">
@@ -206,24 +175,71 @@ export default function Analytics() {
 
       {/* Charts and Analysis */}
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        {/* Round trips and strategies belong to one trader's journal; the consolidated view attributes by trader instead */}
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="performance">Performance</TabsTrigger>
+          <TabsTrigger value="risk">Risk</TabsTrigger>
+          {consolidated ? (
+            <TabsTrigger value="traders" className="col-span-2">Traders</TabsTrigger>
+          ) : (
+            <>
+              <TabsTrigger value="trips">Round Trips</TabsTrigger>
+              <TabsTrigger value="strategies">Strategies</TabsTrigger>
+            </>
+          )}
           <TabsTrigger value="allocation">Allocation</TabsTrigger>
           <TabsTrigger value="frequency">Activity</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <PortfolioChart trades={trades} />
+            <PortfolioChart trades={trades} currency={profile?.currency} />
             <PerformanceMetrics trades={trades} />
           </div>
         </TabsContent>
 
         <TabsContent value="performance" className="space-y-6">
+          <ReturnsPanel
+            trades={recordedTrades}
+            cashflows={recordedCashflows}
+            currency={profile?.currency || 'USD'}
+          />
           <ProfitLossChart trades={trades} />
         </TabsContent>
 
+        <TabsContent value="risk" className="space-y-6">
+          <RiskAnalytics
+            trades={recordedTrades}
+            cashflows={recordedCashflows}
+            currency={profile?.currency || 'USD'}
+          />
+        </TabsContent>
+
+        <TabsContent value="trips" className="space-y-6">
+          <RoundTripAnalysis trades={trades} currency={profile?.currency || 'USD'} />
+        </TabsContent>
+
+        <TabsContent value="strategies" className="space-y-6">
+          <StrategyAttribution
+            trades={trades}
+            strategies={strategies}
+            tags={tags}
+            currency={profile?.currency || 'USD'}
+          />
+        </TabsContent>
+
+        {consolidated && (
+          <TabsContent value="traders" className="space-y-6">
+            <TraderAttribution
+              trades={trades}
+              cashflows={cashflows}
+              traders={traders}
+              currency={profile?.currency || 'USD'}
+            />
+          </TabsContent>
+        )}
+
         <TabsContent value="allocation" className="space-y-6">
           <AssetAllocation trades={trades} />
         </TabsContent>
@@ -1,5 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
+import { useTradeHistory, useTradeOwner } from '@/hooks/useTrades';
+import { useCashflowHistories } from '@/hooks/useCashflows';
+import { useBoundTraders } from '@/hooks/useBoundTraders';
+import { useFxConversion } from '@/hooks/useFxConversion';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -26,88 +31,50 @@ import {
   TableRow 
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Plus, ArrowDownCircle, ArrowUpCircle, Filter, Download, ArrowUpDown, DollarSign, TrendingUp, TrendingDown } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Plus, ArrowDownCircle, ArrowUpCircle, Filter, ArrowUpDown, DollarSign, TrendingUp, TrendingDown } from 'lucide-react';
 import { Tables } from '@/integrations/supabase/types';
 import { CashflowForm } from '@/components/cashflow/CashflowForm';
 import { CashflowList } from '@/components/cashflow/CashflowList';
+import { CapitalAccountsCard } from '@/components/cashflow/CapitalAccountsCard';
+import { JournalExportDialog } from '@/components/export/JournalExportDialog';
+import { formatCurrency as formatMoney } from '@/lib/currencies';
+import { invalidateCashflowQueries } from '@/lib/cashflowQueries';
+import { capitalAccountsKey } from '@/lib/capitalAccounts';
+import { Cashflow as RecordedCashflow } from '@/types/database';
 
 type Cashflow = Tables<'cashflows'>;
 
+const NO_TRADES: [] = [];
+
 export default function CashflowPage() {
   const { profile, isTrader } = useAuth();
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedType, setSelectedType] = useState<string>('all');
   const [sortBy, setSortBy] = useState<string>('date_desc');
-  const [cashflows, setCashflows] = useState<Cashflow[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [cashflowCount, setCashflowCount] = useState<number>(0);
+  const queryClient = useQueryClient();
+  const { ownerId, ownerIds, consolidated, loading: ownerLoading } = useTradeOwner();
+  const { namesById } = useBoundTraders();
+  // Every bound trader's flows in the consolidated view
+  const { cashflows: recordedCashflows, loading: cashflowsLoading } = useCashflowHistories(ownerIds);
+  const cashflows = recordedCashflows as Cashflow[];
+  // Capital accounts value the whole fund, trades included
+  const { trades: fundTrades } = useTradeHistory(isTrader ? ownerId : undefined);
+  const loading = ownerLoading || cashflowsLoading;
+  const cashflowCount = cashflows.length;
   const [formType, setFormType] = useState<'deposit' | 'withdrawal'>('deposit');
   const [editingCashflow, setEditingCashflow] = useState<Cashflow | null>(null);
 
-  // Fetch cashflows
-  useEffect(() => {
-    const fetchCashflows = async () => {
-      if (!profile) return;
-
-      try {
-        setLoading(true);
-        let query = supabase
-          .from('cashflows')
-          .select('*')
-          .order('transaction_date', { ascending: false });
-
-        // For traders, get their own cashflows
-        if (isTrader) {
-          query = query.eq('user_id', profile.id);
-        } else {
-          // For investors, get their bound trader's cashflows
-          if (profile.bound_trader_id) {
-            // Verify the binding is still approved
-            const { data: binding } = await supabase
-              .from('bindings')
-              .select('status')
-              .eq('investor_id', profile.id)
-              .eq('trader_id', profile.bound_trader_id)
-              .eq('status', 'approved')
-              .maybeSingle();
-              
-            if (binding) {
-              query = query.eq('user_id', profile.bound_trader_id);
-            } else {
-              setCashflows([]);
-              setLoading(false);
-              return;
-            }
-          } else {
-            setCashflows([]);
-            setLoading(false);
-            return;
-          }
-        }
-
-        const { data, error } = await query;
-
-        if (error) throw error;
-        
-        setCashflows(data as Cashflow[] || []);
-        setCashflowCount(data?.length || 0);
-        console.log(`✅ Loaded ${data?.length || 0} cashflow entries`);
-      } catch (error) {
-        console.error('❌ Error fetching cashflows:', error);
-        setCashflows([]);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchCashflows();
-  }, [profile, isTrader]);
+  // Totals are stated in the profile currency at each transaction date's FX rate
+  const { cashflows: reportingCashflows } = useFxConversion(
+    NO_TRADES,
+    cashflows as RecordedCashflow[],
+    profile?.currency || 'USD'
+  );
 
   // Calculate totals
   const totals = React.useMemo(() => {
-    const deposits = cashflows.filter(cf => cf.type === 'deposit');
-    const withdrawals = cashflows.filter(cf => cf.type === 'withdrawal');
+    const deposits = reportingCashflows.filter(cf => cf.type === 'deposit');
+    const withdrawals = reportingCashflows.filter(cf => cf.type === 'withdrawal');
     
     const totalDeposits = deposits.reduce((sum, cf) => sum + cf.amount, 0);
     const totalWithdrawals = withdrawals.reduce((sum, cf) => sum + cf.amount, 0);
@@ -120,20 +87,16 @@ export default function CashflowPage() {
       depositCount: deposits.length,
       withdrawalCount: withdrawals.length
     };
-  }, [cashflows]);
+  }, [reportingCashflows]);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: profile?.currency || 'USD',
-      minimumFractionDigits: 2,
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, profile?.currency || 'USD');
 
   const handleFormSuccess = () => {
     setIsFormOpen(false);
-    // Refresh the cashflow data
-    window.location.reload();
+    if (ownerId) {
+      invalidateCashflowQueries(queryClient, ownerId);
+      queryClient.invalidateQueries({ queryKey: capitalAccountsKey(ownerId) });
+    }
   };
 
   return (
@@ -147,7 +110,7 @@ export default function CashflowPage() {
           <p className="text-muted-foreground">
             {isTrader 
               ? 'Track your deposits and withdrawals' 
-              : 'View your trader\'s cash flow activity'
+              : consolidated ? 'View the cash flow activity of all your traders' : 'View your trader\'s cash flow activity'
             }
           </p>
         </div>
@@ -171,10 +134,11 @@ export default function CashflowPage() {
               <Filter className="w-4 h-4 mr-2" />
               Filter
             </Button>
-            <Button variant="outline" size="sm">
-              <Download className="w-4 h-4 mr-2" />
-              Export
-            </Button>
+            <JournalExportDialog
+              defaultDatasets={['cashflows']}
+              cashflowType={selectedType}
+              cashflowSortBy={sortBy}
+            />
             <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
               <DialogTrigger asChild>
                 <Button onClick={() => setFormType('deposit')}>
@@ -185,6 +149,14 @@ export default function CashflowPage() {
             </Dialog>
           </div>
         )}
+
+        {!isTrader && ownerId && (
+          <JournalExportDialog
+            defaultDatasets={['cashflows']}
+            cashflowType={selectedType}
+            cashflowSortBy={sortBy}
+          />
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -306,12 +278,21 @@ export default function CashflowPage() {
         </div>
       )}
 
+      {isTrader && ownerId && (
+        <CapitalAccountsCard
+          traderId={ownerId}
+          trades={fundTrades}
+          cashflows={recordedCashflows}
+          currency={profile?.currency || 'USD'}
+        />
+      )}
+
       {/* Cashflow Table */}
       <Card className="crypto-card">
         <CardHeader>
           <CardTitle>Transaction History</CardTitle>
           <CardDescription>
-            {isTrader ? 'Your deposit and withdrawal history' : `${profile?.bound_trader_id ? 'Trader' : 'No'} transaction history`}
+            {isTrader ? 'Your deposit and withdrawal history' : consolidated ? 'Transaction history of all your traders' : `${ownerId ? 'Trader' : 'No'} transaction history`}
             {cashflowCount > 0 && (
               <span className="ml-2 text-primary font-medium">
                 ({cashflowCount} total transaction{cashflowCount !== 1 ? 's' : ''})
@@ -343,6 +324,7 @@ export default function CashflowPage() {
                 isTrader={isTrader}
                 onUpdate={handleFormSuccess}
                 onEdit={setEditingCashflow}
+                ownerNames={consolidated ? namesById : undefined}
               />
             </TabsContent>
           </Tabs>
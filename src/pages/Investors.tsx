@@ -1,10 +1,17 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeChanges } from '@/hooks/useRealtimeSync';
+import { useBindingCapacity } from '@/hooks/useBindingCapacity';
+import { useTradeHistory } from '@/hooks/useTrades';
+import { useCashflowHistory } from '@/hooks/useCashflows';
 import { supabase } from '@/integrations/supabase/client';
 import { Binding, User as AppUser } from '@/types/database';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Table, 
   TableBody, 
@@ -23,17 +30,31 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Users, UserCheck, UserX, Clock, Copy, Shield } from 'lucide-react';
+import { Users, UserCheck, UserX, Clock, Copy, Shield, Ticket } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
+import { FeesCard } from '@/components/fees/FeesCard';
+import {
+  bindingCapacityKey,
+  investorCapOptions,
+  isInvestorLimitError,
+  PLAN_INVESTOR_LIMITS,
+  PLAN_LABELS,
+} from '@/lib/bindingTiers';
 
 interface BindingWithUser extends Binding {
   users: AppUser;
 }
 
 export default function Investors() {
-  const { profile, isTrader, loading: authLoading } = useAuth();
+  const { profile, isTrader, loading: authLoading, refreshProfile } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { capacity, refetch: refetchCapacity } = useBindingCapacity(isTrader ? profile?.id : undefined);
+  // The fund's trades and cash flows value the capital accounts fees are charged on
+  const { trades } = useTradeHistory(isTrader ? profile?.id : undefined);
+  const { cashflows } = useCashflowHistory(isTrader ? profile?.id : undefined);
+  const [savingCap, setSavingCap] = useState(false);
   const [bindings, setBindings] = useState<BindingWithUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionBinding, setActionBinding] = useState<BindingWithUser | null>(null);
@@ -45,6 +66,17 @@ export default function Investors() {
     }
   }, [profile, isTrader]);
 
+  // New requests appear without a reload
+  useRealtimeChanges('bindings', () => fetchBindings());
+
+  // Pending requests past the free slots wait in the order they were sent
+  const waitlistPositions = useMemo(() => {
+    const pending = bindings
+      .filter(b => b.status === 'pending')
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id.localeCompare(b.id));
+    return new Map(pending.map((binding, index) => [binding.id, index + 1]));
+  }, [bindings]);
+
   const fetchBindings = async () => {
     if (!profile) return;
 
@@ -83,6 +115,7 @@ export default function Investors() {
 
       if (error) throw error;
 
+      queryClient.invalidateQueries({ queryKey: bindingCapacityKey(binding.trader_id) });
       setBindings(prev => 
         prev.map(b => 
           b.id === binding.id 
@@ -104,16 +137,53 @@ export default function Investors() {
         fetchBindings();
       }, 500);
     } catch (error: any) {
+      const full = isInvestorLimitError(error);
+      toast({
+        title: full ? "No free investor slots" : "Error",
+        description: full
+          ? `${binding.users.username} stays on your waitlist. Revoke an investor or raise your limit to approve them.`
+          : error.message,
+        variant: "destructive",
+      });
+      if (full) refetchCapacity();
+    }
+  };
+
+  const handleCapChange = async (value: string) => {
+    if (!profile) return;
+
+    setSavingCap(true);
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update({ investor_cap: Number(value) })
+        .eq('id', profile.id);
+
+      if (error) throw error;
+
+      await Promise.all([refreshProfile(), refetchCapacity()]);
+      toast({
+        title: "Investor limit updated",
+        description: `You now accept up to ${value} investors.`,
+      });
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive",
       });
+    } finally {
+      setSavingCap(false);
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
+  const getStatusBadge = (binding: BindingWithUser) => {
+    const position = waitlistPositions.get(binding.id);
+    if (binding.status === 'pending' && capacity && position && position > capacity.remaining) {
+      return <Badge variant="outline" className="text-muted-foreground">Waitlist #{position - capacity.remaining}</Badge>;
+    }
+
+    switch (binding.status) {
       case 'pending':
         return <Badge variant="outline" className="text-yellow-500 border-yellow-500">Pending</Badge>;
       case 'approved':
@@ -121,7 +191,7 @@ export default function Investors() {
       case 'revoked':
         return <Badge variant="destructive">Revoked</Badge>;
       default:
-        return <Badge variant="outline">{status}</Badge>;
+        return <Badge variant="outline">{binding.status}</Badge>;
     }
   };
 
@@ -188,6 +258,8 @@ export default function Investors() {
   const pendingCount = bindings.filter(b => b.status === 'pending').length;
   const approvedCount = bindings.filter(b => b.status === 'approved').length;
   const totalCount = bindings.length;
+  const plan = capacity?.plan || profile?.plan || 'free';
+  const slotsFull = !!capacity && capacity.remaining === 0;
 
   return (
     <div className="space-y-6">
@@ -195,12 +267,12 @@ export default function Investors() {
       <div>
         <h1 className="text-3xl font-bold text-gradient-primary">Investor Connections</h1>
         <p className="text-muted-foreground">
-          View investors who have connected to your portfolio (auto-approved)
+          Approve investors who asked to follow your portfolio, up to your plan's limit
         </p>
       </div>
 
       {/* Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card className="crypto-card-blue">
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
@@ -244,8 +316,70 @@ export default function Investors() {
             </div>
           </CardContent>
         </Card>
+
+        <Card className="crypto-card">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Open Slots</p>
+                <p className="text-2xl font-bold">{capacity ? capacity.remaining : '—'}</p>
+                <p className="text-xs text-muted-foreground">
+                  {capacity ? `of ${capacity.limit} on the ${PLAN_LABELS[plan]} plan` : 'Checking your plan'}
+                </p>
+              </div>
+              <div className="p-3 bg-primary/20 rounded-xl">
+                <Ticket className="w-6 h-6 text-primary" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Investor Slots */}
+      {capacity && (
+        <Card className="crypto-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Investor Slots
+              <Badge variant="outline">{PLAN_LABELS[plan]}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {slotsFull
+                ? `All ${capacity.limit} slots are taken. New requests join your waitlist until you revoke an investor or raise your limit.`
+                : `${capacity.remaining} of ${capacity.limit} slots open. Requests beyond that wait in line in the order they were sent.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Progress value={capacity.limit > 0 ? (capacity.approved / capacity.limit) * 100 : 100} />
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-muted-foreground">Accept up to</span>
+                <Select
+                  value={String(profile?.investor_cap ?? PLAN_INVESTOR_LIMITS[plan])}
+                  onValueChange={handleCapChange}
+                  disabled={savingCap}
+                >
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {investorCapOptions(plan).map(cap => (
+                      <SelectItem key={cap} value={String(cap)}>{cap}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">investors</span>
+              </div>
+              {plan === 'free' && (
+                <p className="text-sm text-muted-foreground">
+                  Premium raises the limit to {PLAN_INVESTOR_LIMITS.premium} investors.
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Trader UUID Display */}
       <Card className="crypto-card-blue">
         <CardHeader>
@@ -285,7 +419,7 @@ export default function Investors() {
         <CardHeader>
           <CardTitle>Connected Investors</CardTitle>
           <CardDescription>
-            Investors who have connected to view your trading data
+            Approve requests to share your trading data, or revoke access at any time
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -303,8 +437,9 @@ export default function Investors() {
                 <TableRow>
                   <TableHead>Investor</TableHead>
                   <TableHead>Email</TableHead>
-                  <TableHead>Connected Date</TableHead>
+                  <TableHead>Requested</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -327,7 +462,38 @@ export default function Investors() {
                       {format(new Date(binding.created_at), 'MMM dd, yyyy')}
                     </TableCell>
                     <TableCell>
-                      <Badge className="bg-success/20 text-success">Connected</Badge>
+                      {getStatusBadge(binding)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {binding.status === 'pending' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={slotsFull}
+                          title={slotsFull ? 'No free investor slots' : undefined}
+                          onClick={() => {
+                            setActionBinding(binding);
+                            setActionType('approve');
+                          }}
+                        >
+                          <UserCheck className="w-4 h-4 mr-1" />
+                          Approve
+                        </Button>
+                      )}
+                      {binding.status === 'approved' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-destructive"
+                          onClick={() => {
+                            setActionBinding(binding);
+                            setActionType('revoke');
+                          }}
+                        >
+                          <UserX className="w-4 h-4 mr-1" />
+                          Revoke
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -337,6 +503,16 @@ export default function Investors() {
         </CardContent>
       </Card>
 
+      {/* Fees */}
+      {profile && (
+        <FeesCard
+          traderId={profile.id}
+          trades={trades}
+          cashflows={cashflows}
+          currency={profile.currency || 'USD'}
+        />
+      )}
+
       {/* Action Confirmation Dialog */}
       <AlertDialog open={!!actionBinding} onOpenChange={() => {
         setActionBinding(null);
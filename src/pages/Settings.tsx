@@ -24,6 +24,9 @@ import {
 import { User, Bell, Shield, Trash2, Upload, Save } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { DebugPanel } from '@/components/debug/DebugPanel';
+import { SymbolPinsCard } from '@/components/settings/SymbolPinsCard';
+import { TagManagerCard } from '@/components/settings/TagManagerCard';
+import { CURRENCIES } from '@/lib/currencies';
 
 export default function Settings() {
   const { profile, signOut } = useAuth();
@@ -170,8 +173,11 @@ export default function Settings() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="USD">USD ($)</SelectItem>
-                  <SelectItem value="PHP">PHP (₱)</SelectItem>
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency.code} value={currency.code}>
+                      {currency.code} · {currency.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -262,6 +268,12 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Strategies & Tags */}
+      {profile?.role === 'trader' && <TagManagerCard userId={profile.id} />}
+
+      {/* Price Symbol Mappings */}
+      <SymbolPinsCard />
+
       {/* Security Settings */}
       <Card className="crypto-card">
         <CardHeader>
@@ -0,0 +1,381 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useCostBasisMethod } from '@/hooks/useCostBasisMethod';
+import { useFxConversion } from '@/hooks/useFxConversion';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Printer, AlertTriangle, FileText, TrendingUp, Clock, Coins } from 'lucide-react';
+import { format } from 'date-fns';
+import { COST_BASIS_METHODS, CostBasisMethod } from '@/lib/lotMatching';
+import {
+  TAX_JURISDICTIONS,
+  TaxJurisdiction,
+  availableTaxYears,
+  buildTaxReport,
+  taxReportToForm8949Csv,
+} from '@/lib/taxReport';
+import { downloadExportFile } from '@/lib/journalExport';
+import { cn } from '@/lib/utils';
+import { formatCurrency as formatMoney } from '@/lib/currencies';
+import { Cashflow, Trade } from '@/types/database';
+
+export default function TaxReport() {
+  const { profile, isTrader } = useAuth();
+  const { method: preferredMethod } = useCostBasisMethod();
+  const [recordedTrades, setRecordedTrades] = useState<Trade[]>([]);
+  const [recordedCashflows, setRecordedCashflows] = useState<Cashflow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [jurisdiction, setJurisdiction] = useState<TaxJurisdiction>(
+    profile?.currency === 'PHP' ? 'PH' : 'US'
+  );
+  const [method, setMethod] = useState<CostBasisMethod>(preferredMethod);
+  const [taxYear, setTaxYear] = useState<number>(new Date().getFullYear());
+
+  useEffect(() => {
+    const fetchTaxData = async () => {
+      if (!profile || !isTrader) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const [tradesResult, cashflowsResult] = await Promise.all([
+          supabase.from('trades').select('*').eq('user_id', profile.id),
+          supabase.from('cashflows').select('*').eq('user_id', profile.id),
+        ]);
+
+        if (tradesResult.error) throw tradesResult.error;
+        if (cashflowsResult.error) throw cashflowsResult.error;
+
+        setRecordedTrades((tradesResult.data || []) as Trade[]);
+        setRecordedCashflows((cashflowsResult.data || []) as Cashflow[]);
+        console.log(`✅ Loaded ${tradesResult.data?.length || 0} trades for tax report`);
+      } catch (error) {
+        console.error('❌ Error fetching tax report data:', error);
+        setRecordedTrades([]);
+        setRecordedCashflows([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTaxData();
+  }, [profile, isTrader]);
+
+  const currency = profile?.currency || 'USD';
+
+  // Disposals and income are restated in the profile currency at each trade date's FX rate
+  const { trades, cashflows, unconverted } = useFxConversion(recordedTrades, recordedCashflows, currency);
+
+  const taxYears = useMemo(() => {
+    const years = availableTaxYears(trades);
+    return years.length > 0 ? years : [new Date().getFullYear()];
+  }, [trades]);
+
+  // Default to the most recent year with activity
+  useEffect(() => {
+    if (!taxYears.includes(taxYear)) setTaxYear(taxYears[0]);
+  }, [taxYears, taxYear]);
+
+  const report = useMemo(() => {
+    const built = buildTaxReport(trades, cashflows, { jurisdiction, taxYear, method, currency });
+    if (unconverted > 0) {
+      built.warnings.unshift(
+        `${unconverted} record${unconverted !== 1 ? 's' : ''} could not be converted to ${currency} (no exchange rate available) and ${unconverted !== 1 ? 'were' : 'was'} excluded.`
+      );
+    }
+    return built;
+  }, [trades, cashflows, unconverted, jurisdiction, taxYear, method, currency]);
+
+  const rules = TAX_JURISDICTIONS.find(j => j.value === jurisdiction)!;
+
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
+
+  const formatDate = (date?: string) => date ? format(new Date(date), 'MMM dd, yyyy') : 'Various';
+
+  const handleDownloadCsv = () => {
+    downloadExportFile({
+      filename: `form-8949-${jurisdiction.toLowerCase()}-${taxYear}-${method}.csv`,
+      mimeType: 'text/csv;charset=utf-8',
+      content: taxReportToForm8949Csv(report),
+    });
+  };
+
+  if (!isTrader) {
+    return (
+      <Card className="crypto-card">
+        <CardContent className="p-6 text-center text-muted-foreground">
+          Tax reports are available to traders for their own journal.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i} className="crypto-card animate-pulse">
+              <CardContent className="p-6">
+                <div className="h-20 bg-muted/50 rounded"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gradient-primary">Tax Report</h1>
+          <p className="text-muted-foreground">
+            {rules.label} · Tax year {taxYear} · {COST_BASIS_METHODS.find(m => m.value === method)?.label} · {currency}
+          </p>
+        </div>
+
+        <div className="flex gap-3 print:hidden">
+          <Select value={jurisdiction} onValueChange={(value) => setJurisdiction(value as TaxJurisdiction)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TAX_JURISDICTIONS.map(j => (
+                <SelectItem key={j.value} value={j.value}>{j.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(taxYear)} onValueChange={(value) => setTaxYear(Number(value))}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {taxYears.map(year => (
+                <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={method} onValueChange={(value) => setMethod(value as CostBasisMethod)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COST_BASIS_METHODS.map(m => (
+                <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleDownloadCsv}>
+            <Download className="w-4 h-4 mr-2" />
+            Form 8949 CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {report.warnings.length > 0 && (
+        <Card className="border-yellow-300 bg-yellow-50">
+          <CardContent className="p-4 space-y-1">
+            {report.warnings.map((warning, index) => (
+              <div key={index} className="flex items-start gap-2 text-sm text-yellow-800">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                {warning}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <Card className="crypto-card">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Short-Term Gain/Loss</p>
+                <p className={cn("text-2xl font-bold", report.shortTerm.gainOrLoss >= 0 ? 'text-green-600' : 'text-red-600')}>
+                  {formatCurrency(report.shortTerm.gainOrLoss)}
+                </p>
+                <p className="text-xs text-muted-foreground">{report.shortTerm.count} disposals</p>
+              </div>
+              <div className="p-3 bg-primary/20 rounded-xl">
+                <Clock className="w-6 h-6 text-primary" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="crypto-card">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Long-Term Gain/Loss</p>
+                <p className={cn("text-2xl font-bold", report.longTerm.gainOrLoss >= 0 ? 'text-green-600' : 'text-red-600')}>
+                  {formatCurrency(report.longTerm.gainOrLoss)}
+                </p>
+                <p className="text-xs text-muted-foreground">{report.longTerm.count} disposals</p>
+              </div>
+              <div className="p-3 bg-primary/20 rounded-xl">
+                <TrendingUp className="w-6 h-6 text-primary" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="crypto-card">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">DeFi & Mining Income</p>
+                <p className="text-2xl font-bold">{formatCurrency(report.totalIncome)}</p>
+                <p className="text-xs text-muted-foreground">{report.income.length} entries</p>
+              </div>
+              <div className="p-3 bg-primary/20 rounded-xl">
+                <Coins className="w-6 h-6 text-primary" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="crypto-card-blue">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Taxable Capital Gain</p>
+                <p className="text-2xl font-bold">{formatCurrency(report.taxableCapitalGain)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {rules.longTermInclusionRate < 1
+                    ? `Long-term counted at ${rules.longTermInclusionRate * 100}%`
+                    : 'Short + long-term net'}
+                </p>
+              </div>
+              <div className="p-3 bg-primary/20 rounded-xl">
+                <FileText className="w-6 h-6 text-primary" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Disposals */}
+      <Card className="crypto-card">
+        <CardHeader>
+          <CardTitle>Disposals</CardTitle>
+          <CardDescription>{rules.note}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.disposals.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              No spot disposals in {taxYear}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Acquired</TableHead>
+                  <TableHead>Sold</TableHead>
+                  <TableHead>Term</TableHead>
+                  <TableHead className="text-right">Proceeds</TableHead>
+                  <TableHead className="text-right">Cost Basis</TableHead>
+                  <TableHead className="text-right">Gain/Loss</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.disposals.map((disposal, index) => (
+                  <TableRow key={`${disposal.sellTradeId}-${disposal.buyTradeId}-${index}`}>
+                    <TableCell className="font-medium">{disposal.description}</TableCell>
+                    <TableCell>{formatDate(disposal.dateAcquired)}</TableCell>
+                    <TableCell>{formatDate(disposal.dateSold)}</TableCell>
+                    <TableCell>
+                      <Badge variant={disposal.term === 'long' ? 'default' : 'secondary'}>
+                        {disposal.term === 'long' ? 'Long' : 'Short'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(disposal.proceeds)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(disposal.costBasis)}</TableCell>
+                    <TableCell className={cn("text-right font-medium", disposal.gainOrLoss >= 0 ? 'text-green-600' : 'text-red-600')}>
+                      {formatCurrency(disposal.gainOrLoss)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Income */}
+      <Card className="crypto-card">
+        <CardHeader>
+          <CardTitle>Income</CardTitle>
+          <CardDescription>DeFi and liquidity-mining profit/loss reported as ordinary income</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.income.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              No DeFi or liquidity-mining income in {taxYear}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Asset</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.income.map((item, index) => (
+                  <TableRow key={item.tradeId || index}>
+                    <TableCell>{formatDate(item.date)}</TableCell>
+                    <TableCell className="capitalize">{item.category.replace('_', ' ')}</TableCell>
+                    <TableCell className="font-medium">{item.asset}</TableCell>
+                    <TableCell className={cn("text-right", item.amount >= 0 ? 'text-green-600' : 'text-red-600')}>
+                      {formatCurrency(item.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Capital movements */}
+      <Card className="crypto-card">
+        <CardHeader>
+          <CardTitle>Capital Movements</CardTitle>
+          <CardDescription>Deposits and withdrawals are not taxable events; shown for reconciliation</CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-6">
+          <div>
+            <p className="text-sm text-muted-foreground">Deposits</p>
+            <p className="text-lg font-semibold text-green-600">{formatCurrency(report.deposits)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Withdrawals</p>
+            <p className="text-lg font-semibold text-red-600">{formatCurrency(report.withdrawals)}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-muted-foreground">
+        Generated {format(new Date(), 'PPpp')}. This report is a worksheet to help prepare your return and is not tax advice.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useTradeTags } from '@/hooks/useTradeTags';
+import { supabase } from '@/integrations/supabase/client';
+import { AuditLog, Trade } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { JournalEntryPanel } from '@/components/journal/JournalEntryPanel';
+import { RealTimePriceCell } from '@/components/trades/RealTimePriceCell';
+import { TradeAuditTimeline } from '@/components/trades/TradeAuditTimeline';
+import { ArrowLeft, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { fetchRecordHistory } from '@/lib/auditLog';
+import { auditFieldLabel, formatAuditValue } from '@/lib/auditTrail';
+import { formatCurrency } from '@/lib/currencies';
+import { tradeTagIds } from '@/lib/tradeTags';
+
+const CATEGORY_LABELS: Record<string, string> = {
+  spot: 'Spot',
+  futures: 'Futures',
+  defi: 'DeFi',
+  dual_investment: 'Dual Investment',
+  liquidity_pool: 'Liquidity Pool',
+  liquidity_mining: 'Liquidity Mining',
+};
+
+export default function TradeDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { profile, isTrader } = useAuth();
+  const [trade, setTrade] = useState<Trade | null>(null);
+  const [auditEntries, setAuditEntries] = useState<AuditLog[]>([]);
+  const [deleted, setDeleted] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { tags, strategies } = useTradeTags(trade?.user_id);
+
+  useEffect(() => {
+    const fetchTrade = async () => {
+      if (!profile || !id) return;
+
+      try {
+        setLoading(true);
+        // Row level security limits these to the trader's own or a bound trader's records
+        const [tradeResult, entries] = await Promise.all([
+          supabase
+            .from('trades')
+            .select('*, trade_tags(tag_id)')
+            .eq('id', id)
+            .maybeSingle(),
+          fetchRecordHistory('trades', id).catch(error => {
+            console.error('❌ Audit log fetch error:', error);
+            return [] as AuditLog[];
+          })
+        ]);
+
+        if (tradeResult.error) throw tradeResult.error;
+        setAuditEntries(entries);
+
+        if (tradeResult.data) {
+          setTrade(tradeResult.data as Trade);
+          setDeleted(false);
+        } else {
+          // Deleted trades keep their history; show the last recorded version
+          const deletion = entries.find(entry => entry.action === 'delete');
+          const snapshot = deletion?.changes?.old || deletion?.changes;
+          setTrade(snapshot?.id ? snapshot as Trade : null);
+          setDeleted(!!snapshot?.id);
+        }
+      } catch (error) {
+        console.error('❌ Error fetching trade:', error);
+        setTrade(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTrade();
+  }, [profile, id]);
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="crypto-card animate-pulse">
+            <CardContent className="p-6">
+              <div className="h-24 bg-muted/50 rounded"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (!trade) {
+    return (
+      <Card className="crypto-card">
+        <CardContent className="p-12 text-center">
+          <h3 className="font-medium mb-2">Trade not found</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            It may have been deleted, or you no longer have access to it.
+          </p>
+          <Button variant="outline" asChild>
+            <Link to="/trades">Back to trades</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const strategy = strategies.find(s => s.id === trade.strategy_id);
+  const tradeTags = tags.filter(tag => tradeTagIds(trade).includes(tag.id));
+  const side = trade.details?.buy_sell;
+  const details = Object.entries(trade.details || {}).filter(([key]) => key !== 'buy_sell');
+  const hasLivePrice = !deleted && (trade.category === 'spot' || trade.category === 'futures');
+
+  const field = (label: string, value: React.ReactNode) => (
+    <div key={label} className="space-y-1">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="font-medium">{value}</div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/trades">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Trades
+          </Link>
+        </Button>
+      </div>
+
+      {deleted && (
+        <div className="flex items-center gap-2 p-4 rounded-lg bg-destructive/10 text-destructive text-sm">
+          <Trash2 className="w-4 h-4" />
+          This trade was deleted. It is shown as it was last recorded.
+        </div>
+      )}
+
+      <div>
+        <h1 className="text-3xl font-bold text-gradient-primary flex items-center gap-3">
+          {trade.asset}
+          <Badge variant="outline">{CATEGORY_LABELS[trade.category] || trade.category}</Badge>
+          {side && <Badge variant={side === 'sell' ? 'destructive' : 'default'} className="capitalize">{side}</Badge>}
+        </h1>
+        <p className="text-muted-foreground">
+          {format(new Date(trade.trade_date), 'MMMM dd, yyyy')}
+        </p>
+      </div>
+
+      <Card className="crypto-card">
+        <CardHeader>
+          <CardTitle>Trade</CardTitle>
+          <CardDescription>As recorded in the journal</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+            {field('Price', formatCurrency(trade.price, trade.currency))}
+            {field('Quantity', trade.quantity.toLocaleString())}
+            {field('Value', formatCurrency(trade.price * trade.quantity, trade.currency))}
+            {field('Fees', trade.fees ? formatCurrency(trade.fees, trade.currency) : '—')}
+            {hasLivePrice && field(
+              'Current Price',
+              <RealTimePriceCell
+                asset={trade.asset}
+                currency={trade.currency}
+                purchasePrice={trade.price}
+                quantity={trade.quantity}
+                category={trade.category}
+              />
+            )}
+            {field(
+              'P&L',
+              trade.profit_loss ? (
+                <span className={trade.profit_loss >= 0 ? 'text-success' : 'text-destructive'}>
+                  {formatCurrency(trade.profit_loss, trade.currency)}
+                </span>
+              ) : '—'
+            )}
+            {field('Strategy', strategy?.name || '—')}
+            {field(
+              'Tags',
+              tradeTags.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {tradeTags.map(tag => (
+                    <Badge key={tag.id} variant="outline" className="gap-1">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                      {tag.name}
+                    </Badge>
+                  ))}
+                </div>
+              ) : '—'
+            )}
+          </div>
+          {details.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6 pt-6 border-t">
+              {details.map(([key, value]) => field(
+                auditFieldLabel(`details.${key}`),
+                formatAuditValue(`details.${key}`, value, amount => formatCurrency(amount, trade.currency))
+              ))}
+            </div>
+          )}
+          {trade.notes && (
+            <div className="space-y-1">
+              <div className="text-sm text-muted-foreground">Notes</div>
+              <p className="text-sm whitespace-pre-wrap">{trade.notes}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {!deleted && (
+        <JournalEntryPanel
+          tradeId={trade.id}
+          userId={trade.user_id}
+          canEdit={isTrader && trade.user_id === profile?.id}
+        />
+      )}
+
+      <TradeAuditTimeline
+        entries={auditEntries}
+        strategies={strategies}
+        currency={trade.currency}
+        ownerId={trade.user_id}
+      />
+    </div>
+  );
+}
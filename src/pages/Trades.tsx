@@ -1,10 +1,17 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
+import { useTradeHistory, useTradeOwner } from '@/hooks/useTrades';
 import { TradesList } from '@/components/trades/TradesList';
 import { TradeForm } from '@/components/trades/TradeForm';
+import { TradeImportWizard } from '@/components/trades/TradeImportWizard';
+import { JournalExportDialog } from '@/components/export/JournalExportDialog';
 import { SpotPnLDashboard } from '@/components/trades/SpotPnLDashboard';
+import { FuturesPositionsPanel } from '@/components/trades/FuturesPositionsPanel';
 import { PriceTestPanel } from '@/components/trades/PriceTestPanel';
+import { TagPicker } from '@/components/trades/TagPicker';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
@@ -14,80 +21,90 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, Filter, Download, ArrowUpDown } from 'lucide-react';
+import { Plus, Filter, Upload, ArrowUpDown } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { supabase } from '@/integrations/supabase/client';
-import { Trade } from '@/types/database';
+import { useTradeTags } from '@/hooks/useTradeTags';
+import { UNASSIGNED_KEY } from '@/lib/tradeTags';
+import { TradeQueryFilter, tradeKeys } from '@/lib/tradeQueries';
+
+// Strategy and side filter value that matches every trade
+const ALL_STRATEGIES = 'all';
+const ALL_SIDES = 'all';
+
+// Wait for typing to pause before querying by asset
+const ASSET_FILTER_DELAY_MS = 300;
 
 export default function Trades() {
   const { profile, isTrader } = useAuth();
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [sortBy, setSortBy] = useState<string>('date_desc');
   const [filterOpen, setFilterOpen] = useState(false);
+  const [strategyFilter, setStrategyFilter] = useState<string>(ALL_STRATEGIES);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [assetInput, setAssetInput] = useState('');
+  const [assetFilter, setAssetFilter] = useState('');
+  const [sideFilter, setSideFilter] = useState<string>(ALL_SIDES);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
   const [tradeCount, setTradeCount] = useState<number>(0);
-  const [allTrades, setAllTrades] = useState<Trade[]>([]);
+  const queryClient = useQueryClient();
+  const { ownerId } = useTradeOwner();
+  const { tags, strategies } = useTradeTags(ownerId);
+  // Full history for the PnL and futures panels. Lots and positions never net
+  // across traders, so the consolidated view shows only the merged list.
+  const { trades: allTrades } = useTradeHistory(ownerId);
 
-  // Fetch all trades for PnL calculation
   useEffect(() => {
-    const fetchAllTrades = async () => {
-      if (!profile) return;
+    const timer = setTimeout(() => setAssetFilter(assetInput.trim()), ASSET_FILTER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [assetInput]);
 
-      try {
-        let query = supabase
-          .from('trades')
-          .select('*');
+  const tradeFilter = useMemo<TradeQueryFilter>(() => ({
+    category: selectedCategory === 'all' ? undefined : selectedCategory,
+    asset: assetFilter || undefined,
+    side: sideFilter === ALL_SIDES ? undefined : sideFilter as TradeQueryFilter['side'],
+    from: fromDate || undefined,
+    to: toDate || undefined,
+    strategyId: strategyFilter === ALL_STRATEGIES ? undefined : strategyFilter,
+    tagIds: tagFilter,
+  }), [selectedCategory, assetFilter, sideFilter, fromDate, toDate, strategyFilter, tagFilter]);
 
-        // For traders, get their own trades
-        if (isTrader) {
-          query = query.eq('user_id', profile.id);
-        } else {
-          // For investors, get their bound trader's trades
-          if (profile.bound_trader_id) {
-            // Verify the binding is still approved
-            const { data: binding } = await supabase
-              .from('bindings')
-              .select('status')
-              .eq('investor_id', profile.id)
-              .eq('trader_id', profile.bound_trader_id)
-              .eq('status', 'approved')
-              .maybeSingle();
-              
-            if (binding) {
-              query = query.eq('user_id', profile.bound_trader_id);
-            } else {
-              setAllTrades([]);
-              return;
-            }
-          } else {
-            setAllTrades([]);
-            return;
-          }
-        }
-
-        const { data, error } = await query;
-        if (error) throw error;
-        
-        setAllTrades(data as Trade[] || []);
-      } catch (error) {
-        console.error('Error fetching trades for PnL:', error);
-        setAllTrades([]);
-      }
-    };
+  const clearFilters = () => {
+    setAssetInput('');
+    setAssetFilter('');
+    setSideFilter(ALL_SIDES);
+    setFromDate('');
+    setToDate('');
+    setStrategyFilter(ALL_STRATEGIES);
+    setTagFilter([]);
+  };
 
-    fetchAllTrades();
-  }, [profile, isTrader]);
+  const refreshTrades = () => {
+    if (ownerId) queryClient.invalidateQueries({ queryKey: tradeKeys.owner(ownerId) });
+  };
 
   return (
     <div className="space-y-6">
       {/* Spot PnL Dashboard */}
-      {(selectedCategory === 'all' || selectedCategory === 'spot') && (
+      {ownerId && (selectedCategory === 'all' || selectedCategory === 'spot') && (
         <SpotPnLDashboard 
           trades={allTrades} 
           currency={profile?.currency || 'USD'} 
         />
       )}
 
+      {/* Futures Positions */}
+      {ownerId && (selectedCategory === 'all' || selectedCategory === 'futures') && (
+        <FuturesPositionsPanel
+          trades={allTrades}
+          ownerId={ownerId}
+          currency={profile?.currency || 'USD'}
+          canEdit={isTrader}
+        />
+      )}
+
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
@@ -123,10 +140,31 @@ export default function Trades() {
               <Filter className="w-4 h-4 mr-2" />
               Filter
             </Button>
-            <Button variant="outline" size="sm">
-              <Download className="w-4 h-4 mr-2" />
-              Export
-            </Button>
+            <JournalExportDialog
+              defaultDatasets={['trades']}
+              category={selectedCategory}
+              tradeSortBy={sortBy}
+            />
+            <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Import Trades from CSV</DialogTitle>
+                </DialogHeader>
+                <TradeImportWizard
+                  existingTrades={allTrades}
+                  onSuccess={() => {
+                    setIsImportOpen(false);
+                    refreshTrades();
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
             <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
               <DialogTrigger asChild>
                 <Button>
@@ -138,16 +176,21 @@ export default function Trades() {
                 <DialogHeader>
                   <DialogTitle>Add New Trade</DialogTitle>
                 </DialogHeader>
-                <TradeForm onSuccess={() => {
-                  setIsFormOpen(false);
-                  // Refresh trades data for PnL calculation
-                  window.location.reload();
-                }} />
+                <TradeForm onSuccess={() => setIsFormOpen(false)} />
               </DialogContent>
             </Dialog>
           </div>
         )}
 
+        {/* Exports cover one trader's journal at a time */}
+        {!isTrader && ownerId && (
+          <JournalExportDialog
+            defaultDatasets={['trades']}
+            category={selectedCategory}
+            tradeSortBy={sortBy}
+          />
+        )}
+
         {/* Temporarily add test panel for development */}
         {process.env.NODE_ENV === 'development' && (
           <PriceTestPanel />
@@ -168,6 +211,60 @@ export default function Trades() {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {filterOpen && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center mb-6 p-4 bg-muted/50 rounded-lg">
+              <Input
+                value={assetInput}
+                onChange={(e) => setAssetInput(e.target.value)}
+                placeholder="Asset (e.g. BTC)"
+              />
+              <Select value={sideFilter} onValueChange={setSideFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Side" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SIDES}>Buys and sells</SelectItem>
+                  <SelectItem value="buy">Buys</SelectItem>
+                  <SelectItem value="sell">Sells</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={strategyFilter} onValueChange={setStrategyFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STRATEGIES}>All strategies</SelectItem>
+                  <SelectItem value={UNASSIGNED_KEY}>No strategy</SelectItem>
+                  {strategies.map(strategy => (
+                    <SelectItem key={strategy.id} value={strategy.id}>
+                      {strategy.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  aria-label="From date"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => setToDate(e.target.value)}
+                  aria-label="To date"
+                />
+              </div>
+              <TagPicker tags={tags} value={tagFilter} onChange={setTagFilter} placeholder="Filter by tags" />
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                Clear
+              </Button>
+            </div>
+          )}
           <Tabs value={selectedCategory} onValueChange={(value) => {
             setSelectedCategory(value);
             console.log(`✅ Category filter changed to: ${value}`);
@@ -184,8 +281,9 @@ export default function Trades() {
             
             <TabsContent value={selectedCategory} className="mt-6">
               <TradesList 
-                category={selectedCategory === 'all' ? undefined : selectedCategory}
                 sortBy={sortBy}
+                filter={tradeFilter}
+                tags={tags}
                 onTradeCountChange={setTradeCount}
               />
             </TabsContent>
@@ -1,13 +1,21 @@
+import { CurrencyCode } from '@/lib/currencies';
+
+export type UserPlan = 'free' | 'premium';
+
 export type User = {
   id: string;
   email: string;
   role: 'trader' | 'investor';
   username: string;
   bio?: string;
-  currency: 'USD' | 'PHP';
+  currency: CurrencyCode;
   avatar_url?: string;
   trader_uid?: string;
+  // An investor's default trader; they can follow several through approved bindings
   bound_trader_id?: string;
+  plan?: UserPlan;
+  // Investors the trader accepts, below their plan's limit
+  investor_cap?: number | null;
   created_at: string;
   updated_at: string;
 };
@@ -20,13 +28,60 @@ export type Trade = {
   category: TradeCategory;
   asset: string;
   price: number;
-  currency: 'USD' | 'PHP';
+  currency: CurrencyCode;
   quantity: number;
   trade_date: string;
   fees?: number;
   profit_loss?: number;
   details?: Record<string, any>;
   notes?: string;
+  strategy_id?: string | null;
+  // Present when fetched with `trade_tags(tag_id)`
+  trade_tags?: { tag_id: string }[];
+  created_at: string;
+  updated_at: string;
+};
+
+// A trader's named setup; each trade belongs to at most one
+export type Strategy = {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  created_at: string;
+};
+
+export type Tag = {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  created_at: string;
+};
+
+export type TradeEmotion =
+  | 'calm'
+  | 'confident'
+  | 'excited'
+  | 'anxious'
+  | 'fearful'
+  | 'greedy'
+  | 'frustrated'
+  | 'bored';
+
+// One journal entry per trade; screenshots are storage paths
+export type TradeJournalEntry = {
+  id: string;
+  trade_id: string;
+  user_id: string;
+  thesis?: string | null;
+  emotion?: TradeEmotion | null;
+  emotion_intensity?: number | null;
+  confidence?: number | null;
+  rules: Record<string, boolean>;
+  screenshots: string[];
+  review?: string | null;
+  lessons?: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -40,24 +95,60 @@ export type Binding = {
   updated_at: string;
 };
 
+export type AuditTable = 'trades' | 'cashflows' | 'bindings';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'import';
+
 export type AuditLog = {
   id: string;
+  table_name: AuditTable;
+  record_id?: string | null;
   trade_id?: string;
+  // Owner of the record (the trader, for bindings)
   user_id: string;
-  action: 'create' | 'update' | 'delete';
+  // Investor on binding entries
+  related_user_id?: string | null;
+  // Who made the change; null for system writes
+  actor_id?: string | null;
+  action: AuditAction;
   changes?: Record<string, any>;
   created_at: string;
+  // Hash chain position; trade entries only
+  seq?: number | null;
+  prev_hash?: string | null;
+  hash?: string | null;
+  // Edit or delete of a trade recorded outside the amendment window
+  is_amendment?: boolean;
 };
 
 // Trade details types for different categories
 export type SpotDetails = {
   buy_sell: 'buy' | 'sell';
+  // Planned stop on an entry, the initial risk behind R-multiples
+  stop_loss?: number;
 };
 
+export type PositionSide = 'long' | 'short';
+
 export type FuturesDetails = {
   buy_sell: 'buy' | 'sell';
+  position_side?: PositionSide;
   leverage?: number;
   margin?: number;
+  stop_loss?: number;
+};
+
+// Funding fee payment on a futures position (positive = received, negative = paid)
+export type FundingPayment = {
+  id: string;
+  user_id: string;
+  asset: string;
+  position_side: PositionSide;
+  amount: number;
+  currency: CurrencyCode;
+  paid_at: string;
+  notes?: string;
+  created_at: string;
 };
 
 export type DeFiDetails = {
@@ -88,11 +179,67 @@ export type Cashflow = {
   user_id: string;
   type: CashflowType;
   amount: number;
-  currency: 'USD' | 'PHP';
+  currency: CurrencyCode;
   source?: string; // e.g., "Bank Transfer", "Credit Card", "Crypto Wallet"
   destination?: string; // For withdrawals
   transaction_date: string;
   notes?: string;
+  // Approved investor whose capital this is; unset for the trader's own
+  investor_id?: string | null;
   created_at: string;
   updated_at: string;
+};
+
+// Capital accounts: units bought, redeemed or paid as fees by one holder
+export type CapitalUnitKind = 'opening' | 'subscription' | 'redemption' | 'fee';
+
+export type CapitalUnitEntry = {
+  id: string;
+  trader_id: string;
+  holder_id: string;
+  cashflow_id: string | null;
+  fee_statement_id: string | null;
+  kind: CapitalUnitKind;
+  amount: number;
+  units: number;
+  nav_per_unit: number;
+  created_at: string;
+};
+
+// Fee types
+export type FeeCrystallization = 'monthly' | 'quarterly' | 'yearly';
+
+export type FeeSchedule = {
+  id: string;
+  trader_id: string;
+  investor_id: string;
+  // Annual rates as fractions: 0.02 is 2%
+  management_rate: number;
+  performance_rate: number;
+  hurdle_rate: number;
+  crystallization: FeeCrystallization;
+  starts_at: string;
+  start_nav_per_unit: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type FeeStatement = {
+  id: string;
+  trader_id: string;
+  investor_id: string;
+  period_start: string;
+  period_end: string;
+  management_rate: number;
+  performance_rate: number;
+  hurdle_rate: number;
+  nav_per_unit: number;
+  gross_balance: number;
+  high_water_mark: number;
+  hurdle_threshold: number;
+  management_fee: number;
+  performance_fee: number;
+  closing_high_water_mark: number;
+  fee_units: number;
+  created_at: string;
 };
\ No newline at end of file
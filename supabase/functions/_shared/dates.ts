@@ -0,0 +1,33 @@
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC calendar day key for a date
+ */
+export function toDateKey(date: Date | string | number): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Shift a day key by a number of calendar days
+ */
+export function addDays(dateKey: string, days: number): string {
+  return toDateKey(new Date(`${dateKey}T00:00:00Z`).getTime() + days * MS_PER_DAY);
+}
+
+export const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+/**
+ * Day ranges between `from` and `to` not covered by a stored range: before its
+ * first day and after its last
+ */
+export function missingRanges(
+  from: string,
+  to: string,
+  stored: { first: string; last: string } | null
+): [string, string][] {
+  const ranges: [string, string][] = stored
+    ? [[from, addDays(stored.first, -1)], [addDays(stored.last, 1), to]]
+    : [[from, to]];
+  return ranges.filter(([start, end]) => start <= end);
+}
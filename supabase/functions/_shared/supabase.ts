@@ -0,0 +1,39 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Client with the service role, for tables users cannot write themselves
+ */
+export function serviceClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+}
+
+/**
+ * The signed-in caller, or null for anonymous requests
+ */
+export async function requestUserId(req: Request): Promise<string | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data, error } = await client.auth.getUser();
+  return error ? null : data.user?.id ?? null;
+}
+
+/**
+ * Fiat currency a supported code is valued in (stablecoins use their peg),
+ * or null for an unsupported code
+ */
+export async function valuationCurrency(client: SupabaseClient, code: string): Promise<string | null> {
+  const { data, error } = await client
+    .from('currencies')
+    .select('code, pegged_to')
+    .eq('code', code)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? data.pegged_to || data.code : null;
+}
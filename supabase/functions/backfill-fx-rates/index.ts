@@ -0,0 +1,112 @@
+/**
+ * Backfill FX rates
+ * Fetches daily USD-based rates from Frankfurter and stores the days missing
+ * from `fx_rates`. Rates are shared by every user and feed fund valuations,
+ * so only this function writes them, with the service role, from the
+ * provider's own data; completed days only, and never over a stored rate.
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { addDays, isDateKey, missingRanges, toDateKey } from '../_shared/dates.ts';
+import { requestUserId, serviceClient } from '../_shared/supabase.ts';
+
+const FRANKFURTER_API_BASE = 'https://api.frankfurter.app';
+const SOURCE = 'frankfurter';
+
+// All stored rates are units of the quote currency per 1 USD
+const FX_BASE = 'USD';
+
+// First day of the ECB reference rates Frankfurter serves
+const OLDEST_RATE_DATE = '1999-01-04';
+
+interface FxRate {
+  date: string;
+  rate: number;
+}
+
+async function fetchDailyRates(quote: string, from: string, to: string): Promise<FxRate[]> {
+  const response = await fetch(`${FRANKFURTER_API_BASE}/${from}..${to}?from=${FX_BASE}&to=${quote}`);
+  if (!response.ok) {
+    throw new Error(`Frankfurter API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data: { rates?: Record<string, Record<string, number>> } = await response.json();
+  return Object.entries(data.rates || {})
+    .filter(([date, rates]) => date >= from && date <= to && rates[quote] !== undefined)
+    .map(([date, rates]) => ({ date, rate: rates[quote] }));
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    if (!await requestUserId(req)) return jsonResponse({ error: 'Sign in to backfill FX rates' }, 401);
+
+    const { quotes, from } = await req.json();
+    if (!Array.isArray(quotes) || !isDateKey(from)) return jsonResponse({ error: 'Invalid currencies or start date' }, 400);
+
+    const client = serviceClient();
+    const { data: currencies, error: currencyError } = await client
+      .from('currencies')
+      .select('code')
+      .eq('kind', 'fiat')
+      .neq('code', FX_BASE)
+      .in('code', quotes.filter((quote): quote is string => typeof quote === 'string'));
+    if (currencyError) throw currencyError;
+
+    const yesterday = addDays(toDateKey(Date.now()), -1);
+    const fromKey = from < OLDEST_RATE_DATE ? OLDEST_RATE_DATE : from;
+    let stored = 0;
+
+    for (const { code: quote } of currencies || []) {
+      const [first, last] = await Promise.all(
+        [true, false].map(ascending =>
+          client
+            .from('fx_rates')
+            .select('rate_date')
+            .eq('base', FX_BASE)
+            .eq('quote', quote)
+            .order('rate_date', { ascending })
+            .limit(1)
+            .maybeSingle()
+        )
+      );
+      if (first.error) throw first.error;
+      if (last.error) throw last.error;
+
+      const ranges = missingRanges(
+        fromKey,
+        yesterday,
+        first.data && last.data ? { first: first.data.rate_date, last: last.data.rate_date } : null
+      );
+
+      for (const [start, end] of ranges) {
+        // Weekends and holidays carry no rate; a range of only those days returns nothing
+        const rates = await fetchDailyRates(quote, start, end);
+        if (rates.length === 0) continue;
+
+        const { data, error } = await client
+          .from('fx_rates')
+          .upsert(
+            rates.map(rate => ({
+              base: FX_BASE,
+              quote,
+              rate_date: rate.date,
+              rate: rate.rate,
+              source: SOURCE,
+            })),
+            { onConflict: 'base,quote,rate_date', ignoreDuplicates: true }
+          )
+          .select('rate_date');
+        if (error) throw error;
+        stored += data?.length ?? 0;
+      }
+    }
+
+    if (stored > 0) console.log(`✅ Stored ${stored} FX rates`);
+    return jsonResponse({ stored });
+  } catch (error) {
+    console.error('❌ Error backfilling FX rates:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
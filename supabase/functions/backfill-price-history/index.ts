@@ -0,0 +1,148 @@
+/**
+ * Backfill price history
+ * Fetches an asset's daily closes from CoinGecko and stores the days missing
+ * from `price_history`. Closes are shared by every user and feed fund
+ * valuations, so only this function writes them, with the service role, from
+ * the provider's own data; completed days only, and never over a stored close.
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { addDays, isDateKey, missingRanges, MS_PER_DAY, toDateKey } from '../_shared/dates.ts';
+import { requestUserId, serviceClient, valuationCurrency } from '../_shared/supabase.ts';
+
+const COINGECKO_API_BASE = 'https://api.coingecko.com/api/v3';
+const SOURCE = 'coingecko';
+
+// The public API serves the last 365 days
+const MAX_HISTORY_DAYS = 365;
+
+interface DailyClose {
+  date: string;
+  close: number;
+}
+
+/**
+ * Collapse [timestamp, price] samples into the last price of each UTC day.
+ * A sample exactly at 00:00 UTC is the previous day's close (CoinGecko's daily
+ * granularity, used for ranges over 90 days, has only those), so it is filed
+ * under that day.
+ */
+function samplesToDailyCloses(samples: [number, number][]): DailyClose[] {
+  const byDay = new Map<string, { time: number; price: number }>();
+  samples.forEach(([time, price]) => {
+    const key = toDateKey(time % MS_PER_DAY === 0 ? time - 1 : time);
+    const existing = byDay.get(key);
+    if (!existing || time >= existing.time) byDay.set(key, { time, price });
+  });
+
+  return Array.from(byDay.entries())
+    .map(([date, { price }]) => ({ date, close: price }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * CoinGecko id of the coin with the ticker and the highest market cap
+ */
+async function resolveCoinId(symbol: string): Promise<string | null> {
+  const response = await fetch(`${COINGECKO_API_BASE}/search?query=${encodeURIComponent(symbol)}`);
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data: { coins?: { id: string; symbol: string; market_cap_rank: number | null }[] } = await response.json();
+  const matches = (data.coins || [])
+    .filter(coin => coin.symbol.toUpperCase() === symbol)
+    .sort((a, b) => (a.market_cap_rank ?? Infinity) - (b.market_cap_rank ?? Infinity));
+  return matches[0]?.id ?? null;
+}
+
+async function fetchDailyCloses(coinId: string, vsCurrency: string, from: string, to: string): Promise<DailyClose[]> {
+  const url = `${COINGECKO_API_BASE}/coins/${coinId}/market_chart/range` +
+    `?vs_currency=${vsCurrency.toLowerCase()}` +
+    `&from=${Math.floor(new Date(`${from}T00:00:00Z`).getTime() / 1000)}` +
+    // Through the following midnight, whose sample is the last day's close
+    `&to=${Math.floor(new Date(`${addDays(to, 1)}T00:00:00Z`).getTime() / 1000)}`;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data: { prices?: [number, number][] } = await response.json();
+  return samplesToDailyCloses(data.prices || []).filter(close => close.date >= from && close.date <= to);
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    if (!await requestUserId(req)) return jsonResponse({ error: 'Sign in to backfill prices' }, 401);
+
+    const { asset, currency, from } = await req.json();
+    const symbol = typeof asset === 'string' ? asset.trim().toUpperCase() : '';
+    if (!/^[A-Z0-9]{1,20}$/.test(symbol)) return jsonResponse({ error: 'Invalid asset' }, 400);
+    if (typeof currency !== 'string' || !isDateKey(from)) return jsonResponse({ error: 'Invalid currency or start date' }, 400);
+
+    const client = serviceClient();
+    const vsCurrency = await valuationCurrency(client, currency);
+    if (!vsCurrency) return jsonResponse({ error: `Unsupported currency ${currency}` }, 400);
+
+    const today = toDateKey(Date.now());
+    const yesterday = addDays(today, -1);
+    const oldestAvailable = addDays(today, -MAX_HISTORY_DAYS + 1);
+    const fromKey = from < oldestAvailable ? oldestAvailable : from;
+
+    const [first, last] = await Promise.all(
+      [true, false].map(ascending =>
+        client
+          .from('price_history')
+          .select('price_date')
+          .eq('asset', symbol)
+          .eq('currency', currency)
+          .order('price_date', { ascending })
+          .limit(1)
+          .maybeSingle()
+      )
+    );
+    if (first.error) throw first.error;
+    if (last.error) throw last.error;
+
+    const ranges = missingRanges(
+      fromKey,
+      yesterday,
+      first.data && last.data ? { first: first.data.price_date, last: last.data.price_date } : null
+    );
+    if (ranges.length === 0) return jsonResponse({ stored: 0 });
+
+    const coinId = await resolveCoinId(symbol);
+    if (!coinId) return jsonResponse({ error: `No CoinGecko coin for ${symbol}` }, 404);
+
+    let stored = 0;
+    for (const [start, end] of ranges) {
+      const closes = await fetchDailyCloses(coinId, vsCurrency, start, end);
+      if (closes.length === 0) continue;
+
+      const { data, error } = await client
+        .from('price_history')
+        .upsert(
+          closes.map(close => ({
+            asset: symbol,
+            currency,
+            price_date: close.date,
+            close: close.close,
+            source: SOURCE,
+          })),
+          { onConflict: 'asset,currency,price_date', ignoreDuplicates: true }
+        )
+        .select('price_date');
+      if (error) throw error;
+      stored += data?.length ?? 0;
+    }
+
+    console.log(`✅ Stored ${stored} daily closes for ${symbol} in ${currency}`);
+    return jsonResponse({ stored });
+  } catch (error) {
+    console.error('❌ Error backfilling price history:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,42 @@
+/*
+  # Futures funding ledger
+
+  1. New Tables
+    - `futures_funding` records funding fee payments on futures positions
+      (positive amount = received, negative amount = paid)
+
+  2. Security
+    - Traders manage their own funding entries
+    - Investors can read funding entries of an approved trader
+*/
+
+CREATE TABLE IF NOT EXISTS public.futures_funding (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  asset TEXT NOT NULL,
+  position_side TEXT NOT NULL CHECK (position_side IN ('long', 'short')),
+  amount DECIMAL NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency IN ('USD', 'PHP')),
+  paid_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS futures_funding_user_asset_idx
+  ON public.futures_funding (user_id, asset, paid_at);
+
+ALTER TABLE public.futures_funding ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Traders can manage their own funding payments" ON public.futures_funding
+FOR ALL USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Investors can view approved trader funding payments" ON public.futures_funding
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = public.futures_funding.user_id
+    AND b.status = 'approved'
+  )
+);
@@ -0,0 +1,120 @@
+/*
+  # Bulk trade import
+
+  1. Audit Log
+    - Allow an `import` action on `audit_log`
+    - `log_trade_changes` skips per-row create entries while a bulk import is running
+
+  2. New Functions
+    - `import_trades(p_trades, p_source)` inserts a batch of trades for the caller
+      and writes a single `import` audit entry for the whole batch
+
+  3. Security
+    - Rows are always inserted for `auth.uid()`; any user_id in the payload is ignored
+*/
+
+ALTER TABLE public.audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE public.audit_log ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('create', 'update', 'delete', 'import'));
+
+CREATE OR REPLACE FUNCTION public.log_trade_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Bulk imports write one audit entry per batch instead
+    IF current_setting('cryptoflow.bulk_import', true) = 'on' THEN
+      RETURN NEW;
+    END IF;
+    INSERT INTO public.audit_log (trade_id, user_id, action, changes)
+    VALUES (NEW.id, NEW.user_id, 'create', NULL);
+  ELSIF TG_OP = 'UPDATE' THEN
+    INSERT INTO public.audit_log (trade_id, user_id, action, changes)
+    VALUES (NEW.id, NEW.user_id, 'update', jsonb_build_object(
+      'old', row_to_json(OLD),
+      'new', row_to_json(NEW)
+    ));
+  ELSIF TG_OP = 'DELETE' THEN
+    INSERT INTO public.audit_log (trade_id, user_id, action, changes)
+    VALUES (OLD.id, OLD.user_id, 'delete', row_to_json(OLD));
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.import_trades(p_trades JSONB, p_source TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  caller_role TEXT;
+  inserted_ids UUID[];
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO caller_role FROM public.users WHERE id = caller;
+  IF caller_role IS DISTINCT FROM 'trader' THEN
+    RAISE EXCEPTION 'Only traders can import trades';
+  END IF;
+
+  IF jsonb_typeof(p_trades) <> 'array' OR jsonb_array_length(p_trades) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM set_config('cryptoflow.bulk_import', 'on', true);
+
+  WITH inserted AS (
+    INSERT INTO public.trades (
+      user_id, category, asset, price, currency, quantity,
+      trade_date, fees, profit_loss, details, notes
+    )
+    SELECT
+      caller,
+      t.category,
+      t.asset,
+      t.price,
+      COALESCE(t.currency, 'USD'),
+      t.quantity,
+      t.trade_date,
+      t.fees,
+      t.profit_loss,
+      t.details,
+      t.notes
+    FROM jsonb_to_recordset(p_trades) AS t(
+      category TEXT,
+      asset TEXT,
+      price DECIMAL,
+      currency TEXT,
+      quantity DECIMAL,
+      trade_date TIMESTAMP WITH TIME ZONE,
+      fees DECIMAL,
+      profit_loss DECIMAL,
+      details JSONB,
+      notes TEXT
+    )
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO inserted_ids FROM inserted;
+
+  PERFORM set_config('cryptoflow.bulk_import', 'off', true);
+
+  INSERT INTO public.audit_log (trade_id, user_id, action, changes)
+  VALUES (NULL, caller, 'import', jsonb_build_object(
+    'source', p_source,
+    'count', COALESCE(array_length(inserted_ids, 1), 0),
+    'trade_ids', to_jsonb(COALESCE(inserted_ids, ARRAY[]::UUID[]))
+  ));
+
+  RETURN COALESCE(array_length(inserted_ids, 1), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_trades(JSONB, TEXT) TO authenticated;
@@ -0,0 +1,17 @@
+/*
+  # Investor read access to the audit log
+
+  1. Security
+    - Investors with an approved binding can read their trader's audit log entries,
+      so journal exports include the same audit trail the trader sees
+*/
+
+CREATE POLICY "Investors can view approved trader audit logs" ON public.audit_log
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = public.audit_log.user_id
+    AND b.status = 'approved'
+  )
+);
@@ -0,0 +1,32 @@
+/*
+  # Historical price store
+
+  1. New Tables
+    - `price_history` holds one daily close per asset and quote currency,
+      backfilled from a historical price provider
+
+  2. Security
+    - Prices are shared market data: any signed-in user can read them and
+      add missing days; existing rows can only be refreshed, never deleted
+*/
+
+CREATE TABLE IF NOT EXISTS public.price_history (
+  asset TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('USD', 'PHP')),
+  price_date DATE NOT NULL,
+  close DECIMAL NOT NULL CHECK (close >= 0),
+  source TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (asset, currency, price_date)
+);
+
+ALTER TABLE public.price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read price history" ON public.price_history
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can add price history" ON public.price_history
+FOR INSERT TO authenticated WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can refresh price history" ON public.price_history
+FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,100 @@
+/*
+  # Multi-currency support and FX rate history
+
+  1. New Tables
+    - `currencies` lists the supported currency codes: ISO-4217 fiat currencies
+      plus USD stablecoins used as exchange quote currencies
+    - `fx_rates` holds one daily rate per currency pair (stored against USD)
+
+  2. Changes
+    - The `currency IN ('USD', 'PHP')` checks on users, trades, cashflows,
+      futures_funding and price_history are replaced by foreign keys to
+      `currencies`
+
+  3. Security
+    - Currencies are reference data readable by everyone
+    - FX rates are shared market data: signed-in users can read them and add
+      missing days; existing rows can only be refreshed, never deleted
+*/
+
+CREATE TABLE IF NOT EXISTS public.currencies (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[A-Z]{3,5}$'),
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('fiat', 'stablecoin')),
+  decimals INTEGER NOT NULL DEFAULT 2 CHECK (decimals BETWEEN 0 AND 8),
+  pegged_to TEXT REFERENCES public.currencies(code)
+);
+
+INSERT INTO public.currencies (code, name, kind, decimals, pegged_to) VALUES
+  ('USD', 'US Dollar', 'fiat', 2, NULL),
+  ('EUR', 'Euro', 'fiat', 2, NULL),
+  ('GBP', 'British Pound', 'fiat', 2, NULL),
+  ('JPY', 'Japanese Yen', 'fiat', 0, NULL),
+  ('PHP', 'Philippine Peso', 'fiat', 2, NULL),
+  ('SGD', 'Singapore Dollar', 'fiat', 2, NULL),
+  ('HKD', 'Hong Kong Dollar', 'fiat', 2, NULL),
+  ('AUD', 'Australian Dollar', 'fiat', 2, NULL),
+  ('CAD', 'Canadian Dollar', 'fiat', 2, NULL),
+  ('CHF', 'Swiss Franc', 'fiat', 2, NULL),
+  ('CNY', 'Chinese Yuan', 'fiat', 2, NULL),
+  ('INR', 'Indian Rupee', 'fiat', 2, NULL),
+  ('KRW', 'South Korean Won', 'fiat', 0, NULL),
+  ('USDT', 'Tether (USD)', 'stablecoin', 2, 'USD'),
+  ('USDC', 'USD Coin', 'stablecoin', 2, 'USD')
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.currencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read currencies" ON public.currencies
+FOR SELECT USING (true);
+
+-- Replace the USD/PHP checks with references to the currency list
+DO $$
+DECLARE
+  target TEXT;
+  constraint_name TEXT;
+BEGIN
+  FOREACH target IN ARRAY ARRAY['users', 'trades', 'cashflows', 'futures_funding', 'price_history'] LOOP
+    IF to_regclass('public.' || target) IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    FOR constraint_name IN
+      SELECT c.conname
+      FROM pg_constraint c
+      WHERE c.conrelid = ('public.' || target)::regclass
+        AND c.contype = 'c'
+        AND pg_get_constraintdef(c.oid) ILIKE '%currency%'
+    LOOP
+      EXECUTE format('ALTER TABLE public.%I DROP CONSTRAINT %I', target, constraint_name);
+    END LOOP;
+
+    EXECUTE format(
+      'ALTER TABLE public.%I ADD CONSTRAINT %I FOREIGN KEY (currency) REFERENCES public.currencies(code)',
+      target,
+      target || '_currency_fkey'
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.fx_rates (
+  base TEXT NOT NULL REFERENCES public.currencies(code),
+  quote TEXT NOT NULL REFERENCES public.currencies(code),
+  rate_date DATE NOT NULL,
+  rate DECIMAL NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (base, quote, rate_date)
+);
+
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read FX rates" ON public.fx_rates
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can add FX rates" ON public.fx_rates
+FOR INSERT TO authenticated WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can refresh FX rates" ON public.fx_rates
+FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
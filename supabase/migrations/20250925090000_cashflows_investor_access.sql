@@ -0,0 +1,17 @@
+/*
+  # Investor read access to cashflows
+
+  1. Security
+    - Investors with an approved binding can read their trader's deposits and
+      withdrawals, which time- and money-weighted returns are measured against
+*/
+
+CREATE POLICY "Investors can view approved trader cashflows" ON public.cashflows
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = public.cashflows.user_id
+    AND b.status = 'approved'
+  )
+);
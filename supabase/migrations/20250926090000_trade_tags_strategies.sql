@@ -0,0 +1,113 @@
+/*
+  # Trade tags and strategies
+
+  1. New Tables
+    - `strategies` holds each trader's named setups; a trade belongs to at most one
+    - `tags` holds each trader's free-form labels
+    - `trade_tags` links trades to any number of tags
+
+  2. Changes
+    - `trades.strategy_id` references the trade's strategy (cleared when the
+      strategy is deleted)
+
+  3. Security
+    - Traders manage their own strategies, tags and trade tags
+    - Investors can read those of an approved trader
+*/
+
+CREATE TABLE IF NOT EXISTS public.strategies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  color TEXT NOT NULL DEFAULT '#64748b' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.trade_tags (
+  trade_id UUID NOT NULL REFERENCES public.trades(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (trade_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS trade_tags_tag_idx ON public.trade_tags (tag_id);
+
+ALTER TABLE public.trades
+  ADD COLUMN IF NOT EXISTS strategy_id UUID REFERENCES public.strategies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS trades_strategy_idx ON public.trades (strategy_id);
+
+ALTER TABLE public.strategies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.trade_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Traders can manage their own strategies" ON public.strategies
+FOR ALL USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Investors can view approved trader strategies" ON public.strategies
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = public.strategies.user_id
+    AND b.status = 'approved'
+  )
+);
+
+CREATE POLICY "Traders can manage their own tags" ON public.tags
+FOR ALL USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Investors can view approved trader tags" ON public.tags
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = public.tags.user_id
+    AND b.status = 'approved'
+  )
+);
+
+-- Both the trade and the tag must belong to the trader
+CREATE POLICY "Traders can tag their own trades" ON public.trade_tags
+FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM public.trades t
+    WHERE t.id = public.trade_tags.trade_id
+    AND t.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.trades t
+    WHERE t.id = public.trade_tags.trade_id
+    AND t.user_id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.tags g
+    WHERE g.id = public.trade_tags.tag_id
+    AND g.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Investors can view approved trader trade tags" ON public.trade_tags
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.trades t
+    JOIN public.bindings b ON b.trader_id = t.user_id
+    WHERE t.id = public.trade_tags.trade_id
+    AND b.investor_id = auth.uid()
+    AND b.status = 'approved'
+  )
+);
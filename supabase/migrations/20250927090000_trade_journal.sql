@@ -0,0 +1,86 @@
+/*
+  # Trade journal entries
+
+  1. New Tables
+    - `trade_journal_entries` holds one journal entry per trade: the pre-trade
+      thesis, emotion and confidence ratings, rule adherence, chart screenshot
+      paths and the post-trade review
+
+  2. Storage
+    - Private `trade-screenshots` bucket; objects live under `<user_id>/<trade_id>/`
+
+  3. Security
+    - Traders manage their own entries and screenshots
+    - Investors can read those of an approved trader
+*/
+
+CREATE TABLE IF NOT EXISTS public.trade_journal_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id UUID NOT NULL UNIQUE REFERENCES public.trades(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  thesis TEXT,
+  emotion TEXT CHECK (emotion IN ('calm', 'confident', 'excited', 'anxious', 'fearful', 'greedy', 'frustrated', 'bored')),
+  emotion_intensity SMALLINT CHECK (emotion_intensity BETWEEN 1 AND 5),
+  confidence SMALLINT CHECK (confidence BETWEEN 1 AND 5),
+  -- Rule key -> followed; keys are defined by the app
+  rules JSONB NOT NULL DEFAULT '{}'::jsonb,
+  screenshots TEXT[] NOT NULL DEFAULT '{}',
+  review TEXT,
+  lessons TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS trade_journal_entries_user_idx ON public.trade_journal_entries (user_id);
+
+CREATE TRIGGER update_trade_journal_entries_updated_at
+  BEFORE UPDATE ON public.trade_journal_entries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.trade_journal_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Traders can manage journal entries for their own trades" ON public.trade_journal_entries
+FOR ALL USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.trades t
+    WHERE t.id = public.trade_journal_entries.trade_id
+    AND t.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Investors can view approved trader journal entries" ON public.trade_journal_entries
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = public.trade_journal_entries.user_id
+    AND b.status = 'approved'
+  )
+);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('trade-screenshots', 'trade-screenshots', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Traders can manage their own trade screenshots" ON storage.objects
+FOR ALL USING (
+  bucket_id = 'trade-screenshots'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+)
+WITH CHECK (
+  bucket_id = 'trade-screenshots'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Investors can view approved trader screenshots" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'trade-screenshots'
+  AND EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id::text = (storage.foldername(name))[1]
+    AND b.status = 'approved'
+  )
+);
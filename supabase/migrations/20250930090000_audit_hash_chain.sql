@@ -0,0 +1,211 @@
+/*
+  # Tamper-evident hash chain over the trade audit log
+
+  1. Changes
+    - Trade entries in `audit_log` gain `seq`, `prev_hash` and `hash`: each
+      trader's entries form one chain where an entry's hash covers the previous
+      hash, its metadata and its canonical (jsonb) changes
+    - `is_amendment` marks edits and deletes of trades recorded more than
+      `ledger_amendment_days()` days earlier; the entry carries the editor's
+      `actor_id` and is sealed into the chain like any other
+    - Existing trade entries are chained in the order they were written
+
+  2. New Functions
+    - `audit_entry_hash(prev_hash, seq, entry)`: sha256 of one entry
+    - `chain_audit_entry()` trigger: assigns `seq`, `prev_hash`, `hash` and
+      `is_amendment` before a trade entry is inserted
+    - `verify_audit_chain(user_id)`: recomputes a trader's chain and reports the
+      first entry that no longer matches
+
+  3. Security
+    - Only the trader and their approved investors can verify a chain
+    - The log stays append-only, so a valid chain means no entry was altered,
+      reordered or removed after it was written
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.audit_log
+  ADD COLUMN IF NOT EXISTS seq BIGINT,
+  ADD COLUMN IF NOT EXISTS prev_hash TEXT,
+  ADD COLUMN IF NOT EXISTS hash TEXT,
+  ADD COLUMN IF NOT EXISTS is_amendment BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS audit_log_chain_idx ON public.audit_log (user_id, seq)
+  WHERE seq IS NOT NULL;
+
+-- Trades recorded longer ago than this are amended rather than edited
+CREATE OR REPLACE FUNCTION public.ledger_amendment_days()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 7;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_entry_hash(p_prev_hash TEXT, p_seq BIGINT, p_entry public.audit_log)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(digest(concat_ws('|',
+    p_prev_hash,
+    p_seq::TEXT,
+    p_entry.user_id::TEXT,
+    p_entry.action,
+    COALESCE(p_entry.record_id::TEXT, ''),
+    COALESCE(p_entry.actor_id::TEXT, ''),
+    to_char(p_entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    p_entry.is_amendment::TEXT,
+    COALESCE(p_entry.changes::TEXT, 'null')
+  ), 'sha256'), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION public.chain_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  recorded_at TIMESTAMPTZ;
+  last_seq BIGINT;
+  last_hash TEXT;
+BEGIN
+  IF NEW.table_name <> 'trades' THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.created_at := COALESCE(NEW.created_at, NOW());
+
+  IF NEW.action IN ('update', 'delete') AND NEW.record_id IS NOT NULL THEN
+    -- Deletes carry the whole row; updates only the changed columns
+    recorded_at := COALESCE(
+      (NEW.changes -> 'old' ->> 'created_at')::TIMESTAMPTZ,
+      (SELECT t.created_at FROM public.trades t WHERE t.id = NEW.record_id)
+    );
+    NEW.is_amendment := recorded_at IS NOT NULL
+      AND recorded_at < NEW.created_at - make_interval(days => public.ledger_amendment_days());
+  END IF;
+
+  -- Serialize writers of the same chain so no two entries share a predecessor
+  PERFORM pg_advisory_xact_lock(hashtext('audit_chain:' || NEW.user_id::TEXT));
+
+  SELECT a.seq, a.hash INTO last_seq, last_hash
+  FROM public.audit_log a
+  WHERE a.user_id = NEW.user_id AND a.seq IS NOT NULL
+  ORDER BY a.seq DESC
+  LIMIT 1;
+
+  NEW.seq := COALESCE(last_seq, 0) + 1;
+  NEW.prev_hash := COALESCE(last_hash, repeat('0', 64));
+  NEW.hash := public.audit_entry_hash(NEW.prev_hash, NEW.seq, NEW);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chain_audit_entry_trigger
+  BEFORE INSERT ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.chain_audit_entry();
+
+-- Chain the existing history; the append-only trigger is paused for the backfill only
+ALTER TABLE public.audit_log DISABLE TRIGGER prevent_audit_log_update_trigger;
+
+DO $$
+DECLARE
+  entry public.audit_log;
+  current_user_id UUID;
+  next_seq BIGINT;
+  last_hash TEXT;
+BEGIN
+  FOR entry IN
+    SELECT * FROM public.audit_log
+    WHERE table_name = 'trades' AND seq IS NULL
+    ORDER BY user_id, created_at, id
+  LOOP
+    IF current_user_id IS DISTINCT FROM entry.user_id THEN
+      current_user_id := entry.user_id;
+      next_seq := 1;
+      last_hash := repeat('0', 64);
+    END IF;
+
+    entry.created_at := COALESCE(entry.created_at, NOW());
+    entry.hash := public.audit_entry_hash(last_hash, next_seq, entry);
+
+    UPDATE public.audit_log
+    SET seq = next_seq, prev_hash = last_hash, hash = entry.hash, created_at = entry.created_at
+    WHERE id = entry.id;
+
+    last_hash := entry.hash;
+    next_seq := next_seq + 1;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.audit_log ENABLE TRIGGER prevent_audit_log_update_trigger;
+
+CREATE OR REPLACE FUNCTION public.verify_audit_chain(p_user_id UUID)
+RETURNS TABLE (
+  valid BOOLEAN,
+  entries BIGINT,
+  amendments BIGINT,
+  first_invalid_seq BIGINT,
+  head_seq BIGINT,
+  head_hash TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  entry public.audit_log;
+  expected_seq BIGINT := 1;
+  expected_prev TEXT := repeat('0', 64);
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_user_id AND NOT EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = p_user_id
+    AND b.status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to verify this ledger';
+  END IF;
+
+  valid := true;
+  entries := 0;
+  amendments := 0;
+
+  FOR entry IN
+    SELECT * FROM public.audit_log
+    WHERE user_id = p_user_id AND table_name = 'trades'
+    ORDER BY seq NULLS FIRST
+  LOOP
+    entries := entries + 1;
+    IF entry.is_amendment THEN
+      amendments := amendments + 1;
+    END IF;
+
+    -- A gap, a broken link or a changed entry invalidates everything after it
+    IF valid AND (
+      entry.seq IS DISTINCT FROM expected_seq
+      OR entry.prev_hash IS DISTINCT FROM expected_prev
+      OR entry.hash IS DISTINCT FROM public.audit_entry_hash(entry.prev_hash, entry.seq, entry)
+    ) THEN
+      valid := false;
+      first_invalid_seq := COALESCE(entry.seq, 0);
+    END IF;
+
+    expected_seq := COALESCE(entry.seq, 0) + 1;
+    expected_prev := entry.hash;
+    head_seq := entry.seq;
+    head_hash := entry.hash;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_audit_chain(UUID) TO authenticated;
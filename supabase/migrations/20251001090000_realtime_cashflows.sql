@@ -0,0 +1,27 @@
+/*
+  # Realtime changes for cashflows
+
+  1. Changes
+    - `cashflows` joins `trades` and `bindings` in the `supabase_realtime` publication
+    - Full replica identity so update events carry the whole row, including
+      `user_id`, which clients use to find the cached history to patch.
+      With row level security on, delete events still carry only the id.
+
+  2. Security
+    - Realtime applies the existing select policies to inserts and updates:
+      investors only receive those of an approved trader's rows. Deletes are
+      not checked against policies and reach every subscriber as bare ids.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'cashflows'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.cashflows;
+  END IF;
+END;
+$$;
+
+ALTER TABLE public.cashflows REPLICA IDENTITY FULL;
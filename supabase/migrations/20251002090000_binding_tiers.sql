@@ -0,0 +1,179 @@
+/*
+  # Plans and investor limits
+
+  1. Changes
+    - `users.plan` ('free' or 'premium') sets how many investors a trader may
+      approve: 10 on free, 50 on premium
+    - `users.investor_cap` lets a trader accept fewer investors than their
+      plan allows, but never fewer than 3
+    - Approving a binding past the trader's limit is rejected. The old
+      `check_binding_limit()` counted the row being approved against a fixed
+      cap of 10 and let concurrent approvals both pass.
+    - Requests past the limit stay pending: they form the trader's waitlist,
+      in the order they were sent
+
+  2. New Functions
+    - `plan_investor_limit(plan)`: investors included in a plan
+    - `investor_limit(trader_id)`: approvals the trader currently allows
+    - `binding_capacity(trader_id)`: slots in use and free, pending requests,
+      and the caller's place in the waitlist
+
+  3. Security
+    - Signed-in users cannot change their own plan; only the service role can
+    - Capacity is visible to the trader and to investors who sent them a request
+*/
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS plan TEXT NOT NULL DEFAULT 'free',
+  ADD COLUMN IF NOT EXISTS investor_cap INTEGER;
+
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_plan_check;
+ALTER TABLE public.users ADD CONSTRAINT users_plan_check CHECK (plan IN ('free', 'premium'));
+
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_investor_cap_check;
+ALTER TABLE public.users ADD CONSTRAINT users_investor_cap_check CHECK (investor_cap IS NULL OR investor_cap >= 3);
+
+CREATE OR REPLACE FUNCTION public.plan_investor_limit(p_plan TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_plan WHEN 'premium' THEN 50 ELSE 10 END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.investor_limit(p_trader_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT LEAST(COALESCE(u.investor_cap, public.plan_investor_limit(u.plan)), public.plan_investor_limit(u.plan))
+  FROM public.users u
+  WHERE u.id = p_trader_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_user_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Requests from the service role and migrations carry no user
+  IF NEW.plan IS DISTINCT FROM OLD.plan AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Plans can only be changed through billing'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.investor_cap > public.plan_investor_limit(NEW.plan) THEN
+    RAISE EXCEPTION 'The % plan allows at most % investors', NEW.plan, public.plan_investor_limit(NEW.plan)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_user_plan_trigger ON public.users;
+CREATE TRIGGER check_user_plan_trigger
+  BEFORE UPDATE ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_user_plan();
+
+CREATE OR REPLACE FUNCTION public.check_binding_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  approved_count INTEGER;
+  allowed INTEGER;
+BEGIN
+  -- Only a new approval takes a slot
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize approvals per trader so two cannot take the last slot
+  PERFORM 1 FROM public.users WHERE id = NEW.trader_id FOR UPDATE;
+
+  allowed := public.investor_limit(NEW.trader_id);
+
+  SELECT COUNT(*)
+  INTO approved_count
+  FROM public.bindings
+  WHERE trader_id = NEW.trader_id
+  AND status = 'approved'
+  AND id <> NEW.id;
+
+  IF approved_count >= allowed THEN
+    RAISE EXCEPTION 'Investor limit reached: % of % slots in use', approved_count, allowed
+      USING ERRCODE = 'check_violation',
+            HINT = 'Revoke an investor or upgrade to premium to free a slot';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_binding_limit_trigger ON public.bindings;
+CREATE TRIGGER check_binding_limit_trigger
+  BEFORE INSERT OR UPDATE ON public.bindings
+  FOR EACH ROW
+  WHEN (NEW.status = 'approved')
+  EXECUTE FUNCTION public.check_binding_limit();
+
+CREATE OR REPLACE FUNCTION public.binding_capacity(p_trader_id UUID)
+RETURNS TABLE (
+  plan TEXT,
+  investor_limit INTEGER,
+  approved INTEGER,
+  remaining INTEGER,
+  pending INTEGER,
+  waitlist_position INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_trader_id AND NOT EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = p_trader_id
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to view this trader''s capacity';
+  END IF;
+
+  SELECT u.plan, public.investor_limit(u.id)
+  INTO plan, investor_limit
+  FROM public.users u
+  WHERE u.id = p_trader_id;
+
+  SELECT
+    COUNT(*) FILTER (WHERE b.status = 'approved'),
+    COUNT(*) FILTER (WHERE b.status = 'pending')
+  INTO approved, pending
+  FROM public.bindings b
+  WHERE b.trader_id = p_trader_id;
+
+  remaining := GREATEST(investor_limit - approved, 0);
+
+  -- The caller's place among pending requests, oldest first
+  SELECT queue.position
+  INTO waitlist_position
+  FROM (
+    SELECT b.investor_id, ROW_NUMBER() OVER (ORDER BY b.created_at, b.id)::INTEGER AS position
+    FROM public.bindings b
+    WHERE b.trader_id = p_trader_id AND b.status = 'pending'
+  ) queue
+  WHERE queue.investor_id = auth.uid();
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.binding_capacity(UUID) TO authenticated;
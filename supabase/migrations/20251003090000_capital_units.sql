@@ -0,0 +1,296 @@
+/*
+  # Investor capital accounts
+
+  1. Changes
+    - `cashflows.investor_id` records whose capital a deposit or withdrawal is;
+      null means the trader's own money
+    - New `capital_units` table: units each holder owns in the trader's fund.
+      A deposit buys units and a withdrawal redeems them at the net asset
+      value per unit when the flow is priced.
+    - Opening the accounts issues the fund's value at that moment to the
+      trader, at 1.00 per unit; flows recorded before then stay part of it
+    - Changing the amount, type, currency or investor of a priced flow drops
+      its units so it is priced again
+
+  2. New Functions
+    - `open_capital_accounts(fund_value)`: start unit accounting for the caller
+    - `issue_capital_units(cashflow_id, fund_value, amount)`: price one flow
+      against the fund's value just before it, both in the trader's currency
+    - `capital_accounts(trader_id)`: units, contributions and withdrawals per
+      holder, with the fund's units outstanding and the flows already priced
+
+  3. Security
+    - Units are only written through the functions above, by the trader
+    - Traders see every holder's units; investors see their own
+    - A flow can only be attributed to an approved investor of the trader
+*/
+
+ALTER TABLE public.cashflows
+  ADD COLUMN IF NOT EXISTS investor_id UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS cashflows_investor_id_idx ON public.cashflows(investor_id);
+
+CREATE TABLE IF NOT EXISTS public.capital_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trader_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  holder_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  cashflow_id UUID UNIQUE REFERENCES public.cashflows(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('opening', 'subscription', 'redemption')),
+  -- Fund currency, always positive; the sign of `units` tells buys from redemptions
+  amount NUMERIC NOT NULL CHECK (amount >= 0),
+  units NUMERIC NOT NULL,
+  nav_per_unit NUMERIC NOT NULL CHECK (nav_per_unit > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS capital_units_trader_holder_idx ON public.capital_units(trader_id, holder_id);
+
+ALTER TABLE public.capital_units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Traders can view their fund's units" ON public.capital_units
+FOR SELECT USING (trader_id = auth.uid());
+
+CREATE POLICY "Holders can view their own units" ON public.capital_units
+FOR SELECT USING (holder_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.check_cashflow_investor()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.investor_id IS NOT NULL
+  AND (TG_OP = 'INSERT' OR NEW.investor_id IS DISTINCT FROM OLD.investor_id)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.trader_id = NEW.user_id
+    AND b.investor_id = NEW.investor_id
+    AND b.status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Capital can only be recorded for an approved investor'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_cashflow_investor_trigger ON public.cashflows;
+CREATE TRIGGER check_cashflow_investor_trigger
+  BEFORE INSERT OR UPDATE ON public.cashflows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_cashflow_investor();
+
+CREATE OR REPLACE FUNCTION public.reprice_changed_cashflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.amount, NEW.type, NEW.currency, NEW.investor_id)
+    IS DISTINCT FROM (OLD.amount, OLD.type, OLD.currency, OLD.investor_id) THEN
+    DELETE FROM public.capital_units WHERE cashflow_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reprice_changed_cashflow_trigger ON public.cashflows;
+CREATE TRIGGER reprice_changed_cashflow_trigger
+  AFTER UPDATE ON public.cashflows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reprice_changed_cashflow();
+
+CREATE OR REPLACE FUNCTION public.open_capital_accounts(p_fund_value NUMERIC)
+RETURNS public.capital_units
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry public.capital_units%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'trader'
+  ) THEN
+    RAISE EXCEPTION 'Only traders can open capital accounts';
+  END IF;
+
+  IF p_fund_value IS NULL OR p_fund_value < 0 THEN
+    RAISE EXCEPTION 'Fund value cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialize unit issues per trader so NAV is computed over settled units
+  PERFORM 1 FROM public.users WHERE id = auth.uid() FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.capital_units WHERE trader_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Capital accounts are already open';
+  END IF;
+
+  INSERT INTO public.capital_units (trader_id, holder_id, kind, amount, units, nav_per_unit)
+  VALUES (auth.uid(), auth.uid(), 'opening', p_fund_value, p_fund_value, 1)
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.issue_capital_units(
+  p_cashflow_id UUID,
+  p_fund_value NUMERIC,
+  p_amount NUMERIC
+)
+RETURNS public.capital_units
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  flow public.cashflows%ROWTYPE;
+  entry public.capital_units%ROWTYPE;
+  holder UUID;
+  outstanding NUMERIC;
+  held NUMERIC;
+  nav NUMERIC;
+BEGIN
+  SELECT * INTO flow FROM public.cashflows WHERE id = p_cashflow_id;
+  IF NOT FOUND OR flow.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cashflow not found';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  IF p_fund_value IS NULL OR p_fund_value < 0 THEN
+    RAISE EXCEPTION 'Fund value cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM 1 FROM public.users WHERE id = flow.user_id FOR UPDATE;
+
+  -- Pricing is idempotent: a retried call returns the units already issued
+  SELECT * INTO entry FROM public.capital_units WHERE cashflow_id = p_cashflow_id;
+  IF FOUND THEN
+    RETURN entry;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.capital_units WHERE trader_id = flow.user_id) THEN
+    RAISE EXCEPTION 'Capital accounts are not open yet';
+  END IF;
+
+  holder := COALESCE(flow.investor_id, flow.user_id);
+
+  SELECT COALESCE(SUM(units), 0) INTO outstanding
+  FROM public.capital_units
+  WHERE trader_id = flow.user_id;
+
+  -- An empty fund starts again at 1.00 per unit
+  nav := CASE WHEN outstanding > 0 AND p_fund_value > 0 THEN p_fund_value / outstanding ELSE 1 END;
+
+  IF flow.type = 'withdrawal' THEN
+    SELECT COALESCE(SUM(units), 0) INTO held
+    FROM public.capital_units
+    WHERE trader_id = flow.user_id AND holder_id = holder;
+
+    IF p_amount / nav > held * 1.000001 THEN
+      RAISE EXCEPTION 'Withdrawal exceeds the holder''s balance of %', ROUND(held * nav, 2)
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO public.capital_units (trader_id, holder_id, cashflow_id, kind, amount, units, nav_per_unit)
+  VALUES (
+    flow.user_id,
+    holder,
+    flow.id,
+    CASE WHEN flow.type = 'withdrawal' THEN 'redemption' ELSE 'subscription' END,
+    p_amount,
+    CASE WHEN flow.type = 'withdrawal' THEN -LEAST(p_amount / nav, held) ELSE p_amount / nav END,
+    nav
+  )
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.capital_accounts(p_trader_id UUID)
+RETURNS TABLE (
+  holder_id UUID,
+  username TEXT,
+  units NUMERIC,
+  contributed NUMERIC,
+  withdrawn NUMERIC,
+  total_units NUMERIC,
+  opened_at TIMESTAMPTZ,
+  priced_cashflows UUID[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_trader BOOLEAN := COALESCE(auth.uid() = p_trader_id, false);
+  fund_units NUMERIC;
+  fund_opened_at TIMESTAMPTZ;
+  fund_priced UUID[];
+BEGIN
+  IF NOT is_trader AND NOT EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = p_trader_id
+    AND b.status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to view this trader''s capital accounts';
+  END IF;
+
+  -- Priced flows let viewers leave unpriced cash out of the NAV
+  SELECT
+    COALESCE(SUM(cu.units), 0),
+    MIN(cu.created_at) FILTER (WHERE cu.kind = 'opening'),
+    COALESCE(ARRAY_AGG(cu.cashflow_id) FILTER (WHERE cu.cashflow_id IS NOT NULL), '{}')
+  INTO fund_units, fund_opened_at, fund_priced
+  FROM public.capital_units cu
+  WHERE cu.trader_id = p_trader_id;
+
+  RETURN QUERY
+  SELECT
+    cu.holder_id,
+    u.username,
+    SUM(cu.units),
+    COALESCE(SUM(cu.amount) FILTER (WHERE cu.kind <> 'redemption'), 0),
+    COALESCE(SUM(cu.amount) FILTER (WHERE cu.kind = 'redemption'), 0),
+    fund_units,
+    fund_opened_at,
+    fund_priced
+  FROM public.capital_units cu
+  JOIN public.users u ON u.id = cu.holder_id
+  WHERE cu.trader_id = p_trader_id
+  AND (is_trader OR cu.holder_id = auth.uid())
+  GROUP BY cu.holder_id, u.username
+  ORDER BY SUM(cu.units) DESC;
+
+  -- Investors without units still learn the fund's size
+  IF NOT FOUND AND NOT is_trader THEN
+    holder_id := auth.uid();
+    SELECT u.username INTO username FROM public.users u WHERE u.id = auth.uid();
+    units := 0;
+    contributed := 0;
+    withdrawn := 0;
+    total_units := fund_units;
+    opened_at := fund_opened_at;
+    priced_cashflows := fund_priced;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_capital_accounts(NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_capital_units(UUID, NUMERIC, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.capital_accounts(UUID) TO authenticated;
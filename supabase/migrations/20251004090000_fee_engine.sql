@@ -0,0 +1,308 @@
+/*
+  # Management and performance fees
+
+  1. Changes
+    - New `fee_schedules` table: per-investor management rate, performance
+      rate, hurdle rate (all annual fractions) and crystallization period.
+      `start_nav_per_unit` is the fund's NAV when the schedule was set, so the
+      investor's starting balance, their first high-water mark, is known.
+    - New `fee_statements` table: one row per crystallized period with the
+      balance, high-water mark, hurdle and fees it was computed from
+    - Crystallized fees are paid in units: the investor's units move to the
+      trader at the period's NAV, so other holders are unaffected
+    - `capital_units.kind` gains 'fee', with `fee_statement_id` linking the
+      transfer to its statement
+    - `capital_accounts()` reports fees paid and no longer counts fee units
+      as contributions
+
+  2. New Functions
+    - `fee_period_end(start, crystallization)`: end of the period a start falls in
+    - `crystallize_fees(...)`: record a statement and transfer the fee units
+
+  3. Security
+    - Traders manage their investors' schedules; investors can read their own
+    - Statements are only written through `crystallize_fees()`, by the trader,
+      once the period has ended and only once per period
+*/
+
+CREATE TABLE IF NOT EXISTS public.fee_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trader_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  investor_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  management_rate NUMERIC NOT NULL DEFAULT 0.02 CHECK (management_rate >= 0 AND management_rate <= 0.1),
+  performance_rate NUMERIC NOT NULL DEFAULT 0.2 CHECK (performance_rate >= 0 AND performance_rate <= 0.5),
+  hurdle_rate NUMERIC NOT NULL DEFAULT 0 CHECK (hurdle_rate >= 0 AND hurdle_rate <= 0.5),
+  crystallization TEXT NOT NULL DEFAULT 'yearly' CHECK (crystallization IN ('monthly', 'quarterly', 'yearly')),
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  start_nav_per_unit NUMERIC NOT NULL CHECK (start_nav_per_unit > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (trader_id, investor_id)
+);
+
+ALTER TABLE public.fee_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Traders manage their fee schedules" ON public.fee_schedules
+FOR ALL USING (trader_id = auth.uid()) WITH CHECK (trader_id = auth.uid());
+
+CREATE POLICY "Investors can view their fee schedule" ON public.fee_schedules
+FOR SELECT USING (investor_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.check_fee_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.trader_id = NEW.trader_id
+    AND b.investor_id = NEW.investor_id
+    AND b.status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Fees can only be set for an approved investor'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- The accrual start and starting balance are fixed once set
+  IF TG_OP = 'UPDATE' THEN
+    NEW.starts_at := OLD.starts_at;
+    NEW.start_nav_per_unit := OLD.start_nav_per_unit;
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_fee_schedule_trigger ON public.fee_schedules;
+CREATE TRIGGER check_fee_schedule_trigger
+  BEFORE INSERT OR UPDATE ON public.fee_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_fee_schedule();
+
+CREATE TABLE IF NOT EXISTS public.fee_statements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trader_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  investor_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Rates in force for the period
+  management_rate NUMERIC NOT NULL,
+  performance_rate NUMERIC NOT NULL,
+  hurdle_rate NUMERIC NOT NULL,
+  nav_per_unit NUMERIC NOT NULL CHECK (nav_per_unit > 0),
+  -- Investor's balance before fees, in the trader's currency
+  gross_balance NUMERIC NOT NULL,
+  -- High-water mark adjusted for the period's flows, and with the hurdle applied
+  high_water_mark NUMERIC NOT NULL,
+  hurdle_threshold NUMERIC NOT NULL,
+  management_fee NUMERIC NOT NULL CHECK (management_fee >= 0),
+  performance_fee NUMERIC NOT NULL CHECK (performance_fee >= 0),
+  closing_high_water_mark NUMERIC NOT NULL,
+  fee_units NUMERIC NOT NULL CHECK (fee_units >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS fee_statements_trader_investor_idx
+  ON public.fee_statements(trader_id, investor_id, period_end DESC);
+
+ALTER TABLE public.fee_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Traders can view their fee statements" ON public.fee_statements
+FOR SELECT USING (trader_id = auth.uid());
+
+CREATE POLICY "Investors can view their fee statements" ON public.fee_statements
+FOR SELECT USING (investor_id = auth.uid());
+
+ALTER TABLE public.capital_units
+  ADD COLUMN IF NOT EXISTS fee_statement_id UUID REFERENCES public.fee_statements(id) ON DELETE CASCADE;
+
+ALTER TABLE public.capital_units DROP CONSTRAINT IF EXISTS capital_units_kind_check;
+ALTER TABLE public.capital_units ADD CONSTRAINT capital_units_kind_check
+  CHECK (kind IN ('opening', 'subscription', 'redemption', 'fee'));
+
+CREATE OR REPLACE FUNCTION public.fee_period_end(p_start TIMESTAMPTZ, p_crystallization TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_crystallization
+    WHEN 'monthly' THEN date_trunc('month', p_start AT TIME ZONE 'UTC') + INTERVAL '1 month'
+    WHEN 'quarterly' THEN date_trunc('quarter', p_start AT TIME ZONE 'UTC') + INTERVAL '3 months'
+    ELSE date_trunc('year', p_start AT TIME ZONE 'UTC') + INTERVAL '1 year'
+  END AT TIME ZONE 'UTC';
+$$;
+
+CREATE OR REPLACE FUNCTION public.crystallize_fees(
+  p_investor_id UUID,
+  p_period_start TIMESTAMPTZ,
+  p_nav_per_unit NUMERIC,
+  p_gross_balance NUMERIC,
+  p_high_water_mark NUMERIC,
+  p_hurdle_threshold NUMERIC,
+  p_management_fee NUMERIC,
+  p_performance_fee NUMERIC,
+  p_closing_high_water_mark NUMERIC
+)
+RETURNS public.fee_statements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule public.fee_schedules%ROWTYPE;
+  fee_statement public.fee_statements%ROWTYPE;
+  expected_start TIMESTAMPTZ;
+  held NUMERIC;
+  transfer_units NUMERIC;
+BEGIN
+  SELECT * INTO schedule
+  FROM public.fee_schedules
+  WHERE trader_id = auth.uid() AND investor_id = p_investor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No fee schedule for this investor';
+  END IF;
+
+  IF p_nav_per_unit IS NULL OR p_nav_per_unit <= 0 THEN
+    RAISE EXCEPTION 'NAV per unit must be positive'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  IF p_management_fee < 0 OR p_performance_fee < 0 THEN
+    RAISE EXCEPTION 'Fees cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Same lock as unit issues, so the fee is priced over settled units
+  PERFORM 1 FROM public.users WHERE id = auth.uid() FOR UPDATE;
+
+  SELECT COALESCE(MAX(s.period_end), schedule.starts_at) INTO expected_start
+  FROM public.fee_statements s
+  WHERE s.trader_id = auth.uid() AND s.investor_id = p_investor_id;
+
+  IF p_period_start IS DISTINCT FROM expected_start THEN
+    RAISE EXCEPTION 'Fees for this period were already crystallized'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+  IF public.fee_period_end(expected_start, schedule.crystallization) > now() THEN
+    RAISE EXCEPTION 'The % fee period has not ended yet', schedule.crystallization
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM(units), 0) INTO held
+  FROM public.capital_units
+  WHERE trader_id = auth.uid() AND holder_id = p_investor_id;
+
+  transfer_units := (p_management_fee + p_performance_fee) / p_nav_per_unit;
+  IF transfer_units > held * 1.000001 THEN
+    RAISE EXCEPTION 'Fees exceed the investor''s balance'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  transfer_units := LEAST(transfer_units, held);
+
+  INSERT INTO public.fee_statements (
+    trader_id, investor_id, period_start,
+    management_rate, performance_rate, hurdle_rate,
+    nav_per_unit, gross_balance, high_water_mark, hurdle_threshold,
+    management_fee, performance_fee, closing_high_water_mark, fee_units
+  )
+  VALUES (
+    auth.uid(), p_investor_id, expected_start,
+    schedule.management_rate, schedule.performance_rate, schedule.hurdle_rate,
+    p_nav_per_unit, p_gross_balance, p_high_water_mark, p_hurdle_threshold,
+    p_management_fee, p_performance_fee, p_closing_high_water_mark, transfer_units
+  )
+  RETURNING * INTO fee_statement;
+
+  IF transfer_units > 0 THEN
+    INSERT INTO public.capital_units (trader_id, holder_id, fee_statement_id, kind, amount, units, nav_per_unit)
+    VALUES
+      (auth.uid(), p_investor_id, fee_statement.id, 'fee', p_management_fee + p_performance_fee, -transfer_units, p_nav_per_unit),
+      (auth.uid(), auth.uid(), fee_statement.id, 'fee', p_management_fee + p_performance_fee, transfer_units, p_nav_per_unit);
+  END IF;
+
+  RETURN fee_statement;
+END;
+$$;
+
+-- The return type gains `fees_paid`, so the function is recreated
+DROP FUNCTION IF EXISTS public.capital_accounts(UUID);
+
+CREATE FUNCTION public.capital_accounts(p_trader_id UUID)
+RETURNS TABLE (
+  holder_id UUID,
+  username TEXT,
+  units NUMERIC,
+  contributed NUMERIC,
+  withdrawn NUMERIC,
+  fees_paid NUMERIC,
+  total_units NUMERIC,
+  opened_at TIMESTAMPTZ,
+  priced_cashflows UUID[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_trader BOOLEAN := COALESCE(auth.uid() = p_trader_id, false);
+  fund_units NUMERIC;
+  fund_opened_at TIMESTAMPTZ;
+  fund_priced UUID[];
+BEGIN
+  IF NOT is_trader AND NOT EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.investor_id = auth.uid()
+    AND b.trader_id = p_trader_id
+    AND b.status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to view this trader''s capital accounts';
+  END IF;
+
+  -- Priced flows let viewers leave unpriced cash out of the NAV
+  SELECT
+    COALESCE(SUM(cu.units), 0),
+    MIN(cu.created_at) FILTER (WHERE cu.kind = 'opening'),
+    COALESCE(ARRAY_AGG(cu.cashflow_id) FILTER (WHERE cu.cashflow_id IS NOT NULL), '{}')
+  INTO fund_units, fund_opened_at, fund_priced
+  FROM public.capital_units cu
+  WHERE cu.trader_id = p_trader_id;
+
+  RETURN QUERY
+  SELECT
+    cu.holder_id,
+    u.username,
+    SUM(cu.units),
+    COALESCE(SUM(cu.amount) FILTER (WHERE cu.kind IN ('opening', 'subscription')), 0),
+    COALESCE(SUM(cu.amount) FILTER (WHERE cu.kind = 'redemption'), 0),
+    COALESCE(SUM(cu.amount) FILTER (WHERE cu.kind = 'fee' AND cu.units < 0), 0),
+    fund_units,
+    fund_opened_at,
+    fund_priced
+  FROM public.capital_units cu
+  JOIN public.users u ON u.id = cu.holder_id
+  WHERE cu.trader_id = p_trader_id
+  AND (is_trader OR cu.holder_id = auth.uid())
+  GROUP BY cu.holder_id, u.username
+  ORDER BY SUM(cu.units) DESC;
+
+  -- Investors without units still learn the fund's size
+  IF NOT FOUND AND NOT is_trader THEN
+    holder_id := auth.uid();
+    SELECT u.username INTO username FROM public.users u WHERE u.id = auth.uid();
+    units := 0;
+    contributed := 0;
+    withdrawn := 0;
+    fees_paid := 0;
+    total_units := fund_units;
+    opened_at := fund_opened_at;
+    priced_cashflows := fund_priced;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.crystallize_fees(UUID, TIMESTAMPTZ, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.capital_accounts(UUID) TO authenticated;
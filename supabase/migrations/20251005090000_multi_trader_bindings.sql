@@ -0,0 +1,56 @@
+/*
+  # Investors following several traders
+
+  1. Changes
+    - An investor can hold approved bindings with several traders at once;
+      `users.bound_trader_id` is kept as their default trader
+    - Approving a binding makes that trader the default
+    - Revoking the default trader's binding falls back to the investor's most
+      recently approved remaining trader, instead of clearing the default
+      while other bindings are still approved
+    - Index on `bindings(investor_id, status)` for the investor's trader list
+
+  2. New Functions
+    - None; `handle_binding_approval()` is replaced
+
+  3. Security
+    - Unchanged: trade, cashflow and capital policies already check for an
+      approved binding per trader, so they cover every trader an investor follows
+*/
+
+CREATE OR REPLACE FUNCTION public.handle_binding_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The newly approved trader becomes the investor's default
+  IF NEW.status = 'approved' AND OLD.status != 'approved' THEN
+    UPDATE public.users
+    SET bound_trader_id = NEW.trader_id
+    WHERE id = NEW.investor_id;
+  END IF;
+
+  -- Losing the default trader falls back to another approved one, if any
+  IF NEW.status != 'approved' AND OLD.status = 'approved' THEN
+    UPDATE public.users
+    SET bound_trader_id = (
+      SELECT b.trader_id
+      FROM public.bindings b
+      WHERE b.investor_id = NEW.investor_id
+        AND b.status = 'approved'
+        AND b.id != NEW.id
+      ORDER BY b.updated_at DESC
+      LIMIT 1
+    )
+    WHERE id = NEW.investor_id
+      AND (bound_trader_id = NEW.trader_id OR bound_trader_id IS NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_bindings_investor_status
+  ON public.bindings (investor_id, status);
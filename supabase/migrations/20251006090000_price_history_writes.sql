@@ -0,0 +1,21 @@
+/*
+  # Price history written only by the backfill function
+
+  1. Changes
+    - Signed-in users can no longer add or refresh closes: any user could
+      store any close, and closes feed every fund's valuation checks
+    - Closes are added by the `backfill-price-history` edge function, which
+      fetches them from CoinGecko itself with the service role, stores only
+      completed days and never overwrites a stored close
+
+  2. New Functions
+    - None; `store_price_history()`, where it was created, is dropped
+
+  3. Security
+    - `price_history` is read-only for authenticated users
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can add price history" ON public.price_history;
+DROP POLICY IF EXISTS "Authenticated users can refresh price history" ON public.price_history;
+
+DROP FUNCTION IF EXISTS public.store_price_history(JSONB);
@@ -0,0 +1,59 @@
+/*
+  # FX rates written only by the backfill function
+
+  1. Changes
+    - Signed-in users can no longer add or refresh FX rates: any user could
+      store any rate, and rates feed every fund's valuation checks
+    - Rates are added by the `backfill-fx-rates` edge function, which fetches
+      them from Frankfurter itself with the service role and never overwrites
+      a stored rate
+    - Only completed days are accepted; rates stored on their own day, while
+      they could still move, are removed with every later rate of that
+      currency, so the function fetches them again after the last stored day
+
+  2. New Functions
+    - `check_fx_rate_date()` rejects rates for today or later;
+      `store_fx_rates()`, where it was created, is dropped
+
+  3. Security
+    - `fx_rates` is read-only for authenticated users
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can add FX rates" ON public.fx_rates;
+DROP POLICY IF EXISTS "Authenticated users can refresh FX rates" ON public.fx_rates;
+
+DROP FUNCTION IF EXISTS public.store_fx_rates(JSONB);
+
+CREATE OR REPLACE FUNCTION public.check_fx_rate_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.rate_date >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'FX rates can only be stored for completed days, not %', NEW.rate_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_fx_rate_date_trigger ON public.fx_rates;
+CREATE TRIGGER check_fx_rate_date_trigger
+  BEFORE INSERT OR UPDATE ON public.fx_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_fx_rate_date();
+
+-- Backfills only fill in after the last stored day, so drop everything from
+-- each currency's first same-day rate onwards rather than leave a hole
+DELETE FROM public.fx_rates r
+USING (
+  SELECT base, quote, MIN(rate_date) AS first_open_day
+  FROM public.fx_rates
+  WHERE rate_date >= created_at::date
+  GROUP BY base, quote
+) open_days
+WHERE r.base = open_days.base
+AND r.quote = open_days.quote
+AND r.rate_date >= open_days.first_open_day;
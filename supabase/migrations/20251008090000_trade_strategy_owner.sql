@@ -0,0 +1,52 @@
+/*
+  # Trade strategies owned by the trade owner
+
+  1. Changes
+    - A trade's strategy must be one of the trade owner's own strategies, like
+      its tags; trades already pointing at another trader's strategy have it
+      cleared
+
+  2. New Functions
+    - `check_trade_strategy()` trigger rejects a trade whose strategy belongs
+      to another trader
+
+  3. Security
+    - A trigger rather than a policy, so trades written by functions are
+      checked too
+*/
+
+UPDATE public.trades t
+SET strategy_id = NULL
+WHERE t.strategy_id IS NOT NULL
+AND NOT EXISTS (
+  SELECT 1 FROM public.strategies s
+  WHERE s.id = t.strategy_id
+  AND s.user_id = t.user_id
+);
+
+CREATE OR REPLACE FUNCTION public.check_trade_strategy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.strategies s
+    WHERE s.id = NEW.strategy_id
+    AND s.user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Strategy % does not belong to the trade owner', NEW.strategy_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_trade_strategy_trigger ON public.trades;
+CREATE TRIGGER check_trade_strategy_trigger
+  BEFORE INSERT OR UPDATE OF strategy_id, user_id ON public.trades
+  FOR EACH ROW
+  WHEN (NEW.strategy_id IS NOT NULL)
+  EXECUTE FUNCTION public.check_trade_strategy();
@@ -0,0 +1,19 @@
+/*
+  # Binding requests start as pending
+
+  1. Changes
+    - None to tables
+
+  2. New Functions
+    - None
+
+  3. Security
+    - Investors can only create binding requests with status `pending`;
+      before, they could insert an already approved binding and follow a
+      trader without the trader's approval
+*/
+
+DROP POLICY IF EXISTS "Investors can create binding requests" ON public.bindings;
+
+CREATE POLICY "Investors can create binding requests" ON public.bindings
+FOR INSERT WITH CHECK (auth.uid() = investor_id AND status = 'pending');
@@ -0,0 +1,335 @@
+/*
+  # Capital units priced from the stored records
+
+  1. Changes
+    - The fund value a trader prices units at is checked against the fund's
+      value computed from its stored records
+    - A flow's amount is no longer supplied by the caller: it is the flow's
+      own amount, converted into the fund's currency at the stored rate of
+      its transaction date
+    - Priced flows are locked: their amount, type, currency, date, owner and
+      investor cannot change and they cannot be deleted, since that used to
+      drop the units they issued without a trace. Notes can still be edited;
+      a correction is recorded as a new flow.
+
+  2. New Functions
+    - `valuation_currency(code)`, `fx_rate_on(code, date)` and
+      `fx_convert(amount, from, to, date)`: stored FX rates as the app applies them
+    - `fund_valuation(trader_id)`: the fund's value from stored records, in
+      the trader's currency, and the part of it that is spot holdings marked
+      at their latest stored close
+    - `check_fund_value(trader_id, fund_value)`: rejects a fund value the
+      stored records cannot explain
+    - `issue_capital_units(cashflow_id, fund_value)` replaces the version
+      taking an amount
+    - `protect_priced_cashflow()` replaces `reprice_changed_cashflow()`
+
+  3. Security
+    - Cash and other investments must match the stored records; only the spot
+      holdings may differ, by at most a quarter of their stored value, for
+      prices that moved since the last close
+*/
+
+-- Stablecoins are valued as the fiat currency they are pegged to
+CREATE OR REPLACE FUNCTION public.valuation_currency(p_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT COALESCE(c.pegged_to, c.code) FROM public.currencies c WHERE c.code = p_code), p_code);
+$$;
+
+-- USD -> currency rate on a date: the latest on or before it, else the earliest
+CREATE OR REPLACE FUNCTION public.fx_rate_on(p_code TEXT, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN fiat.code = 'USD' THEN 1 ELSE COALESCE(
+    (SELECT r.rate FROM public.fx_rates r
+     WHERE r.base = 'USD' AND r.quote = fiat.code AND r.rate_date <= p_date
+     ORDER BY r.rate_date DESC LIMIT 1),
+    (SELECT r.rate FROM public.fx_rates r
+     WHERE r.base = 'USD' AND r.quote = fiat.code
+     ORDER BY r.rate_date ASC LIMIT 1)
+  ) END
+  FROM (SELECT public.valuation_currency(p_code) AS code) fiat;
+$$;
+
+-- Null when a rate is missing, so the record is left out like in the app
+CREATE OR REPLACE FUNCTION public.fx_convert(p_amount NUMERIC, p_from TEXT, p_to TEXT, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN public.valuation_currency(p_from) = public.valuation_currency(p_to) THEN p_amount
+    ELSE p_amount / NULLIF(public.fx_rate_on(p_from, p_date), 0) * public.fx_rate_on(p_to, p_date)
+  END;
+$$;
+
+/*
+  The fund's value as the app computes it, from records alone: net cash from
+  flows already in the fund, other investments at cost plus recorded P&L, and
+  spot holdings at their latest stored close (average cost without one).
+  Flows recorded after the opening and not priced yet are left out, like the
+  value a flow is priced against.
+*/
+CREATE OR REPLACE FUNCTION public.fund_valuation(p_trader_id UUID)
+RETURNS TABLE (fund_value NUMERIC, spot_value NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  fund_currency TEXT;
+  fund_opened_at TIMESTAMPTZ;
+  cash NUMERIC;
+  other NUMERIC;
+BEGIN
+  SELECT u.currency INTO fund_currency FROM public.users u WHERE u.id = p_trader_id;
+
+  SELECT MIN(cu.created_at) INTO fund_opened_at
+  FROM public.capital_units cu
+  WHERE cu.trader_id = p_trader_id AND cu.kind = 'opening';
+
+  SELECT COALESCE(SUM(public.fx_convert(
+    CASE WHEN cf.type = 'deposit' THEN cf.amount ELSE -cf.amount END,
+    cf.currency, fund_currency, cf.transaction_date::date
+  )), 0) INTO cash
+  FROM public.cashflows cf
+  WHERE cf.user_id = p_trader_id
+  AND (
+    fund_opened_at IS NULL
+    OR cf.created_at <= fund_opened_at
+    OR EXISTS (SELECT 1 FROM public.capital_units cu WHERE cu.cashflow_id = cf.id)
+  );
+
+  SELECT COALESCE(SUM(public.fx_convert(
+    t.price * t.quantity + COALESCE(t.fees, 0) + COALESCE(t.profit_loss, 0),
+    t.currency, fund_currency, t.trade_date::date
+  )), 0) INTO other
+  FROM public.trades t
+  WHERE t.user_id = p_trader_id
+  AND t.category NOT IN ('spot', 'futures');
+
+  SELECT COALESCE(SUM(h.quantity * COALESCE(
+    (SELECT ph.close FROM public.price_history ph
+     WHERE ph.asset = h.asset AND ph.currency = fund_currency
+     ORDER BY ph.price_date DESC LIMIT 1),
+    h.average_cost,
+    0
+  )), 0) INTO spot_value
+  FROM (
+    SELECT
+      upper(t.asset) AS asset,
+      SUM(CASE WHEN t.details->>'buy_sell' = 'sell' THEN -t.quantity ELSE t.quantity END) AS quantity,
+      SUM(public.fx_convert(t.price * t.quantity + COALESCE(t.fees, 0), t.currency, fund_currency, t.trade_date::date))
+        FILTER (WHERE COALESCE(t.details->>'buy_sell', 'buy') != 'sell')
+        / NULLIF(SUM(t.quantity) FILTER (WHERE COALESCE(t.details->>'buy_sell', 'buy') != 'sell'), 0) AS average_cost
+    FROM public.trades t
+    WHERE t.user_id = p_trader_id
+    AND t.category = 'spot'
+    GROUP BY upper(t.asset)
+  ) h
+  WHERE h.quantity > 0;
+
+  fund_value := cash + other + spot_value;
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_fund_value(p_trader_id UUID, p_fund_value NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  valuation RECORD;
+  expected NUMERIC;
+BEGIN
+  IF p_fund_value IS NULL OR p_fund_value < 0 THEN
+    RAISE EXCEPTION 'Fund value cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO valuation FROM public.fund_valuation(p_trader_id);
+  -- The app never prices below zero
+  expected := GREATEST(valuation.fund_value, 0);
+
+  -- Live prices may have moved since the stored close; nothing else may differ
+  IF ABS(p_fund_value - expected) > ABS(valuation.spot_value) * 0.25 + 1 THEN
+    RAISE EXCEPTION 'Fund value % does not match the recorded value of %', ROUND(p_fund_value, 2), ROUND(expected, 2)
+      USING ERRCODE = 'check_violation',
+        HINT = 'Refresh prices and price history, then try again';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.open_capital_accounts(p_fund_value NUMERIC)
+RETURNS public.capital_units
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry public.capital_units%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'trader'
+  ) THEN
+    RAISE EXCEPTION 'Only traders can open capital accounts';
+  END IF;
+
+  -- Serialize unit issues per trader so NAV is computed over settled units
+  PERFORM 1 FROM public.users WHERE id = auth.uid() FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.capital_units WHERE trader_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Capital accounts are already open';
+  END IF;
+
+  PERFORM public.check_fund_value(auth.uid(), p_fund_value);
+
+  INSERT INTO public.capital_units (trader_id, holder_id, kind, amount, units, nav_per_unit)
+  VALUES (auth.uid(), auth.uid(), 'opening', p_fund_value, p_fund_value, 1)
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.issue_capital_units(UUID, NUMERIC, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.issue_capital_units(
+  p_cashflow_id UUID,
+  p_fund_value NUMERIC
+)
+RETURNS public.capital_units
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  flow public.cashflows%ROWTYPE;
+  entry public.capital_units%ROWTYPE;
+  fund_currency TEXT;
+  flow_amount NUMERIC;
+  holder UUID;
+  outstanding NUMERIC;
+  held NUMERIC;
+  nav NUMERIC;
+BEGIN
+  SELECT * INTO flow FROM public.cashflows WHERE id = p_cashflow_id;
+  IF NOT FOUND OR flow.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cashflow not found';
+  END IF;
+
+  PERFORM 1 FROM public.users WHERE id = flow.user_id FOR UPDATE;
+
+  -- Pricing is idempotent: a retried call returns the units already issued
+  SELECT * INTO entry FROM public.capital_units WHERE cashflow_id = p_cashflow_id;
+  IF FOUND THEN
+    RETURN entry;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.capital_units WHERE trader_id = flow.user_id) THEN
+    RAISE EXCEPTION 'Capital accounts are not open yet';
+  END IF;
+
+  SELECT u.currency INTO fund_currency FROM public.users u WHERE u.id = flow.user_id;
+  flow_amount := public.fx_convert(flow.amount, flow.currency, fund_currency, flow.transaction_date::date);
+
+  IF flow_amount IS NULL THEN
+    RAISE EXCEPTION 'No FX rate to convert % into %', flow.currency, fund_currency
+      USING ERRCODE = 'check_violation',
+        HINT = 'Refresh FX rates, then try again';
+  END IF;
+  IF flow_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Flows are priced oldest first, so this flow and every later unpriced one
+  -- are the flows left out of the value
+  PERFORM public.check_fund_value(flow.user_id, p_fund_value);
+
+  holder := COALESCE(flow.investor_id, flow.user_id);
+
+  SELECT COALESCE(SUM(units), 0) INTO outstanding
+  FROM public.capital_units
+  WHERE trader_id = flow.user_id;
+
+  -- An empty fund starts again at 1.00 per unit
+  nav := CASE WHEN outstanding > 0 AND p_fund_value > 0 THEN p_fund_value / outstanding ELSE 1 END;
+
+  IF flow.type = 'withdrawal' THEN
+    SELECT COALESCE(SUM(units), 0) INTO held
+    FROM public.capital_units
+    WHERE trader_id = flow.user_id AND holder_id = holder;
+
+    IF flow_amount / nav > held * 1.000001 THEN
+      RAISE EXCEPTION 'Withdrawal exceeds the holder''s balance of %', ROUND(held * nav, 2)
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO public.capital_units (trader_id, holder_id, cashflow_id, kind, amount, units, nav_per_unit)
+  VALUES (
+    flow.user_id,
+    holder,
+    flow.id,
+    CASE WHEN flow.type = 'withdrawal' THEN 'redemption' ELSE 'subscription' END,
+    flow_amount,
+    CASE WHEN flow.type = 'withdrawal' THEN -LEAST(flow_amount / nav, held) ELSE flow_amount / nav END,
+    nav
+  )
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reprice_changed_cashflow_trigger ON public.cashflows;
+DROP FUNCTION IF EXISTS public.reprice_changed_cashflow();
+
+CREATE OR REPLACE FUNCTION public.protect_priced_cashflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.capital_units WHERE cashflow_id = OLD.id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Rows removed by an account deletion cascade take their units with them
+    IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = OLD.user_id) THEN
+      RETURN OLD;
+    END IF;
+  ELSIF (NEW.amount, NEW.type, NEW.currency, NEW.transaction_date, NEW.user_id)
+      IS NOT DISTINCT FROM (OLD.amount, OLD.type, OLD.currency, OLD.transaction_date, OLD.user_id)
+    -- A deleted investor's flows lose their investor along with their units
+    AND (NEW.investor_id IS NOT DISTINCT FROM OLD.investor_id
+      OR NOT EXISTS (SELECT 1 FROM public.users WHERE id = OLD.investor_id)) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'This transaction has been priced into capital units and cannot be changed or deleted'
+    USING ERRCODE = 'check_violation',
+      HINT = 'Record a correcting deposit or withdrawal instead';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_priced_cashflow_trigger ON public.cashflows;
+CREATE TRIGGER protect_priced_cashflow_trigger
+  BEFORE UPDATE OR DELETE ON public.cashflows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_priced_cashflow();
+
+GRANT EXECUTE ON FUNCTION public.issue_capital_units(UUID, NUMERIC) TO authenticated;
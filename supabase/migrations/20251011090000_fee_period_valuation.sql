@@ -0,0 +1,366 @@
+/*
+  # Fees valued at each period's end
+
+  1. Changes
+    - `fee_statements.period_end` is the crystallization period's boundary,
+      set by `crystallize_fees()`, rather than when it was crystallized
+    - Fee units are dated at the end of the period they pay for, so a period
+      crystallized late no longer moves units inside the next period's
+      window; fee units already recorded are re-dated the same way
+    - A schedule's starting NAV is checked against the fund's recorded value,
+      and its start is the moment it is created
+    - A schedule cannot move to another investor or trader, and once fees
+      have been crystallized under it, it can neither be deleted nor created
+      again, so its high-water mark cannot be reset
+
+  2. New Functions
+    - `fund_valuation(trader_id, as_of)`: the fund's value as of a moment,
+      from the records and stored closes up to it; without `as_of`, now
+    - `fund_nav_at(trader_id, as_of)`: NAV per unit as of a moment
+    - `crystallize_fees(investor_id, period_start)` replaces the version
+      taking fees from the caller: fees are computed in the database, the same
+      way as `accrueFees()` in the app, at the NAV at the period's end
+
+  3. Security
+    - Statements are still only written through `crystallize_fees()`, by the
+      trader, once the period has ended and only once per period; nothing in
+      them comes from the caller
+*/
+
+ALTER TABLE public.fee_statements ALTER COLUMN period_end DROP DEFAULT;
+
+UPDATE public.capital_units cu
+SET created_at = s.period_end
+FROM public.fee_statements s
+WHERE cu.fee_statement_id = s.id
+AND cu.created_at <> s.period_end;
+
+DROP FUNCTION IF EXISTS public.fund_valuation(UUID);
+
+/*
+  The fund's value as the app computes it, from records alone: net cash from
+  flows already in the fund, other investments at cost plus recorded P&L, and
+  spot holdings at their latest stored close (average cost without one).
+  Flows recorded after the opening and not priced yet are left out, like the
+  value a flow is priced against. As of a past moment, only flows priced,
+  trades made and days closed by then count.
+*/
+CREATE OR REPLACE FUNCTION public.fund_valuation(p_trader_id UUID, p_as_of TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (fund_value NUMERIC, spot_value NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  fund_currency TEXT;
+  fund_opened_at TIMESTAMPTZ;
+  closed_before DATE := (COALESCE(p_as_of, 'infinity') AT TIME ZONE 'UTC')::date;
+  cash NUMERIC;
+  other NUMERIC;
+BEGIN
+  SELECT u.currency INTO fund_currency FROM public.users u WHERE u.id = p_trader_id;
+
+  SELECT MIN(cu.created_at) INTO fund_opened_at
+  FROM public.capital_units cu
+  WHERE cu.trader_id = p_trader_id AND cu.kind = 'opening';
+
+  SELECT COALESCE(SUM(public.fx_convert(
+    CASE WHEN cf.type = 'deposit' THEN cf.amount ELSE -cf.amount END,
+    cf.currency, fund_currency, cf.transaction_date::date
+  )), 0) INTO cash
+  FROM public.cashflows cf
+  WHERE cf.user_id = p_trader_id
+  AND (p_as_of IS NULL OR cf.created_at <= p_as_of)
+  AND (
+    fund_opened_at IS NULL
+    OR cf.created_at <= fund_opened_at
+    OR EXISTS (
+      SELECT 1 FROM public.capital_units cu
+      WHERE cu.cashflow_id = cf.id
+      AND (p_as_of IS NULL OR cu.created_at <= p_as_of)
+    )
+  );
+
+  SELECT COALESCE(SUM(public.fx_convert(
+    t.price * t.quantity + COALESCE(t.fees, 0) + COALESCE(t.profit_loss, 0),
+    t.currency, fund_currency, t.trade_date::date
+  )), 0) INTO other
+  FROM public.trades t
+  WHERE t.user_id = p_trader_id
+  AND t.category NOT IN ('spot', 'futures')
+  AND (p_as_of IS NULL OR t.trade_date <= p_as_of);
+
+  -- A day's close is known once the day is over
+  SELECT COALESCE(SUM(h.quantity * COALESCE(
+    (SELECT ph.close FROM public.price_history ph
+     WHERE ph.asset = h.asset AND ph.currency = fund_currency
+     AND ph.price_date < closed_before
+     ORDER BY ph.price_date DESC LIMIT 1),
+    h.average_cost,
+    0
+  )), 0) INTO spot_value
+  FROM (
+    SELECT
+      upper(t.asset) AS asset,
+      SUM(CASE WHEN t.details->>'buy_sell' = 'sell' THEN -t.quantity ELSE t.quantity END) AS quantity,
+      SUM(public.fx_convert(t.price * t.quantity + COALESCE(t.fees, 0), t.currency, fund_currency, t.trade_date::date))
+        FILTER (WHERE COALESCE(t.details->>'buy_sell', 'buy') != 'sell')
+        / NULLIF(SUM(t.quantity) FILTER (WHERE COALESCE(t.details->>'buy_sell', 'buy') != 'sell'), 0) AS average_cost
+    FROM public.trades t
+    WHERE t.user_id = p_trader_id
+    AND t.category = 'spot'
+    AND (p_as_of IS NULL OR t.trade_date <= p_as_of)
+    GROUP BY upper(t.asset)
+  ) h
+  WHERE h.quantity > 0;
+
+  fund_value := cash + other + spot_value;
+  RETURN NEXT;
+END;
+$$;
+
+-- Like `navPerUnit()` in the app: an empty or worthless fund is priced at 1.00
+CREATE OR REPLACE FUNCTION public.fund_nav_at(p_trader_id UUID, p_as_of TIMESTAMPTZ)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN fund.units > 0 AND valuation.fund_value > 0 THEN valuation.fund_value / fund.units ELSE 1 END
+  FROM public.fund_valuation(p_trader_id, p_as_of) valuation,
+    (SELECT COALESCE(SUM(cu.units), 0) AS units
+     FROM public.capital_units cu
+     WHERE cu.trader_id = p_trader_id AND cu.created_at <= p_as_of) fund;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_fee_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  outstanding NUMERIC;
+BEGIN
+  -- Statements carry the high-water mark; the schedule they ran under stays
+  IF TG_OP = 'DELETE' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.fee_statements s
+      WHERE s.trader_id = OLD.trader_id AND s.investor_id = OLD.investor_id
+    )
+    -- Rows removed by an account deletion cascade go with their statements
+    AND EXISTS (SELECT 1 FROM public.users WHERE id = OLD.trader_id)
+    AND EXISTS (SELECT 1 FROM public.users WHERE id = OLD.investor_id) THEN
+      RAISE EXCEPTION 'Fees have been crystallized under this schedule, so it cannot be deleted'
+        USING ERRCODE = 'check_violation',
+          HINT = 'Set its rates to zero to stop charging fees';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NOT EXISTS (
+    SELECT 1 FROM public.bindings b
+    WHERE b.trader_id = NEW.trader_id
+    AND b.investor_id = NEW.investor_id
+    AND b.status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Fees can only be set for an approved investor'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- An upsert of an existing schedule fires this as an insert too; it goes
+  -- on as an update, which keeps the start below
+  IF TG_OP = 'INSERT' AND NOT EXISTS (
+    SELECT 1 FROM public.fee_schedules fs
+    WHERE fs.trader_id = NEW.trader_id AND fs.investor_id = NEW.investor_id
+  ) THEN
+    IF EXISTS (
+      SELECT 1 FROM public.fee_statements s
+      WHERE s.trader_id = NEW.trader_id AND s.investor_id = NEW.investor_id
+    ) THEN
+      RAISE EXCEPTION 'Fees have already been crystallized for this investor'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.starts_at := now();
+
+    SELECT COALESCE(SUM(cu.units), 0) INTO outstanding
+    FROM public.capital_units cu
+    WHERE cu.trader_id = NEW.trader_id;
+
+    -- The starting balance must be priced at the fund's actual NAV
+    IF outstanding > 0 THEN
+      PERFORM public.check_fund_value(NEW.trader_id, NEW.start_nav_per_unit * outstanding);
+    END IF;
+  END IF;
+
+  -- The parties, accrual start and starting balance are fixed once set
+  IF TG_OP = 'UPDATE' THEN
+    NEW.trader_id := OLD.trader_id;
+    NEW.investor_id := OLD.investor_id;
+    NEW.starts_at := OLD.starts_at;
+    NEW.start_nav_per_unit := OLD.start_nav_per_unit;
+    NEW.updated_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_fee_schedule_trigger ON public.fee_schedules;
+CREATE TRIGGER check_fee_schedule_trigger
+  BEFORE INSERT OR UPDATE OR DELETE ON public.fee_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_fee_schedule();
+
+DROP FUNCTION IF EXISTS public.crystallize_fees(UUID, TIMESTAMPTZ, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC);
+DROP FUNCTION IF EXISTS public.crystallize_fees(UUID, TIMESTAMPTZ, NUMERIC);
+
+/*
+  Fees are computed here from the schedule, the investor's unit history and
+  their previous statement, the same way as `accrueFees()` in the app, at the
+  fund's NAV at the end of the period.
+*/
+CREATE OR REPLACE FUNCTION public.crystallize_fees(
+  p_investor_id UUID,
+  p_period_start TIMESTAMPTZ
+)
+RETURNS public.fee_statements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule public.fee_schedules%ROWTYPE;
+  fee_statement public.fee_statements%ROWTYPE;
+  previous public.fee_statements%ROWTYPE;
+  entry public.capital_units%ROWTYPE;
+  expected_start TIMESTAMPTZ;
+  expected_end TIMESTAMPTZ;
+  nav NUMERIC;
+  held NUMERIC;
+  running_units NUMERIC;
+  unit_years NUMERIC := 0;
+  accrued_to TIMESTAMPTZ;
+  years NUMERIC;
+  mark NUMERIC;
+  threshold NUMERIC;
+  gross NUMERIC;
+  management NUMERIC;
+  performance NUMERIC;
+  total_fee NUMERIC;
+  transfer_units NUMERIC;
+BEGIN
+  SELECT * INTO schedule
+  FROM public.fee_schedules
+  WHERE trader_id = auth.uid() AND investor_id = p_investor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No fee schedule for this investor';
+  END IF;
+
+  -- Same lock as unit issues, so the fee is priced over settled units
+  PERFORM 1 FROM public.users WHERE id = auth.uid() FOR UPDATE;
+
+  SELECT * INTO previous
+  FROM public.fee_statements s
+  WHERE s.trader_id = auth.uid() AND s.investor_id = p_investor_id
+  ORDER BY s.period_end DESC
+  LIMIT 1;
+  expected_start := COALESCE(previous.period_end, schedule.starts_at);
+
+  IF p_period_start IS DISTINCT FROM expected_start THEN
+    RAISE EXCEPTION 'Fees for this period were already crystallized'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+  expected_end := public.fee_period_end(expected_start, schedule.crystallization);
+  IF expected_end > now() THEN
+    RAISE EXCEPTION 'The % fee period has not ended yet', schedule.crystallization
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  nav := public.fund_nav_at(auth.uid(), expected_end);
+
+  SELECT COALESCE(SUM(cu.units), 0) INTO running_units
+  FROM public.capital_units cu
+  WHERE cu.trader_id = auth.uid() AND cu.holder_id = p_investor_id
+  AND cu.created_at <= expected_start;
+
+  mark := CASE
+    WHEN previous.id IS NOT NULL THEN previous.closing_high_water_mark
+    ELSE running_units * schedule.start_nav_per_unit
+  END;
+  threshold := mark;
+  accrued_to := expected_start;
+
+  -- Replay the period's movements: units held times years held for the
+  -- management fee, and the high-water mark and hurdle adjusted for flows
+  FOR entry IN
+    SELECT * FROM public.capital_units cu
+    WHERE cu.trader_id = auth.uid() AND cu.holder_id = p_investor_id
+    AND cu.created_at > expected_start AND cu.created_at <= expected_end
+    ORDER BY cu.created_at
+  LOOP
+    years := GREATEST(EXTRACT(EPOCH FROM entry.created_at - accrued_to), 0) / (365 * 86400);
+    unit_years := unit_years + running_units * years;
+    threshold := threshold * (1 + schedule.hurdle_rate * years);
+    accrued_to := GREATEST(entry.created_at, accrued_to);
+
+    IF entry.kind = 'subscription' THEN
+      mark := mark + entry.amount;
+      threshold := threshold + entry.amount;
+    ELSIF entry.kind = 'redemption' AND running_units > 0 THEN
+      mark := mark * GREATEST(1 + entry.units / running_units, 0);
+      threshold := threshold * GREATEST(1 + entry.units / running_units, 0);
+    END IF;
+    running_units := running_units + entry.units;
+  END LOOP;
+
+  years := GREATEST(EXTRACT(EPOCH FROM expected_end - accrued_to), 0) / (365 * 86400);
+  unit_years := unit_years + running_units * years;
+  threshold := threshold * (1 + schedule.hurdle_rate * years);
+
+  gross := GREATEST(running_units, 0) * nav;
+  management := LEAST(schedule.management_rate * unit_years * nav, gross);
+  performance := schedule.performance_rate * GREATEST(gross - management - threshold, 0);
+  total_fee := management + performance;
+
+  SELECT COALESCE(SUM(cu.units), 0) INTO held
+  FROM public.capital_units cu
+  WHERE cu.trader_id = auth.uid() AND cu.holder_id = p_investor_id;
+
+  transfer_units := total_fee / nav;
+  IF transfer_units > held * 1.000001 THEN
+    RAISE EXCEPTION 'Fees exceed the investor''s balance'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  transfer_units := LEAST(transfer_units, held);
+
+  INSERT INTO public.fee_statements (
+    trader_id, investor_id, period_start, period_end,
+    management_rate, performance_rate, hurdle_rate,
+    nav_per_unit, gross_balance, high_water_mark, hurdle_threshold,
+    management_fee, performance_fee, closing_high_water_mark, fee_units
+  )
+  VALUES (
+    auth.uid(), p_investor_id, expected_start, expected_end,
+    schedule.management_rate, schedule.performance_rate, schedule.hurdle_rate,
+    nav, gross, mark, threshold,
+    management, performance, GREATEST(mark, gross - total_fee), transfer_units
+  )
+  RETURNING * INTO fee_statement;
+
+  -- Dated at the period's end, so they fall before the next period however
+  -- late this one is crystallized
+  IF transfer_units > 0 THEN
+    INSERT INTO public.capital_units (trader_id, holder_id, fee_statement_id, kind, amount, units, nav_per_unit, created_at)
+    VALUES
+      (auth.uid(), p_investor_id, fee_statement.id, 'fee', total_fee, -transfer_units, nav, expected_end),
+      (auth.uid(), auth.uid(), fee_statement.id, 'fee', total_fee, transfer_units, nav, expected_end);
+  END IF;
+
+  RETURN fee_statement;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.fund_nav_at(UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.crystallize_fees(UUID, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,93 @@
+/*
+  # Imported trades sealed into the ledger
+
+  1. Changes
+    - A bulk import's audit entry records the imported rows themselves, not
+      only their ids, so its hash in the trade ledger covers the trades'
+      content, as it does for a trade created on its own
+
+  2. New Functions
+    - None; `import_trades()` is replaced
+
+  3. Security
+    - Unchanged
+*/
+
+CREATE OR REPLACE FUNCTION public.import_trades(p_trades JSONB, p_source TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  caller_role TEXT;
+  inserted_ids UUID[];
+  inserted_rows JSONB;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO caller_role FROM public.users WHERE id = caller;
+  IF caller_role IS DISTINCT FROM 'trader' THEN
+    RAISE EXCEPTION 'Only traders can import trades';
+  END IF;
+
+  IF jsonb_typeof(p_trades) <> 'array' OR jsonb_array_length(p_trades) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM set_config('cryptoflow.bulk_import', 'on', true);
+
+  WITH inserted AS (
+    INSERT INTO public.trades (
+      user_id, category, asset, price, currency, quantity,
+      trade_date, fees, profit_loss, details, notes
+    )
+    SELECT
+      caller,
+      t.category,
+      t.asset,
+      t.price,
+      COALESCE(t.currency, 'USD'),
+      t.quantity,
+      t.trade_date,
+      t.fees,
+      t.profit_loss,
+      t.details,
+      t.notes
+    FROM jsonb_to_recordset(p_trades) AS t(
+      category TEXT,
+      asset TEXT,
+      price DECIMAL,
+      currency TEXT,
+      quantity DECIMAL,
+      trade_date TIMESTAMP WITH TIME ZONE,
+      fees DECIMAL,
+      profit_loss DECIMAL,
+      details JSONB,
+      notes TEXT
+    )
+    RETURNING *
+  )
+  SELECT array_agg(inserted.id ORDER BY inserted.id), jsonb_agg(to_jsonb(inserted) ORDER BY inserted.id)
+  INTO inserted_ids, inserted_rows
+  FROM inserted;
+
+  PERFORM set_config('cryptoflow.bulk_import', 'off', true);
+
+  -- The rows as stored, like a single create entry, so the chain hashes them
+  INSERT INTO public.audit_log (trade_id, user_id, action, changes)
+  VALUES (NULL, caller, 'import', jsonb_build_object(
+    'source', p_source,
+    'count', COALESCE(array_length(inserted_ids, 1), 0),
+    'trade_ids', to_jsonb(COALESCE(inserted_ids, ARRAY[]::UUID[])),
+    'trades', COALESCE(inserted_rows, '[]'::jsonb)
+  ));
+
+  RETURN COALESCE(array_length(inserted_ids, 1), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_trades(JSONB, TEXT) TO authenticated;